@@ -57,8 +57,72 @@ interface Config {
             tmnCode: string;
             secretKey: string;
             url: string;
+            apiUrl: string;
             returnUrl: string;
         };
+        bankTransfer: {
+            bankName: string;
+            accountName: string;
+            accountNumber: string;
+        };
+        // Route card and VNPay payments through the local fake provider (tests and local development)
+        useFakeProvider: boolean;
+    };
+    returns: {
+        // Used when neither the product nor its category sets returnWindowDays
+        defaultWindowDays: number;
+    };
+    currency: {
+        // Currency catalogue prices are entered in; other currencies are converted from it
+        base: string;
+    };
+    tax: {
+        // Country used to estimate tax before the customer enters a shipping address
+        defaultCountry: string;
+    };
+    carriers: {
+        ghn: {
+            token: string;
+            shopId: string;
+            apiUrl: string;
+            // Shared secret appended to the callback URL configured in the GHN dashboard (?token=)
+            webhookToken: string;
+        };
+        ghtk: {
+            token: string;
+            apiUrl: string;
+            webhookToken: string;
+        };
+        // Pickup address sent to the carriers
+        sender: {
+            name: string;
+            phone: string;
+            address: string;
+            ward: string;
+            district: string;
+            province: string;
+        };
+        // Register the local fake carrier (tests and local development)
+        useFakeCarrier: boolean;
+    };
+    documents: {
+        // Seller details printed on invoices
+        sellerName: string;
+        sellerAddress: string;
+        sellerTaxId: string;
+        // Unicode TTF/OTF fonts; the built-in PDF fonts cannot render Vietnamese or Japanese
+        fontPath: string;
+        boldFontPath: string;
+    };
+    guestSession: {
+        // Signs guest session tokens; falls back to a key derived from the JWT secret
+        secret: string;
+        ttlDays: number;
+        cookieName: string;
+    };
+    orderTracking: {
+        // How long the signed order tracking links given to guests stay valid
+        linkTtlDays: number;
     };
 }
 
@@ -147,8 +211,66 @@ export const config: Config = {
             tmnCode: process.env.VNPAY_TMN_CODE || "",
             secretKey: process.env.VNPAY_SECRET_KEY || "",
             url: process.env.VNPAY_URL || "https://sandbox.vnpayment.vn/paymentv2/vpcpay.html",
+            apiUrl: process.env.VNPAY_API_URL || "https://sandbox.vnpayment.vn/merchant_webapi/api/transaction",
             returnUrl: process.env.VNPAY_RETURN_URL || "http://localhost:3000/payment/return"
-        }
+        },
+        bankTransfer: {
+            bankName: process.env.BANK_TRANSFER_BANK_NAME || "",
+            accountName: process.env.BANK_TRANSFER_ACCOUNT_NAME || "",
+            accountNumber: process.env.BANK_TRANSFER_ACCOUNT_NUMBER || ""
+        },
+        useFakeProvider: process.env.PAYMENT_FAKE_PROVIDER === "true" || process.env.NODE_ENV === "test"
+    },
+    returns: {
+        defaultWindowDays: parseInt(process.env.RETURN_WINDOW_DAYS || "30", 10)
+    },
+    currency: {
+        base: (process.env.CURRENCY_BASE || "VND").toUpperCase()
+    },
+
+    tax: {
+        defaultCountry: (process.env.TAX_DEFAULT_COUNTRY || "VN").toUpperCase()
+    },
+
+    carriers: {
+        ghn: {
+            token: process.env.GHN_TOKEN || "",
+            shopId: process.env.GHN_SHOP_ID || "",
+            apiUrl: process.env.GHN_API_URL || "https://dev-online-gateway.ghn.vn/shiip/public-api",
+            webhookToken: process.env.GHN_WEBHOOK_TOKEN || ""
+        },
+        ghtk: {
+            token: process.env.GHTK_TOKEN || "",
+            apiUrl: process.env.GHTK_API_URL || "https://services-staging.ghtklab.com",
+            webhookToken: process.env.GHTK_WEBHOOK_TOKEN || ""
+        },
+        sender: {
+            name: process.env.SHIP_FROM_NAME || "",
+            phone: process.env.SHIP_FROM_PHONE || "",
+            address: process.env.SHIP_FROM_ADDRESS || "",
+            ward: process.env.SHIP_FROM_WARD || "",
+            district: process.env.SHIP_FROM_DISTRICT || "",
+            province: process.env.SHIP_FROM_PROVINCE || ""
+        },
+        useFakeCarrier: process.env.CARRIER_FAKE === "true" || process.env.NODE_ENV === "test"
+    },
+
+    documents: {
+        sellerName: process.env.INVOICE_SELLER_NAME || "ShopDev",
+        sellerAddress: process.env.INVOICE_SELLER_ADDRESS || "",
+        sellerTaxId: process.env.INVOICE_SELLER_TAX_ID || "",
+        fontPath: process.env.PDF_FONT_PATH || "",
+        boldFontPath: process.env.PDF_FONT_BOLD_PATH || ""
+    },
+
+    guestSession: {
+        secret: process.env.GUEST_SESSION_SECRET || "",
+        ttlDays: parseInt(process.env.GUEST_SESSION_TTL_DAYS || "30", 10),
+        cookieName: process.env.GUEST_SESSION_COOKIE || "guest_session"
+    },
+
+    orderTracking: {
+        linkTtlDays: parseInt(process.env.ORDER_TRACKING_LINK_TTL_DAYS || "180", 10)
     }
 };
 
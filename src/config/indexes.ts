@@ -30,12 +30,21 @@ export const createOptimizedIndexes = async (): Promise<void> => {
         // Cart Collection Indexes
         await createCartIndexes(db);
 
+        // Wishlist Collection Indexes
+        await createWishlistIndexes(db);
+
         // Order Collection Indexes
         await createOrderIndexes(db);
 
         // Review Collection Indexes
         await createReviewIndexes(db);
 
+        // Search Log Collection Indexes
+        await createSearchLogIndexes(db);
+
+        // Synonym, Redirect and Merchandising Rule Collection Indexes
+        await createMerchandisingIndexes(db);
+
         logger.info("✅ All database indexes created successfully");
 
         // Log index statistics
@@ -71,6 +80,12 @@ const createProductIndexes = async (db: any) => {
     // Primary indexes
     await collection.createIndex({ sku: 1 }, { unique: true, background: true });
     await collection.createIndex({ slug: 1 }, { unique: true, sparse: true, background: true });
+    await collection.createIndex({ slugHistory: 1 }, { background: true });
+    await collection.createIndex({ "search.keywords": 1 }, { background: true });
+    await collection.createIndex(
+        { "variants.sku": 1 },
+        { unique: true, partialFilterExpression: { "variants.sku": { $exists: true } }, background: true }
+    );
 
     // Category and brand indexes
     await collection.createIndex({ category: 1 }, { background: true });
@@ -149,6 +164,7 @@ const createCategoryIndexes = async (db: any) => {
 
     // Primary indexes
     await collection.createIndex({ slug: 1 }, { unique: true, background: true });
+    await collection.createIndex({ slugHistory: 1 }, { background: true });
     await collection.createIndex({ name: 1 }, { background: true });
 
     // Hierarchy indexes
@@ -171,6 +187,7 @@ const createBrandIndexes = async (db: any) => {
 
     // Primary indexes
     await collection.createIndex({ slug: 1 }, { unique: true, background: true });
+    await collection.createIndex({ slugHistory: 1 }, { background: true });
     await collection.createIndex({ name: 1 }, { unique: true, background: true });
 
     // Performance indexes
@@ -190,8 +207,31 @@ const createCartIndexes = async (db: any) => {
     const collection = db.collection("carts");
 
     // Primary indexes
-    await collection.createIndex({ user: 1 }, { unique: true, sparse: true, background: true });
-    await collection.createIndex({ sessionId: 1 }, { unique: true, sparse: true, background: true });
+    // Unique among active carts only, so checked-out and merged carts can be kept. Older databases
+    // have full unique indexes under the same names, which must go before the partial ones are created
+    const existingIndexes = await collection
+        .listIndexes()
+        .toArray()
+        .catch((error: any) => {
+            // A new database has no carts collection yet
+            if (error.codeName === "NamespaceNotFound") return [];
+            throw error;
+        });
+    for (const index of existingIndexes) {
+        if (["user_1", "sessionId_1"].includes(index.name) && !index.partialFilterExpression) {
+            logger.info(`🗑️ Dropping old cart index: ${index.name}`);
+            await collection.dropIndex(index.name);
+        }
+    }
+
+    await collection.createIndex(
+        { user: 1 },
+        { unique: true, partialFilterExpression: { isActive: true, user: { $exists: true } }, background: true }
+    );
+    await collection.createIndex(
+        { sessionId: 1 },
+        { unique: true, partialFilterExpression: { isActive: true, sessionId: { $exists: true } }, background: true }
+    );
 
     // Performance indexes
     await collection.createIndex({ isActive: 1 }, { background: true });
@@ -204,12 +244,64 @@ const createCartIndexes = async (db: any) => {
     logger.info("🛒 Cart indexes created");
 };
 
+const createWishlistIndexes = async (db: any) => {
+    const collection = db.collection("wishlists");
+
+    // Primary indexes
+    await collection.createIndex({ user: 1, createdAt: 1 }, { background: true });
+    // One default list per user
+    await collection.createIndex(
+        { user: 1 },
+        { unique: true, partialFilterExpression: { isDefault: true }, background: true }
+    );
+    await collection.createIndex(
+        { shareToken: 1 },
+        { unique: true, partialFilterExpression: { shareToken: { $exists: true } }, background: true }
+    );
+
+    // Demand reporting
+    await collection.createIndex({ "items.product": 1 }, { background: true });
+
+    logger.info("💝 Wishlist indexes created");
+};
+
+const createSearchLogIndexes = async (db: any) => {
+    const collection = db.collection("searchlogs");
+
+    // Logs are kept for 180 days
+    await collection.createIndex({ createdAt: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60, background: true });
+
+    // Per-query reports
+    await collection.createIndex({ normalizedQuery: 1, createdAt: -1 }, { background: true });
+
+    logger.info("🔎 Search log indexes created");
+};
+
+const createMerchandisingIndexes = async (db: any) => {
+    await db.collection("searchsynonyms").createIndex({ normalizedTerms: 1 }, { background: true });
+    await db.collection("searchredirects").createIndex({ normalizedQuery: 1 }, { unique: true, background: true });
+
+    // One rule per query and per category
+    const rules = db.collection("merchandisingrules");
+    await rules.createIndex(
+        { normalizedQuery: 1 },
+        { unique: true, partialFilterExpression: { normalizedQuery: { $exists: true } }, background: true }
+    );
+    await rules.createIndex(
+        { category: 1 },
+        { unique: true, partialFilterExpression: { category: { $exists: true } }, background: true }
+    );
+
+    logger.info("📌 Merchandising indexes created");
+};
+
 const createOrderIndexes = async (db: any) => {
     const collection = db.collection("orders");
 
     // Primary indexes
     await collection.createIndex({ orderNumber: 1 }, { unique: true, background: true });
     await collection.createIndex({ user: 1 }, { background: true });
+    await collection.createIndex({ email: 1, createdAt: -1 }, { background: true });
 
     // Status indexes
     await collection.createIndex({ status: 1 }, { background: true });
@@ -289,7 +289,8 @@ export const CACHE_PREFIXES = {
     CARTS: "carts",
     REVIEWS: "reviews",
     SEARCH: "search",
-    SESSIONS: "sessions"
+    SESSIONS: "sessions",
+    CURRENCIES: "currencies"
 } as const;
 
 // Cache TTL constants (in seconds)
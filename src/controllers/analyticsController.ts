@@ -4,6 +4,7 @@ import { ApiResponse } from '../utils/apiResponse';
 import { eventService } from '../services/eventService';
 import { performanceMonitor } from '../utils/performance';
 import { cacheService } from '../services/cacheService';
+import { SearchAnalyticsService, SearchReportRange } from '../services/searchAnalyticsService';
 import { Product } from '../models/Product';
 import { User } from '../models/User';
 import { Order } from '../models/Order';
@@ -267,6 +268,39 @@ export const getConversionFunnel = asyncHandler(async (req: Request, res: Respon
     res.json(new ApiResponse(true, 'Conversion funnel analytics retrieved successfully', funnel));
 });
 
+// Date range and row limit of the search reports (validated by searchReportQuerySchema)
+const getSearchReportRange = (req: Request): SearchReportRange => {
+    const { dateFrom, dateTo, limit } = req.query as Record<string, any>;
+    return { dateFrom, dateTo, limit };
+};
+
+/**
+ * Get the most searched queries with their click-through and conversion rates
+ */
+export const getTopSearchQueries = asyncHandler(async (req: Request, res: Response) => {
+    const queries = await SearchAnalyticsService.getTopQueries(getSearchReportRange(req));
+
+    res.json(new ApiResponse(true, 'Top search queries retrieved successfully', queries));
+});
+
+/**
+ * Get the queries that found no products
+ */
+export const getZeroResultSearchQueries = asyncHandler(async (req: Request, res: Response) => {
+    const queries = await SearchAnalyticsService.getZeroResultQueries(getSearchReportRange(req));
+
+    res.json(new ApiResponse(true, 'Zero result search queries retrieved successfully', queries));
+});
+
+/**
+ * Get search-to-click and search-to-cart conversion, overall and per day
+ */
+export const getSearchConversion = asyncHandler(async (req: Request, res: Response) => {
+    const conversion = await SearchAnalyticsService.getConversion(getSearchReportRange(req));
+
+    res.json(new ApiResponse(true, 'Search conversion retrieved successfully', conversion));
+});
+
 /**
  * Export analytics data
  */
@@ -1,7 +1,18 @@
 import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/authService";
+import { mergeGuestSession } from "../middleware/guestSession";
 import { asyncHandler } from "../utils/asyncHandler";
 import { ResponseHandler } from "../utils/response";
+import { logger } from "../utils/logger";
+
+// Carry over the cart the visitor filled as a guest; a failed merge must not fail the login
+const mergeGuestCart = async (req: Request, res: Response, user: { _id?: unknown }) => {
+    try {
+        await mergeGuestSession(req, res, String(user._id));
+    } catch (error) {
+        logger.warn("Guest cart merge on login failed:", error);
+    }
+};
 
 // @desc    Register user
 // @route   POST /api/v1/auth/register
@@ -16,6 +27,7 @@ export const register = asyncHandler(async (req: Request, res: Response, next: N
         password,
         phone
     });
+    await mergeGuestCart(req, res, result.user);
 
     ResponseHandler.authCreated(res, result, "User registered successfully.");
 });
@@ -27,6 +39,7 @@ export const login = asyncHandler(async (req: Request, res: Response, next: Next
     const { email, password } = req.body;
 
     const result = await AuthService.login({ email, password });
+    await mergeGuestCart(req, res, result.user);
 
     ResponseHandler.authSuccess(res, result, "Login successful");
 });
@@ -53,16 +53,21 @@ export const getBrand = asyncHandler(async (req: Request, res: Response, next: N
     ResponseHandler.success(res, brand, 'Brand retrieved successfully');
 });
 
-// @desc    Get brand by slug
+// @desc    Get brand by slug (an old slug redirects to the current one)
 // @route   GET /api/v1/brands/slug/:slug
 // @access  Public
 export const getBrandBySlug = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-    const brand = await Brand.findOne({ slug: req.params.slug });
+    const slug = req.params.slug.toLowerCase();
+    const brand = await Brand.findOne({ $or: [{ slug }, { slugHistory: slug }] });
 
     if (!brand) {
         return next(new AppError('Brand not found', 404));
     }
 
+    if (brand.slug !== req.params.slug) {
+        return res.redirect(301, `${req.baseUrl}/slug/${encodeURIComponent(brand.slug)}`);
+    }
+
     ResponseHandler.success(res, brand, 'Brand retrieved successfully');
 });
 
@@ -88,16 +93,16 @@ export const createBrand = asyncHandler(async (req: Request, res: Response, next
 // @route   PUT /api/v1/brands/:id
 // @access  Private (Admin)
 export const updateBrand = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-    const brand = await Brand.findByIdAndUpdate(
-        req.params.id,
-        req.body,
-        { new: true, runValidators: true }
-    );
+    // Saved rather than updated in place, so a rename regenerates the slug
+    const brand = await Brand.findById(req.params.id);
 
     if (!brand) {
         return next(new AppError('Brand not found', 404));
     }
 
+    brand.set(req.body);
+    await brand.save();
+
     ResponseHandler.success(res, brand, 'Brand updated successfully');
 });
 
@@ -2,27 +2,28 @@ import { Request, Response, NextFunction } from "express";
 import { CartService } from "../services/cartService";
 import { asyncHandler } from "../utils/asyncHandler";
 import { ResponseHandler } from "../utils/response";
+import { SearchAnalyticsService } from "../services/searchAnalyticsService";
 import { eventService } from "../services/eventService";
 import { performanceMonitor } from "../utils/performance";
 
-// @desc    Get cart
+// @desc    Get cart (priced in ?currency= or X-Currency when given)
 // @route   GET /api/v1/cart
 // @access  Public (with session) / Private
 export const getCart = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
+    const sessionId = req.guestSessionId;
 
-    const cart = await CartService.getCart(userId, sessionId);
+    const cart = await CartService.getCart(userId, sessionId, req.currency);
     ResponseHandler.success(res, cart, "Cart retrieved successfully");
 });
 
-// @desc    Add item to cart
+// @desc    Add item to cart (searchId, from the X-Search-Id header of search results, credits the search)
 // @route   POST /api/v1/cart/items
 // @access  Public (with session) / Private
 export const addToCart = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
-    const { productId, quantity, variant } = req.body;
+    const sessionId = req.guestSessionId;
+    const { productId, quantity, variantId, variant, searchId } = req.body;
 
     if (!productId || !quantity) {
         return ResponseHandler.badRequest(res, "Product ID and quantity are required");
@@ -32,7 +33,12 @@ export const addToCart = asyncHandler(async (req: Request, res: Response, next:
         return ResponseHandler.badRequest(res, "Quantity must be greater than 0");
     }
 
-    const cart = await CartService.addToCart({ productId, quantity, variant }, userId, sessionId);
+    const cart = await CartService.addToCart(
+        { productId, quantity, variantId, variant },
+        userId,
+        sessionId,
+        req.currency
+    );
 
     // Track add to cart event
     await eventService.emitProductEvent({
@@ -42,42 +48,48 @@ export const addToCart = asyncHandler(async (req: Request, res: Response, next:
         userId,
         sessionId,
         metadata: {
+            variantId,
             variant,
             userAgent: req.get("User-Agent"),
             ip: req.ip
         }
     });
 
+    if (searchId) {
+        await SearchAnalyticsService.recordCartAdd(searchId, productId);
+    }
+
     ResponseHandler.success(res, cart, "Item added to cart successfully");
 });
 
-// @desc    Update cart item
+// @desc    Update cart item (the line of one variant when variantId is given)
 // @route   PUT /api/v1/cart/items/:productId
 // @access  Public (with session) / Private
 export const updateCartItem = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
+    const sessionId = req.guestSessionId;
     const { productId } = req.params;
-    const { quantity } = req.body;
+    const { quantity, variantId } = req.body;
 
     if (quantity === undefined || quantity < 0) {
         return ResponseHandler.badRequest(res, "Valid quantity is required");
     }
 
-    const cart = await CartService.updateCartItem({ productId, quantity }, userId, sessionId);
+    const cart = await CartService.updateCartItem({ productId, variantId, quantity }, userId, sessionId);
 
     ResponseHandler.success(res, cart, "Cart item updated successfully");
 });
 
-// @desc    Remove item from cart
+// @desc    Remove item from cart (the line of one variant with ?variantId=)
 // @route   DELETE /api/v1/cart/items/:productId
 // @access  Public (with session) / Private
 export const removeFromCart = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
+    const sessionId = req.guestSessionId;
     const { productId } = req.params;
+    const variantId = typeof req.query.variantId === "string" ? req.query.variantId : undefined;
 
-    const cart = await CartService.removeFromCart(productId, userId, sessionId);
+    const cart = await CartService.removeFromCart(productId, userId, sessionId, variantId);
     ResponseHandler.success(res, cart, "Item removed from cart successfully");
 });
 
@@ -86,20 +98,27 @@ export const removeFromCart = asyncHandler(async (req: Request, res: Response, n
 // @access  Public (with session) / Private
 export const clearCart = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
+    const sessionId = req.guestSessionId;
 
     const cart = await CartService.clearCart(userId, sessionId);
     ResponseHandler.success(res, cart, "Cart cleared successfully");
 });
 
-// @desc    Get cart summary
+// @desc    Get cart summary (tax is estimated for ?country=&state=, or the store's default country)
 // @route   GET /api/v1/cart/summary
 // @access  Public (with session) / Private
 export const getCartSummary = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
+    const sessionId = req.guestSessionId;
 
-    const result = await CartService.getCartSummary(userId, sessionId);
+    const { country, state } = req.query as { country?: string; state?: string };
+
+    const result = await CartService.getCartSummary(
+        userId,
+        sessionId,
+        country ? { country, state } : undefined,
+        req.currency
+    );
 
     res.status(200).json({
         success: true,
@@ -109,14 +128,67 @@ export const getCartSummary = asyncHandler(async (req: Request, res: Response, n
     });
 });
 
+// @desc    Apply coupon code
+// @route   POST /api/v1/cart/coupon
+// @access  Public (with session) / Private
+export const applyCoupon = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user?.id;
+    const sessionId = req.guestSessionId;
+
+    await CartService.applyCoupon(req.body.code, userId, sessionId);
+    const result = await CartService.getCartSummary(userId, sessionId, undefined, req.currency);
+
+    res.status(200).json({
+        success: true,
+        message: "Coupon applied successfully",
+        data: result.cart,
+        summary: result.summary
+    });
+});
+
+// @desc    Remove coupon code
+// @route   DELETE /api/v1/cart/coupon
+// @access  Public (with session) / Private
+export const removeCoupon = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user?.id;
+    const sessionId = req.guestSessionId;
+
+    await CartService.removeCoupon(userId, sessionId);
+    const result = await CartService.getCartSummary(userId, sessionId, undefined, req.currency);
+
+    res.status(200).json({
+        success: true,
+        message: "Coupon removed successfully",
+        data: result.cart,
+        summary: result.summary
+    });
+});
+
+// @desc    Get shipping options for an address
+// @route   GET /api/v1/cart/shipping-options?country=&state=
+// @access  Public (with session) / Private
+export const getShippingOptions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user?.id;
+    const sessionId = req.guestSessionId;
+    const { country, state } = req.query as { country: string; state?: string };
+
+    const options = await CartService.getShippingOptions({ country, state }, userId, sessionId, req.currency);
+
+    res.status(200).json({
+        success: true,
+        message: "Shipping options retrieved successfully",
+        data: options
+    });
+});
+
 // @desc    Validate cart
 // @route   GET /api/v1/cart/validate
 // @access  Public (with session) / Private
 export const validateCart = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
+    const sessionId = req.guestSessionId;
 
-    const result = await CartService.validateCart(userId, sessionId);
+    const result = await CartService.validateCart(userId, sessionId, req.currency);
 
     res.status(200).json({
         success: true,
@@ -127,18 +199,12 @@ export const validateCart = asyncHandler(async (req: Request, res: Response, nex
     });
 });
 
-// @desc    Merge guest cart with user cart
+// @desc    Merge the cart of the request's guest session into the user's cart
 // @route   POST /api/v1/cart/merge
 // @access  Private
 export const mergeGuestCart = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-    const userId = req.user.id;
-    const { sessionId } = req.body;
-
-    if (!sessionId) {
-        return ResponseHandler.badRequest(res, "Session ID is required");
-    }
-
-    const cart = await CartService.mergeGuestCart(userId, sessionId);
+    // The guestSession middleware has already merged the signed guest session's cart, if any
+    const cart = await CartService.getCart(req.user.id, undefined, req.currency);
     ResponseHandler.success(res, cart, "Guest cart merged successfully");
 });
 
@@ -147,7 +213,7 @@ export const mergeGuestCart = asyncHandler(async (req: Request, res: Response, n
 // @access  Public (with session) / Private
 export const getCartItemCount = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user?.id;
-    const sessionId = (req as any).sessionID || (req.headers["x-session-id"] as string);
+    const sessionId = req.guestSessionId;
 
     const cart = await CartService.getCart(userId, sessionId);
 
@@ -38,11 +38,12 @@ export const getCategory = asyncHandler(async (req: Request, res: Response, next
     ResponseHandler.success(res, category, "Category retrieved successfully");
 });
 
-// @desc    Get category by slug
+// @desc    Get category by slug (an old slug redirects to the current one)
 // @route   GET /api/v1/categories/slug/:slug
 // @access  Public
 export const getCategoryBySlug = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-    const category = await Category.findOne({ slug: req.params.slug })
+    const slug = req.params.slug.toLowerCase();
+    const category = await Category.findOne({ $or: [{ slug }, { slugHistory: slug }] })
         .populate("parent", "name slug")
         .populate("children");
 
@@ -50,6 +51,10 @@ export const getCategoryBySlug = asyncHandler(async (req: Request, res: Response
         return next(new AppError("Category not found", 404));
     }
 
+    if (category.slug !== req.params.slug) {
+        return res.redirect(301, `${req.baseUrl}/slug/${encodeURIComponent(category.slug)}`);
+    }
+
     ResponseHandler.success(res, category, "Category retrieved successfully");
 });
 
@@ -102,15 +107,17 @@ export const updateCategory = asyncHandler(async (req: Request, res: Response, n
         }
     }
 
-    const category = await Category.findByIdAndUpdate(req.params.id, req.body, {
-        new: true,
-        runValidators: true
-    }).populate("parent", "name slug");
+    // Saved rather than updated in place, so a rename regenerates the slug
+    const category = await Category.findById(req.params.id);
 
     if (!category) {
         return next(new AppError("Category not found", 404));
     }
 
+    category.set(req.body);
+    await category.save();
+    await category.populate("parent", "name slug");
+
     ResponseHandler.success(res, category, "Category updated successfully");
 });
 
@@ -0,0 +1,104 @@
+import { Request, Response, NextFunction } from "express";
+import { Coupon } from "../models/Coupon";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+import { AppError } from "../utils/AppError";
+import { escapeRegex } from "../utils/validation";
+
+// @desc    Get all coupons
+// @route   GET /api/v1/coupons
+// @access  Private (Admin)
+export const getCoupons = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { isActive, search, page = 1, limit = 20 } = req.query;
+
+    const filter: any = {};
+
+    if (isActive !== undefined) {
+        filter.isActive = isActive === "true";
+    }
+
+    if (search) {
+        filter.code = new RegExp(escapeRegex(search as string), "i");
+    }
+
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const [coupons, total] = await Promise.all([
+        Coupon.find(filter)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(parseInt(limit as string)),
+        Coupon.countDocuments(filter)
+    ]);
+
+    ResponseHandler.paginated(
+        res,
+        coupons,
+        parseInt(page as string),
+        parseInt(limit as string),
+        total,
+        "Coupons retrieved successfully"
+    );
+});
+
+// @desc    Get single coupon
+// @route   GET /api/v1/coupons/:id
+// @access  Private (Admin)
+export const getCoupon = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const coupon = await Coupon.findById(req.params.id);
+
+    if (!coupon) {
+        return next(new AppError("Coupon not found", 404));
+    }
+
+    ResponseHandler.success(res, coupon, "Coupon retrieved successfully");
+});
+
+// @desc    Create coupon
+// @route   POST /api/v1/coupons
+// @access  Private (Admin)
+export const createCoupon = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const coupon = await Coupon.create({
+        ...req.body,
+        createdBy: req.user.id
+    });
+
+    ResponseHandler.created(res, coupon, "Coupon created successfully");
+});
+
+// @desc    Update coupon
+// @route   PUT /api/v1/coupons/:id
+// @access  Private (Admin)
+export const updateCoupon = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const coupon = await Coupon.findById(req.params.id);
+
+    if (!coupon) {
+        return next(new AppError("Coupon not found", 404));
+    }
+
+    // Saved through the document so the type-specific checks run
+    coupon.set(req.body);
+    await coupon.save();
+
+    ResponseHandler.success(res, coupon, "Coupon updated successfully");
+});
+
+// @desc    Delete coupon
+// @route   DELETE /api/v1/coupons/:id
+// @access  Private (Admin)
+export const deleteCoupon = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const coupon = await Coupon.findById(req.params.id);
+
+    if (!coupon) {
+        return next(new AppError("Coupon not found", 404));
+    }
+
+    // Redeemed coupons are referenced by orders; deactivate them instead
+    if (coupon.usageCount > 0) {
+        return next(new AppError("Cannot delete a coupon that has been used, deactivate it instead", 400));
+    }
+
+    await Coupon.findByIdAndDelete(req.params.id);
+
+    ResponseHandler.success(res, null, "Coupon deleted successfully");
+});
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from "express";
+import { CurrencyService } from "../services/currencyService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+
+// @desc    Get the base currency and the currencies prices can be shown in
+// @route   GET /api/v1/currencies
+// @access  Public
+export const getCurrencies = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const currencies = await CurrencyService.getSupportedCurrencies();
+
+    ResponseHandler.success(
+        res,
+        { base: CurrencyService.getBaseCurrency(), currencies },
+        "Currencies retrieved successfully"
+    );
+});
+
+// @desc    Get all exchange rates, including inactive ones
+// @route   GET /api/v1/currencies/rates
+// @access  Private (Admin)
+export const getExchangeRates = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const rates = await CurrencyService.listRates();
+    ResponseHandler.success(res, rates, "Exchange rates retrieved successfully");
+});
+
+// @desc    Create or update the exchange rate for a currency
+// @route   PUT /api/v1/currencies/rates/:currency
+// @access  Private (Admin)
+export const setExchangeRate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const rate = await CurrencyService.setRate(req.params.currency, req.body, req.user.id);
+    ResponseHandler.success(res, rate, "Exchange rate saved successfully");
+});
+
+// @desc    Delete the exchange rate for a currency
+// @route   DELETE /api/v1/currencies/rates/:currency
+// @access  Private (Admin)
+export const deleteExchangeRate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    await CurrencyService.deleteRate(req.params.currency);
+    ResponseHandler.success(res, null, "Exchange rate deleted successfully");
+});
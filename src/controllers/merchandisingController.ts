@@ -0,0 +1,200 @@
+import { Request, Response, NextFunction } from "express";
+import { SearchSynonym } from "../models/SearchSynonym";
+import { SearchRedirect } from "../models/SearchRedirect";
+import { MerchandisingRule } from "../models/MerchandisingRule";
+import { MerchandisingService } from "../services/merchandisingService";
+import { ProductService } from "../services/productService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+import { AppError } from "../utils/AppError";
+
+// Listings and searches cached under the old synonyms or rules are dropped
+const applyChanges = async (): Promise<void> => {
+    MerchandisingService.invalidate();
+    await ProductService.invalidateProductCache();
+};
+
+const PRODUCT_FIELDS = "name slug sku images";
+
+// ===== SYNONYMS =====
+
+// @desc    Get search synonyms
+// @route   GET /api/v1/merchandising/synonyms
+// @access  Private (Admin)
+export const getSearchSynonyms = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const synonyms = await SearchSynonym.find().sort({ createdAt: -1 });
+    ResponseHandler.success(res, synonyms, "Search synonyms retrieved successfully");
+});
+
+// @desc    Create a group of search synonyms
+// @route   POST /api/v1/merchandising/synonyms
+// @access  Private (Admin)
+export const createSearchSynonym = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const synonym = await SearchSynonym.create(req.body);
+    await applyChanges();
+
+    ResponseHandler.created(res, synonym, "Search synonym created successfully");
+});
+
+// @desc    Update a group of search synonyms
+// @route   PUT /api/v1/merchandising/synonyms/:id
+// @access  Private (Admin)
+export const updateSearchSynonym = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const synonym = await SearchSynonym.findById(req.params.id);
+
+    if (!synonym) {
+        return next(new AppError("Search synonym not found", 404));
+    }
+
+    synonym.set(req.body);
+    await synonym.save();
+    await applyChanges();
+
+    ResponseHandler.success(res, synonym, "Search synonym updated successfully");
+});
+
+// @desc    Delete a group of search synonyms
+// @route   DELETE /api/v1/merchandising/synonyms/:id
+// @access  Private (Admin)
+export const deleteSearchSynonym = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const synonym = await SearchSynonym.findByIdAndDelete(req.params.id);
+
+    if (!synonym) {
+        return next(new AppError("Search synonym not found", 404));
+    }
+
+    await applyChanges();
+    ResponseHandler.success(res, null, "Search synonym deleted successfully");
+});
+
+// ===== REDIRECTS =====
+
+// @desc    Get search redirects
+// @route   GET /api/v1/merchandising/redirects
+// @access  Private (Admin)
+export const getSearchRedirects = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const redirects = await SearchRedirect.find().sort({ normalizedQuery: 1 });
+    ResponseHandler.success(res, redirects, "Search redirects retrieved successfully");
+});
+
+// @desc    Create a search redirect
+// @route   POST /api/v1/merchandising/redirects
+// @access  Private (Admin)
+export const createSearchRedirect = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const redirect = await SearchRedirect.create(req.body);
+    await applyChanges();
+
+    ResponseHandler.created(res, redirect, "Search redirect created successfully");
+});
+
+// @desc    Update a search redirect
+// @route   PUT /api/v1/merchandising/redirects/:id
+// @access  Private (Admin)
+export const updateSearchRedirect = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const redirect = await SearchRedirect.findById(req.params.id);
+
+    if (!redirect) {
+        return next(new AppError("Search redirect not found", 404));
+    }
+
+    redirect.set(req.body);
+    await redirect.save();
+    await applyChanges();
+
+    ResponseHandler.success(res, redirect, "Search redirect updated successfully");
+});
+
+// @desc    Delete a search redirect
+// @route   DELETE /api/v1/merchandising/redirects/:id
+// @access  Private (Admin)
+export const deleteSearchRedirect = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const redirect = await SearchRedirect.findByIdAndDelete(req.params.id);
+
+    if (!redirect) {
+        return next(new AppError("Search redirect not found", 404));
+    }
+
+    await applyChanges();
+    ResponseHandler.success(res, null, "Search redirect deleted successfully");
+});
+
+// ===== RULES =====
+
+// @desc    Get merchandising rules
+// @route   GET /api/v1/merchandising/rules
+// @access  Private (Admin)
+export const getMerchandisingRules = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { category, isActive } = req.query;
+
+    const filter: any = {};
+
+    if (category) {
+        filter.category = category;
+    }
+
+    if (isActive !== undefined) {
+        filter.isActive = isActive === "true";
+    }
+
+    const rules = await MerchandisingRule.find(filter).populate("category", "name slug").sort({ name: 1 });
+
+    ResponseHandler.success(res, rules, "Merchandising rules retrieved successfully");
+});
+
+// @desc    Get single merchandising rule, with its products
+// @route   GET /api/v1/merchandising/rules/:id
+// @access  Private (Admin)
+export const getMerchandisingRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const rule = await MerchandisingRule.findById(req.params.id)
+        .populate("category", "name slug")
+        .populate("pinned.product", PRODUCT_FIELDS)
+        .populate("boosted", PRODUCT_FIELDS)
+        .populate("buried", PRODUCT_FIELDS);
+
+    if (!rule) {
+        return next(new AppError("Merchandising rule not found", 404));
+    }
+
+    ResponseHandler.success(res, rule, "Merchandising rule retrieved successfully");
+});
+
+// @desc    Create merchandising rule
+// @route   POST /api/v1/merchandising/rules
+// @access  Private (Admin)
+export const createMerchandisingRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const rule = await MerchandisingRule.create(req.body);
+    await applyChanges();
+
+    ResponseHandler.created(res, rule, "Merchandising rule created successfully");
+});
+
+// @desc    Update merchandising rule
+// @route   PUT /api/v1/merchandising/rules/:id
+// @access  Private (Admin)
+export const updateMerchandisingRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const rule = await MerchandisingRule.findById(req.params.id);
+
+    if (!rule) {
+        return next(new AppError("Merchandising rule not found", 404));
+    }
+
+    rule.set(req.body);
+    await rule.save();
+    await applyChanges();
+
+    ResponseHandler.success(res, rule, "Merchandising rule updated successfully");
+});
+
+// @desc    Delete merchandising rule
+// @route   DELETE /api/v1/merchandising/rules/:id
+// @access  Private (Admin)
+export const deleteMerchandisingRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const rule = await MerchandisingRule.findByIdAndDelete(req.params.id);
+
+    if (!rule) {
+        return next(new AppError("Merchandising rule not found", 404));
+    }
+
+    await applyChanges();
+    ResponseHandler.success(res, null, "Merchandising rule deleted successfully");
+});
@@ -0,0 +1,217 @@
+import { Request, Response, NextFunction } from "express";
+import { OrderService } from "../services/orderService";
+import { OrderTrackingService } from "../services/orderTrackingService";
+import { orderHistoryService } from "../services/orderHistoryService";
+import { DocumentService, RenderedDocument } from "../services/documentService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+
+// @desc    Create order from the active cart (checkout)
+// @route   POST /api/v1/orders
+// @access  Private
+export const createOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const result = await OrderService.createOrder(req.body, req.user.id, { ipAddress: req.ip });
+    ResponseHandler.created(res, result, "Order created successfully");
+});
+
+// @desc    Create order from the guest session's cart (guest checkout)
+// @route   POST /api/v1/orders/guest
+// @access  Public (with session)
+export const createGuestOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const result = await OrderService.createGuestOrder(req.body, req.guestSessionId!, { ipAddress: req.ip });
+
+    // The guest follows the order with this link, and can turn it into an account from there
+    ResponseHandler.created(
+        res,
+        { ...result, trackingToken: OrderTrackingService.createToken(result.order) },
+        "Order created successfully"
+    );
+});
+
+// @desc    Track an order by its number and the email it was placed with
+// @route   POST /api/v1/orders/lookup
+// @access  Public
+export const lookupOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const tracking = await OrderTrackingService.lookup(req.body.orderNumber, req.body.email);
+    ResponseHandler.success(res, tracking, "Order retrieved successfully");
+});
+
+// @desc    Track an order from its signed tracking link
+// @route   GET /api/v1/orders/track/:token
+// @access  Public
+export const trackOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const tracking = await OrderTrackingService.lookupByToken(req.params.token);
+    ResponseHandler.success(res, tracking, "Order retrieved successfully");
+});
+
+// @desc    Create an account for a guest order's email, attaching the guest's orders to it
+// @route   POST /api/v1/orders/track/:token/account
+// @access  Public
+export const createAccountFromOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const result = await OrderTrackingService.createAccount(req.params.token, req.body);
+    ResponseHandler.authCreated(res, result, "Account created successfully");
+});
+
+// @desc    Get current user's orders
+// @route   GET /api/v1/orders
+// @access  Private
+export const getOrders = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { page, limit, sort, order, status, dateFrom, dateTo } = req.query;
+
+    if ((dateFrom && isNaN(Date.parse(dateFrom as string))) || (dateTo && isNaN(Date.parse(dateTo as string)))) {
+        return ResponseHandler.badRequest(res, "dateFrom and dateTo must be valid dates");
+    }
+
+    const filters = {
+        status: status ? (status as string).toLowerCase() : undefined,
+        dateFrom: dateFrom as string,
+        dateTo: dateTo as string
+    };
+
+    const query = {
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        sort: sort as string,
+        order: order as "asc" | "desc"
+    };
+
+    const result = await OrderService.getUserOrders(req.user.id, filters, query);
+
+    ResponseHandler.paginated(
+        res,
+        result.orders,
+        result.pagination.page,
+        result.pagination.limit,
+        result.pagination.total,
+        "Orders retrieved successfully"
+    );
+});
+
+// @desc    Get single order
+// @route   GET /api/v1/orders/:id
+// @access  Private
+export const getOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const order = await OrderService.getUserOrderById(req.params.id, req.user.id);
+    ResponseHandler.success(res, order, "Order retrieved successfully");
+});
+
+// @desc    Cancel order
+// @route   PUT /api/v1/orders/:id/cancel
+// @access  Private
+export const cancelOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const order = await OrderService.cancelUserOrder(req.params.id, req.user.id, req.body?.reason);
+    ResponseHandler.success(res, order, "Order cancelled successfully");
+});
+
+// @desc    Get all orders (admin dashboard)
+// @route   GET /api/v1/orders/admin/all
+// @access  Private (Admin)
+export const getAdminOrders = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { page, size, sort, order, status, paymentStatus, dateFrom, dateTo, search } = req.query;
+
+    if ((dateFrom && isNaN(Date.parse(dateFrom as string))) || (dateTo && isNaN(Date.parse(dateTo as string)))) {
+        return ResponseHandler.badRequest(res, "dateFrom and dateTo must be valid dates");
+    }
+
+    // The dashboard uses zero-based pages
+    const pageIndex = Math.max(0, parseInt(page as string) || 0);
+    const pageSize = parseInt(size as string) || 10;
+
+    const filters = {
+        status: status ? (status as string).toLowerCase() : undefined,
+        paymentStatus: paymentStatus ? (paymentStatus as string).toLowerCase() : undefined,
+        dateFrom: dateFrom as string,
+        dateTo: dateTo as string,
+        search: search as string
+    };
+
+    const query = {
+        page: pageIndex + 1,
+        limit: pageSize,
+        sort: sort as string,
+        order: order as "asc" | "desc"
+    };
+
+    const result = await OrderService.getAllOrders(filters, query);
+
+    const content = result.orders.map((item: any) => ({
+        ...item,
+        id: item._id,
+        customerFullName: item.user
+            ? `${item.user.firstName} ${item.user.lastName}`
+            : `${item.shippingAddress.firstName} ${item.shippingAddress.lastName}`,
+        amount: item.total
+    }));
+
+    res.status(200).json({
+        success: true,
+        data: {
+            content,
+            page: pageIndex,
+            size: result.pagination.limit,
+            totalElements: result.pagination.total,
+            totalPages: result.pagination.pages,
+            first: pageIndex === 0,
+            last: pageIndex >= result.pagination.pages - 1
+        }
+    });
+});
+
+// @desc    Update order status
+// @route   PUT /api/v1/orders/:id/status
+// @access  Private (Admin)
+export const updateOrderStatus = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { status, note } = req.body;
+
+    if (!status) {
+        return ResponseHandler.badRequest(res, "Status is required");
+    }
+
+    // Case is normalised and the transition validated by the order state machine
+    const order = await OrderService.updateOrderStatus(req.params.id, status, note, req.user.id);
+    ResponseHandler.success(res, order, "Order status updated successfully");
+});
+
+// @desc    Refund order in full or per line item
+// @route   POST /api/v1/orders/:id/refund
+// @access  Private (Admin)
+export const refundOrder = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const order = await OrderService.refundOrder(req.params.id, req.body, req.user.id);
+    ResponseHandler.success(res, order, "Order refunded successfully");
+});
+
+// @desc    Get order status history
+// @route   GET /api/v1/orders/:id/history
+// @access  Private (Admin)
+export const getOrderHistory = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const history = await orderHistoryService.getOrderHistory(req.params.id);
+
+    res.status(200).json({
+        success: true,
+        data: history
+    });
+});
+
+// @desc    Download the order invoice as a PDF
+// @route   GET /api/v1/orders/:id/invoice.pdf
+// @access  Private
+export const getInvoice = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const isAdmin = ["admin", "ADMIN"].includes(req.user.role);
+    const invoice = await DocumentService.renderInvoice(req.params.id, req.language, isAdmin ? undefined : req.user.id);
+    sendPdf(res, invoice);
+});
+
+// @desc    Download the warehouse packing slip as a PDF
+// @route   GET /api/v1/orders/:id/packing-slip.pdf
+// @access  Private (Admin)
+export const getPackingSlip = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const packingSlip = await DocumentService.renderPackingSlip(req.params.id, req.language);
+    sendPdf(res, packingSlip);
+});
+
+const sendPdf = (res: Response, document: RenderedDocument) => {
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${document.filename}"`);
+    res.setHeader("Content-Length", document.content.length);
+    res.send(document.content);
+};
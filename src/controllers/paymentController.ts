@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from "express";
+import { PaymentService } from "../services/paymentService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+import { logger } from "../utils/logger";
+
+// VNPay IPN response codes
+const VNPAY_RSP_CODES: Record<number, { RspCode: string; Message: string }> = {
+    400: { RspCode: "97", Message: "Invalid signature" },
+    404: { RspCode: "01", Message: "Order not found" },
+    422: { RspCode: "04", Message: "Invalid amount" }
+};
+
+// @desc    Stripe webhook
+// @route   POST /api/v1/payments/webhooks/stripe
+// @access  Public (Stripe-Signature)
+export const stripeWebhook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { duplicate } = await PaymentService.handleCallback("stripe", {
+        headers: req.headers,
+        body: req.body,
+        rawBody: req.rawBody
+    });
+
+    res.status(200).json({ received: true, duplicate });
+});
+
+// @desc    VNPay instant payment notification (server to server)
+// @route   GET /api/v1/payments/vnpay/ipn
+// @access  Public (vnp_SecureHash)
+export const vnpayIpn = async (req: Request, res: Response) => {
+    // VNPay expects HTTP 200 with a response code, even for rejected notifications
+    try {
+        const { duplicate } = await PaymentService.handleCallback("vnpay", {
+            headers: req.headers,
+            query: req.query
+        });
+
+        res.status(200).json(
+            duplicate
+                ? { RspCode: "02", Message: "Order already confirmed" }
+                : { RspCode: "00", Message: "Confirm Success" }
+        );
+    } catch (error: any) {
+        logger.error("VNPay IPN error:", error);
+        res.status(200).json(VNPAY_RSP_CODES[error.statusCode] || { RspCode: "99", Message: "Unknown error" });
+    }
+};
+
+// @desc    VNPay return URL, called by the storefront with the query string VNPay redirected to
+// @route   GET /api/v1/payments/vnpay/return
+// @access  Public (vnp_SecureHash)
+export const vnpayReturn = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { order, callback } = await PaymentService.handleCallback("vnpay", {
+        headers: req.headers,
+        query: req.query
+    });
+
+    ResponseHandler.success(
+        res,
+        {
+            orderNumber: order.orderNumber,
+            orderStatus: order.status,
+            paymentStatus: order.payment.status,
+            paid: callback.status === "completed"
+        },
+        callback.status === "completed" ? "Payment successful" : "Payment failed"
+    );
+});
+
+// @desc    Fake provider webhook (tests and local development only)
+// @route   POST /api/v1/payments/webhooks/fake
+// @access  Public (x-fake-signature)
+export const fakeWebhook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { duplicate } = await PaymentService.handleCallback("fake", {
+        headers: req.headers,
+        body: req.body,
+        rawBody: req.rawBody
+    });
+
+    res.status(200).json({ received: true, duplicate });
+});
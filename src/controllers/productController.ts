@@ -1,43 +1,52 @@
 import { Request, Response, NextFunction } from "express";
 import { ProductService } from "../services/productService";
+import { CurrencyService } from "../services/currencyService";
+import { SearchService } from "../services/searchService";
+import { SearchAnalyticsService } from "../services/searchAnalyticsService";
+import { MerchandisingService } from "../services/merchandisingService";
 import { asyncHandler } from "../utils/asyncHandler";
 import { ResponseHandler } from "../utils/response";
 import { eventService } from "../services/eventService";
 import { performanceMonitor } from "../utils/performance";
 
-// @desc    Get all products
-// @route   GET /api/v1/products
-// @access  Public
-export const getProducts = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-    const {
-        page,
-        limit,
-        sort,
-        order,
-        category,
-        brand,
-        minPrice,
-        maxPrice,
-        tags,
-        status,
-        isVisible,
-        isFeatured,
-        onSale,
-        inStock,
-        search
-    } = req.query;
+// Price filters are given in minor units of the requested currency; catalogue prices are stored in the base currency
+const parsePriceFilter = async (value: unknown, currency?: string): Promise<number | undefined> => {
+    const amount = parseInt(value as string, 10);
+    if (Number.isNaN(amount)) {
+        return undefined;
+    }
 
-    const filters = {
-        category: category as string,
-        brand: brand as string,
-        minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
-        maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+    return currency ? CurrencyService.convert(amount, CurrencyService.getBaseCurrency(), currency) : amount;
+};
+
+// Filters shared by the product list, search and facets. category and brand take comma-separated ids.
+const parseProductFilters = async (query: Request["query"], currency?: string) => {
+    const { category, brand, minPrice, maxPrice, minRating, tags, status, isVisible, isFeatured, onSale, inStock } =
+        query;
+
+    return {
+        category: category ? (category as string).split(",") : undefined,
+        brand: brand ? (brand as string).split(",") : undefined,
+        minPrice: await parsePriceFilter(minPrice, currency),
+        maxPrice: await parsePriceFilter(maxPrice, currency),
+        minRating: minRating ? parseFloat(minRating as string) || undefined : undefined,
         tags: tags ? (tags as string).split(",") : undefined,
         status: status as string,
         isVisible: isVisible ? isVisible === "true" : undefined,
         isFeatured: isFeatured ? isFeatured === "true" : undefined,
         onSale: onSale ? onSale === "true" : undefined,
-        inStock: inStock ? inStock === "true" : undefined,
+        inStock: inStock ? inStock === "true" : undefined
+    };
+};
+
+// @desc    Get all products (priced in ?currency= or X-Currency, else the base currency)
+// @route   GET /api/v1/products
+// @access  Public
+export const getProducts = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { page, limit, sort, order, search } = req.query;
+
+    const filters = {
+        ...(await parseProductFilters(req.query, req.currency)),
         search: search as string
     };
 
@@ -52,7 +61,7 @@ export const getProducts = asyncHandler(async (req: Request, res: Response, next
 
     ResponseHandler.paginated(
         res,
-        result.products,
+        await CurrencyService.localizeProducts(result.products, req.currency),
         result.pagination.page,
         result.pagination.limit,
         result.pagination.total,
@@ -60,6 +69,30 @@ export const getProducts = asyncHandler(async (req: Request, res: Response, next
     );
 });
 
+// @desc    Get filter counts for the products matching the same filters as the list
+// @route   GET /api/v1/products/facets
+// @access  Public
+export const getProductFacets = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const filters = {
+        ...(await parseProductFilters(req.query, req.currency)),
+        search: (req.query.search || req.query.q) as string
+    };
+
+    const facets = await ProductService.getProductFacets(filters);
+
+    // Price buckets are shown in the requested currency, like the products
+    if (req.currency) {
+        const converter = await CurrencyService.getConverter(req.currency);
+        facets.price = facets.price.map((bucket) => ({
+            ...bucket,
+            min: converter.convert(bucket.min),
+            max: converter.convert(bucket.max)
+        }));
+    }
+
+    ResponseHandler.success(res, facets, "Product facets retrieved successfully");
+});
+
 // @desc    Get single product
 // @route   GET /api/v1/products/:id
 // @access  Public
@@ -85,7 +118,40 @@ export const getProduct = asyncHandler(async (req: Request, res: Response, next:
     const responseTime = performance.now() - startTime;
     performanceMonitor.recordMetric("product_view_time", responseTime);
 
-    ResponseHandler.success(res, product, "Product retrieved successfully");
+    ResponseHandler.success(
+        res,
+        await CurrencyService.localizeProduct(product, req.currency),
+        "Product retrieved successfully"
+    );
+});
+
+// @desc    Get single product by slug (an old slug redirects to the current one)
+// @route   GET /api/v1/products/slug/:slug
+// @access  Public
+export const getProductBySlug = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const product = await ProductService.getProductBySlug(req.params.slug);
+
+    if (product.slug !== req.params.slug) {
+        return res.redirect(301, `${req.baseUrl}/slug/${encodeURIComponent(product.slug)}`);
+    }
+
+    await eventService.emitProductEvent({
+        productId: product._id!.toString(),
+        action: "view",
+        userId: (req as any).user?.id,
+        sessionId: (req as any).sessionId,
+        metadata: {
+            userAgent: req.get("User-Agent"),
+            ip: req.ip,
+            referrer: req.get("Referrer")
+        }
+    });
+
+    ResponseHandler.success(
+        res,
+        await CurrencyService.localizeProduct(product, req.currency),
+        "Product retrieved successfully"
+    );
 });
 
 // @desc    Create product
@@ -118,10 +184,18 @@ export const deleteProduct = asyncHandler(async (req: Request, res: Response, ne
 export const getFeaturedProducts = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
     const products = await ProductService.getFeaturedProducts(limit);
-    ResponseHandler.success(res, products, "Featured products retrieved successfully");
+    ResponseHandler.success(
+        res,
+        await CurrencyService.localizeProducts(products, req.currency),
+        "Featured products retrieved successfully"
+    );
 });
 
-// @desc    Search products
+// Id of a logged search, to send back with clicks (and cart adds) on its results
+const SEARCH_ID_HEADER = "X-Search-Id";
+
+// @desc    Search products (the first page of each search is logged for search analytics). Queries
+//          with a redirect answer with { redirect } instead of results.
 // @route   GET /api/v1/products/search
 // @access  Public
 export const searchProducts = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
@@ -131,18 +205,12 @@ export const searchProducts = asyncHandler(async (req: Request, res: Response, n
         return ResponseHandler.badRequest(res, "Search term is required");
     }
 
-    const filters = {
-        category: otherQuery.category as string,
-        brand: otherQuery.brand as string,
-        minPrice: otherQuery.minPrice ? parseFloat(otherQuery.minPrice as string) : undefined,
-        maxPrice: otherQuery.maxPrice ? parseFloat(otherQuery.maxPrice as string) : undefined,
-        tags: otherQuery.tags ? (otherQuery.tags as string).split(",") : undefined,
-        status: otherQuery.status as string,
-        isVisible: otherQuery.isVisible ? otherQuery.isVisible === "true" : undefined,
-        isFeatured: otherQuery.isFeatured ? otherQuery.isFeatured === "true" : undefined,
-        onSale: otherQuery.onSale ? otherQuery.onSale === "true" : undefined,
-        inStock: otherQuery.inStock ? otherQuery.inStock === "true" : undefined
-    };
+    const redirect = await MerchandisingService.getRedirect(searchTerm as string);
+    if (redirect) {
+        return ResponseHandler.success(res, { redirect }, `Search for "${searchTerm}" redirected`);
+    }
+
+    const filters = await parseProductFilters(otherQuery, req.currency);
 
     const query = {
         page: otherQuery.page ? parseInt(otherQuery.page as string) : undefined,
@@ -153,9 +221,22 @@ export const searchProducts = asyncHandler(async (req: Request, res: Response, n
 
     const result = await ProductService.searchProducts(searchTerm as string, filters, query);
 
+    // Later pages belong to the same search, so clients keep the first page's id
+    if (result.pagination.page === 1) {
+        const searchId = await SearchAnalyticsService.logSearch({
+            query: searchTerm as string,
+            filters,
+            resultCount: result.pagination.total,
+            language: req.language
+        });
+        if (searchId) {
+            res.setHeader(SEARCH_ID_HEADER, searchId);
+        }
+    }
+
     ResponseHandler.paginated(
         res,
-        result.products,
+        await CurrencyService.localizeProducts(result.products, req.currency),
         result.pagination.page,
         result.pagination.limit,
         result.pagination.total,
@@ -163,17 +244,56 @@ export const searchProducts = asyncHandler(async (req: Request, res: Response, n
     );
 });
 
-// @desc    Update product stock
+// @desc    Record a click on a search result (position is its 1-based rank)
+// @route   POST /api/v1/products/search/:searchId/clicks
+// @access  Public
+export const recordSearchClick = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { productId, position } = req.body;
+
+    await SearchAnalyticsService.recordClick(req.params.searchId, productId, position);
+    ResponseHandler.success(res, null, "Search click recorded successfully");
+});
+
+// @desc    Suggest products as the shopper types (accent-insensitive; the last word may be unfinished)
+// @route   GET /api/v1/products/suggest
+// @access  Public
+export const suggestProducts = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { q, limit } = req.query;
+
+    const suggestions = q
+        ? await SearchService.suggest(q as string, limit ? parseInt(limit as string) : undefined)
+        : [];
+
+    ResponseHandler.success(res, suggestions, "Suggestions retrieved successfully");
+});
+
+// @desc    Generate a variant for every combination of option values (replacing the options when given)
+// @route   POST /api/v1/products/:id/variants/generate
+// @access  Private (Admin/Seller)
+export const generateProductVariants = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const product = await ProductService.generateVariants(req.params.id, req.body.options, req.user.id);
+    ResponseHandler.success(res, product, "Product variants generated successfully");
+});
+
+// @desc    Update a product variant
+// @route   PUT /api/v1/products/:id/variants/:variantId
+// @access  Private (Admin/Seller)
+export const updateProductVariant = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const product = await ProductService.updateVariant(req.params.id, req.params.variantId, req.body, req.user.id);
+    ResponseHandler.success(res, product, "Product variant updated successfully");
+});
+
+// @desc    Update product stock (of one variant when variantId is given)
 // @route   PUT /api/v1/products/:id/stock
 // @access  Private (Admin/Seller)
 export const updateProductStock = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-    const { quantity } = req.body;
+    const { quantity, variantId } = req.body;
 
     if (quantity === undefined || quantity < 0) {
         return ResponseHandler.badRequest(res, "Valid quantity is required");
     }
 
-    const product = await ProductService.updateStock(req.params.id, quantity);
+    const product = await ProductService.updateStock(req.params.id, quantity, variantId);
     ResponseHandler.success(res, product, "Product stock updated successfully");
 });
 
@@ -196,7 +316,7 @@ export const getProductsByCategory = asyncHandler(async (req: Request, res: Resp
 
     ResponseHandler.paginated(
         res,
-        result.products,
+        await CurrencyService.localizeProducts(result.products, req.currency),
         result.pagination.page,
         result.pagination.limit,
         result.pagination.total,
@@ -223,7 +343,7 @@ export const getProductsByBrand = asyncHandler(async (req: Request, res: Respons
 
     ResponseHandler.paginated(
         res,
-        result.products,
+        await CurrencyService.localizeProducts(result.products, req.currency),
         result.pagination.page,
         result.pagination.limit,
         result.pagination.total,
@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from "express";
+import { ReturnService } from "../services/returnService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+
+// @desc    Open a return request for items of a delivered order
+// @route   POST /api/v1/returns
+// @access  Private
+export const createReturn = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const returnRequest = await ReturnService.createReturn(req.body, req.user.id);
+    ResponseHandler.created(res, returnRequest, "Return request created successfully");
+});
+
+// @desc    Get current user's return requests
+// @route   GET /api/v1/returns
+// @access  Private
+export const getReturns = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { page, limit, sort, order } = req.query;
+
+    const result = await ReturnService.getUserReturns(req.user.id, {
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        sort: sort as string,
+        order: order as "asc" | "desc"
+    });
+
+    ResponseHandler.paginated(
+        res,
+        result.returns,
+        result.pagination.page,
+        result.pagination.limit,
+        result.pagination.total,
+        "Return requests retrieved successfully"
+    );
+});
+
+// @desc    Get single return request
+// @route   GET /api/v1/returns/:id
+// @access  Private
+export const getReturn = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const returnRequest = await ReturnService.getUserReturnById(req.params.id, req.user.id);
+    ResponseHandler.success(res, returnRequest, "Return request retrieved successfully");
+});
+
+// @desc    Get all return requests
+// @route   GET /api/v1/returns/admin/all
+// @access  Private (Admin)
+export const getAdminReturns = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { page, limit, sort, order, status } = req.query;
+
+    const result = await ReturnService.getAllReturns(
+        { status: status ? (status as string).toLowerCase() : undefined },
+        {
+            page: page ? parseInt(page as string) : undefined,
+            limit: limit ? parseInt(limit as string) : undefined,
+            sort: sort as string,
+            order: order as "asc" | "desc"
+        }
+    );
+
+    ResponseHandler.paginated(
+        res,
+        result.returns,
+        result.pagination.page,
+        result.pagination.limit,
+        result.pagination.total,
+        "Return requests retrieved successfully"
+    );
+});
+
+// @desc    Approve return request
+// @route   PUT /api/v1/returns/:id/approve
+// @access  Private (Admin)
+export const approveReturn = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const returnRequest = await ReturnService.approveReturn(req.params.id, req.user.id, req.body?.note);
+    ResponseHandler.success(res, returnRequest, "Return request approved");
+});
+
+// @desc    Reject return request
+// @route   PUT /api/v1/returns/:id/reject
+// @access  Private (Admin)
+export const rejectReturn = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const returnRequest = await ReturnService.rejectReturn(req.params.id, req.user.id, req.body?.note);
+    ResponseHandler.success(res, returnRequest, "Return request rejected");
+});
+
+// @desc    Mark returned items as received, refunding and restocking them
+// @route   PUT /api/v1/returns/:id/receive
+// @access  Private (Admin)
+export const receiveReturn = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const returnRequest = await ReturnService.receiveReturn(req.params.id, req.user.id, {
+        restock: req.body?.restock,
+        note: req.body?.note
+    });
+    ResponseHandler.success(res, returnRequest, "Return received and refunded");
+});
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from "express";
+import { ShipmentService } from "../services/shipmentService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+
+// @desc    Create a shipment (carrier label) for an order
+// @route   POST /api/v1/orders/:id/shipments
+// @access  Private (Admin)
+export const createShipment = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const shipment = await ShipmentService.createShipment(req.params.id, req.body, req.user.id);
+    ResponseHandler.created(res, shipment, "Shipment created successfully");
+});
+
+// @desc    Get an order's shipments and tracking
+// @route   GET /api/v1/orders/:id/shipments
+// @access  Private (own orders) / Admin
+export const getOrderShipments = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const isAdmin = ["admin", "ADMIN"].includes(req.user.role);
+    const shipments = await ShipmentService.getOrderShipments(req.params.id, isAdmin ? undefined : req.user.id);
+    ResponseHandler.success(res, shipments, "Shipments retrieved successfully");
+});
+
+// @desc    Pull the latest tracking from the carrier
+// @route   POST /api/v1/shipments/:id/refresh
+// @access  Private (Admin)
+export const refreshShipment = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const shipment = await ShipmentService.refreshTracking(req.params.id);
+    ResponseHandler.success(res, shipment, "Shipment tracking refreshed");
+});
+
+// @desc    Cancel a shipment that has not been picked up
+// @route   PUT /api/v1/shipments/:id/cancel
+// @access  Private (Admin)
+export const cancelShipment = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const shipment = await ShipmentService.cancelShipment(req.params.id, req.user.id);
+    ResponseHandler.success(res, shipment, "Shipment cancelled successfully");
+});
+
+// @desc    Carrier status webhook
+// @route   POST /api/v1/shipments/webhooks/:carrier
+// @access  Public (carrier token / signature)
+export const carrierWebhook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { duplicate } = await ShipmentService.handleWebhook(req.params.carrier, {
+        headers: req.headers,
+        query: req.query,
+        body: req.body,
+        rawBody: req.rawBody
+    });
+
+    res.status(200).json({ received: true, duplicate });
+});
@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from "express";
+import { ShippingZone } from "../models/ShippingZone";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+import { AppError } from "../utils/AppError";
+
+// @desc    Get all shipping zones
+// @route   GET /api/v1/shipping-zones
+// @access  Private (Admin)
+export const getShippingZones = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { country, isActive } = req.query;
+
+    const filter: any = {};
+
+    if (country) {
+        filter.countries = (country as string).toUpperCase();
+    }
+
+    if (isActive !== undefined) {
+        filter.isActive = isActive === "true";
+    }
+
+    const zones = await ShippingZone.find(filter).sort({ priority: -1, name: 1 });
+
+    ResponseHandler.success(res, zones, "Shipping zones retrieved successfully");
+});
+
+// @desc    Get single shipping zone
+// @route   GET /api/v1/shipping-zones/:id
+// @access  Private (Admin)
+export const getShippingZone = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const zone = await ShippingZone.findById(req.params.id);
+
+    if (!zone) {
+        return next(new AppError("Shipping zone not found", 404));
+    }
+
+    ResponseHandler.success(res, zone, "Shipping zone retrieved successfully");
+});
+
+// @desc    Create shipping zone
+// @route   POST /api/v1/shipping-zones
+// @access  Private (Admin)
+export const createShippingZone = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const zone = await ShippingZone.create(req.body);
+
+    ResponseHandler.created(res, zone, "Shipping zone created successfully");
+});
+
+// @desc    Update shipping zone (methods are replaced as a whole)
+// @route   PUT /api/v1/shipping-zones/:id
+// @access  Private (Admin)
+export const updateShippingZone = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const zone = await ShippingZone.findById(req.params.id);
+
+    if (!zone) {
+        return next(new AppError("Shipping zone not found", 404));
+    }
+
+    // Saved through the document so the method checks run
+    zone.set(req.body);
+    await zone.save();
+
+    ResponseHandler.success(res, zone, "Shipping zone updated successfully");
+});
+
+// @desc    Delete shipping zone
+// @route   DELETE /api/v1/shipping-zones/:id
+// @access  Private (Admin)
+export const deleteShippingZone = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const zone = await ShippingZone.findByIdAndDelete(req.params.id);
+
+    if (!zone) {
+        return next(new AppError("Shipping zone not found", 404));
+    }
+
+    ResponseHandler.success(res, null, "Shipping zone deleted successfully");
+});
@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from "express";
+import { TaxRule } from "../models/TaxRule";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+import { AppError } from "../utils/AppError";
+
+// @desc    Get all tax rules
+// @route   GET /api/v1/tax-rules
+// @access  Private (Admin)
+export const getTaxRules = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { country, isActive } = req.query;
+
+    const filter: any = {};
+
+    if (country) {
+        filter.country = (country as string).toUpperCase();
+    }
+
+    if (isActive !== undefined) {
+        filter.isActive = isActive === "true";
+    }
+
+    const taxRules = await TaxRule.find(filter)
+        .populate("category", "name slug")
+        .sort({ country: 1, state: 1, priority: -1 });
+
+    ResponseHandler.success(res, taxRules, "Tax rules retrieved successfully");
+});
+
+// @desc    Get single tax rule
+// @route   GET /api/v1/tax-rules/:id
+// @access  Private (Admin)
+export const getTaxRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const taxRule = await TaxRule.findById(req.params.id).populate("category", "name slug");
+
+    if (!taxRule) {
+        return next(new AppError("Tax rule not found", 404));
+    }
+
+    ResponseHandler.success(res, taxRule, "Tax rule retrieved successfully");
+});
+
+// @desc    Create tax rule
+// @route   POST /api/v1/tax-rules
+// @access  Private (Admin)
+export const createTaxRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const taxRule = await TaxRule.create(req.body);
+
+    ResponseHandler.created(res, taxRule, "Tax rule created successfully");
+});
+
+// @desc    Update tax rule
+// @route   PUT /api/v1/tax-rules/:id
+// @access  Private (Admin)
+export const updateTaxRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const taxRule = await TaxRule.findByIdAndUpdate(req.params.id, req.body, {
+        new: true,
+        runValidators: true
+    });
+
+    if (!taxRule) {
+        return next(new AppError("Tax rule not found", 404));
+    }
+
+    ResponseHandler.success(res, taxRule, "Tax rule updated successfully");
+});
+
+// @desc    Delete tax rule
+// @route   DELETE /api/v1/tax-rules/:id
+// @access  Private (Admin)
+export const deleteTaxRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Placed orders keep their own tax breakdown, so rules can be removed safely
+    const taxRule = await TaxRule.findByIdAndDelete(req.params.id);
+
+    if (!taxRule) {
+        return next(new AppError("Tax rule not found", 404));
+    }
+
+    ResponseHandler.success(res, null, "Tax rule deleted successfully");
+});
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from "express";
+import { WishlistService } from "../services/wishlistService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ResponseHandler } from "../utils/response";
+
+// @desc    Get current user's wishlists
+// @route   GET /api/v1/wishlists
+// @access  Private
+export const getWishlists = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlists = await WishlistService.getWishlists(req.user.id);
+    ResponseHandler.success(res, wishlists, "Wishlists retrieved successfully");
+});
+
+// @desc    Get single wishlist
+// @route   GET /api/v1/wishlists/:id
+// @access  Private
+export const getWishlist = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.getWishlist(req.params.id, req.user.id);
+    ResponseHandler.success(res, wishlist, "Wishlist retrieved successfully");
+});
+
+// @desc    Create a named wishlist
+// @route   POST /api/v1/wishlists
+// @access  Private
+export const createWishlist = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.createWishlist(req.body, req.user.id);
+    ResponseHandler.created(res, wishlist, "Wishlist created successfully");
+});
+
+// @desc    Rename a wishlist or make it the default
+// @route   PUT /api/v1/wishlists/:id
+// @access  Private
+export const updateWishlist = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.updateWishlist(req.params.id, req.body, req.user.id);
+    ResponseHandler.updated(res, wishlist, "Wishlist updated successfully");
+});
+
+// @desc    Delete a wishlist
+// @route   DELETE /api/v1/wishlists/:id
+// @access  Private
+export const deleteWishlist = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    await WishlistService.deleteWishlist(req.params.id, req.user.id);
+    ResponseHandler.deleted(res, "Wishlist deleted successfully");
+});
+
+// @desc    Save a product to a wishlist (the default list when no id is given)
+// @route   POST /api/v1/wishlists/items
+// @route   POST /api/v1/wishlists/:id/items
+// @access  Private
+export const addWishlistItem = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.addItem(req.body, req.user.id, req.params.id);
+    ResponseHandler.success(res, wishlist, "Item added to wishlist successfully");
+});
+
+// @desc    Remove an item from a wishlist
+// @route   DELETE /api/v1/wishlists/:id/items/:itemId
+// @access  Private
+export const removeWishlistItem = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.removeItem(req.params.id, req.params.itemId, req.user.id);
+    ResponseHandler.success(res, wishlist, "Item removed from wishlist successfully");
+});
+
+// @desc    Move a wishlist item to the cart
+// @route   POST /api/v1/wishlists/:id/items/:itemId/move-to-cart
+// @access  Private
+export const moveWishlistItemToCart = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const result = await WishlistService.moveToCart(
+        req.params.id,
+        req.params.itemId,
+        req.user.id,
+        req.body.quantity,
+        req.currency
+    );
+    ResponseHandler.success(res, result, "Item moved to cart successfully");
+});
+
+// @desc    Make a wishlist public and get its share token
+// @route   POST /api/v1/wishlists/:id/share
+// @access  Private
+export const shareWishlist = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.share(req.params.id, req.user.id);
+    ResponseHandler.success(res, wishlist, "Wishlist shared successfully");
+});
+
+// @desc    Make a wishlist private again, disabling its share link
+// @route   DELETE /api/v1/wishlists/:id/share
+// @access  Private
+export const unshareWishlist = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.unshare(req.params.id, req.user.id);
+    ResponseHandler.success(res, wishlist, "Wishlist is no longer shared");
+});
+
+// @desc    Get a shared wishlist
+// @route   GET /api/v1/wishlists/shared/:token
+// @access  Public
+export const getSharedWishlist = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const wishlist = await WishlistService.getSharedWishlist(req.params.token);
+    ResponseHandler.success(res, wishlist, "Wishlist retrieved successfully");
+});
@@ -11,6 +11,7 @@ import { logger } from "./utils/logger";
 import { cacheService } from "./services/cacheService";
 import { performanceMonitor } from "./utils/performance";
 import { apiI18nMiddleware } from "./middleware/i18n";
+import { detectCurrency } from "./middleware/currency";
 
 class OptimizedApp {
     public app: express.Application;
@@ -51,6 +52,9 @@ class OptimizedApp {
         // Add i18n middleware for API routes
         this.app.use("/api", ...apiI18nMiddleware);
 
+        // Requested currency for product, cart and checkout prices
+        this.app.use("/api", detectCurrency);
+
         // Health check
         this.app.get("/health", (req, res) => {
             res.status(200).json({
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+import { CurrencyService } from "../services/currencyService";
+
+/**
+ * Read the requested currency from ?currency= or the X-Currency header. Left unset when the
+ * client asks for none, so carts keep their currency and catalogue prices use the base currency.
+ */
+export const detectCurrency = async (req: Request, res: Response, next: NextFunction) => {
+    // Prices differ per currency, so shared caches must not mix them up
+    res.vary("X-Currency");
+
+    const requested = (req.query.currency as string) || req.get("x-currency");
+    if (!requested) {
+        return next();
+    }
+
+    try {
+        const converter = await CurrencyService.getConverter(requested);
+        req.currency = converter.currency;
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
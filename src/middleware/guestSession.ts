@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from "express";
+import { config } from "../config/config";
+import { GuestSessionService, GuestSession } from "../services/guestSessionService";
+import { CartService } from "../services/cartService";
+
+export const GUEST_SESSION_HEADER = "X-Guest-Session";
+
+const readCookie = (req: Request, name: string): string | undefined => {
+    for (const cookie of req.headers.cookie?.split(";") || []) {
+        const [key, ...value] = cookie.trim().split("=");
+        if (key === name) {
+            return decodeURIComponent(value.join("="));
+        }
+    }
+    return undefined;
+};
+
+/**
+ * The guest session the request carries (X-Guest-Session header, else cookie), if its token is valid
+ */
+export const readGuestSession = (req: Request): Omit<GuestSession, "token"> | null => {
+    const token = req.get(GUEST_SESSION_HEADER) || readCookie(req, config.guestSession.cookieName);
+    return token ? GuestSessionService.verify(token) : null;
+};
+
+const sendGuestSession = (res: Response, session: GuestSession): void => {
+    res.cookie(config.guestSession.cookieName, session.token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: config.nodeEnv === "production",
+        expires: session.expiresAt,
+        path: "/"
+    });
+    // Clients that cannot keep cookies send this back in the header
+    res.setHeader(GUEST_SESSION_HEADER, session.token);
+};
+
+/**
+ * End the guest session; an empty X-Guest-Session tells header-based clients to drop their token
+ */
+export const clearGuestSession = (res: Response): void => {
+    res.clearCookie(config.guestSession.cookieName, { path: "/" });
+    res.setHeader(GUEST_SESSION_HEADER, "");
+};
+
+/**
+ * Move the cart a visitor filled as a guest into the user's cart and end the guest session
+ */
+export const mergeGuestSession = async (req: Request, res: Response, userId: string): Promise<void> => {
+    const session = readGuestSession(req);
+    if (!session) {
+        return;
+    }
+
+    await CartService.mergeGuestCart(userId, session.id);
+    clearGuestSession(res);
+};
+
+/**
+ * Resolve the guest session for cart routes; run after optionalAuth. Guests without a valid token
+ * are given a new session, and signed-in users have any guest cart merged into their own.
+ */
+export const guestSession = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (req.user) {
+            await mergeGuestSession(req, res, req.user.id);
+            return next();
+        }
+
+        const session = readGuestSession(req);
+        if (session && !GuestSessionService.needsRenewal(session.expiresAt)) {
+            req.guestSessionId = session.id;
+            return next();
+        }
+
+        // A session past half its lifetime is reissued under the same id, so the cart stays attached
+        const issued = GuestSessionService.issue(session?.id);
+        req.guestSessionId = issued.id;
+        sendGuestSession(res, issued);
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
@@ -144,12 +144,19 @@ export class OptimizedMiddlewareStack {
                 "Content-Type",
                 "Accept",
                 "Authorization",
-                "X-Session-ID",
+                "X-Guest-Session",
                 "X-API-Key"
             ],
 
             // Optimize exposed headers
-            exposedHeaders: ["X-Total-Count", "X-Page-Count", "X-Response-Time", "X-Rate-Limit-Remaining"]
+            exposedHeaders: [
+                "X-Total-Count",
+                "X-Page-Count",
+                "X-Response-Time",
+                "X-Rate-Limit-Remaining",
+                "X-Guest-Session",
+                "X-Search-Id"
+            ]
         });
     }
 
@@ -162,7 +169,13 @@ export class OptimizedMiddlewareStack {
             express.json({
                 limit: "10mb", // Reasonable limit for API
                 strict: true, // Only parse objects and arrays
-                type: ["application/json", "application/json; charset=utf-8"]
+                type: ["application/json", "application/json; charset=utf-8"],
+                // Keep the exact bytes for webhook signature verification
+                verify: (req: Request, res: Response, buf: Buffer) => {
+                    if (req.originalUrl?.includes("/webhooks/")) {
+                        req.rawBody = buf;
+                    }
+                }
             })
         );
 
@@ -174,15 +187,6 @@ export class OptimizedMiddlewareStack {
                 parameterLimit: 100 // Prevent parameter pollution
             })
         );
-
-        // Raw body parsing for webhooks (if needed)
-        this.app.use(
-            "/webhooks",
-            express.raw({
-                type: "application/json",
-                limit: "1mb"
-            })
-        );
     }
 
     /**
@@ -302,6 +306,7 @@ declare global {
         interface Request {
             id: string;
             startTime?: number;
+            rawBody?: Buffer;
         }
     }
 }
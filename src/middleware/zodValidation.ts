@@ -2,6 +2,19 @@ import { Request, Response, NextFunction } from "express";
 import { ZodSchema, ZodError } from "zod";
 import { ResponseHandler } from "../utils/response";
 
+// Express 5 exposes req.query as a getter only, so it has to be redefined rather than assigned
+const setQuery = (req: Request, query: any) => {
+    Object.defineProperty(req, "query", { value: query, writable: true, configurable: true, enumerable: true });
+};
+
+const applyParsed = (req: Request, parsed: any) => {
+    req.body = parsed.body || req.body;
+    if (parsed.query) {
+        setQuery(req, parsed.query);
+    }
+    req.params = parsed.params || req.params;
+};
+
 // Zod validation middleware
 export const validate = (schema: ZodSchema) => {
     return async (req: Request, res: Response, next: NextFunction) => {
@@ -14,9 +27,7 @@ export const validate = (schema: ZodSchema) => {
             });
 
             // Replace request data with parsed/transformed data
-            req.body = (parsed as any).body || req.body;
-            req.query = (parsed as any).query || req.query;
-            req.params = (parsed as any).params || req.params;
+            applyParsed(req, parsed);
 
             next();
         } catch (error) {
@@ -47,9 +58,7 @@ export const optionalValidate = (schema: ZodSchema) => {
                 params: req.params
             });
 
-            req.body = (parsed as any).body || req.body;
-            req.query = (parsed as any).query || req.query;
-            req.params = (parsed as any).params || req.params;
+            applyParsed(req, parsed);
         } catch (error) {
             // Silently continue without validation for optional validation
         }
@@ -85,7 +94,7 @@ export const validateQuery = (schema: ZodSchema) => {
     return async (req: Request, res: Response, next: NextFunction) => {
         try {
             const parsed = await schema.parseAsync(req.query);
-            req.query = parsed as any;
+            setQuery(req, parsed);
             next();
         } catch (error) {
             if (error instanceof ZodError) {
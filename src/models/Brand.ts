@@ -1,9 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { slugHistoryPlugin } from '../utils/slug';
 
 export interface IBrand extends Document {
     name: string;
     description?: string;
-    slug: string;
+    slug: string; // Generated from the name; renaming keeps the old one in slugHistory
+    slugHistory: string[];
     logo?: string;
     website?: string;
     isActive: boolean;
@@ -77,15 +79,7 @@ BrandSchema.index({ slug: 1 });
 BrandSchema.index({ isActive: 1 });
 BrandSchema.index({ name: 'text', description: 'text' });
 
-// Pre-save middleware to generate slug
-BrandSchema.pre('save', function(next) {
-    if (this.isModified('name') && !this.slug) {
-        this.slug = this.name
-            .toLowerCase()
-            .replace(/[^a-z0-9]+/g, '-')
-            .replace(/^-+|-+$/g, '');
-    }
-    next();
-});
+// Slug generation and redirect history
+BrandSchema.plugin(slugHistoryPlugin);
 
 export const Brand = mongoose.model<IBrand>('Brand', BrandSchema);
@@ -1,9 +1,12 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { config } from '../config/config';
+import { Money, minorUnitsValidator } from '../utils/money';
 
 export interface ICartItem {
     product: mongoose.Types.ObjectId;
     quantity: number;
-    price: number; // Price at the time of adding to cart
+    price: number; // Price at the time of adding to cart, in minor units of the cart currency
+    variantId?: mongoose.Types.ObjectId; // The product variant; each variant is its own line
     variant?: {
         name: string;
         value: string;
@@ -18,6 +21,7 @@ export interface ICart extends Document {
     totalItems: number;
     totalPrice: number;
     currency: string;
+    couponCode?: string; // Applied promo code, re-validated on every summary and at checkout
     
     // Cart metadata
     isActive: boolean;
@@ -31,9 +35,9 @@ export interface ICart extends Document {
     isEmpty: boolean;
     
     // Methods
-    addItem(productId: string, quantity: number, price: number, variant?: any[]): Promise<ICart>;
-    updateItem(productId: string, quantity: number): Promise<ICart>;
-    removeItem(productId: string): Promise<ICart>;
+    addItem(productId: string, quantity: number, price: number, variantId?: string, variant?: any[]): Promise<ICart>;
+    updateItem(productId: string, quantity: number, variantId?: string): Promise<ICart>;
+    removeItem(productId: string, variantId?: string): Promise<ICart>;
     clearCart(): Promise<ICart>;
     calculateTotals(): void;
 }
@@ -52,8 +56,10 @@ const CartItemSchema = new Schema<ICartItem>({
     price: {
         type: Number,
         required: true,
-        min: [0, 'Price cannot be negative']
+        min: [0, 'Price cannot be negative'],
+        validate: minorUnitsValidator
     },
+    variantId: Schema.Types.ObjectId,
     variant: [{
         name: { type: String, required: true },
         value: { type: String, required: true }
@@ -83,13 +89,19 @@ const CartSchema = new Schema<ICart>({
     totalPrice: {
         type: Number,
         default: 0,
-        min: 0
+        min: 0,
+        validate: minorUnitsValidator
     },
     currency: {
         type: String,
-        default: 'USD',
+        default: () => config.currency.base,
         uppercase: true
     },
+    couponCode: {
+        type: String,
+        uppercase: true,
+        trim: true
+    },
     isActive: {
         type: Boolean,
         default: true
@@ -110,23 +122,35 @@ CartSchema.virtual('isEmpty').get(function() {
 });
 
 // Indexes
-CartSchema.index({ user: 1 }, { unique: true, sparse: true });
-CartSchema.index({ sessionId: 1 }, { unique: true, sparse: true });
+// Only one active cart per user/session; deactivated carts (checked out or merged) are kept
+CartSchema.index(
+    { user: 1 },
+    { unique: true, partialFilterExpression: { isActive: true, user: { $exists: true } } }
+);
+CartSchema.index(
+    { sessionId: 1 },
+    { unique: true, partialFilterExpression: { isActive: true, sessionId: { $exists: true } } }
+);
 CartSchema.index({ isActive: 1 });
 CartSchema.index({ updatedAt: -1 });
 
+// A line is one product variant (or a product without variants)
+const isSameLine = (item: ICartItem, productId: string, variantId?: string): boolean => {
+    const itemProductId = (item.product as any)?._id?.toString() || item.product.toString();
+    return itemProductId === productId && item.variantId?.toString() === variantId;
+};
+
 // Methods
 CartSchema.methods.addItem = async function(
     productId: string, 
     quantity: number, 
     price: number, 
+    variantId?: string,
     variant?: any[]
 ): Promise<ICart> {
-    const existingItemIndex = this.items.findIndex((item: ICartItem) => {
-        const sameProduct = item.product.toString() === productId;
-        const sameVariant = JSON.stringify(item.variant || []) === JSON.stringify(variant || []);
-        return sameProduct && sameVariant;
-    });
+    const existingItemIndex = this.items.findIndex((item: ICartItem) => 
+        isSameLine(item, productId, variantId)
+    );
 
     if (existingItemIndex > -1) {
         // Update existing item
@@ -138,6 +162,7 @@ CartSchema.methods.addItem = async function(
             product: new mongoose.Types.ObjectId(productId),
             quantity,
             price,
+            variantId: variantId ? new mongoose.Types.ObjectId(variantId) : undefined,
             variant,
             addedAt: new Date()
         } as ICartItem);
@@ -149,10 +174,11 @@ CartSchema.methods.addItem = async function(
 
 CartSchema.methods.updateItem = async function(
     productId: string, 
-    quantity: number
+    quantity: number,
+    variantId?: string
 ): Promise<ICart> {
     const itemIndex = this.items.findIndex((item: ICartItem) => 
-        item.product.toString() === productId
+        isSameLine(item, productId, variantId)
     );
 
     if (itemIndex === -1) {
@@ -171,9 +197,9 @@ CartSchema.methods.updateItem = async function(
     return this.save();
 };
 
-CartSchema.methods.removeItem = async function(productId: string): Promise<ICart> {
+CartSchema.methods.removeItem = async function(productId: string, variantId?: string): Promise<ICart> {
     this.items = this.items.filter((item: ICartItem) => 
-        item.product.toString() !== productId
+        !isSameLine(item, productId, variantId)
     );
 
     this.calculateTotals();
@@ -191,9 +217,9 @@ CartSchema.methods.calculateTotals = function(): void {
         total + item.quantity, 0
     );
     
-    this.totalPrice = this.items.reduce((total: number, item: ICartItem) => 
-        total + (item.price * item.quantity), 0
-    );
+    this.totalPrice = Money.sum(this.items.map((item: ICartItem) =>
+        Money.of(item.price, this.currency).multiply(item.quantity)
+    ), this.currency).amount;
 };
 
 // Pre-save middleware to calculate totals
@@ -1,15 +1,18 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { slugHistoryPlugin } from '../utils/slug';
 
 export interface ICategory extends Document {
     name: string;
     description?: string;
-    slug: string;
+    slug: string; // Generated from the name; renaming keeps the old one in slugHistory
+    slugHistory: string[];
     parent?: mongoose.Types.ObjectId;
     image?: string;
     icon?: string;
     isActive: boolean;
     sortOrder: number;
     productCount: number;
+    returnWindowDays?: number; // Days after delivery that products in this category can be returned
     
     // SEO
     seo: {
@@ -70,6 +73,10 @@ const CategorySchema = new Schema<ICategory>({
         default: 0,
         min: 0
     },
+    returnWindowDays: {
+        type: Number,
+        min: [0, 'Return window cannot be negative']
+    },
     seo: {
         title: String,
         description: String,
@@ -107,15 +114,7 @@ CategorySchema.index({ isActive: 1 });
 CategorySchema.index({ sortOrder: 1 });
 CategorySchema.index({ name: 'text', description: 'text' });
 
-// Pre-save middleware to generate slug
-CategorySchema.pre('save', function(next) {
-    if (this.isModified('name') && !this.slug) {
-        this.slug = this.name
-            .toLowerCase()
-            .replace(/[^a-z0-9]+/g, '-')
-            .replace(/^-+|-+$/g, '');
-    }
-    next();
-});
+// Slug generation and redirect history
+CategorySchema.plugin(slugHistoryPlugin);
 
 export const Category = mongoose.model<ICategory>('Category', CategorySchema);
@@ -0,0 +1,169 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { DiscountType } from '../types';
+import { minorUnitsValidator } from '../utils/money';
+
+export interface ICouponRedemption {
+    user: mongoose.Types.ObjectId;
+    count: number;
+}
+
+export interface ICoupon extends Document {
+    code: string;
+    description?: string;
+    type: DiscountType;
+    value: number; // Percentage (0-100) or fixed amount in base currency minor units; unused for free shipping
+    maxDiscount?: number; // Cap for percentage discounts, in base currency minor units
+
+    // Buy X get Y (the Y cheapest eligible units are discounted by getDiscountPercent)
+    buyQuantity?: number;
+    getQuantity?: number;
+    getDiscountPercent: number;
+
+    // Conditions
+    minSubtotal: number;
+    startsAt?: Date;
+    expiresAt?: Date;
+    usageLimit?: number; // Total redemptions across all customers
+    usageCount: number;
+    perUserLimit?: number;
+    redemptions: ICouponRedemption[]; // Per customer, kept for perUserLimit
+
+    // Scope (empty means the whole catalogue)
+    products: mongoose.Types.ObjectId[];
+    categories: mongoose.Types.ObjectId[];
+    brands: mongoose.Types.ObjectId[];
+
+    isActive: boolean;
+    createdBy?: mongoose.Types.ObjectId;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+
+    // Virtual fields
+    isScoped: boolean;
+}
+
+const CouponSchema = new Schema<ICoupon>({
+    code: {
+        type: String,
+        required: [true, 'Coupon code is required'],
+        unique: true,
+        uppercase: true,
+        trim: true,
+        maxlength: [50, 'Coupon code cannot exceed 50 characters']
+    },
+    description: {
+        type: String,
+        maxlength: [500, 'Description cannot exceed 500 characters']
+    },
+    type: {
+        type: String,
+        enum: Object.values(DiscountType),
+        required: [true, 'Discount type is required']
+    },
+    value: {
+        type: Number,
+        default: 0,
+        min: [0, 'Discount value cannot be negative']
+    },
+    maxDiscount: {
+        type: Number,
+        min: [0, 'Maximum discount cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    buyQuantity: {
+        type: Number,
+        min: [1, 'Buy quantity must be at least 1']
+    },
+    getQuantity: {
+        type: Number,
+        min: [1, 'Get quantity must be at least 1']
+    },
+    getDiscountPercent: {
+        type: Number,
+        default: 100,
+        min: 0,
+        max: 100
+    },
+    minSubtotal: {
+        type: Number,
+        default: 0,
+        min: [0, 'Minimum subtotal cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    startsAt: Date,
+    expiresAt: Date,
+    usageLimit: {
+        type: Number,
+        min: [1, 'Usage limit must be at least 1']
+    },
+    usageCount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    perUserLimit: {
+        type: Number,
+        min: [1, 'Per-user limit must be at least 1']
+    },
+    redemptions: {
+        type: [{
+            _id: false,
+            user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+            count: { type: Number, default: 0, min: 0 }
+        }],
+        select: false
+    },
+    products: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Product'
+    }],
+    categories: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Category'
+    }],
+    brands: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Brand'
+    }],
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+// Virtual for scoped coupons
+CouponSchema.virtual('isScoped').get(function() {
+    return this.products.length > 0 || this.categories.length > 0 || this.brands.length > 0;
+});
+
+// Indexes
+CouponSchema.index({ isActive: 1, expiresAt: 1 });
+
+// Pre-validate middleware to check type-specific fields
+CouponSchema.pre('validate', function(next) {
+    if (this.type === DiscountType.PERCENTAGE && this.value > 100) {
+        this.invalidate('value', 'Percentage discount cannot exceed 100');
+    }
+    if (this.type === DiscountType.FIXED_AMOUNT && !Number.isSafeInteger(this.value)) {
+        this.invalidate('value', 'Fixed discounts must be an integer amount in minor units');
+    }
+    if (this.type === DiscountType.BUY_X_GET_Y && (!this.buyQuantity || !this.getQuantity)) {
+        this.invalidate('buyQuantity', 'Buy X get Y coupons need buyQuantity and getQuantity');
+    }
+    if (this.startsAt && this.expiresAt && this.startsAt >= this.expiresAt) {
+        this.invalidate('expiresAt', 'Expiry date must be after the start date');
+    }
+    next();
+});
+
+export const Coupon = mongoose.model<ICoupon>('Coupon', CouponSchema);
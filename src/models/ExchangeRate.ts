@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { config } from '../config/config';
+import { minorUnitsValidator } from '../utils/money';
+
+export interface IExchangeRate extends Document {
+    currency: string; // ISO 4217 code
+    rate: number; // Units of this currency per unit of the base currency
+    roundingIncrement?: number; // In minor units; converted prices are rounded to a multiple of this (e.g. 1000 VND)
+    isActive: boolean;
+    updatedBy?: mongoose.Types.ObjectId;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ExchangeRateSchema = new Schema<IExchangeRate>({
+    currency: {
+        type: String,
+        required: [true, 'Currency is required'],
+        unique: true,
+        uppercase: true,
+        trim: true,
+        match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code']
+    },
+    rate: {
+        type: Number,
+        required: [true, 'Exchange rate is required'],
+        min: [0.000001, 'Exchange rate must be positive']
+    },
+    roundingIncrement: {
+        type: Number,
+        min: [0, 'Rounding increment cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    updatedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    }
+}, {
+    timestamps: true
+});
+
+// The base currency is always 1:1 and has no rate of its own
+ExchangeRateSchema.pre('validate', function(next) {
+    if (this.currency === config.currency.base) {
+        this.invalidate('currency', `${config.currency.base} is the base currency`);
+    }
+    next();
+});
+
+export const ExchangeRate = mongoose.model<IExchangeRate>('ExchangeRate', ExchangeRateSchema);
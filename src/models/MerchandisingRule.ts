@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { normalizeSearchText } from '../utils/searchText';
+
+export interface IPinnedProduct {
+    product: mongoose.Types.ObjectId;
+    position: number; // 1-based place in the listing
+}
+
+/**
+ * How the products of one search query or one category are arranged (in their default order):
+ * pinned products take fixed places, boosted ones come before the rest and buried ones last.
+ */
+export interface IMerchandisingRule extends Document {
+    name: string;
+    query?: string; // As entered
+    normalizedQuery?: string; // Matched against the whole normalized search query
+    category?: mongoose.Types.ObjectId;
+    pinned: IPinnedProduct[];
+    boosted: mongoose.Types.ObjectId[];
+    buried: mongoose.Types.ObjectId[];
+    isActive: boolean;
+    startsAt?: Date;
+    endsAt?: Date;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const MerchandisingRuleSchema = new Schema<IMerchandisingRule>({
+    name: {
+        type: String,
+        required: [true, 'Rule name is required'],
+        trim: true,
+        maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    query: {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Query cannot exceed 200 characters']
+    },
+    normalizedQuery: String,
+    category: {
+        type: Schema.Types.ObjectId,
+        ref: 'Category'
+    },
+    pinned: [{
+        _id: false,
+        product: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+        position: { type: Number, required: true, min: [1, 'Position must be at least 1'] }
+    }],
+    boosted: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Product'
+    }],
+    buried: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Product'
+    }],
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    startsAt: Date,
+    endsAt: Date
+}, {
+    timestamps: true
+});
+
+// One rule per query and per category
+MerchandisingRuleSchema.index(
+    { normalizedQuery: 1 },
+    { unique: true, partialFilterExpression: { normalizedQuery: { $exists: true } } }
+);
+MerchandisingRuleSchema.index(
+    { category: 1 },
+    { unique: true, partialFilterExpression: { category: { $exists: true } } }
+);
+
+// Pre-validate middleware to normalize the query and check what the rule applies to
+MerchandisingRuleSchema.pre('validate', function(next) {
+    this.normalizedQuery = this.query ? normalizeSearchText(this.query) || undefined : undefined;
+
+    if (!this.normalizedQuery === !this.category) {
+        this.invalidate('query', 'A rule applies to either a search query or a category');
+    }
+    if (this.startsAt && this.endsAt && this.startsAt >= this.endsAt) {
+        this.invalidate('endsAt', 'End date must be after start date');
+    }
+
+    const positions = this.pinned.map(pin => pin.position);
+    if (new Set(positions).size !== positions.length) {
+        this.invalidate('pinned', 'Each pinned product needs its own position');
+    }
+    next();
+});
+
+export const MerchandisingRule = mongoose.model<IMerchandisingRule>('MerchandisingRule', MerchandisingRuleSchema);
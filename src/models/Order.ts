@@ -1,16 +1,27 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { orderStateMachine } from '../services/orderStateMachine';
+import { config } from '../config/config';
+import { Money, minorUnitsValidator } from '../utils/money';
 
 export interface IOrderItem {
+    _id?: mongoose.Types.ObjectId;
     product: mongoose.Types.ObjectId;
     name: string; // Product name at time of order
-    sku: string;
+    sku: string; // The variant's SKU for variant products
     quantity: number;
-    price: number; // Price at time of order
+    price: number; // Price at time of order, in minor units of the order currency
+    variantId?: mongoose.Types.ObjectId; // Product variant whose stock the line takes
     variant?: {
         name: string;
         value: string;
     }[];
-    image?: string; // Main product image
+    image?: string; // Variant image, else the main product image
+    reservedQuantity?: number; // Units taken from stock, returned on cancellation
+    refundedQuantity?: number; // Units refunded to the customer
+    shippedQuantity?: number; // Units handed to a carrier in a shipment
+    taxRate?: number; // Rate of the tax rule applied to the line
+    tax?: number; // Tax on the line after its share of the discount
+    taxInclusive?: boolean; // Tax is part of the price rather than added to it
 }
 
 export interface IShippingAddress {
@@ -26,7 +37,7 @@ export interface IShippingAddress {
 }
 
 export interface IPaymentInfo {
-    method: 'credit_card' | 'paypal' | 'bank_transfer' | 'cash_on_delivery';
+    method: 'credit_card' | 'paypal' | 'bank_transfer' | 'cash_on_delivery' | 'vnpay';
     status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
     transactionId?: string;
     paymentGateway?: string;
@@ -35,6 +46,30 @@ export interface IPaymentInfo {
     refundAmount?: number;
 }
 
+export interface IOrderTaxLine {
+    name: string; // Tax rule name, e.g. "VAT 10%"
+    rate: number;
+    inclusive: boolean;
+    taxableAmount: number;
+    amount: number;
+}
+
+export interface IOrderRefundItem {
+    item: mongoose.Types.ObjectId; // Order item _id
+    quantity: number;
+    amount: number;
+}
+
+export interface IOrderRefund {
+    amount: number;
+    items: IOrderRefundItem[];
+    reason?: string;
+    restocked: boolean;
+    refundId?: string; // Provider refund reference
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+}
+
 export interface IOrderTracking {
     status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'returned';
     updatedAt: Date;
@@ -44,15 +79,17 @@ export interface IOrderTracking {
 
 export interface IOrder extends Document {
     orderNumber: string;
-    user: mongoose.Types.ObjectId;
+    user?: mongoose.Types.ObjectId; // Not set for guest checkouts until the guest creates an account
+    email?: string; // Contact email; required for guest orders, which are looked up by it
     
     // Order items
     items: IOrderItem[];
     
-    // Pricing
+    // Pricing (amounts in integer minor units of the order currency)
     subtotal: number;
     tax: number;
-    taxRate: number;
+    taxRate: number; // Effective rate across the order
+    taxBreakdown: IOrderTaxLine[];
     shippingCost: number;
     discount: number;
     discountCode?: string;
@@ -65,10 +102,11 @@ export interface IOrder extends Document {
     
     // Payment
     payment: IPaymentInfo;
+    refunds: IOrderRefund[];
     
     // Shipping
     shippingMethod?: string;
-    trackingNumber?: string;
+    trackingNumber?: string; // First shipment's tracking number; see Shipment for the rest
     estimatedDelivery?: Date;
     deliveredAt?: Date;
     
@@ -118,13 +156,41 @@ const OrderItemSchema = new Schema<IOrderItem>({
     price: {
         type: Number,
         required: true,
-        min: [0, 'Price cannot be negative']
+        min: [0, 'Price cannot be negative'],
+        validate: minorUnitsValidator
     },
+    variantId: Schema.Types.ObjectId,
     variant: [{
         name: { type: String, required: true },
         value: { type: String, required: true }
     }],
-    image: String
+    image: String,
+    reservedQuantity: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    refundedQuantity: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    shippedQuantity: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    taxRate: {
+        type: Number,
+        min: 0,
+        max: 1
+    },
+    tax: {
+        type: Number,
+        min: 0,
+        validate: minorUnitsValidator
+    },
+    taxInclusive: Boolean
 });
 
 const ShippingAddressSchema = new Schema<IShippingAddress>({
@@ -142,7 +208,7 @@ const ShippingAddressSchema = new Schema<IShippingAddress>({
 const PaymentInfoSchema = new Schema<IPaymentInfo>({
     method: {
         type: String,
-        enum: ['credit_card', 'paypal', 'bank_transfer', 'cash_on_delivery'],
+        enum: ['credit_card', 'paypal', 'bank_transfer', 'cash_on_delivery', 'vnpay'],
         required: true
     },
     status: {
@@ -156,7 +222,44 @@ const PaymentInfoSchema = new Schema<IPaymentInfo>({
     refundedAt: Date,
     refundAmount: {
         type: Number,
-        min: 0
+        min: 0,
+        validate: minorUnitsValidator
+    }
+});
+
+const OrderTaxLineSchema = new Schema<IOrderTaxLine>({
+    name: { type: String, required: true },
+    rate: { type: Number, required: true, min: 0, max: 1 },
+    inclusive: { type: Boolean, default: false },
+    taxableAmount: { type: Number, required: true, min: 0, validate: minorUnitsValidator },
+    amount: { type: Number, required: true, min: 0, validate: minorUnitsValidator }
+}, { _id: false });
+
+const OrderRefundSchema = new Schema<IOrderRefund>({
+    amount: {
+        type: Number,
+        required: true,
+        min: 0,
+        validate: minorUnitsValidator
+    },
+    items: [{
+        item: { type: Schema.Types.ObjectId, required: true },
+        quantity: { type: Number, required: true, min: 1 },
+        amount: { type: Number, required: true, min: 0, validate: minorUnitsValidator }
+    }],
+    reason: String,
+    restocked: {
+        type: Boolean,
+        default: false
+    },
+    refundId: String,
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
     }
 });
 
@@ -186,8 +289,12 @@ const OrderSchema = new Schema<IOrder>({
     },
     user: {
         type: Schema.Types.ObjectId,
-        ref: 'User',
-        required: true
+        ref: 'User'
+    },
+    email: {
+        type: String,
+        lowercase: true,
+        trim: true
     },
     items: [OrderItemSchema],
     
@@ -195,12 +302,14 @@ const OrderSchema = new Schema<IOrder>({
     subtotal: {
         type: Number,
         required: true,
-        min: 0
+        min: 0,
+        validate: minorUnitsValidator
     },
     tax: {
         type: Number,
         default: 0,
-        min: 0
+        min: 0,
+        validate: minorUnitsValidator
     },
     taxRate: {
         type: Number,
@@ -208,25 +317,29 @@ const OrderSchema = new Schema<IOrder>({
         min: 0,
         max: 1
     },
+    taxBreakdown: [OrderTaxLineSchema],
     shippingCost: {
         type: Number,
         default: 0,
-        min: 0
+        min: 0,
+        validate: minorUnitsValidator
     },
     discount: {
         type: Number,
         default: 0,
-        min: 0
+        min: 0,
+        validate: minorUnitsValidator
     },
     discountCode: String,
     total: {
         type: Number,
         required: true,
-        min: 0
+        min: 0,
+        validate: minorUnitsValidator
     },
     currency: {
         type: String,
-        default: 'USD',
+        default: () => config.currency.base,
         uppercase: true
     },
     
@@ -242,6 +355,7 @@ const OrderSchema = new Schema<IOrder>({
         type: PaymentInfoSchema,
         required: true
     },
+    refunds: [OrderRefundSchema],
     
     // Shipping
     shippingMethod: String,
@@ -281,17 +395,19 @@ OrderSchema.virtual('canReturn').get(function() {
     const deliveredDate = this.deliveredAt;
     if (!deliveredDate || this.status !== 'delivered') return false;
     
-    // Allow returns within 30 days
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-    return deliveredDate > thirtyDaysAgo;
+    // Store-wide window; products and categories can override it (see ReturnService)
+    const windowStart = new Date(Date.now() - config.returns.defaultWindowDays * 24 * 60 * 60 * 1000);
+    return deliveredDate > windowStart;
 });
 
 // Indexes
 OrderSchema.index({ orderNumber: 1 });
 OrderSchema.index({ user: 1 });
+OrderSchema.index({ email: 1, createdAt: -1 });
 OrderSchema.index({ status: 1 });
 OrderSchema.index({ createdAt: -1 });
 OrderSchema.index({ 'payment.status': 1 });
+OrderSchema.index({ 'payment.transactionId': 1 }, { sparse: true });
 
 // Methods
 OrderSchema.methods.updateStatus = async function(
@@ -299,41 +415,69 @@ OrderSchema.methods.updateStatus = async function(
     note?: string, 
     updatedBy?: string
 ): Promise<IOrder> {
-    this.status = status;
+    // Enforce the order lifecycle (throws AppError on illegal transitions)
+    const nextStatus = orderStateMachine.normalize(status);
+    const previousStatus = this.status;
+    orderStateMachine.assertTransition(previousStatus, nextStatus);
+
+    this.status = nextStatus;
     
     // Add to status history
     this.statusHistory.push({
-        status,
+        status: nextStatus,
         updatedAt: new Date(),
         note,
         updatedBy: updatedBy ? new mongoose.Types.ObjectId(updatedBy) : undefined
     } as IOrderTracking);
     
-    // Set specific timestamps
-    if (status === 'delivered') {
-        this.deliveredAt = new Date();
-    }
+    await orderStateMachine.runHooks('before', this as IOrder, previousStatus);
+    await this.save();
+    await orderStateMachine.runHooks('after', this as IOrder, previousStatus);
     
-    return this.save();
+    return this as IOrder;
 };
 
 OrderSchema.methods.calculateTotals = function(): void {
-    this.subtotal = this.items.reduce((total: number, item: IOrderItem) => 
-        total + (item.price * item.quantity), 0
-    );
+    const money = (amount?: number) => Money.of(amount || 0, this.currency);
+
+    const subtotal = Money.sum(this.items.map((item: IOrderItem) => money(item.price).multiply(item.quantity)), this.currency);
     
-    this.tax = this.subtotal * this.taxRate;
-    this.total = this.subtotal + this.tax + this.shippingCost - this.discount;
+    // Orders priced by the tax rules carry per-line tax; VAT-inclusive lines add nothing to the total
+    const hasLineTax = this.items.some((item: IOrderItem) => item.taxRate !== undefined && item.taxRate !== null);
+    let tax: Money;
+    let addedTax: Money;
+    
+    if (hasLineTax) {
+        tax = Money.sum(this.items.map((item: IOrderItem) => money(item.tax)), this.currency);
+        addedTax = Money.sum(this.items
+            .filter((item: IOrderItem) => !item.taxInclusive)
+            .map((item: IOrderItem) => money(item.tax)), this.currency);
+    } else {
+        tax = subtotal.multiply(this.taxRate);
+        addedTax = tax;
+    }
+    
+    this.subtotal = subtotal.amount;
+    this.tax = tax.amount;
+    this.total = subtotal.add(addedTax).add(money(this.shippingCost)).subtract(money(this.discount)).amount;
 };
 
-// Pre-save middleware to calculate totals
-OrderSchema.pre('save', function(next) {
+// Pre-validate middleware to require a way to reach the customer of a guest order
+OrderSchema.pre('validate', function(next) {
+    if (!this.user && !this.email) {
+        this.invalidate('email', 'Email is required for guest orders');
+    }
+    next();
+});
+
+// Pre-validate middleware to calculate totals (subtotal and total are required)
+OrderSchema.pre('validate', function(next) {
     this.calculateTotals();
     next();
 });
 
-// Pre-save middleware to generate order number
-OrderSchema.pre('save', function(next) {
+// Pre-validate middleware to generate order number (orderNumber is required)
+OrderSchema.pre('validate', function(next) {
     if (this.isNew && !this.orderNumber) {
         const timestamp = Date.now().toString(36).toUpperCase();
         const random = Math.random().toString(36).substr(2, 4).toUpperCase();
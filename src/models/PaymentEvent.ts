@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { minorUnitsValidator } from '../utils/money';
+
+/**
+ * Inbound payment callbacks (webhooks / IPN) that have been processed.
+ * The unique (provider, eventId) index makes redelivered callbacks a no-op.
+ */
+export interface IPaymentEvent extends Document {
+    provider: string;
+    eventId: string;
+    order?: mongoose.Types.ObjectId;
+    orderNumber?: string;
+    status?: string;
+    transactionId?: string;
+    amount?: number; // Minor units of the order currency
+    processedAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PaymentEventSchema = new Schema<IPaymentEvent>({
+    provider: {
+        type: String,
+        required: true
+    },
+    eventId: {
+        type: String,
+        required: true
+    },
+    order: {
+        type: Schema.Types.ObjectId,
+        ref: 'Order'
+    },
+    orderNumber: String,
+    status: String,
+    transactionId: String,
+    amount: {
+        type: Number,
+        validate: minorUnitsValidator
+    },
+    processedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, {
+    timestamps: true
+});
+
+PaymentEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+PaymentEventSchema.index({ order: 1 });
+
+export const PaymentEvent = mongoose.model<IPaymentEvent>('PaymentEvent', PaymentEventSchema);
@@ -1,10 +1,42 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import mongooseLeanVirtuals from 'mongoose-lean-virtuals';
+import { minorUnitsValidator } from '../utils/money';
+import { slugHistoryPlugin } from '../utils/slug';
+import { getProductSearchFields } from '../utils/searchText';
+
+export interface IProductPrice {
+    currency: string;
+    price: number; // Minor units of the currency, like every amount below
+    comparePrice?: number;
+    salePrice?: number;
+}
+
+export interface IProductOption {
+    name: string; // e.g. "Color"
+    values: string[]; // e.g. ["Red", "Blue"]
+}
+
+export interface IProductVariant {
+    _id?: mongoose.Types.ObjectId;
+    options: {
+        name: string;
+        value: string;
+    }[];
+    sku: string;
+    price?: number; // Replaces the product price (and any sale or currency override) when set
+    quantity: number;
+    barcode?: string;
+    image?: string;
+    isActive: boolean;
+}
 
 export interface IProduct extends Document {
     name: string;
+    slug: string; // Generated from the name; renaming keeps the old one in slugHistory
+    slugHistory: string[];
     description: string;
     shortDescription?: string;
-    price: number;
+    price: number; // Integer minor units of the base currency, like every amount below
     comparePrice?: number;
     costPrice?: number;
     sku: string;
@@ -33,12 +65,10 @@ export interface IProduct extends Document {
         order: number;
     }>;
     
-    // Variants
+    // Variants: one per combination of option values, each with its own SKU and stock
     hasVariants: boolean;
-    variants: Array<{
-        name: string;
-        options: string[];
-    }>;
+    options: IProductOption[];
+    variants: IProductVariant[];
     
     // SEO
     seo: {
@@ -62,10 +92,26 @@ export interface IProduct extends Document {
     requiresShipping: boolean;
     shippingClass?: string;
     
+    // Returns (falls back to the category, then the store default)
+    returnWindowDays?: number;
+    
+    // Tax
+    taxExempt: boolean;
+    
+    // Prices set by hand for other currencies; anything not set is converted from the base price
+    prices: IProductPrice[];
+    
     // Reviews and Ratings
     averageRating: number;
     reviewCount: number;
     
+    // Search
+    salesCount: number; // Units delivered, a ranking signal
+    search: {
+        name: string; // Normalised name, for phrase matches
+        keywords: string[]; // Accent-free words of the name, descriptions, SKU, tags and option values
+    };
+    
     // Timestamps
     publishedAt?: Date;
     createdBy: mongoose.Types.ObjectId;
@@ -77,8 +123,69 @@ export interface IProduct extends Document {
     finalPrice: number;
     isInStock: boolean;
     stockStatus: 'in_stock' | 'low_stock' | 'out_of_stock';
+    
+    // Methods
+    findVariant(variantId?: string, options?: IProductVariant['options']): IProductVariant | undefined;
 }
 
+const ProductPriceSchema = new Schema<IProductPrice>({
+    currency: {
+        type: String,
+        required: true,
+        uppercase: true,
+        match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code']
+    },
+    price: {
+        type: Number,
+        required: [true, 'Price is required'],
+        min: [0, 'Price cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    comparePrice: {
+        type: Number,
+        min: [0, 'Compare price cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    salePrice: {
+        type: Number,
+        min: [0, 'Sale price cannot be negative'],
+        validate: minorUnitsValidator
+    }
+}, { _id: false });
+
+const ProductVariantSchema = new Schema<IProductVariant>({
+    options: [{
+        _id: false,
+        name: { type: String, required: true, trim: true },
+        value: { type: String, required: true, trim: true }
+    }],
+    sku: {
+        type: String,
+        required: [true, 'Variant SKU is required'],
+        trim: true,
+        uppercase: true
+    },
+    price: {
+        type: Number,
+        min: [0, 'Price cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    quantity: {
+        type: Number,
+        default: 0,
+        min: [0, 'Quantity cannot be negative']
+    },
+    barcode: {
+        type: String,
+        trim: true
+    },
+    image: String,
+    isActive: {
+        type: Boolean,
+        default: true
+    }
+});
+
 const ProductSchema = new Schema<IProduct>({
     name: {
         type: String,
@@ -86,6 +193,11 @@ const ProductSchema = new Schema<IProduct>({
         trim: true,
         maxlength: [200, 'Product name cannot exceed 200 characters']
     },
+    slug: {
+        type: String,
+        lowercase: true,
+        trim: true
+    },
     description: {
         type: String,
         required: [true, 'Product description is required'],
@@ -98,15 +210,18 @@ const ProductSchema = new Schema<IProduct>({
     price: {
         type: Number,
         required: [true, 'Product price is required'],
-        min: [0, 'Price cannot be negative']
+        min: [0, 'Price cannot be negative'],
+        validate: minorUnitsValidator
     },
     comparePrice: {
         type: Number,
-        min: [0, 'Compare price cannot be negative']
+        min: [0, 'Compare price cannot be negative'],
+        validate: minorUnitsValidator
     },
     costPrice: {
         type: Number,
-        min: [0, 'Cost price cannot be negative']
+        min: [0, 'Cost price cannot be negative'],
+        validate: minorUnitsValidator
     },
     sku: {
         type: String,
@@ -169,10 +284,12 @@ const ProductSchema = new Schema<IProduct>({
         type: Boolean,
         default: false
     },
-    variants: [{
-        name: { type: String, required: true },
-        options: [{ type: String, required: true }]
+    options: [{
+        _id: false,
+        name: { type: String, required: true, trim: true },
+        values: [{ type: String, required: true, trim: true }]
     }],
+    variants: [ProductVariantSchema],
     
     seo: {
         title: String,
@@ -200,7 +317,8 @@ const ProductSchema = new Schema<IProduct>({
     },
     salePrice: {
         type: Number,
-        min: [0, 'Sale price cannot be negative']
+        min: [0, 'Sale price cannot be negative'],
+        validate: minorUnitsValidator
     },
     saleStartDate: Date,
     saleEndDate: Date,
@@ -211,6 +329,18 @@ const ProductSchema = new Schema<IProduct>({
     },
     shippingClass: String,
     
+    returnWindowDays: {
+        type: Number,
+        min: [0, 'Return window cannot be negative']
+    },
+    
+    taxExempt: {
+        type: Boolean,
+        default: false
+    },
+    
+    prices: [ProductPriceSchema],
+    
     averageRating: {
         type: Number,
         default: 0,
@@ -223,6 +353,17 @@ const ProductSchema = new Schema<IProduct>({
         min: 0
     },
     
+    salesCount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    // Kept by the pre-save hook; not part of API responses
+    search: {
+        name: { type: String, select: false },
+        keywords: { type: [String], select: false }
+    },
+    
     publishedAt: Date,
     createdBy: {
         type: Schema.Types.ObjectId,
@@ -263,15 +404,73 @@ ProductSchema.virtual('stockStatus').get(function() {
     return 'in_stock';
 });
 
+// Same combination of option values, in any order and case
+const getOptionsKey = (options: IProductVariant['options']): string =>
+    options
+        .map(option => `${option.name.toLowerCase()}=${option.value.toLowerCase()}`)
+        .sort()
+        .join('|');
+
+// Methods
+ProductSchema.methods.findVariant = function(
+    variantId?: string,
+    options?: IProductVariant['options']
+): IProductVariant | undefined {
+    if (variantId) {
+        return this.variants.find((variant: IProductVariant) => variant._id?.toString() === variantId);
+    }
+    if (options?.length) {
+        const key = getOptionsKey(options);
+        return this.variants.find((variant: IProductVariant) => getOptionsKey(variant.options) === key);
+    }
+    return undefined;
+};
+
 // Indexes for better performance
 ProductSchema.index({ name: 'text', description: 'text', tags: 'text' });
 ProductSchema.index({ category: 1 });
+ProductSchema.index({ slug: 1 }, { unique: true, sparse: true });
 ProductSchema.index({ brand: 1 });
 ProductSchema.index({ price: 1 });
 ProductSchema.index({ status: 1, isVisible: 1 });
 ProductSchema.index({ isFeatured: 1 });
 ProductSchema.index({ createdAt: -1 });
 ProductSchema.index({ averageRating: -1 });
+ProductSchema.index({ 'search.keywords': 1 });
+ProductSchema.index(
+    { 'variants.sku': 1 },
+    { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } }
+);
+
+// Pre-validate middleware to keep one price override per currency
+ProductSchema.pre('validate', function(next) {
+    const currencies = this.prices.map(price => price.currency);
+    if (new Set(currencies).size !== currencies.length) {
+        this.invalidate('prices', 'Only one price per currency is allowed');
+    }
+
+    // The unique index only covers SKUs of different products
+    const skus = this.variants.map(variant => variant.sku?.toUpperCase());
+    if (new Set(skus).size !== skus.length || skus.includes(this.sku?.toUpperCase())) {
+        this.invalidate('variants', 'Variant SKUs must be unique');
+    }
+    next();
+});
+
+// Pre-save middleware to keep the product's stock the total of its variants' stock
+ProductSchema.pre('save', function(next) {
+    this.hasVariants = this.variants.length > 0;
+    if (this.hasVariants && (this.isModified('variants') || this.isNew)) {
+        this.quantity = this.variants.reduce((total, variant) => total + variant.quantity, 0);
+    }
+    next();
+});
+
+// Pre-save middleware to keep the search fields in step with the searchable text
+ProductSchema.pre('save', function(next) {
+    this.search = getProductSearchFields(this);
+    next();
+});
 
 // Pre-save middleware
 ProductSchema.pre('save', function(next) {
@@ -281,4 +480,10 @@ ProductSchema.pre('save', function(next) {
     next();
 });
 
+// Slug generation and redirect history
+ProductSchema.plugin(slugHistoryPlugin);
+
+// Virtuals (finalPrice, stock status) in .lean({ virtuals: true }) results too
+ProductSchema.plugin(mongooseLeanVirtuals);
+
 export const Product = mongoose.model<IProduct>('Product', ProductSchema);
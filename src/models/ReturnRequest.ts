@@ -0,0 +1,163 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { minorUnitsValidator } from '../utils/money';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received';
+
+export interface IReturnItem {
+    item: mongoose.Types.ObjectId; // Order item _id
+    product: mongoose.Types.ObjectId;
+    name: string;
+    quantity: number;
+    reason?: string;
+}
+
+export interface IReturnHistory {
+    status: ReturnStatus;
+    updatedAt: Date;
+    note?: string;
+    updatedBy?: mongoose.Types.ObjectId;
+}
+
+export interface IReturnRequest extends Document {
+    returnNumber: string;
+    order: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    items: IReturnItem[];
+    reason: string;
+    photos: string[];
+
+    // Status and tracking
+    status: ReturnStatus;
+    history: IReturnHistory[];
+
+    // Settlement
+    restock: boolean;
+    refundAmount?: number;
+    receivedAt?: Date;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ReturnItemSchema = new Schema<IReturnItem>({
+    item: {
+        type: Schema.Types.ObjectId,
+        required: true
+    },
+    product: {
+        type: Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+    name: {
+        type: String,
+        required: true
+    },
+    quantity: {
+        type: Number,
+        required: true,
+        min: [1, 'Quantity must be at least 1']
+    },
+    reason: {
+        type: String,
+        maxlength: [500, 'Reason cannot exceed 500 characters']
+    }
+});
+
+const ReturnHistorySchema = new Schema<IReturnHistory>({
+    status: {
+        type: String,
+        enum: ['requested', 'approved', 'rejected', 'received'],
+        required: true
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    },
+    note: String,
+    updatedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    }
+});
+
+const ReturnRequestSchema = new Schema<IReturnRequest>({
+    returnNumber: {
+        type: String,
+        required: true,
+        unique: true,
+        uppercase: true
+    },
+    order: {
+        type: Schema.Types.ObjectId,
+        ref: 'Order',
+        required: true
+    },
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    items: {
+        type: [ReturnItemSchema],
+        validate: [(items: IReturnItem[]) => items.length > 0, 'At least one item is required']
+    },
+    reason: {
+        type: String,
+        required: [true, 'Return reason is required'],
+        trim: true,
+        maxlength: [1000, 'Reason cannot exceed 1000 characters']
+    },
+    photos: [{
+        type: String
+    }],
+    status: {
+        type: String,
+        enum: ['requested', 'approved', 'rejected', 'received'],
+        default: 'requested'
+    },
+    history: [ReturnHistorySchema],
+    restock: {
+        type: Boolean,
+        default: true
+    },
+    refundAmount: {
+        type: Number,
+        min: 0,
+        validate: minorUnitsValidator
+    },
+    receivedAt: Date
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+// Indexes
+ReturnRequestSchema.index({ order: 1 });
+ReturnRequestSchema.index({ user: 1, createdAt: -1 });
+ReturnRequestSchema.index({ status: 1 });
+
+// Pre-validate middleware to generate return number (returnNumber is required)
+ReturnRequestSchema.pre('validate', function(next) {
+    if (this.isNew && !this.returnNumber) {
+        const timestamp = Date.now().toString(36).toUpperCase();
+        const random = Math.random().toString(36).substr(2, 4).toUpperCase();
+        this.returnNumber = `RMA-${timestamp}-${random}`;
+    }
+    next();
+});
+
+// Pre-save middleware to initialize history
+ReturnRequestSchema.pre('save', function(next) {
+    if (this.isNew && this.history.length === 0) {
+        this.history = [{
+            status: this.status,
+            updatedAt: new Date()
+        } as IReturnHistory];
+    }
+    next();
+});
+
+export const ReturnRequest = mongoose.model<IReturnRequest>('ReturnRequest', ReturnRequestSchema);
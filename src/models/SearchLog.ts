@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Search logs older than this are removed by MongoDB (TTL index)
+const RETENTION_DAYS = 180;
+
+export interface ISearchClick {
+    product: mongoose.Types.ObjectId;
+    position?: number; // 1-based rank of the product in the results
+    clickedAt: Date;
+}
+
+export interface ISearchCartAdd {
+    product: mongoose.Types.ObjectId;
+    addedAt: Date;
+}
+
+/**
+ * One product search a shopper ran, with what they did with its results.
+ * Clicks and cart adds are attributed by the id returned in the X-Search-Id header.
+ */
+export interface ISearchLog extends Document {
+    query: string; // As typed
+    normalizedQuery: string; // Lowercase and accent-free; reports group on it
+    filters?: Record<string, any>; // Filters the search was narrowed by, if any
+    resultCount: number;
+    language: string;
+    clicks: ISearchClick[];
+    cartAdds: ISearchCartAdd[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SearchLogSchema = new Schema<ISearchLog>({
+    query: {
+        type: String,
+        required: [true, 'Search query is required'],
+        trim: true,
+        maxlength: [200, 'Search query cannot exceed 200 characters']
+    },
+    normalizedQuery: {
+        type: String,
+        required: true
+    },
+    filters: Schema.Types.Mixed,
+    resultCount: {
+        type: Number,
+        required: true,
+        min: 0
+    },
+    language: {
+        type: String,
+        required: true
+    },
+    clicks: [{
+        _id: false,
+        product: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+        position: { type: Number, min: 1 },
+        clickedAt: { type: Date, default: Date.now }
+    }],
+    cartAdds: [{
+        _id: false,
+        product: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+        addedAt: { type: Date, default: Date.now }
+    }]
+}, {
+    timestamps: true
+});
+
+SearchLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+SearchLogSchema.index({ normalizedQuery: 1, createdAt: -1 });
+
+export const SearchLog = mongoose.model<ISearchLog>('SearchLog', SearchLogSchema);
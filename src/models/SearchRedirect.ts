@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { normalizeSearchText } from '../utils/searchText';
+
+/**
+ * A query that opens a page instead of search results, e.g. "returns" to the returns policy
+ */
+export interface ISearchRedirect extends Document {
+    query: string; // As entered
+    normalizedQuery: string; // Matched against the whole normalized search query
+    url: string; // A path on the storefront or an absolute http(s) URL
+    isActive: boolean;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SearchRedirectSchema = new Schema<ISearchRedirect>({
+    query: {
+        type: String,
+        required: [true, 'Query is required'],
+        trim: true,
+        maxlength: [200, 'Query cannot exceed 200 characters']
+    },
+    normalizedQuery: {
+        type: String,
+        required: true
+    },
+    url: {
+        type: String,
+        required: [true, 'Redirect URL is required'],
+        trim: true,
+        match: [/^(\/|https?:\/\/)/, 'Redirect URL must be a path or an http(s) URL']
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    }
+}, {
+    timestamps: true
+});
+
+SearchRedirectSchema.index({ normalizedQuery: 1 }, { unique: true });
+
+// Pre-validate middleware to normalize the query (normalizedQuery is required)
+SearchRedirectSchema.pre('validate', function(next) {
+    this.normalizedQuery = normalizeSearchText(this.query || '');
+    next();
+});
+
+export const SearchRedirect = mongoose.model<ISearchRedirect>('SearchRedirect', SearchRedirectSchema);
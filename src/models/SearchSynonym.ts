@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { normalizeSearchText } from '../utils/searchText';
+
+/**
+ * Words or phrases search treats as meaning the same, both ways: a query with one of them also
+ * finds products described with any other (e.g. "điện thoại" and "smartphone").
+ */
+export interface ISearchSynonym extends Document {
+    terms: string[]; // As entered
+    normalizedTerms: string[]; // Lowercase and accent-free, as queries are matched
+    isActive: boolean;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SearchSynonymSchema = new Schema<ISearchSynonym>({
+    terms: [{
+        type: String,
+        trim: true,
+        maxlength: [100, 'Synonym cannot exceed 100 characters']
+    }],
+    normalizedTerms: [String],
+    isActive: {
+        type: Boolean,
+        default: true
+    }
+}, {
+    timestamps: true
+});
+
+SearchSynonymSchema.index({ normalizedTerms: 1 });
+
+// Pre-validate middleware to normalize the terms (duplicates, once normalized, are dropped)
+SearchSynonymSchema.pre('validate', function(next) {
+    this.normalizedTerms = [...new Set(this.terms.map(term => normalizeSearchText(term)).filter(Boolean))];
+    if (this.normalizedTerms.length < 2) {
+        this.invalidate('terms', 'At least two different terms are required');
+    }
+    next();
+});
+
+export const SearchSynonym = mongoose.model<ISearchSynonym>('SearchSynonym', SearchSynonymSchema);
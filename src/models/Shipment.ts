@@ -0,0 +1,171 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { minorUnitsValidator } from '../utils/money';
+
+export type ShipmentStatus =
+    | 'label_created'
+    | 'picked_up'
+    | 'in_transit'
+    | 'out_for_delivery'
+    | 'delivered'
+    | 'failed_attempt'
+    | 'returned'
+    | 'cancelled'
+    | 'exception';
+
+export const SHIPMENT_STATUSES: ShipmentStatus[] = [
+    'label_created',
+    'picked_up',
+    'in_transit',
+    'out_for_delivery',
+    'delivered',
+    'failed_attempt',
+    'returned',
+    'cancelled',
+    'exception'
+];
+
+export interface IShipmentItem {
+    item: mongoose.Types.ObjectId; // Order item _id
+    product: mongoose.Types.ObjectId;
+    name: string;
+    quantity: number;
+}
+
+export interface IShipmentEvent {
+    status: ShipmentStatus;
+    carrierStatus?: string; // Raw status reported by the carrier
+    description?: string;
+    location?: string;
+    occurredAt: Date;
+    eventId?: string; // Used to ignore repeated webhooks
+}
+
+export interface IShipment extends Document {
+    order: mongoose.Types.ObjectId;
+    carrier: string; // Carrier adapter name, e.g. "ghn"
+    trackingNumber: string;
+    labelUrl?: string;
+    items: IShipmentItem[];
+
+    // Status and tracking
+    status: ShipmentStatus;
+    events: IShipmentEvent[];
+    estimatedDelivery?: Date;
+    pickedUpAt?: Date;
+    deliveredAt?: Date;
+
+    // Charges
+    fee?: number; // What the carrier charges us
+    codAmount: number; // Cash the courier collects from the customer
+
+    createdBy?: mongoose.Types.ObjectId;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ShipmentItemSchema = new Schema<IShipmentItem>({
+    item: {
+        type: Schema.Types.ObjectId,
+        required: true
+    },
+    product: {
+        type: Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+    name: {
+        type: String,
+        required: true
+    },
+    quantity: {
+        type: Number,
+        required: true,
+        min: [1, 'Quantity must be at least 1']
+    }
+}, { _id: false });
+
+const ShipmentEventSchema = new Schema<IShipmentEvent>({
+    status: {
+        type: String,
+        enum: SHIPMENT_STATUSES,
+        required: true
+    },
+    carrierStatus: String,
+    description: String,
+    location: String,
+    occurredAt: {
+        type: Date,
+        default: Date.now
+    },
+    eventId: String
+}, { _id: false });
+
+const ShipmentSchema = new Schema<IShipment>({
+    order: {
+        type: Schema.Types.ObjectId,
+        ref: 'Order',
+        required: true
+    },
+    carrier: {
+        type: String,
+        required: true,
+        lowercase: true
+    },
+    trackingNumber: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    labelUrl: String,
+    items: {
+        type: [ShipmentItemSchema],
+        validate: [(items: IShipmentItem[]) => items.length > 0, 'At least one item is required']
+    },
+    status: {
+        type: String,
+        enum: SHIPMENT_STATUSES,
+        default: 'label_created'
+    },
+    events: [ShipmentEventSchema],
+    estimatedDelivery: Date,
+    pickedUpAt: Date,
+    deliveredAt: Date,
+    fee: {
+        type: Number,
+        min: 0,
+        validate: minorUnitsValidator
+    },
+    codAmount: {
+        type: Number,
+        default: 0,
+        min: 0,
+        validate: minorUnitsValidator
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+// Indexes
+ShipmentSchema.index({ carrier: 1, trackingNumber: 1 }, { unique: true });
+ShipmentSchema.index({ order: 1 });
+
+// Pre-save middleware to initialize events
+ShipmentSchema.pre('save', function(next) {
+    if (this.isNew && this.events.length === 0) {
+        this.events = [{
+            status: this.status,
+            occurredAt: new Date()
+        } as IShipmentEvent];
+    }
+    next();
+});
+
+export const Shipment = mongoose.model<IShipment>('Shipment', ShipmentSchema);
@@ -0,0 +1,146 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { minorUnitsValidator } from '../utils/money';
+
+export type ShippingRateType = 'flat' | 'weight' | 'volumetric' | 'free_over_threshold';
+
+export interface IShippingMethod {
+    _id?: mongoose.Types.ObjectId;
+    code: string; // Chosen at checkout as the order's shippingMethod
+    name: string;
+    description?: string;
+    type: ShippingRateType;
+    baseRate: number; // Flat price, or the fixed part of weight/volumetric prices (base currency minor units)
+    ratePerKg: number; // Weight and volumetric methods
+    volumetricDivisor: number; // cm³ per kg, usually 5000 (or 6000 for some carriers)
+    threshold?: number; // free_over_threshold: subtotal from which the method is offered
+    shippingClasses: string[]; // Empty means every shipping class
+    maxWeight?: number; // kg; heavier parcels are not offered the method
+    estimatedDays?: {
+        min: number;
+        max: number;
+    };
+    isActive: boolean;
+}
+
+export interface IShippingZone extends Document {
+    name: string;
+    countries: string[]; // ISO 3166-1 alpha-2; empty means the rest of the world
+    states: string[]; // Empty means the whole country
+    methods: IShippingMethod[];
+    priority: number; // Breaks ties between equally specific zones
+    isActive: boolean;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ShippingMethodSchema = new Schema<IShippingMethod>({
+    code: {
+        type: String,
+        required: [true, 'Method code is required'],
+        lowercase: true,
+        trim: true
+    },
+    name: {
+        type: String,
+        required: [true, 'Method name is required'],
+        trim: true
+    },
+    description: String,
+    type: {
+        type: String,
+        enum: ['flat', 'weight', 'volumetric', 'free_over_threshold'],
+        required: true
+    },
+    baseRate: {
+        type: Number,
+        default: 0,
+        min: [0, 'Rate cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    ratePerKg: {
+        type: Number,
+        default: 0,
+        min: [0, 'Rate cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    volumetricDivisor: {
+        type: Number,
+        default: 5000,
+        min: [1, 'Volumetric divisor must be positive']
+    },
+    threshold: {
+        type: Number,
+        min: [0, 'Threshold cannot be negative'],
+        validate: minorUnitsValidator
+    },
+    shippingClasses: [{
+        type: String,
+        trim: true
+    }],
+    maxWeight: {
+        type: Number,
+        min: 0
+    },
+    estimatedDays: {
+        min: { type: Number, min: 0 },
+        max: { type: Number, min: 0 }
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    }
+});
+
+const ShippingZoneSchema = new Schema<IShippingZone>({
+    name: {
+        type: String,
+        required: [true, 'Zone name is required'],
+        trim: true,
+        maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    countries: [{
+        type: String,
+        uppercase: true,
+        trim: true
+    }],
+    states: [{
+        type: String,
+        trim: true
+    }],
+    methods: [ShippingMethodSchema],
+    priority: {
+        type: Number,
+        default: 0
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+// Indexes
+ShippingZoneSchema.index({ countries: 1, isActive: 1 });
+
+// Pre-validate middleware to check method settings
+ShippingZoneSchema.pre('validate', function(next) {
+    const codes = new Set<string>();
+    this.methods.forEach((method, index) => {
+        if (codes.has(method.code)) {
+            this.invalidate(`methods.${index}.code`, `Duplicate method code: ${method.code}`);
+        }
+        codes.add(method.code);
+
+        if (method.type === 'free_over_threshold' && method.threshold === undefined) {
+            this.invalidate(`methods.${index}.threshold`, 'Free-over-threshold methods need a threshold');
+        }
+    });
+    next();
+});
+
+export const ShippingZone = mongoose.model<IShippingZone>('ShippingZone', ShippingZoneSchema);
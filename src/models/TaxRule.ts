@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITaxRule extends Document {
+    name: string; // Shown on invoices, e.g. "VAT 10%"
+    country: string; // ISO 3166-1 alpha-2
+    state?: string; // Empty means the whole country
+    category?: mongoose.Types.ObjectId; // Empty means every category
+    rate: number; // 0.1 = 10%
+    priceIncludesTax: boolean; // VAT-inclusive pricing: the tax is carved out of the price
+    priority: number; // Breaks ties between equally specific rules
+    isActive: boolean;
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const TaxRuleSchema = new Schema<ITaxRule>({
+    name: {
+        type: String,
+        required: [true, 'Tax rule name is required'],
+        trim: true,
+        maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    country: {
+        type: String,
+        required: [true, 'Country is required'],
+        uppercase: true,
+        trim: true,
+        minlength: 2,
+        maxlength: 2
+    },
+    state: {
+        type: String,
+        trim: true
+    },
+    category: {
+        type: Schema.Types.ObjectId,
+        ref: 'Category'
+    },
+    rate: {
+        type: Number,
+        required: [true, 'Tax rate is required'],
+        min: [0, 'Tax rate cannot be negative'],
+        max: [1, 'Tax rate cannot exceed 100%']
+    },
+    priceIncludesTax: {
+        type: Boolean,
+        default: false
+    },
+    priority: {
+        type: Number,
+        default: 0
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+// Indexes
+TaxRuleSchema.index({ country: 1, state: 1, isActive: 1 });
+
+export const TaxRule = mongoose.model<ITaxRule>('TaxRule', TaxRuleSchema);
@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWishlistItem {
+    _id?: mongoose.Types.ObjectId;
+    product: mongoose.Types.ObjectId;
+    variantId?: mongoose.Types.ObjectId; // Saved variant; without one the shopper picks it when moving to the cart
+    variant?: {
+        name: string;
+        value: string;
+    }[];
+    note?: string;
+    addedAt: Date;
+}
+
+export interface IWishlist extends Document {
+    user: mongoose.Types.ObjectId;
+    name: string;
+    isDefault: boolean; // Items saved without naming a list go here
+    items: IWishlistItem[];
+
+    // Sharing
+    isPublic: boolean;
+    shareToken?: string; // Random token of the public link; a new one is issued on every share
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+
+    // Methods
+    findItem(productId: string, variantId?: string): IWishlistItem | undefined;
+}
+
+const WishlistItemSchema = new Schema<IWishlistItem>({
+    product: {
+        type: Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+    variantId: Schema.Types.ObjectId,
+    variant: [{
+        name: { type: String, required: true },
+        value: { type: String, required: true }
+    }],
+    note: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Note cannot exceed 500 characters']
+    },
+    addedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+const WishlistSchema = new Schema<IWishlist>({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: [true, 'Wishlist owner is required']
+    },
+    name: {
+        type: String,
+        required: [true, 'Wishlist name is required'],
+        trim: true,
+        maxlength: [100, 'Wishlist name cannot exceed 100 characters']
+    },
+    isDefault: {
+        type: Boolean,
+        default: false
+    },
+    items: [WishlistItemSchema],
+    isPublic: {
+        type: Boolean,
+        default: false
+    },
+    shareToken: String
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+// Indexes
+WishlistSchema.index({ user: 1, createdAt: 1 });
+// One default list per user
+WishlistSchema.index(
+    { user: 1 },
+    { unique: true, partialFilterExpression: { isDefault: true } }
+);
+WishlistSchema.index(
+    { shareToken: 1 },
+    { unique: true, partialFilterExpression: { shareToken: { $exists: true } } }
+);
+WishlistSchema.index({ 'items.product': 1 });
+
+// An entry is one product variant (or a product saved without choosing one)
+const isSameItem = (item: IWishlistItem, productId: string, variantId?: string): boolean => {
+    const itemProductId = (item.product as any)?._id?.toString() || item.product.toString();
+    return itemProductId === productId && item.variantId?.toString() === variantId;
+};
+
+// Methods
+WishlistSchema.methods.findItem = function(productId: string, variantId?: string): IWishlistItem | undefined {
+    return this.items.find((item: IWishlistItem) => isSameItem(item, productId, variantId));
+};
+
+export const Wishlist = mongoose.model<IWishlist>('Wishlist', WishlistSchema);
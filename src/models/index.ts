@@ -4,7 +4,19 @@ import "./Product";
 import "./Category";
 import "./Brand";
 import "./Order";
+import "./PaymentEvent";
+import "./ReturnRequest";
 import "./Cart";
+import "./Wishlist";
+import "./SearchLog";
+import "./SearchSynonym";
+import "./SearchRedirect";
+import "./MerchandisingRule";
+import "./Coupon";
+import "./TaxRule";
+import "./ShippingZone";
+import "./Shipment";
+import "./ExchangeRate";
 import "./Review";
 import "./Translation";
 
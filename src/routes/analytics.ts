@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { protect, authorize } from '../middleware/auth';
 import { adminRateLimit } from '../middleware/rateLimiting';
 import { staticDataCache } from '../middleware/compression';
+import { validate } from '../middleware/zodValidation';
+import { searchReportQuerySchema } from '../schemas/validation';
 import {
     getDashboardAnalytics,
     getProductAnalytics,
@@ -10,6 +12,9 @@ import {
     getPerformanceAnalytics,
     getTopProducts,
     getConversionFunnel,
+    getTopSearchQueries,
+    getZeroResultSearchQueries,
+    getSearchConversion,
     exportAnalytics,
     clearAnalyticsCache
 } from '../controllers/analyticsController';
@@ -38,6 +43,11 @@ router.get('/performance', authorize('admin'), staticDataCache(60), adminRateLim
 // Conversion funnel (admin and seller)
 router.get('/funnel', authorize('admin', 'seller'), staticDataCache(300), adminRateLimit, getConversionFunnel);
 
+// Search analytics (admin only; ?dateFrom=&dateTo=, default the last 30 days)
+router.get('/search/top-queries', authorize('admin'), staticDataCache(300), adminRateLimit, validate(searchReportQuerySchema), getTopSearchQueries);
+router.get('/search/zero-results', authorize('admin'), staticDataCache(300), adminRateLimit, validate(searchReportQuerySchema), getZeroResultSearchQueries);
+router.get('/search/conversion', authorize('admin'), staticDataCache(300), adminRateLimit, validate(searchReportQuerySchema), getSearchConversion);
+
 // Export analytics (admin only)
 router.get('/export', authorize('admin'), adminRateLimit, exportAnalytics);
 
@@ -1,6 +1,9 @@
 import { Router } from "express";
-import { protect } from "../middleware/auth";
+import { protect, optionalAuth } from "../middleware/auth";
+import { guestSession } from "../middleware/guestSession";
 import { cartRateLimit } from "../middleware/rateLimiting";
+import { validate } from "../middleware/zodValidation";
+import { applyCouponSchema, cartSummarySchema, shippingOptionsSchema } from "../schemas/validation";
 import {
     getCart,
     addToCart,
@@ -8,6 +11,9 @@ import {
     removeFromCart,
     clearCart,
     getCartSummary,
+    applyCoupon,
+    removeCoupon,
+    getShippingOptions,
     validateCart,
     mergeGuestCart,
     getCartItemCount
@@ -15,17 +21,24 @@ import {
 
 const router = Router();
 
-// Public routes (work with session ID for guest users) with rate limiting
-router.get("/count", cartRateLimit, getCartItemCount);
-router.get("/summary", cartRateLimit, getCartSummary);
-router.get("/validate", cartRateLimit, validateCart);
-router.get("/", cartRateLimit, getCart);
-router.post("/items", cartRateLimit, addToCart);
-router.put("/items/:productId", cartRateLimit, updateCartItem);
-router.delete("/items/:productId", cartRateLimit, removeFromCart);
-router.delete("/clear", cartRateLimit, clearCart);
+// Every cart route is rate limited and resolves the shopper: the signed-in user when a bearer
+// token is sent (merging any guest cart into theirs), else the signed guest session
+router.use(cartRateLimit, optionalAuth, guestSession);
 
-// Protected routes (require authentication) with rate limiting
-router.post("/merge", protect, cartRateLimit, mergeGuestCart);
+// Public routes (signed-in users or guest sessions)
+router.get("/count", getCartItemCount);
+router.get("/summary", validate(cartSummarySchema), getCartSummary);
+router.get("/shipping-options", validate(shippingOptionsSchema), getShippingOptions);
+router.get("/validate", validateCart);
+router.get("/", getCart);
+router.post("/items", addToCart);
+router.put("/items/:productId", updateCartItem);
+router.delete("/items/:productId", removeFromCart);
+router.delete("/clear", clearCart);
+router.post("/coupon", validate(applyCouponSchema), applyCoupon);
+router.delete("/coupon", removeCoupon);
+
+// Protected routes (require authentication)
+router.post("/merge", protect, mergeGuestCart);
 
 export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { protect, authorize } from "../middleware/auth";
+import { validate } from "../middleware/zodValidation";
+import { createCouponSchema, updateCouponSchema, idParamSchema } from "../schemas/validation";
+import { getCoupons, getCoupon, createCoupon, updateCoupon, deleteCoupon } from "../controllers/couponController";
+
+const router = Router();
+
+// Coupon management is admin only; customers apply codes through /cart/coupon
+router.use(protect, authorize("admin", "ADMIN"));
+
+router.get("/", getCoupons);
+router.get("/:id", validate(idParamSchema), getCoupon);
+router.post("/", validate(createCouponSchema), createCoupon);
+router.put("/:id", validate(updateCouponSchema), updateCoupon);
+router.delete("/:id", validate(idParamSchema), deleteCoupon);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { protect, authorize } from "../middleware/auth";
+import { validate } from "../middleware/zodValidation";
+import { setExchangeRateSchema, currencyParamSchema } from "../schemas/validation";
+import {
+    getCurrencies,
+    getExchangeRates,
+    setExchangeRate,
+    deleteExchangeRate
+} from "../controllers/currencyController";
+
+const router = Router();
+
+// Public route
+router.get("/", getCurrencies);
+
+// Admin routes
+router.get("/rates", protect, authorize("admin", "ADMIN"), getExchangeRates);
+router.put("/rates/:currency", protect, authorize("admin", "ADMIN"), validate(setExchangeRateSchema), setExchangeRate);
+router.delete(
+    "/rates/:currency",
+    protect,
+    authorize("admin", "ADMIN"),
+    validate(currencyParamSchema),
+    deleteExchangeRate
+);
+
+export default router;
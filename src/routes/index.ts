@@ -5,7 +5,16 @@ import productRoutes from "./products";
 import categoryRoutes from "./categories";
 import brandRoutes from "./brands";
 import orderRoutes from "./orders";
+import paymentRoutes from "./payments";
+import returnRoutes from "./returns";
+import shipmentRoutes from "./shipments";
 import cartRoutes from "./cart";
+import wishlistRoutes from "./wishlists";
+import couponRoutes from "./coupons";
+import taxRuleRoutes from "./taxRules";
+import merchandisingRoutes from "./merchandising";
+import shippingZoneRoutes from "./shippingZones";
+import currencyRoutes from "./currencies";
 import reviewRoutes from "./reviews";
 import adminRoutes from "./admin";
 import performanceRoutes from "./performance";
@@ -75,7 +84,16 @@ router.use("/products", productRoutes);
 router.use("/categories", categoryRoutes);
 router.use("/brands", brandRoutes);
 router.use("/orders", orderRoutes);
+router.use("/payments", paymentRoutes);
+router.use("/returns", returnRoutes);
+router.use("/shipments", shipmentRoutes);
 router.use("/cart", cartRoutes);
+router.use("/wishlists", wishlistRoutes);
+router.use("/coupons", couponRoutes);
+router.use("/tax-rules", taxRuleRoutes);
+router.use("/merchandising", merchandisingRoutes);
+router.use("/shipping-zones", shippingZoneRoutes);
+router.use("/currencies", currencyRoutes);
 router.use("/reviews", reviewRoutes);
 router.use("/admin", adminRoutes);
 router.use("/performance", performanceRoutes);
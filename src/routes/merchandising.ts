@@ -0,0 +1,50 @@
+import { Router } from "express";
+import { protect, authorize } from "../middleware/auth";
+import { validate } from "../middleware/zodValidation";
+import {
+    idParamSchema,
+    createSearchSynonymSchema,
+    updateSearchSynonymSchema,
+    createSearchRedirectSchema,
+    updateSearchRedirectSchema,
+    createMerchandisingRuleSchema,
+    updateMerchandisingRuleSchema
+} from "../schemas/validation";
+import {
+    getSearchSynonyms,
+    createSearchSynonym,
+    updateSearchSynonym,
+    deleteSearchSynonym,
+    getSearchRedirects,
+    createSearchRedirect,
+    updateSearchRedirect,
+    deleteSearchRedirect,
+    getMerchandisingRules,
+    getMerchandisingRule,
+    createMerchandisingRule,
+    updateMerchandisingRule,
+    deleteMerchandisingRule
+} from "../controllers/merchandisingController";
+
+const router = Router();
+
+// Synonyms, redirects and rules are admin only; shoppers see their effect in listings and search
+router.use(protect, authorize("admin", "ADMIN"));
+
+router.get("/synonyms", getSearchSynonyms);
+router.post("/synonyms", validate(createSearchSynonymSchema), createSearchSynonym);
+router.put("/synonyms/:id", validate(updateSearchSynonymSchema), updateSearchSynonym);
+router.delete("/synonyms/:id", validate(idParamSchema), deleteSearchSynonym);
+
+router.get("/redirects", getSearchRedirects);
+router.post("/redirects", validate(createSearchRedirectSchema), createSearchRedirect);
+router.put("/redirects/:id", validate(updateSearchRedirectSchema), updateSearchRedirect);
+router.delete("/redirects/:id", validate(idParamSchema), deleteSearchRedirect);
+
+router.get("/rules", getMerchandisingRules);
+router.get("/rules/:id", validate(idParamSchema), getMerchandisingRule);
+router.post("/rules", validate(createMerchandisingRuleSchema), createMerchandisingRule);
+router.put("/rules/:id", validate(updateMerchandisingRuleSchema), updateMerchandisingRule);
+router.delete("/rules/:id", validate(idParamSchema), deleteMerchandisingRule);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { config } from "../config/config";
+import { stripeWebhook, vnpayIpn, vnpayReturn, fakeWebhook } from "../controllers/paymentController";
+
+const router = Router();
+
+// Provider callbacks are authenticated by their signatures, not by user tokens
+router.post("/webhooks/stripe", stripeWebhook);
+router.get("/vnpay/ipn", vnpayIpn);
+router.get("/vnpay/return", vnpayReturn);
+
+// The fake provider signs with a well-known secret, so it is never exposed outside test/dev
+if (config.payment.useFakeProvider) {
+    router.post("/webhooks/fake", fakeWebhook);
+}
+
+export default router;
@@ -3,16 +3,31 @@ import { protect, authorize } from "../middleware/auth";
 import { validate, validateQuery } from "../middleware/zodValidation";
 import { searchRateLimit, generalRateLimit, adminRateLimit } from "../middleware/rateLimiting";
 import { staticDataCache } from "../middleware/compression";
-import { createProductSchema, updateProductSchema, productQuerySchema, idParamSchema } from "../schemas/validation";
+import {
+    createProductSchema,
+    updateProductSchema,
+    productQuerySchema,
+    idParamSchema,
+    slugParamSchema,
+    searchClickSchema,
+    generateVariantsSchema,
+    updateVariantSchema
+} from "../schemas/validation";
 import {
     getProducts,
+    getProductFacets,
     getProduct,
+    getProductBySlug,
     createProduct,
     updateProduct,
     deleteProduct,
     getFeaturedProducts,
     searchProducts,
+    recordSearchClick,
+    suggestProducts,
     updateProductStock,
+    generateProductVariants,
+    updateProductVariant,
     getProductsByCategory,
     getProductsByBrand
 } from "../controllers/productController";
@@ -21,9 +36,13 @@ const router = Router();
 
 // Public routes with optimized caching and rate limiting
 router.get("/search", searchRateLimit, searchProducts);
+router.post("/search/:searchId/clicks", searchRateLimit, validate(searchClickSchema), recordSearchClick);
+router.get("/suggest", searchRateLimit, suggestProducts);
 router.get("/featured", staticDataCache(300), getFeaturedProducts); // Cache for 5 minutes
 router.get("/category/:categoryId", staticDataCache(600), getProductsByCategory); // Cache for 10 minutes
 router.get("/brand/:brandId", staticDataCache(600), getProductsByBrand); // Cache for 10 minutes
+router.get("/slug/:slug", staticDataCache(300), validate(slugParamSchema), getProductBySlug);
+router.get("/facets", generalRateLimit, getProductFacets);
 router.get("/", generalRateLimit, getProducts);
 router.get("/:id", staticDataCache(300), validate(idParamSchema), getProduct); // Cache individual products
 
@@ -32,5 +51,21 @@ router.post("/", protect, authorize("admin", "seller"), adminRateLimit, validate
 router.put("/:id", protect, authorize("admin", "seller"), adminRateLimit, validate(updateProductSchema), updateProduct);
 router.delete("/:id", protect, authorize("admin", "seller"), adminRateLimit, validate(idParamSchema), deleteProduct);
 router.put("/:id/stock", protect, authorize("admin", "seller"), adminRateLimit, updateProductStock);
+router.post(
+    "/:id/variants/generate",
+    protect,
+    authorize("admin", "seller"),
+    adminRateLimit,
+    validate(generateVariantsSchema),
+    generateProductVariants
+);
+router.put(
+    "/:id/variants/:variantId",
+    protect,
+    authorize("admin", "seller"),
+    adminRateLimit,
+    validate(updateVariantSchema),
+    updateProductVariant
+);
 
 export default router;
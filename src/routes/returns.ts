@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { protect, authorize } from "../middleware/auth";
+import { validate } from "../middleware/zodValidation";
+import { createReturnSchema, returnDecisionSchema, receiveReturnSchema, idParamSchema } from "../schemas/validation";
+import {
+    createReturn,
+    getReturns,
+    getReturn,
+    getAdminReturns,
+    approveReturn,
+    rejectReturn,
+    receiveReturn
+} from "../controllers/returnController";
+
+const router = Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Customer routes
+router.get("/", getReturns);
+router.get("/:id", validate(idParamSchema), getReturn);
+router.post("/", validate(createReturnSchema), createReturn);
+
+// Admin routes
+router.get("/admin/all", authorize("admin", "ADMIN"), getAdminReturns);
+router.put("/:id/approve", authorize("admin", "ADMIN"), validate(returnDecisionSchema), approveReturn);
+router.put("/:id/reject", authorize("admin", "ADMIN"), validate(returnDecisionSchema), rejectReturn);
+router.put("/:id/receive", authorize("admin", "ADMIN"), validate(receiveReturnSchema), receiveReturn);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { protect, authorize } from "../middleware/auth";
+import { validate } from "../middleware/zodValidation";
+import { idParamSchema } from "../schemas/validation";
+import { refreshShipment, cancelShipment, carrierWebhook } from "../controllers/shipmentController";
+
+const router = Router();
+
+// Carrier callbacks are authenticated by their tokens/signatures, not by user tokens
+router.post("/webhooks/:carrier", carrierWebhook);
+
+// Admin routes (orders' shipments are created and listed under /orders/:id/shipments)
+router.post("/:id/refresh", protect, authorize("admin", "ADMIN"), validate(idParamSchema), refreshShipment);
+router.put("/:id/cancel", protect, authorize("admin", "ADMIN"), validate(idParamSchema), cancelShipment);
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { protect, authorize } from "../middleware/auth";
+import { validate } from "../middleware/zodValidation";
+import { createShippingZoneSchema, updateShippingZoneSchema, idParamSchema } from "../schemas/validation";
+import {
+    getShippingZones,
+    getShippingZone,
+    createShippingZone,
+    updateShippingZone,
+    deleteShippingZone
+} from "../controllers/shippingZoneController";
+
+const router = Router();
+
+// Shipping zones are admin only; customers get quotes through /cart/shipping-options
+router.use(protect, authorize("admin", "ADMIN"));
+
+router.get("/", getShippingZones);
+router.get("/:id", validate(idParamSchema), getShippingZone);
+router.post("/", validate(createShippingZoneSchema), createShippingZone);
+router.put("/:id", validate(updateShippingZoneSchema), updateShippingZone);
+router.delete("/:id", validate(idParamSchema), deleteShippingZone);
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { protect, authorize } from "../middleware/auth";
+import { validate } from "../middleware/zodValidation";
+import { createTaxRuleSchema, updateTaxRuleSchema, idParamSchema } from "../schemas/validation";
+import { getTaxRules, getTaxRule, createTaxRule, updateTaxRule, deleteTaxRule } from "../controllers/taxRuleController";
+
+const router = Router();
+
+// Tax rules are admin only; customers see their tax in the cart summary and on orders
+router.use(protect, authorize("admin", "ADMIN"));
+
+router.get("/", getTaxRules);
+router.get("/:id", validate(idParamSchema), getTaxRule);
+router.post("/", validate(createTaxRuleSchema), createTaxRule);
+router.put("/:id", validate(updateTaxRuleSchema), updateTaxRule);
+router.delete("/:id", validate(idParamSchema), deleteTaxRule);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { protect } from "../middleware/auth";
+import { generalRateLimit } from "../middleware/rateLimiting";
+import { validate } from "../middleware/zodValidation";
+import {
+    createWishlistSchema,
+    updateWishlistSchema,
+    addWishlistItemSchema,
+    wishlistItemParamSchema,
+    moveWishlistItemSchema,
+    shareTokenParamSchema,
+    idParamSchema
+} from "../schemas/validation";
+import {
+    getWishlists,
+    getWishlist,
+    createWishlist,
+    updateWishlist,
+    deleteWishlist,
+    addWishlistItem,
+    removeWishlistItem,
+    moveWishlistItemToCart,
+    shareWishlist,
+    unshareWishlist,
+    getSharedWishlist
+} from "../controllers/wishlistController";
+
+const router = Router();
+
+// Public routes (anyone with the share link)
+router.get("/shared/:token", generalRateLimit, validate(shareTokenParamSchema), getSharedWishlist);
+
+// Protected routes (require authentication)
+router.use(protect);
+
+router.get("/", getWishlists);
+router.post("/", validate(createWishlistSchema), createWishlist);
+router.post("/items", validate(addWishlistItemSchema), addWishlistItem);
+router.get("/:id", validate(idParamSchema), getWishlist);
+router.put("/:id", validate(updateWishlistSchema), updateWishlist);
+router.delete("/:id", validate(idParamSchema), deleteWishlist);
+router.post("/:id/items", validate(addWishlistItemSchema), addWishlistItem);
+router.delete("/:id/items/:itemId", validate(wishlistItemParamSchema), removeWishlistItem);
+router.post("/:id/items/:itemId/move-to-cart", validate(moveWishlistItemSchema), moveWishlistItemToCart);
+router.post("/:id/share", validate(idParamSchema), shareWishlist);
+router.delete("/:id/share", validate(idParamSchema), unshareWishlist);
+
+export default router;
@@ -44,6 +44,16 @@ const email = z
     .refine((val) => EMAIL_REGEX.test(val), "Invalid email format")
     .transform((val) => val.toLowerCase());
 
+// ISO 4217 currency code
+const currencyCode = z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z]{3}$/, "Currency must be a 3-letter ISO code")
+    .transform((val) => val.toUpperCase());
+
+// Money amount in integer minor units (cents, or whole dong for VND)
+const minorUnits = (message: string) => z.number().int("Amounts must be in whole minor units").min(0, message);
+
 // Optimized password validation
 const password = z
     .string()
@@ -108,6 +118,28 @@ export const resetPasswordSchema = z.object({
 
 // ===== PRODUCT SCHEMAS =====
 
+// Option axes of a product (Color: Red, Blue) and the variants generated from them
+const productOption = z.object({
+    name: z.string().min(1, "Option name is required").trim(),
+    values: z.array(z.string().min(1, "Option value is required").trim()).min(1, "An option needs at least one value")
+});
+
+const productOptions = z
+    .array(productOption)
+    .refine((options) => new Set(options.map((option) => option.name)).size === options.length, {
+        message: "Option names must be unique"
+    });
+
+const productVariant = z.object({
+    options: z.array(z.object({ name: z.string().min(1).trim(), value: z.string().min(1).trim() })).min(1),
+    sku: z.string().min(1, "SKU is required").trim().toUpperCase(),
+    price: minorUnits("Price must be a positive number").optional(),
+    quantity: z.number().int().min(0, "Quantity must be a non-negative integer").default(0),
+    barcode: z.string().trim().optional(),
+    image: z.string().url("Invalid image URL").optional(),
+    isActive: z.boolean().default(true)
+});
+
 export const createProductSchema = z.object({
     body: z.object({
         name: z
@@ -121,9 +153,9 @@ export const createProductSchema = z.object({
             .max(5000, "Description cannot exceed 5000 characters")
             .trim(),
         shortDescription: z.string().max(500, "Short description cannot exceed 500 characters").trim().optional(),
-        price: z.number().min(0, "Price must be a positive number"),
-        comparePrice: z.number().min(0, "Compare price must be a positive number").optional(),
-        costPrice: z.number().min(0, "Cost price must be a positive number").optional(),
+        price: minorUnits("Price must be a positive number"),
+        comparePrice: minorUnits("Compare price must be a positive number").optional(),
+        costPrice: minorUnits("Cost price must be a positive number").optional(),
         sku: z.string().min(1, "SKU is required").trim().toUpperCase(),
         barcode: z.string().trim().optional(),
         trackQuantity: z.boolean().default(true),
@@ -152,14 +184,8 @@ export const createProductSchema = z.object({
             )
             .default([]),
         hasVariants: z.boolean().default(false),
-        variants: z
-            .array(
-                z.object({
-                    name: z.string().min(1, "Variant name is required"),
-                    options: z.array(z.string().min(1, "Variant option is required"))
-                })
-            )
-            .default([]),
+        options: productOptions.default([]),
+        variants: z.array(productVariant).default([]),
         seo: z
             .object({
                 title: z.string().optional(),
@@ -171,11 +197,26 @@ export const createProductSchema = z.object({
         isVisible: z.boolean().default(true),
         isFeatured: z.boolean().default(false),
         onSale: z.boolean().default(false),
-        salePrice: z.number().min(0, "Sale price must be a positive number").optional(),
+        salePrice: minorUnits("Sale price must be a positive number").optional(),
         saleStartDate: z.string().datetime().optional(),
         saleEndDate: z.string().datetime().optional(),
         requiresShipping: z.boolean().default(true),
-        shippingClass: z.string().optional()
+        shippingClass: z.string().optional(),
+        returnWindowDays: z.number().int().min(0, "Return window cannot be negative").optional(),
+        taxExempt: z.boolean().default(false),
+        prices: z
+            .array(
+                z.object({
+                    currency: currencyCode,
+                    price: minorUnits("Price must be a positive number"),
+                    comparePrice: minorUnits("Compare price must be a positive number").optional(),
+                    salePrice: minorUnits("Sale price must be a positive number").optional()
+                })
+            )
+            .refine((prices) => new Set(prices.map((price) => price.currency)).size === prices.length, {
+                message: "Only one price per currency is allowed"
+            })
+            .default([])
     })
 });
 
@@ -186,6 +227,29 @@ export const updateProductSchema = z.object({
     })
 });
 
+export const generateVariantsSchema = z.object({
+    body: z.object({
+        options: productOptions.optional()
+    }),
+    params: z.object({
+        id: objectId
+    })
+});
+
+export const updateVariantSchema = z.object({
+    body: productVariant
+        .omit({ options: true })
+        .partial()
+        .extend({
+            // null removes the price override
+            price: minorUnits("Price must be a positive number").nullable().optional()
+        }),
+    params: z.object({
+        id: objectId,
+        variantId: objectId
+    })
+});
+
 export const productQuerySchema = z.object({
     query: z.object({
         page: z.string().regex(/^\d+$/).transform(Number).optional(),
@@ -194,16 +258,8 @@ export const productQuerySchema = z.object({
         order: z.enum(["asc", "desc"]).optional(),
         category: objectId.optional(),
         brand: objectId.optional(),
-        minPrice: z
-            .string()
-            .regex(/^\d+(\.\d+)?$/)
-            .transform(Number)
-            .optional(),
-        maxPrice: z
-            .string()
-            .regex(/^\d+(\.\d+)?$/)
-            .transform(Number)
-            .optional(),
+        minPrice: z.string().regex(/^\d+$/).transform(Number).optional(),
+        maxPrice: z.string().regex(/^\d+$/).transform(Number).optional(),
         tags: z
             .string()
             .transform((val) => val.split(","))
@@ -229,6 +285,114 @@ export const productQuerySchema = z.object({
     })
 });
 
+// ===== SEARCH ANALYTICS SCHEMAS =====
+
+export const searchClickSchema = z.object({
+    body: z.object({
+        productId: objectId,
+        position: z.number().int().min(1, "Position must be at least 1").optional()
+    }),
+    params: z.object({
+        searchId: objectId
+    })
+});
+
+const reportDate = z
+    .string()
+    .refine((val) => !isNaN(Date.parse(val)), "Must be a valid date")
+    .transform((val) => new Date(val));
+
+// A date without a time ends the range with the whole of that day
+const reportDateTo = z
+    .string()
+    .refine((val) => !isNaN(Date.parse(val)), "Must be a valid date")
+    .transform((val) => {
+        const date = new Date(val);
+        if (/^\d{4}-\d{2}-\d{2}$/.test(val)) {
+            date.setUTCHours(23, 59, 59, 999);
+        }
+        return date;
+    });
+
+export const searchReportQuerySchema = z.object({
+    query: z.object({
+        dateFrom: reportDate.optional(),
+        dateTo: reportDateTo.optional(),
+        limit: z.string().regex(/^\d+$/).transform(Number).optional()
+    })
+});
+
+// ===== MERCHANDISING SCHEMAS =====
+
+const searchSynonymBody = z.object({
+    terms: z
+        .array(z.string().min(1, "Synonym cannot be empty").max(100, "Synonym cannot exceed 100 characters").trim())
+        .min(2, "At least two terms are required")
+        .max(20, "A synonym group cannot have more than 20 terms"),
+    isActive: z.boolean().optional()
+});
+
+export const createSearchSynonymSchema = z.object({
+    body: searchSynonymBody
+});
+
+export const updateSearchSynonymSchema = z.object({
+    body: searchSynonymBody.partial(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+const searchRedirectBody = z.object({
+    query: z.string().min(1, "Query is required").max(200, "Query cannot exceed 200 characters").trim(),
+    url: z
+        .string()
+        .trim()
+        .regex(/^(\/|https?:\/\/)/, "Redirect URL must be a path or an http(s) URL"),
+    isActive: z.boolean().optional()
+});
+
+export const createSearchRedirectSchema = z.object({
+    body: searchRedirectBody
+});
+
+export const updateSearchRedirectSchema = z.object({
+    body: searchRedirectBody.partial(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+const merchandisingRuleBody = z.object({
+    name: z.string().min(1, "Rule name is required").max(100, "Name cannot exceed 100 characters").trim(),
+    // A rule applies to either a search query or a category
+    query: z.string().min(1).max(200, "Query cannot exceed 200 characters").trim().optional(),
+    category: objectId.optional(),
+    pinned: z
+        .array(z.object({ product: objectId, position: z.number().int().min(1, "Position must be at least 1") }))
+        .max(50, "A rule cannot pin more than 50 products")
+        .optional(),
+    boosted: z.array(objectId).max(200).optional(),
+    buried: z.array(objectId).max(200).optional(),
+    isActive: z.boolean().optional(),
+    startsAt: z.string().datetime().optional(),
+    endsAt: z.string().datetime().optional()
+});
+
+export const createMerchandisingRuleSchema = z.object({
+    body: merchandisingRuleBody.refine(
+        (rule) => !rule.query !== !rule.category,
+        "A rule applies to either a search query or a category"
+    )
+});
+
+export const updateMerchandisingRuleSchema = z.object({
+    body: merchandisingRuleBody.partial(),
+    params: z.object({
+        id: objectId
+    })
+});
+
 // ===== CATEGORY SCHEMAS =====
 
 export const createCategorySchema = z.object({
@@ -244,6 +408,7 @@ export const createCategorySchema = z.object({
         icon: z.string().optional(),
         isActive: z.boolean().default(true),
         sortOrder: z.number().int().default(0),
+        returnWindowDays: z.number().int().min(0, "Return window cannot be negative").optional(),
         seo: z
             .object({
                 title: z.string().optional(),
@@ -362,6 +527,355 @@ export const updateAddressSchema = z.object({
     })
 });
 
+// ===== ORDER SCHEMAS =====
+
+const shippingAddress = z.object({
+    firstName: z.string().min(1, "First name is required").trim(),
+    lastName: z.string().min(1, "Last name is required").trim(),
+    company: z.string().trim().optional(),
+    street: z.string().min(1, "Street address is required").trim(),
+    city: z.string().min(1, "City is required").trim(),
+    state: z.string().min(1, "State is required").trim(),
+    zipCode: z.string().min(1, "Zip code is required").trim(),
+    // ISO 3166-1 alpha-2; tax rules are keyed by it
+    country: z.string().trim().length(2, "Country must be a 2-letter ISO code").toUpperCase(),
+    phone: z.string().trim().optional()
+});
+
+export const createOrderSchema = z.object({
+    body: z.object({
+        shippingAddress,
+        billingAddress: shippingAddress.optional(),
+        paymentMethod: z.enum(["credit_card", "vnpay", "bank_transfer", "cash_on_delivery"]),
+        shippingMethod: z.string().trim().optional(),
+        customerNotes: z.string().max(1000, "Notes cannot exceed 1000 characters").trim().optional(),
+        // Where order updates go; defaults to the account email
+        email: email.optional()
+    })
+});
+
+export const createGuestOrderSchema = z.object({
+    body: createOrderSchema.shape.body.extend({
+        email
+    })
+});
+
+export const orderLookupSchema = z.object({
+    body: z.object({
+        orderNumber: z.string().min(1, "Order number is required").trim().toUpperCase(),
+        email
+    })
+});
+
+export const guestAccountSchema = z.object({
+    body: z.object({
+        password,
+        firstName: z.string().min(2).max(50).trim().optional(),
+        lastName: z.string().min(2).max(50).trim().optional(),
+        phone: z
+            .string()
+            .refine((val) => PHONE_REGEX.test(val), "Invalid phone number format")
+            .optional()
+    }),
+    params: z.object({
+        token: z.string().min(1, "Tracking token is required")
+    })
+});
+
+export const cancelOrderSchema = z.object({
+    body: z
+        .object({
+            reason: z.string().max(500, "Reason cannot exceed 500 characters").trim().optional()
+        })
+        .optional(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+export const refundOrderSchema = z.object({
+    body: z.object({
+        items: z
+            .array(
+                z.object({
+                    itemId: objectId,
+                    quantity: z.number().int().min(1, "Quantity must be at least 1")
+                })
+            )
+            .optional(),
+        reason: z.string().max(500, "Reason cannot exceed 500 characters").trim().optional(),
+        restock: z.boolean().optional().default(false)
+    }),
+    params: z.object({
+        id: objectId
+    })
+});
+
+export const createShipmentSchema = z.object({
+    body: z.object({
+        carrier: z.string().min(1, "Carrier is required").toLowerCase(),
+        items: z
+            .array(
+                z.object({
+                    itemId: objectId,
+                    quantity: z.number().int().min(1, "Quantity must be at least 1")
+                })
+            )
+            .optional(),
+        note: z.string().max(500, "Note cannot exceed 500 characters").trim().optional()
+    }),
+    params: z.object({
+        id: objectId
+    })
+});
+
+// ===== RETURN SCHEMAS =====
+
+export const createReturnSchema = z.object({
+    body: z.object({
+        orderId: objectId,
+        items: z
+            .array(
+                z.object({
+                    itemId: objectId,
+                    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+                    reason: z.string().max(500, "Reason cannot exceed 500 characters").trim().optional()
+                })
+            )
+            .min(1, "At least one item is required"),
+        reason: z.string().min(1, "Return reason is required").max(1000, "Reason cannot exceed 1000 characters").trim(),
+        photos: z.array(z.string().url("Invalid photo URL")).max(10, "Cannot attach more than 10 photos").optional()
+    })
+});
+
+export const returnDecisionSchema = z.object({
+    body: z
+        .object({
+            note: z.string().max(500, "Note cannot exceed 500 characters").trim().optional()
+        })
+        .optional(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+export const receiveReturnSchema = z.object({
+    body: z
+        .object({
+            restock: z.boolean().optional(),
+            note: z.string().max(500, "Note cannot exceed 500 characters").trim().optional()
+        })
+        .optional(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+// ===== CART SCHEMAS =====
+
+export const cartSummarySchema = z.object({
+    query: z.object({
+        country: z.string().length(2, "Country must be a 2-letter ISO code").toUpperCase().optional(),
+        state: z.string().max(100).optional()
+    })
+});
+
+export const shippingOptionsSchema = z.object({
+    query: z.object({
+        country: z.string().length(2, "Country must be a 2-letter ISO code").toUpperCase(),
+        state: z.string().max(100).optional()
+    })
+});
+
+// ===== WISHLIST SCHEMAS =====
+
+const wishlistName = z
+    .string()
+    .min(1, "Wishlist name is required")
+    .max(100, "Wishlist name cannot exceed 100 characters")
+    .trim();
+
+export const createWishlistSchema = z.object({
+    body: z.object({
+        name: wishlistName,
+        isDefault: z.boolean().optional()
+    })
+});
+
+export const updateWishlistSchema = z.object({
+    body: z.object({
+        name: wishlistName.optional(),
+        // The default can be moved to another list, not unset
+        isDefault: z.literal(true).optional()
+    }),
+    params: z.object({
+        id: objectId
+    })
+});
+
+export const addWishlistItemSchema = z.object({
+    body: z.object({
+        productId: objectId,
+        variantId: objectId.optional(),
+        variant: z.array(z.object({ name: z.string().min(1).trim(), value: z.string().min(1).trim() })).optional(),
+        note: z.string().max(500, "Note cannot exceed 500 characters").trim().optional()
+    }),
+    // Without a list id the item goes to the default list
+    params: z.object({
+        id: objectId.optional()
+    })
+});
+
+export const wishlistItemParamSchema = z.object({
+    params: z.object({
+        id: objectId,
+        itemId: objectId
+    })
+});
+
+export const moveWishlistItemSchema = z.object({
+    body: z
+        .object({
+            quantity: z.number().int().min(1, "Quantity must be at least 1").default(1)
+        })
+        .default({ quantity: 1 }),
+    params: wishlistItemParamSchema.shape.params
+});
+
+export const shareTokenParamSchema = z.object({
+    params: z.object({
+        token: z.string().min(1, "Share token is required")
+    })
+});
+
+// ===== SHIPPING ZONE SCHEMAS =====
+
+const shippingMethod = z.object({
+    code: z
+        .string()
+        .min(1, "Method code is required")
+        .max(50)
+        .regex(/^[A-Za-z0-9_-]+$/, "Method code can only contain letters, numbers, dashes and underscores"),
+    name: z.string().min(1, "Method name is required").max(100).trim(),
+    description: z.string().max(500).optional(),
+    type: z.enum(["flat", "weight", "volumetric", "free_over_threshold"]),
+    baseRate: minorUnits("Rate cannot be negative").default(0),
+    ratePerKg: minorUnits("Rate cannot be negative").default(0),
+    volumetricDivisor: z.number().positive().default(5000),
+    threshold: minorUnits("Threshold cannot be negative").optional(),
+    shippingClasses: z.array(z.string().trim()).default([]),
+    maxWeight: z.number().min(0).optional(),
+    estimatedDays: z
+        .object({
+            min: z.number().int().min(0),
+            max: z.number().int().min(0)
+        })
+        .refine((days) => days.min <= days.max, "Minimum days cannot exceed maximum days")
+        .optional(),
+    isActive: z.boolean().default(true)
+});
+
+export const createShippingZoneSchema = z.object({
+    body: z.object({
+        name: z.string().min(1, "Zone name is required").max(100, "Name cannot exceed 100 characters").trim(),
+        countries: z.array(z.string().length(2, "Country must be a 2-letter ISO code").toUpperCase()).default([]),
+        states: z.array(z.string().trim()).default([]),
+        methods: z.array(shippingMethod).min(1, "At least one shipping method is required"),
+        priority: z.number().int().default(0),
+        isActive: z.boolean().default(true)
+    })
+});
+
+export const updateShippingZoneSchema = z.object({
+    body: createShippingZoneSchema.shape.body.partial(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+// ===== COUPON SCHEMAS =====
+
+export const applyCouponSchema = z.object({
+    body: z.object({
+        code: z.string().min(1, "Coupon code is required").max(50).trim()
+    })
+});
+
+export const createCouponSchema = z.object({
+    body: z.object({
+        code: z
+            .string()
+            .min(3, "Coupon code must be at least 3 characters")
+            .max(50, "Coupon code cannot exceed 50 characters")
+            .regex(/^[A-Za-z0-9_-]+$/, "Coupon code can only contain letters, numbers, dashes and underscores")
+            .trim(),
+        description: z.string().max(500, "Description cannot exceed 500 characters").optional(),
+        type: z.enum(["percentage", "fixed_amount", "free_shipping", "buy_x_get_y"]),
+        value: z.number().min(0, "Discount value cannot be negative").default(0),
+        maxDiscount: minorUnits("Maximum discount cannot be negative").optional(),
+        buyQuantity: z.number().int().min(1).optional(),
+        getQuantity: z.number().int().min(1).optional(),
+        getDiscountPercent: z.number().min(0).max(100).optional(),
+        minSubtotal: minorUnits("Minimum subtotal cannot be negative").default(0),
+        startsAt: z.string().datetime().optional(),
+        expiresAt: z.string().datetime().optional(),
+        usageLimit: z.number().int().min(1).optional(),
+        perUserLimit: z.number().int().min(1).optional(),
+        products: z.array(objectId).optional(),
+        categories: z.array(objectId).optional(),
+        brands: z.array(objectId).optional(),
+        isActive: z.boolean().default(true)
+    })
+});
+
+export const updateCouponSchema = z.object({
+    body: createCouponSchema.shape.body.partial(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+// ===== TAX RULE SCHEMAS =====
+
+export const createTaxRuleSchema = z.object({
+    body: z.object({
+        name: z.string().min(1, "Tax rule name is required").max(100, "Name cannot exceed 100 characters").trim(),
+        country: z.string().length(2, "Country must be a 2-letter ISO code").toUpperCase(),
+        state: z.string().max(100).trim().optional(),
+        category: objectId.optional(),
+        rate: z.number().min(0, "Tax rate cannot be negative").max(1, "Tax rate cannot exceed 100%"),
+        priceIncludesTax: z.boolean().default(false),
+        priority: z.number().int().default(0),
+        isActive: z.boolean().default(true)
+    })
+});
+
+export const updateTaxRuleSchema = z.object({
+    body: createTaxRuleSchema.shape.body.partial(),
+    params: z.object({
+        id: objectId
+    })
+});
+
+// ===== EXCHANGE RATE SCHEMAS =====
+
+export const setExchangeRateSchema = z.object({
+    body: z.object({
+        rate: z.number().positive("Exchange rate must be positive"),
+        roundingIncrement: minorUnits("Rounding increment cannot be negative").optional(),
+        isActive: z.boolean().optional()
+    }),
+    params: z.object({
+        currency: currencyCode
+    })
+});
+
+export const currencyParamSchema = z.object({
+    params: z.object({
+        currency: currencyCode
+    })
+});
+
 // ===== COMMON SCHEMAS =====
 
 export const idParamSchema = z.object({
@@ -385,3 +899,7 @@ export type ProductQueryInput = z.infer<typeof productQuerySchema>;
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
 export type CreateBrandInput = z.infer<typeof createBrandSchema>;
 export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type RefundOrderInput = z.infer<typeof refundOrderSchema>;
+export type CreateReturnInput = z.infer<typeof createReturnSchema>;
+export type CreateCouponInput = z.infer<typeof createCouponSchema>;
@@ -0,0 +1,284 @@
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/database';
+import { config } from '../config/config';
+import { Product } from '../models/Product';
+import { Cart } from '../models/Cart';
+import { Order } from '../models/Order';
+import { Coupon } from '../models/Coupon';
+import { ShippingZone } from '../models/ShippingZone';
+import { Shipment } from '../models/Shipment';
+import { ReturnRequest } from '../models/ReturnRequest';
+import { PaymentEvent } from '../models/PaymentEvent';
+import { ExchangeRate } from '../models/ExchangeRate';
+import { getCurrencyDecimals } from '../utils/currency';
+import { Money } from '../utils/money';
+import { logger } from '../utils/logger';
+
+/**
+ * Convert stored money amounts from major units (19.99 USD) to integer minor units (1999).
+ *
+ *   npm run migrate:money                        # dry run: report what would change
+ *   npm run migrate:money -- --apply             # convert every amount
+ *   npm run migrate:money -- --apply --force-round
+ *
+ * Amounts finer than the currency's minor unit (e.g. 19.995 USD) would lose precision, so they
+ * are listed and stop the migration unless --force-round is given. Stop the API while applying;
+ * the run is recorded in the migrations collection so it can never convert amounts twice.
+ */
+
+const MIGRATION_NAME = 'money-minor-units';
+const BATCH_SIZE = 500;
+const MAX_REPORTED_LOSSY = 50;
+
+interface MoneyField {
+    path: string;
+    value: number;
+    currency: string;
+}
+
+interface LossyAmount extends MoneyField {
+    collection: string;
+    id: string;
+    amount: number;
+}
+
+interface CollectionReport {
+    collection: string;
+    documents: number;
+    changed: number;
+    lossy: LossyAmount[];
+}
+
+interface MoneyCollection {
+    model: mongoose.Model<any>;
+    // Amounts of shipments, returns and payment events are in their order's currency
+    byOrder?: boolean;
+    collect(doc: any, currency: string): MoneyField[];
+}
+
+const collectFields = (source: any, prefix: string, keys: string[], currency: string): MoneyField[] =>
+    keys
+        .filter(key => typeof source?.[key] === 'number')
+        .map(key => ({ path: `${prefix}${key}`, value: source[key], currency }));
+
+const COLLECTIONS: MoneyCollection[] = [
+    {
+        model: Product,
+        collect: (doc, currency) => [
+            ...collectFields(doc, '', ['price', 'comparePrice', 'costPrice', 'salePrice'], currency),
+            ...(doc.prices || []).flatMap((price: any, index: number) =>
+                collectFields(price, `prices.${index}.`, ['price', 'comparePrice', 'salePrice'], price.currency)
+            )
+        ]
+    },
+    {
+        model: Cart,
+        collect: (doc, currency) => [
+            ...collectFields(doc, '', ['totalPrice'], currency),
+            ...(doc.items || []).flatMap((item: any, index: number) =>
+                collectFields(item, `items.${index}.`, ['price'], currency)
+            )
+        ]
+    },
+    {
+        model: Order,
+        collect: (doc, currency) => [
+            ...collectFields(doc, '', ['subtotal', 'tax', 'shippingCost', 'discount', 'total'], currency),
+            ...collectFields(doc.payment, 'payment.', ['refundAmount'], currency),
+            ...(doc.items || []).flatMap((item: any, index: number) =>
+                collectFields(item, `items.${index}.`, ['price', 'tax'], currency)
+            ),
+            ...(doc.taxBreakdown || []).flatMap((line: any, index: number) =>
+                collectFields(line, `taxBreakdown.${index}.`, ['taxableAmount', 'amount'], currency)
+            ),
+            ...(doc.refunds || []).flatMap((refund: any, index: number) => [
+                ...collectFields(refund, `refunds.${index}.`, ['amount'], currency),
+                ...(refund.items || []).flatMap((item: any, itemIndex: number) =>
+                    collectFields(item, `refunds.${index}.items.${itemIndex}.`, ['amount'], currency)
+                )
+            ])
+        ]
+    },
+    {
+        model: Coupon,
+        // Percentage values are not amounts
+        collect: (doc, currency) => collectFields(
+            doc,
+            '',
+            doc.type === 'fixed_amount' ? ['value', 'maxDiscount', 'minSubtotal'] : ['maxDiscount', 'minSubtotal'],
+            currency
+        )
+    },
+    {
+        model: ShippingZone,
+        collect: (doc, currency) => (doc.methods || []).flatMap((method: any, index: number) =>
+            collectFields(method, `methods.${index}.`, ['baseRate', 'ratePerKg', 'threshold'], currency)
+        )
+    },
+    {
+        model: Shipment,
+        byOrder: true,
+        collect: (doc, currency) => collectFields(doc, '', ['fee', 'codAmount'], currency)
+    },
+    {
+        model: ReturnRequest,
+        byOrder: true,
+        collect: (doc, currency) => collectFields(doc, '', ['refundAmount'], currency)
+    },
+    {
+        model: PaymentEvent,
+        byOrder: true,
+        collect: (doc, currency) => collectFields(doc, '', ['amount'], currency)
+    },
+    {
+        model: ExchangeRate,
+        collect: (doc) => collectFields(doc, '', ['roundingIncrement'], doc.currency)
+    }
+];
+
+/**
+ * Currency of each referenced order; amounts without an order are taken to be in the base currency
+ */
+async function getOrderCurrencies(docs: any[]): Promise<Map<string, string>> {
+    const orderIds = docs.map(doc => doc.order).filter(Boolean);
+    const orders = await Order.collection
+        .find({ _id: { $in: orderIds } }, { projection: { currency: 1 } })
+        .toArray();
+
+    return new Map(orders.map(order => [order._id.toString(), order.currency || config.currency.base]));
+}
+
+async function processCollection(target: MoneyCollection, write: boolean): Promise<CollectionReport> {
+    const collection = target.model.collection;
+    const report: CollectionReport = { collection: collection.collectionName, documents: 0, changed: 0, lossy: [] };
+    const batch: any[] = [];
+
+    const flush = async () => {
+        const docs = batch.splice(0);
+        const orderCurrencies = target.byOrder ? await getOrderCurrencies(docs) : undefined;
+        const operations: any[] = [];
+
+        for (const doc of docs) {
+            const currency = (orderCurrencies
+                ? orderCurrencies.get(doc.order?.toString()) || config.currency.base
+                : doc.currency || config.currency.base).toUpperCase();
+            const update: Record<string, number> = {};
+
+            for (const field of target.collect(doc, currency)) {
+                const scaled = Number((field.value * 10 ** getCurrencyDecimals(field.currency)).toPrecision(15));
+                const amount = Money.fromMajor(field.value, field.currency).amount;
+
+                if (!Number.isInteger(scaled)) {
+                    report.lossy.push({ ...field, collection: report.collection, id: doc._id.toString(), amount });
+                }
+                if (amount !== field.value) {
+                    update[field.path] = amount;
+                }
+            }
+
+            report.documents++;
+            if (Object.keys(update).length > 0) {
+                report.changed++;
+                operations.push({ updateOne: { filter: { _id: doc._id }, update: { $set: update } } });
+            }
+        }
+
+        if (write && operations.length > 0) {
+            await collection.bulkWrite(operations, { ordered: false });
+        }
+    };
+
+    for await (const doc of collection.find({}).batchSize(BATCH_SIZE)) {
+        batch.push(doc);
+        if (batch.length >= BATCH_SIZE) {
+            await flush();
+        }
+    }
+    await flush();
+
+    return report;
+}
+
+async function migrateMoney() {
+    const apply = process.argv.includes('--apply');
+    const forceRound = process.argv.includes('--force-round');
+    let exitCode = 0;
+
+    try {
+        logger.info(`💱 Converting money amounts to minor units${apply ? '' : ' (dry run)'}...`);
+
+        await connectDatabase();
+
+        const db = mongoose.connection.db;
+        if (!db) {
+            throw new Error('Database connection not available');
+        }
+
+        const migrations = db.collection('migrations');
+        const applied = await migrations.findOne({ name: MIGRATION_NAME });
+        if (applied) {
+            logger.info(`✅ Amounts were already converted on ${applied.appliedAt.toISOString()}; nothing to do`);
+            return;
+        }
+
+        // Scan everything first so a lossy amount stops the run before anything is written
+        const reports: CollectionReport[] = [];
+        for (const target of COLLECTIONS) {
+            const report = await processCollection(target, false);
+            reports.push(report);
+            logger.info(`📋 ${report.collection}: ${report.changed} of ${report.documents} documents to convert`);
+        }
+
+        const lossy = reports.flatMap(report => report.lossy);
+        if (lossy.length > 0) {
+            logger.warn(`⚠️ ${lossy.length} amounts are finer than their currency's minor unit:`);
+            lossy.slice(0, MAX_REPORTED_LOSSY).forEach(item => {
+                logger.warn(`  - ${item.collection} ${item.id} ${item.path}: ${item.value} ${item.currency} -> ${item.amount}`);
+            });
+            if (lossy.length > MAX_REPORTED_LOSSY) {
+                logger.warn(`  ... and ${lossy.length - MAX_REPORTED_LOSSY} more`);
+            }
+
+            if (!forceRound) {
+                logger.error('❌ Fix these amounts or rerun with --force-round to round them half away from zero');
+                exitCode = 1;
+                return;
+            }
+        }
+
+        if (!apply) {
+            logger.info('ℹ️ Dry run: nothing was written. Rerun with --apply to convert the amounts.');
+            return;
+        }
+
+        const summary: Record<string, number> = {};
+        for (const target of COLLECTIONS) {
+            const report = await processCollection(target, true);
+            summary[report.collection] = report.changed;
+            logger.info(`✅ ${report.collection}: converted ${report.changed} documents`);
+        }
+
+        await migrations.insertOne({
+            name: MIGRATION_NAME,
+            appliedAt: new Date(),
+            roundedAmounts: lossy.length,
+            changedDocuments: summary
+        });
+
+        logger.info('✅ Money amounts are now stored in minor units');
+    } catch (error) {
+        logger.error('❌ Money migration failed:', error);
+        exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+        logger.info('👋 Database disconnected');
+        process.exit(exitCode);
+    }
+}
+
+// Run the migration
+if (require.main === module) {
+    migrateMoney();
+}
+
+export { migrateMoney };
@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Move the option lists products used to keep in `variants` ([{ name: 'Color', options: ['Red'] }])
+ * to `options` ([{ name: 'Color', values: ['Red'] }]), leaving `variants` for concrete variants.
+ *
+ *   npm run migrate:product-options             # dry run: report what would change
+ *   npm run migrate:product-options -- --apply
+ *
+ * Variants are not created here; generate them per product once stock and prices are known
+ * (POST /api/v1/products/:id/variants/generate).
+ */
+
+const MIGRATION_NAME = 'product-options';
+const BATCH_SIZE = 500;
+
+async function migrateProductOptions() {
+    const apply = process.argv.includes('--apply');
+    let exitCode = 0;
+
+    try {
+        logger.info(`🧩 Moving product option lists to options${apply ? '' : ' (dry run)'}...`);
+
+        await connectDatabase();
+
+        const db = mongoose.connection.db;
+        if (!db) {
+            throw new Error('Database connection not available');
+        }
+
+        const migrations = db.collection('migrations');
+        const applied = await migrations.findOne({ name: MIGRATION_NAME });
+        if (applied) {
+            logger.info(`✅ Option lists were already moved on ${applied.appliedAt.toISOString()}; nothing to do`);
+            return;
+        }
+
+        // Old entries have a name and no SKU
+        const products = db.collection('products');
+        const filter = { 'variants.name': { $exists: true }, 'variants.sku': { $exists: false } };
+        const total = await products.countDocuments(filter);
+        logger.info(`📋 products: ${total} documents to convert`);
+
+        if (!apply) {
+            logger.info('ℹ️ Dry run: nothing was written. Rerun with --apply to move the option lists.');
+            return;
+        }
+
+        let operations: any[] = [];
+        for await (const product of products.find(filter, { projection: { variants: 1 } }).batchSize(BATCH_SIZE)) {
+            const options = product.variants.map((variant: any) => ({
+                name: variant.name,
+                values: variant.options || []
+            }));
+            operations.push({
+                updateOne: {
+                    filter: { _id: product._id },
+                    update: { $set: { options, variants: [], hasVariants: false } }
+                }
+            });
+
+            if (operations.length >= BATCH_SIZE) {
+                await products.bulkWrite(operations, { ordered: false });
+                operations = [];
+            }
+        }
+        if (operations.length > 0) {
+            await products.bulkWrite(operations, { ordered: false });
+        }
+
+        await migrations.insertOne({ name: MIGRATION_NAME, appliedAt: new Date(), changedDocuments: total });
+
+        logger.info(`✅ Moved the option lists of ${total} products`);
+    } catch (error) {
+        logger.error('❌ Product options migration failed:', error);
+        exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+        logger.info('👋 Database disconnected');
+        process.exit(exitCode);
+    }
+}
+
+// Run the migration
+if (require.main === module) {
+    migrateProductOptions();
+}
+
+export { migrateProductOptions };
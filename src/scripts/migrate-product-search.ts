@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/database';
+import { getProductSearchFields } from '../utils/searchText';
+import { logger } from '../utils/logger';
+
+/**
+ * Fill in the search fields of products saved before search used them, and count the units of
+ * delivered orders into salesCount.
+ *
+ *   npm run migrate:product-search             # dry run: report what would change
+ *   npm run migrate:product-search -- --apply
+ *
+ * Both are recomputed from scratch, so the script can be rerun at any time (for example after
+ * changing which fields are searchable).
+ */
+
+const BATCH_SIZE = 500;
+
+async function migrateProductSearch() {
+    const apply = process.argv.includes('--apply');
+    let exitCode = 0;
+
+    try {
+        logger.info(`🔎 Rebuilding product search fields${apply ? '' : ' (dry run)'}...`);
+
+        await connectDatabase();
+
+        const db = mongoose.connection.db;
+        if (!db) {
+            throw new Error('Database connection not available');
+        }
+
+        const products = db.collection('products');
+        const total = await products.countDocuments();
+        logger.info(`📋 products: ${total} documents to index`);
+
+        const sales = await db.collection('orders').aggregate([
+            { $match: { status: 'delivered' } },
+            { $unwind: '$items' },
+            { $group: { _id: '$items.product', units: { $sum: '$items.quantity' } } }
+        ]).toArray();
+        const unitsSold = new Map(sales.map(sale => [sale._id.toString(), sale.units]));
+        logger.info(`📋 orders: ${unitsSold.size} products with delivered units`);
+
+        if (!apply) {
+            logger.info('ℹ️ Dry run: nothing was written. Rerun with --apply to rebuild the search fields.');
+            return;
+        }
+
+        const projection = { name: 1, shortDescription: 1, description: 1, sku: 1, tags: 1, options: 1 };
+        let operations: any[] = [];
+        for await (const product of products.find({}, { projection }).batchSize(BATCH_SIZE)) {
+            operations.push({
+                updateOne: {
+                    filter: { _id: product._id },
+                    update: {
+                        $set: {
+                            search: getProductSearchFields(product as any),
+                            salesCount: unitsSold.get(product._id.toString()) || 0
+                        }
+                    }
+                }
+            });
+
+            if (operations.length >= BATCH_SIZE) {
+                await products.bulkWrite(operations, { ordered: false });
+                operations = [];
+            }
+        }
+        if (operations.length > 0) {
+            await products.bulkWrite(operations, { ordered: false });
+        }
+
+        logger.info(`✅ Rebuilt the search fields of ${total} products`);
+    } catch (error) {
+        logger.error('❌ Product search migration failed:', error);
+        exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+        logger.info('👋 Database disconnected');
+        process.exit(exitCode);
+    }
+}
+
+// Run the migration
+if (require.main === module) {
+    migrateProductSearch();
+}
+
+export { migrateProductSearch };
@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/database';
+import { Product } from '../models/Product';
+import { logger } from '../utils/logger';
+
+/**
+ * Give products created before products had slugs one generated from their name.
+ *
+ *   npm run migrate:product-slugs             # dry run: report what would change
+ *   npm run migrate:product-slugs -- --apply
+ *
+ * Products are saved one at a time so each slug is checked against the ones generated before it.
+ */
+
+const MIGRATION_NAME = 'product-slugs';
+
+async function migrateProductSlugs() {
+    const apply = process.argv.includes('--apply');
+    let exitCode = 0;
+
+    try {
+        logger.info(`🔗 Generating product slugs${apply ? '' : ' (dry run)'}...`);
+
+        await connectDatabase();
+
+        const db = mongoose.connection.db;
+        if (!db) {
+            throw new Error('Database connection not available');
+        }
+
+        const migrations = db.collection('migrations');
+        const applied = await migrations.findOne({ name: MIGRATION_NAME });
+        if (applied) {
+            logger.info(`✅ Product slugs were already generated on ${applied.appliedAt.toISOString()}; nothing to do`);
+            return;
+        }
+
+        const filter = { $or: [{ slug: { $exists: false } }, { slug: null }, { slug: '' }] };
+        const total = await Product.countDocuments(filter);
+        logger.info(`📋 products: ${total} documents without a slug`);
+
+        if (!apply) {
+            logger.info('ℹ️ Dry run: nothing was written. Rerun with --apply to generate the slugs.');
+            return;
+        }
+
+        let migrated = 0;
+        for await (const product of Product.find(filter).cursor()) {
+            // Saving generates the slug
+            await product.save();
+            migrated++;
+        }
+
+        await migrations.insertOne({ name: MIGRATION_NAME, appliedAt: new Date(), changedDocuments: migrated });
+
+        logger.info(`✅ Generated slugs for ${migrated} products`);
+    } catch (error) {
+        logger.error('❌ Product slugs migration failed:', error);
+        exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+        logger.info('👋 Database disconnected');
+        process.exit(exitCode);
+    }
+}
+
+// Run the migration
+if (require.main === module) {
+    migrateProductSlugs();
+}
+
+export { migrateProductSlugs };
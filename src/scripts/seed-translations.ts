@@ -278,6 +278,267 @@ const defaultTranslations = [
             ja: '注文確認'
         },
         description: 'Order confirmation email subject'
+    },
+    // Invoice and packing slip labels
+    {
+        key: 'ui.document.invoice',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Hóa đơn',
+            en: 'Invoice',
+            ja: '請求書'
+        },
+        description: 'Invoice document title'
+    },
+    {
+        key: 'ui.document.packing_slip',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Phiếu đóng gói',
+            en: 'Packing Slip',
+            ja: '納品書'
+        },
+        description: 'Packing slip document title'
+    },
+    {
+        key: 'ui.document.order_number',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Mã đơn hàng',
+            en: 'Order number',
+            ja: '注文番号'
+        },
+        description: 'Order number label on documents'
+    },
+    {
+        key: 'ui.document.order_date',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Ngày đặt hàng',
+            en: 'Order date',
+            ja: '注文日'
+        },
+        description: 'Order date label on documents'
+    },
+    {
+        key: 'ui.document.tax_id',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Mã số thuế',
+            en: 'Tax ID',
+            ja: '税番号'
+        },
+        description: 'Seller tax ID label on invoices'
+    },
+    {
+        key: 'ui.document.bill_to',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Thông tin thanh toán',
+            en: 'Bill to',
+            ja: '請求先'
+        },
+        description: 'Billing address heading'
+    },
+    {
+        key: 'ui.document.ship_to',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Giao đến',
+            en: 'Ship to',
+            ja: 'お届け先'
+        },
+        description: 'Shipping address heading'
+    },
+    {
+        key: 'ui.document.item',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Sản phẩm',
+            en: 'Item',
+            ja: '商品'
+        },
+        description: 'Item column heading'
+    },
+    {
+        key: 'ui.document.sku',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'SKU',
+            en: 'SKU',
+            ja: 'SKU'
+        },
+        description: 'SKU column heading'
+    },
+    {
+        key: 'ui.document.quantity',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'SL',
+            en: 'Qty',
+            ja: '数量'
+        },
+        description: 'Quantity column heading'
+    },
+    {
+        key: 'ui.document.unit_price',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Đơn giá',
+            en: 'Unit price',
+            ja: '単価'
+        },
+        description: 'Unit price column heading'
+    },
+    {
+        key: 'ui.document.tax_rate',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Thuế suất',
+            en: 'Tax rate',
+            ja: '税率'
+        },
+        description: 'Tax rate column heading'
+    },
+    {
+        key: 'ui.document.tax',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Thuế',
+            en: 'Tax',
+            ja: '税'
+        },
+        description: 'Tax label'
+    },
+    {
+        key: 'ui.document.amount',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Thành tiền',
+            en: 'Amount',
+            ja: '金額'
+        },
+        description: 'Line amount column heading'
+    },
+    {
+        key: 'ui.document.subtotal',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Tạm tính',
+            en: 'Subtotal',
+            ja: '小計'
+        },
+        description: 'Subtotal label'
+    },
+    {
+        key: 'ui.document.discount',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Giảm giá',
+            en: 'Discount',
+            ja: '割引'
+        },
+        description: 'Discount label'
+    },
+    {
+        key: 'ui.document.shipping',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Phí vận chuyển',
+            en: 'Shipping',
+            ja: '送料'
+        },
+        description: 'Shipping cost label'
+    },
+    {
+        key: 'ui.document.tax_included',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'đã bao gồm',
+            en: 'included',
+            ja: '内税'
+        },
+        description: 'Marks VAT already included in prices'
+    },
+    {
+        key: 'ui.document.total',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Tổng cộng',
+            en: 'Total',
+            ja: '合計'
+        },
+        description: 'Order total label'
+    },
+    {
+        key: 'ui.document.refunded',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Đã hoàn tiền',
+            en: 'Refunded',
+            ja: '返金済み'
+        },
+        description: 'Refunded amount label'
+    },
+    {
+        key: 'ui.document.payment_method',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Phương thức thanh toán',
+            en: 'Payment method',
+            ja: 'お支払い方法'
+        },
+        description: 'Payment method label'
+    },
+    {
+        key: 'ui.document.payment_status',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Trạng thái thanh toán',
+            en: 'Payment status',
+            ja: 'お支払い状況'
+        },
+        description: 'Payment status label'
+    },
+    {
+        key: 'ui.document.shipping_method',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Phương thức giao hàng',
+            en: 'Shipping method',
+            ja: '配送方法'
+        },
+        description: 'Shipping method label'
+    },
+    {
+        key: 'ui.document.notes',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Ghi chú',
+            en: 'Notes',
+            ja: '備考'
+        },
+        description: 'Customer notes heading'
+    },
+    {
+        key: 'ui.document.packed',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Đã đóng gói',
+            en: 'Packed',
+            ja: '梱包済'
+        },
+        description: 'Packing checkbox column heading'
+    },
+    {
+        key: 'ui.document.thank_you',
+        category: TranslationCategories.UI,
+        translations: {
+            vi: 'Cảm ơn bạn đã mua sắm!',
+            en: 'Thank you for your order!',
+            ja: 'ご注文ありがとうございました。'
+        },
+        description: 'Invoice footer'
     }
 ];
 
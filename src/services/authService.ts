@@ -1,4 +1,5 @@
 import { User, IUser } from "../models/User";
+import { OrderService } from "./orderService";
 import { AppError } from "../utils/AppError";
 import { logger } from "../utils/logger";
 import jwt from "jsonwebtoken";
@@ -48,6 +49,11 @@ export class AuthService {
                 // Log successful registration
                 logger.info(`User registered: ${userData.email}`);
 
+                // Orders placed as a guest with the email belong to its (verified) owner
+                if (user.isEmailVerified) {
+                    await OrderService.attachGuestOrders(user._id!.toString(), user.email);
+                }
+
                 // Generate tokens
                 const token = user.getSignedJwtToken();
                 const refreshToken = user.getRefreshToken();
@@ -286,6 +292,8 @@ export class AuthService {
             user.emailVerificationToken = undefined;
             await user.save({ validateBeforeSave: false });
 
+            await OrderService.attachGuestOrders(user._id!.toString(), user.email);
+
             logger.info(`Email verified for user: ${user.email}`);
         } catch (error) {
             logger.error("Email verification error:", error);
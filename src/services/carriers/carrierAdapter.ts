@@ -0,0 +1,74 @@
+import type { IOrder } from "../../models/Order";
+import type { ShipmentStatus } from "../../models/Shipment";
+import type { PaymentCallbackPayload } from "../payments/paymentProvider";
+import { Money } from "../../utils/money";
+
+export interface ShipmentParcelItem {
+    name: string;
+    sku: string;
+    quantity: number;
+    weight: number; // kg per unit
+    price: number; // Minor units of the order currency
+}
+
+export interface CarrierLabelRequest {
+    order: IOrder;
+    items: ShipmentParcelItem[];
+    // Cash the courier collects on delivery (0 for prepaid orders), in minor units
+    codAmount: number;
+    note?: string;
+}
+
+export interface CarrierLabelResult {
+    trackingNumber: string;
+    labelUrl?: string;
+    fee?: number;
+    estimatedDelivery?: Date;
+}
+
+export interface CarrierTrackingEvent {
+    status: ShipmentStatus;
+    carrierStatus?: string;
+    description?: string;
+    location?: string;
+    occurredAt: Date;
+    eventId?: string;
+}
+
+/**
+ * Raw webhook as received from the carrier, before any verification
+ */
+export type CarrierWebhookPayload = PaymentCallbackPayload;
+
+export interface CarrierWebhookResult {
+    // False when the token/signature does not match or the payload cannot be parsed
+    valid: boolean;
+    trackingNumber?: string;
+    event?: CarrierTrackingEvent;
+    reason?: string;
+}
+
+/**
+ * Contract implemented by every carrier adapter
+ */
+export interface CarrierAdapter {
+    // Stored on the shipment as carrier
+    readonly name: string;
+
+    createLabel(request: CarrierLabelRequest): Promise<CarrierLabelResult>;
+    getTracking(trackingNumber: string): Promise<CarrierTrackingEvent[]>;
+    cancel(trackingNumber: string): Promise<void>;
+    parseWebhook(payload: CarrierWebhookPayload): Promise<CarrierWebhookResult>;
+}
+
+/**
+ * Total parcel weight in kg; unknown weights count as 0.1kg so carriers accept the parcel
+ */
+export const getParcelWeight = (items: ShipmentParcelItem[]): number =>
+    items.reduce((sum, item) => sum + (item.weight || 0.1) * item.quantity, 0);
+
+/**
+ * Vietnamese carriers take amounts in whole dong
+ */
+export const toCarrierAmount = (amount: number, currency: string): number =>
+    Math.round(Money.of(amount, currency).toMajor());
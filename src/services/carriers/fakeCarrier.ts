@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import { AppError } from "../../utils/AppError";
+import { getHeader, safeCompare } from "../payments/paymentProvider";
+import {
+    CarrierAdapter,
+    CarrierLabelRequest,
+    CarrierLabelResult,
+    CarrierTrackingEvent,
+    CarrierWebhookPayload,
+    CarrierWebhookResult
+} from "./carrierAdapter";
+
+type FakeOperation = "createLabel" | "cancel";
+
+const FAKE_WEBHOOK_SECRET = "fake_carrier_webhook_secret";
+
+/**
+ * In-memory carrier for tests and local development; never talks to the network.
+ * Webhooks are JSON bodies signed with an HMAC in the x-fake-signature header.
+ */
+export class FakeCarrier implements CarrierAdapter {
+    readonly name = "fake";
+
+    // Operations that should fail on their next call
+    readonly failures = new Set<FakeOperation>();
+    readonly labels: CarrierLabelRequest[] = [];
+    readonly tracking = new Map<string, CarrierTrackingEvent[]>();
+
+    async createLabel(request: CarrierLabelRequest): Promise<CarrierLabelResult> {
+        this.throwIfFailing("createLabel");
+
+        const trackingNumber = `FAKE${crypto.randomBytes(5).toString("hex").toUpperCase()}`;
+        this.labels.push(request);
+        this.tracking.set(trackingNumber, []);
+
+        return {
+            trackingNumber,
+            labelUrl: `https://carrier.example.com/labels/${trackingNumber}.pdf`,
+            fee: 0,
+            estimatedDelivery: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000)
+        };
+    }
+
+    async getTracking(trackingNumber: string): Promise<CarrierTrackingEvent[]> {
+        return this.tracking.get(trackingNumber) || [];
+    }
+
+    async cancel(trackingNumber: string): Promise<void> {
+        this.throwIfFailing("cancel");
+        this.tracking.delete(trackingNumber);
+    }
+
+    async parseWebhook(payload: CarrierWebhookPayload): Promise<CarrierWebhookResult> {
+        const signature = getHeader(payload.headers, "x-fake-signature");
+        const rawBody = payload.rawBody !== undefined ? payload.rawBody.toString() : JSON.stringify(payload.body || {});
+
+        if (!signature || !safeCompare(signature, FakeCarrier.sign(rawBody))) {
+            return { valid: false, reason: "Invalid signature" };
+        }
+
+        const event = JSON.parse(rawBody);
+        return {
+            valid: true,
+            trackingNumber: event.trackingNumber,
+            event: {
+                status: event.status,
+                description: event.description,
+                occurredAt: event.occurredAt ? new Date(event.occurredAt) : new Date(),
+                eventId: event.eventId
+            }
+        };
+    }
+
+    /**
+     * Sign a webhook body the way the fake carrier would
+     */
+    static sign(rawBody: string): string {
+        return crypto.createHmac("sha256", FAKE_WEBHOOK_SECRET).update(rawBody, "utf8").digest("hex");
+    }
+
+    reset(): void {
+        this.failures.clear();
+        this.labels.length = 0;
+        this.tracking.clear();
+    }
+
+    private throwIfFailing(operation: FakeOperation): void {
+        if (this.failures.delete(operation)) {
+            throw new AppError(`Fake carrier ${operation} failed`, 502);
+        }
+    }
+}
@@ -0,0 +1,156 @@
+import axios from "axios";
+import type { ShipmentStatus } from "../../models/Shipment";
+import { config } from "../../config/config";
+import { AppError } from "../../utils/AppError";
+import { getHeader, safeCompare } from "../payments/paymentProvider";
+import {
+    CarrierAdapter,
+    CarrierLabelRequest,
+    CarrierLabelResult,
+    CarrierTrackingEvent,
+    CarrierWebhookPayload,
+    CarrierWebhookResult,
+    getParcelWeight,
+    toCarrierAmount
+} from "./carrierAdapter";
+
+// GHN order statuses (https://api.ghn.vn/home/docs/detail?id=84)
+const GHN_STATUSES: Record<string, ShipmentStatus> = {
+    ready_to_pick: "label_created",
+    picking: "label_created",
+    money_collect_picking: "label_created",
+    picked: "picked_up",
+    storing: "in_transit",
+    transporting: "in_transit",
+    sorting: "in_transit",
+    delivering: "out_for_delivery",
+    money_collect_delivering: "out_for_delivery",
+    delivered: "delivered",
+    delivery_fail: "failed_attempt",
+    waiting_to_return: "failed_attempt",
+    return: "returned",
+    return_transporting: "returned",
+    return_sorting: "returned",
+    returning: "returned",
+    return_fail: "exception",
+    returned: "returned",
+    cancel: "cancelled",
+    exception: "exception",
+    damage: "exception",
+    lost: "exception"
+};
+
+/**
+ * Giao Hang Nhanh (GHN) shipping API v2
+ */
+export class GhnCarrier implements CarrierAdapter {
+    readonly name = "ghn";
+
+    async createLabel(request: CarrierLabelRequest): Promise<CarrierLabelResult> {
+        const { order, items, codAmount, note } = request;
+        const address = order.shippingAddress;
+        const sender = config.carriers.sender;
+
+        const data = await this.request("/v2/shipping-order/create", {
+            payment_type_id: 1, // Shop pays the shipping fee
+            required_note: "CHOXEMHANGKHONGTHU",
+            note,
+            client_order_code: order.orderNumber,
+            from_name: sender.name,
+            from_phone: sender.phone,
+            from_address: sender.address,
+            from_ward_name: sender.ward,
+            from_district_name: sender.district,
+            from_province_name: sender.province,
+            to_name: `${address.firstName} ${address.lastName}`,
+            to_phone: address.phone,
+            to_address: address.street,
+            to_district_name: address.city,
+            to_province_name: address.state,
+            cod_amount: toCarrierAmount(codAmount, order.currency),
+            insurance_value: toCarrierAmount(
+                items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+                order.currency
+            ),
+            weight: Math.ceil(getParcelWeight(items) * 1000), // grams
+            service_type_id: 2, // Standard delivery
+            items: items.map((item) => ({
+                name: item.name,
+                code: item.sku,
+                quantity: item.quantity,
+                price: toCarrierAmount(item.price, order.currency),
+                weight: Math.ceil((item.weight || 0.1) * 1000)
+            }))
+        });
+
+        return {
+            trackingNumber: data.order_code,
+            fee: data.total_fee,
+            estimatedDelivery: data.expected_delivery_time ? new Date(data.expected_delivery_time) : undefined
+        };
+    }
+
+    async getTracking(trackingNumber: string): Promise<CarrierTrackingEvent[]> {
+        const data = await this.request("/v2/shipping-order/detail", { order_code: trackingNumber });
+
+        return (data.log || []).map((entry: any) => ({
+            status: GHN_STATUSES[entry.status] || "exception",
+            carrierStatus: entry.status,
+            occurredAt: new Date(entry.updated_date),
+            eventId: `${trackingNumber}:${entry.status}:${entry.updated_date}`
+        }));
+    }
+
+    async cancel(trackingNumber: string): Promise<void> {
+        await this.request("/v2/switch-status/cancel", { order_codes: [trackingNumber] });
+    }
+
+    async parseWebhook(payload: CarrierWebhookPayload): Promise<CarrierWebhookResult> {
+        // GHN does not sign callbacks; the callback URL carries a shared token instead
+        const token = (payload.query?.token as string) || getHeader(payload.headers, "x-webhook-token");
+        const { webhookToken } = config.carriers.ghn;
+
+        if (!webhookToken || !token || !safeCompare(token, webhookToken)) {
+            return { valid: false, reason: "Invalid webhook token" };
+        }
+
+        const body = payload.body || {};
+        if (!body.OrderCode || !body.Status) {
+            return { valid: false, reason: "Malformed callback" };
+        }
+
+        const status = String(body.Status).toLowerCase();
+        return {
+            valid: true,
+            trackingNumber: body.OrderCode,
+            event: {
+                status: GHN_STATUSES[status] || "exception",
+                carrierStatus: status,
+                description: body.Description || body.Reason,
+                location: body.Warehouse,
+                occurredAt: body.Time ? new Date(body.Time) : new Date(),
+                eventId: `${body.OrderCode}:${status}:${body.Time || ""}`
+            }
+        };
+    }
+
+    private async request(path: string, body: Record<string, any>): Promise<any> {
+        const { token, shopId, apiUrl } = config.carriers.ghn;
+
+        if (!token || !shopId) {
+            throw new AppError("GHN is not configured", 503);
+        }
+
+        const response = await axios.post(`${apiUrl}${path}`, body, {
+            headers: { Token: token, ShopId: shopId, "Content-Type": "application/json" },
+            timeout: 15000,
+            validateStatus: () => true
+        });
+
+        if (response.data?.code !== 200) {
+            throw new AppError(`GHN request failed: ${response.data?.message || response.status}`, 502);
+        }
+
+        return response.data.data;
+    }
+}
@@ -0,0 +1,168 @@
+import axios from "axios";
+import type { ShipmentStatus } from "../../models/Shipment";
+import { config } from "../../config/config";
+import { AppError } from "../../utils/AppError";
+import { getHeader, safeCompare } from "../payments/paymentProvider";
+import {
+    CarrierAdapter,
+    CarrierLabelRequest,
+    CarrierLabelResult,
+    CarrierTrackingEvent,
+    CarrierWebhookPayload,
+    CarrierWebhookResult,
+    getParcelWeight,
+    toCarrierAmount
+} from "./carrierAdapter";
+
+// GHTK status_id values (https://docs.giaohangtietkiem.vn)
+const GHTK_STATUSES: Record<number, ShipmentStatus> = {
+    [-1]: "cancelled",
+    1: "label_created",
+    2: "label_created",
+    3: "picked_up",
+    4: "out_for_delivery",
+    5: "delivered",
+    6: "delivered",
+    7: "exception",
+    8: "label_created",
+    9: "failed_attempt",
+    10: "in_transit",
+    11: "returned",
+    12: "label_created",
+    13: "exception",
+    20: "returned",
+    21: "returned",
+    45: "delivered",
+    49: "failed_attempt",
+    123: "picked_up",
+    127: "exception",
+    128: "label_created"
+};
+
+/**
+ * Giao Hang Tiet Kiem (GHTK) shipment API
+ */
+export class GhtkCarrier implements CarrierAdapter {
+    readonly name = "ghtk";
+
+    async createLabel(request: CarrierLabelRequest): Promise<CarrierLabelResult> {
+        const { order, items, codAmount, note } = request;
+        const address = order.shippingAddress;
+        const sender = config.carriers.sender;
+
+        const data = await this.request("post", "/services/shipment/order", {
+            products: items.map((item) => ({
+                name: item.name,
+                product_code: item.sku,
+                quantity: item.quantity,
+                price: toCarrierAmount(item.price, order.currency),
+                weight: item.weight || 0.1 // kg
+            })),
+            order: {
+                // GHTK rejects a reused id, so partial shipments get a suffix
+                id: `${order.orderNumber}-${Date.now().toString(36)}`,
+                pick_name: sender.name,
+                pick_tel: sender.phone,
+                pick_address: sender.address,
+                pick_ward: sender.ward,
+                pick_district: sender.district,
+                pick_province: sender.province,
+                name: `${address.firstName} ${address.lastName}`,
+                tel: address.phone,
+                address: address.street,
+                district: address.city,
+                province: address.state,
+                hamlet: "Khác",
+                pick_money: toCarrierAmount(codAmount, order.currency),
+                value: toCarrierAmount(
+                    items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+                    order.currency
+                ),
+                total_weight: getParcelWeight(items),
+                note
+            }
+        });
+
+        return {
+            trackingNumber: data.order.label,
+            fee: data.order.fee,
+            estimatedDelivery: data.order.estimated_deliver_time
+                ? new Date(data.order.estimated_deliver_time)
+                : undefined
+        };
+    }
+
+    async getTracking(trackingNumber: string): Promise<CarrierTrackingEvent[]> {
+        const data = await this.request("get", `/services/shipment/v2/${encodeURIComponent(trackingNumber)}`);
+        const statusId = Number(data.order.status);
+
+        // GHTK only reports the current status
+        return [
+            {
+                status: GHTK_STATUSES[statusId] || "exception",
+                carrierStatus: String(statusId),
+                description: data.order.status_text,
+                occurredAt: data.order.modified ? new Date(data.order.modified) : new Date(),
+                eventId: `${trackingNumber}:${statusId}:${data.order.modified || ""}`
+            }
+        ];
+    }
+
+    async cancel(trackingNumber: string): Promise<void> {
+        await this.request("post", `/services/shipment/cancel/${encodeURIComponent(trackingNumber)}`);
+    }
+
+    async parseWebhook(payload: CarrierWebhookPayload): Promise<CarrierWebhookResult> {
+        // GHTK calls the configured URL with our shared token in the query string
+        const token =
+            (payload.query?.token as string) ||
+            (payload.query?.hash as string) ||
+            getHeader(payload.headers, "x-webhook-token");
+        const { webhookToken } = config.carriers.ghtk;
+
+        if (!webhookToken || !token || !safeCompare(token, webhookToken)) {
+            return { valid: false, reason: "Invalid webhook token" };
+        }
+
+        const body = payload.body || {};
+        if (!body.label_id || body.status_id === undefined) {
+            return { valid: false, reason: "Malformed callback" };
+        }
+
+        const statusId = Number(body.status_id);
+        return {
+            valid: true,
+            trackingNumber: body.label_id,
+            event: {
+                status: GHTK_STATUSES[statusId] || "exception",
+                carrierStatus: String(statusId),
+                description: body.reason,
+                occurredAt: body.action_time ? new Date(body.action_time) : new Date(),
+                eventId: `${body.label_id}:${statusId}:${body.action_time || ""}`
+            }
+        };
+    }
+
+    private async request(method: "get" | "post", path: string, body?: Record<string, any>): Promise<any> {
+        const { token, apiUrl } = config.carriers.ghtk;
+
+        if (!token) {
+            throw new AppError("GHTK is not configured", 503);
+        }
+
+        const response = await axios.request({
+            method,
+            url: `${apiUrl}${path}`,
+            data: body,
+            headers: { Token: token, "Content-Type": "application/json" },
+            timeout: 15000,
+            validateStatus: () => true
+        });
+
+        if (!response.data?.success) {
+            throw new AppError(`GHTK request failed: ${response.data?.message || response.status}`, 502);
+        }
+
+        return response.data;
+    }
+}
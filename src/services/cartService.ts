@@ -1,11 +1,19 @@
 import { Cart, ICart } from '../models/Cart';
-import { Product } from '../models/Product';
+import { Product, IProduct, IProductVariant } from '../models/Product';
+import { CouponService } from './couponService';
+import { TaxService, TaxAddress, LineTax } from './taxService';
+import { ShippingService, ShippingAddress, ShippingQuote } from './shippingService';
+import { CurrencyService } from './currencyService';
+import type { IOrderTaxLine } from '../models/Order';
 import { AppError } from '../utils/AppError';
+import { Money } from '../utils/money';
 import { logger } from '../utils/logger';
 
 interface AddToCartData {
     productId: string;
     quantity: number;
+    variantId?: string;
+    // Option values, for clients that pick the variant by options instead of its id
     variant?: Array<{
         name: string;
         value: string;
@@ -14,14 +22,15 @@ interface AddToCartData {
 
 interface UpdateCartItemData {
     productId: string;
+    variantId?: string;
     quantity: number;
 }
 
 export class CartService {
     /**
-     * Get or create cart for user
+     * Get or create cart for user, switching it to the currency when one is given
      */
-    static async getOrCreateCart(userId?: string, sessionId?: string): Promise<ICart> {
+    static async getOrCreateCart(userId?: string, sessionId?: string, currency?: string): Promise<ICart> {
         try {
             let cart: ICart | null = null;
 
@@ -39,8 +48,11 @@ export class CartService {
                     sessionId: sessionId || undefined,
                     items: [],
                     totalItems: 0,
-                    totalPrice: 0
+                    totalPrice: 0,
+                    currency: currency ? (await CurrencyService.getConverter(currency)).currency : undefined
                 });
+            } else if (currency && cart.currency !== currency.toUpperCase()) {
+                await this.repriceCart(cart, currency);
             }
 
             return cart;
@@ -56,10 +68,11 @@ export class CartService {
     static async addToCart(
         cartData: AddToCartData,
         userId?: string,
-        sessionId?: string
+        sessionId?: string,
+        currency?: string
     ): Promise<ICart> {
         try {
-            const { productId, quantity, variant } = cartData;
+            const { productId, quantity } = cartData;
 
             // Validate product exists and is available
             const product = await Product.findById(productId);
@@ -71,16 +84,21 @@ export class CartService {
                 throw new AppError('Product is not available', 400);
             }
 
+            const variant = this.resolveVariant(product, cartData.variantId, cartData.variant);
+
             // Check stock availability
-            if (product.trackQuantity && product.quantity < quantity) {
-                throw new AppError(`Only ${product.quantity} items available in stock`, 400);
+            const available = variant ? variant.quantity : product.quantity;
+            if (product.trackQuantity && available < quantity) {
+                throw new AppError(`Only ${available} items available in stock`, 400);
             }
 
             // Get or create cart
-            const cart = await this.getOrCreateCart(userId, sessionId);
+            const cart = await this.getOrCreateCart(userId, sessionId, currency);
 
-            // Add item to cart with current product price
-            await cart.addItem(productId, quantity, product.finalPrice, variant);
+            // Add item to cart with current product price in the cart's currency
+            const converter = await CurrencyService.getConverter(cart.currency);
+            const { finalPrice } = CurrencyService.getProductPrices(product, converter, variant);
+            await cart.addItem(productId, quantity, finalPrice, variant?._id?.toString(), variant?.options);
 
             // Populate and return updated cart
             await cart.populate('items.product', 'name price images sku isInStock finalPrice');
@@ -102,7 +120,7 @@ export class CartService {
         sessionId?: string
     ): Promise<ICart> {
         try {
-            const { productId, quantity } = updateData;
+            const { productId, variantId, quantity } = updateData;
 
             // Get cart
             const cart = await this.getOrCreateCart(userId, sessionId);
@@ -119,13 +137,15 @@ export class CartService {
                 }
 
                 // Check stock availability
-                if (product.trackQuantity && product.quantity < quantity) {
-                    throw new AppError(`Only ${product.quantity} items available in stock`, 400);
+                const variant = variantId ? product.findVariant(variantId) : undefined;
+                const available = variant ? variant.quantity : product.quantity;
+                if (product.trackQuantity && available < quantity) {
+                    throw new AppError(`Only ${available} items available in stock`, 400);
                 }
             }
 
             // Update item
-            await cart.updateItem(productId, quantity);
+            await cart.updateItem(productId, quantity, variantId);
 
             // Populate and return updated cart
             await cart.populate('items.product', 'name price images sku isInStock finalPrice');
@@ -144,7 +164,8 @@ export class CartService {
     static async removeFromCart(
         productId: string,
         userId?: string,
-        sessionId?: string
+        sessionId?: string,
+        variantId?: string
     ): Promise<ICart> {
         try {
             // Get cart
@@ -155,7 +176,7 @@ export class CartService {
             }
 
             // Remove item
-            await cart.removeItem(productId);
+            await cart.removeItem(productId, variantId);
 
             // Populate and return updated cart
             await cart.populate('items.product', 'name price images sku isInStock finalPrice');
@@ -190,9 +211,9 @@ export class CartService {
     /**
      * Get cart contents
      */
-    static async getCart(userId?: string, sessionId?: string): Promise<ICart> {
+    static async getCart(userId?: string, sessionId?: string, currency?: string): Promise<ICart> {
         try {
-            const cart = await this.getOrCreateCart(userId, sessionId);
+            const cart = await this.getOrCreateCart(userId, sessionId, currency);
             return cart;
         } catch (error) {
             logger.error('Get cart error:', error);
@@ -215,12 +236,17 @@ export class CartService {
             // Get or create user cart
             const userCart = await this.getOrCreateCart(userId);
 
-            // Merge items from guest cart to user cart
+            // Merge items from guest cart to user cart, in the user cart's currency
             for (const guestItem of guestCart.items) {
+                const price = guestCart.currency === userCart.currency
+                    ? guestItem.price
+                    : await CurrencyService.convert(guestItem.price, userCart.currency, guestCart.currency);
+
                 await userCart.addItem(
                     guestItem.product.toString(),
                     guestItem.quantity,
-                    guestItem.price,
+                    price,
+                    guestItem.variantId?.toString(),
                     guestItem.variant
                 );
             }
@@ -243,19 +269,22 @@ export class CartService {
     /**
      * Validate cart items (check availability, prices, stock)
      */
-    static async validateCart(userId?: string, sessionId?: string): Promise<{
+    static async validateCart(userId?: string, sessionId?: string, currency?: string): Promise<{
         cart: ICart;
         issues: Array<{
             productId: string;
+            variantId?: string;
             issue: string;
             currentPrice?: number;
             availableStock?: number;
         }>;
     }> {
         try {
-            const cart = await this.getOrCreateCart(userId, sessionId);
+            const cart = await this.getOrCreateCart(userId, sessionId, currency);
+            const converter = await CurrencyService.getConverter(cart.currency);
             const issues: Array<{
                 productId: string;
+                variantId?: string;
                 issue: string;
                 currentPrice?: number;
                 availableStock?: number;
@@ -281,21 +310,37 @@ export class CartService {
                     continue;
                 }
 
+                // A line must be one of the product's active variants once it has any
+                const variantId = item.variantId?.toString();
+                const variant = variantId ? product.findVariant(variantId) : undefined;
+                if ((variantId || product.variants.length > 0) && !variant?.isActive) {
+                    issues.push({
+                        productId: item.product.toString(),
+                        variantId,
+                        issue: 'Variant is no longer available'
+                    });
+                    continue;
+                }
+
                 // Check stock
-                if (product.trackQuantity && product.quantity < item.quantity) {
+                const available = variant ? variant.quantity : product.quantity;
+                if (product.trackQuantity && available < item.quantity) {
                     issues.push({
                         productId: item.product.toString(),
+                        variantId,
                         issue: 'Insufficient stock',
-                        availableStock: product.quantity
+                        availableStock: available
                     });
                 }
 
-                // Check price changes
-                if (Math.abs(product.finalPrice - item.price) > 0.01) {
+                // Check price changes (both in minor units, so any difference is a real one)
+                const { finalPrice } = CurrencyService.getProductPrices(product, converter, variant);
+                if (finalPrice !== item.price) {
                     issues.push({
                         productId: item.product.toString(),
+                        variantId,
                         issue: 'Price has changed',
-                        currentPrice: product.finalPrice
+                        currentPrice: finalPrice
                     });
                 }
             }
@@ -307,13 +352,63 @@ export class CartService {
         }
     }
 
+    /**
+     * Apply a coupon code to the cart
+     */
+    static async applyCoupon(code: string, userId?: string, sessionId?: string): Promise<ICart> {
+        try {
+            const cart = await this.getOrCreateCart(userId, sessionId);
+
+            if (cart.isEmpty) {
+                throw new AppError('Cart is empty', 400);
+            }
+
+            // Throws with the reason the code cannot be used
+            const { coupon } = await CouponService.evaluateCart(code, cart, userId);
+
+            cart.couponCode = coupon.code;
+            await cart.save();
+
+            logger.info(`Coupon ${coupon.code} applied to cart for ${userId ? 'user:' + userId : 'session:' + sessionId}`);
+            return cart;
+        } catch (error) {
+            logger.error('Apply coupon error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove the coupon code from the cart
+     */
+    static async removeCoupon(userId?: string, sessionId?: string): Promise<ICart> {
+        try {
+            const cart = await this.getOrCreateCart(userId, sessionId);
+
+            cart.couponCode = undefined;
+            await cart.save();
+
+            return cart;
+        } catch (error) {
+            logger.error('Remove coupon error:', error);
+            throw error;
+        }
+    }
+
     /**
      * Get cart summary for checkout
      */
-    static async getCartSummary(userId?: string, sessionId?: string): Promise<{
+    static async getCartSummary(userId?: string, sessionId?: string, address?: TaxAddress, currency?: string): Promise<{
         cart: ICart;
         summary: {
             subtotal: number;
+            discount: number;
+            couponCode?: string;
+            couponError?: string;
+            freeShipping: boolean;
+            tax: number;
+            taxLines: LineTax[];
+            taxBreakdown: IOrderTaxLine[];
+            total: number;
             totalItems: number;
             currency: string;
             isValid: boolean;
@@ -321,13 +416,41 @@ export class CartService {
         };
     }> {
         try {
-            const { cart, issues } = await this.validateCart(userId, sessionId);
+            const { cart, issues } = await this.validateCart(userId, sessionId, currency);
+
+            // A coupon that stopped applying (expired, items removed...) is reported, not dropped
+            let discount = 0;
+            let freeShipping = false;
+            let couponError: string | undefined;
+
+            if (cart.couponCode && !cart.isEmpty) {
+                try {
+                    const evaluation = await CouponService.evaluateCart(cart.couponCode, cart, userId);
+                    discount = evaluation.discount;
+                    freeShipping = evaluation.freeShipping;
+                } catch (error: any) {
+                    couponError = error.message;
+                }
+            }
+
+            // Estimated with the store's default country until an address is given
+            const tax = await TaxService.calculateCart(cart, address, discount);
 
             const summary = {
                 subtotal: cart.totalPrice,
+                discount,
+                couponCode: cart.couponCode,
+                couponError,
+                freeShipping,
+                tax: tax.tax,
+                taxLines: tax.lines,
+                taxBreakdown: tax.breakdown,
+                total: Money.of(cart.totalPrice, cart.currency)
+                    .subtract(Money.of(discount, cart.currency))
+                    .add(Money.of(tax.addedTax, cart.currency)).amount,
                 totalItems: cart.totalItems,
                 currency: cart.currency,
-                isValid: issues.length === 0,
+                isValid: issues.length === 0 && !couponError,
                 issues
             };
 
@@ -337,4 +460,95 @@ export class CartService {
             throw error;
         }
     }
+
+    /**
+     * Quote the shipping methods available for the cart to an address
+     */
+    static async getShippingOptions(address: ShippingAddress, userId?: string, sessionId?: string, currency?: string): Promise<ShippingQuote[]> {
+        try {
+            const cart = await this.getOrCreateCart(userId, sessionId, currency);
+
+            if (cart.isEmpty) {
+                return [];
+            }
+
+            // Thresholds apply to the discounted subtotal; a free-shipping coupon zeroes every method
+            let discount = 0;
+            let freeShipping = false;
+
+            if (cart.couponCode) {
+                try {
+                    const evaluation = await CouponService.evaluateCart(cart.couponCode, cart, userId);
+                    discount = evaluation.discount;
+                    freeShipping = evaluation.freeShipping;
+                } catch (error) {
+                    // An inapplicable coupon is reported by the cart summary
+                }
+            }
+
+            return await ShippingService.quoteCart(cart, address, {
+                subtotal: cart.totalPrice - discount,
+                freeShipping
+            });
+        } catch (error) {
+            logger.error('Get shipping options error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Switch the cart to another currency, repricing each item at the product's current price
+     */
+    private static async repriceCart(cart: ICart, currency: string): Promise<void> {
+        const converter = await CurrencyService.getConverter(currency);
+        const productIds = cart.items.map((item: any) => (item.product?._id || item.product).toString());
+        const products = await Product.find({ _id: { $in: productIds } });
+        const productMap = new Map(products.map(product => [product._id!.toString(), product]));
+
+        for (let index = 0; index < cart.items.length; index++) {
+            const item = cart.items[index];
+            const product = productMap.get(productIds[index]);
+
+            // Items whose product is gone are converted; validateCart reports them anyway
+            const variant = product?.findVariant(item.variantId?.toString());
+            item.price = product
+                ? CurrencyService.getProductPrices(product, converter, variant).finalPrice
+                : await CurrencyService.convert(item.price, converter.currency, cart.currency);
+        }
+
+        cart.currency = converter.currency;
+        await cart.save();
+
+        logger.info(`Cart ${cart._id} switched to ${converter.currency}`);
+    }
+
+    /**
+     * The variant a shopper picked, by id or by its option values; products with variants need one
+     */
+    private static resolveVariant(
+        product: IProduct,
+        variantId?: string,
+        options?: AddToCartData['variant']
+    ): IProductVariant | undefined {
+        if (product.variants.length === 0) {
+            if (variantId) {
+                throw new AppError('Variant not found', 404);
+            }
+            return undefined;
+        }
+
+        if (!variantId && !options?.length) {
+            throw new AppError(`Choose a variant of ${product.name}`, 400);
+        }
+
+        const variant = product.findVariant(variantId, options);
+        if (!variant) {
+            throw new AppError('Variant not found', 404);
+        }
+        if (!variant.isActive) {
+            throw new AppError('Variant is not available', 400);
+        }
+
+        return variant;
+    }
 }
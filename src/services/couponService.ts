@@ -0,0 +1,241 @@
+import { Coupon, ICoupon } from "../models/Coupon";
+import { Product } from "../models/Product";
+import type { ICart } from "../models/Cart";
+import { CurrencyService, CurrencyConverter } from "./currencyService";
+import { DiscountType } from "../types";
+import { config } from "../config/config";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+
+/**
+ * A priced line the coupon is evaluated against (cart item or order item)
+ */
+export interface CouponLine {
+    productId: string;
+    category?: string;
+    brand?: string;
+    price: number;
+    quantity: number;
+}
+
+export interface CouponEvaluation {
+    coupon: ICoupon;
+    discount: number;
+    freeShipping: boolean;
+    eligibleSubtotal: number;
+}
+
+export class CouponService {
+    /**
+     * Check a code against the lines and caller, and compute its discount in the lines' currency
+     * (coupon amounts are set in the base currency). Throws an AppError explaining why the code
+     * cannot be used.
+     */
+    static async evaluate(
+        code: string,
+        lines: CouponLine[],
+        userId?: string,
+        currency: string = config.currency.base
+    ): Promise<CouponEvaluation> {
+        const coupon = await Coupon.findOne({ code: code.trim().toUpperCase() });
+
+        if (!coupon || !coupon.isActive) {
+            throw new AppError("Invalid coupon code", 404);
+        }
+
+        const now = new Date();
+        if (coupon.startsAt && coupon.startsAt > now) {
+            throw new AppError("This coupon is not active yet", 400);
+        }
+        if (coupon.expiresAt && coupon.expiresAt <= now) {
+            throw new AppError("This coupon has expired", 400);
+        }
+
+        if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+            throw new AppError("This coupon has reached its usage limit", 400);
+        }
+
+        if (coupon.perUserLimit) {
+            if (!userId) {
+                throw new AppError("Please sign in to use this coupon", 401);
+            }
+
+            const usedUp = await Coupon.exists({
+                _id: coupon._id,
+                redemptions: { $elemMatch: { user: userId, count: { $gte: coupon.perUserLimit } } }
+            });
+            if (usedUp) {
+                throw new AppError("You have already used this coupon", 400);
+            }
+        }
+
+        const converter = await CurrencyService.getConverter(currency);
+        const minSubtotal = converter.convert(coupon.minSubtotal);
+
+        const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+        if (subtotal < minSubtotal) {
+            throw new AppError(
+                `This coupon requires a minimum subtotal of ${Money.of(minSubtotal, converter.currency)}`,
+                400
+            );
+        }
+
+        const eligibleLines = lines.filter((line) => this.isEligible(coupon, line));
+        if (eligibleLines.length === 0) {
+            throw new AppError("This coupon does not apply to any items in your cart", 400);
+        }
+
+        const eligibleSubtotal = Money.sum(
+            eligibleLines.map((line) => Money.of(line.price, converter.currency).multiply(line.quantity)),
+            converter.currency
+        );
+
+        return {
+            coupon,
+            discount: this.calculateDiscount(coupon, eligibleLines, eligibleSubtotal, converter).amount,
+            freeShipping: coupon.type === DiscountType.FREE_SHIPPING,
+            eligibleSubtotal: eligibleSubtotal.amount
+        };
+    }
+
+    /**
+     * Evaluate a code against a cart, resolving each item's category and brand
+     */
+    static async evaluateCart(code: string, cart: ICart, userId?: string): Promise<CouponEvaluation> {
+        const productIds = cart.items.map((item: any) => (item.product?._id || item.product).toString());
+        const products = await Product.find({ _id: { $in: productIds } })
+            .select("category brand")
+            .lean();
+        const productMap = new Map(products.map((product: any) => [product._id.toString(), product]));
+
+        const lines: CouponLine[] = cart.items.map((item, index) => {
+            const product: any = productMap.get(productIds[index]);
+            return {
+                productId: productIds[index],
+                category: product?.category?.toString(),
+                brand: product?.brand?.toString(),
+                price: item.price,
+                quantity: item.quantity
+            };
+        });
+
+        return this.evaluate(code, lines, userId, cart.currency);
+    }
+
+    /**
+     * Count a redemption, by the customer too when the coupon has a per-user limit. Both limits
+     * are checked in the same conditional update, so concurrent checkouts can never exceed them.
+     */
+    static async redeem(coupon: ICoupon, userId?: string): Promise<void> {
+        const filter: Record<string, any> = { _id: coupon._id };
+        const update: Record<string, any> = { $inc: { usageCount: 1 } };
+
+        if (coupon.usageLimit) {
+            filter.usageCount = { $lt: coupon.usageLimit };
+        }
+
+        if (coupon.perUserLimit) {
+            if (!userId) {
+                throw new AppError("Please sign in to use this coupon", 401);
+            }
+
+            // The customer's counter must exist for the guarded update to increment it
+            await Coupon.updateOne(
+                { _id: coupon._id, "redemptions.user": { $ne: userId } },
+                { $push: { redemptions: { user: userId, count: 0 } } }
+            );
+            filter.redemptions = { $elemMatch: { user: userId, count: { $lt: coupon.perUserLimit } } };
+            update.$inc["redemptions.$.count"] = 1;
+        }
+
+        const result = await Coupon.updateOne(filter, update);
+        if (result.modifiedCount === 0) {
+            const limitReached =
+                !coupon.perUserLimit ||
+                (!!coupon.usageLimit &&
+                    !!(await Coupon.exists({ _id: coupon._id, usageCount: { $gte: coupon.usageLimit } })));
+            throw new AppError(
+                limitReached ? "This coupon has reached its usage limit" : "You have already used this coupon",
+                400
+            );
+        }
+    }
+
+    /**
+     * Give back a redemption (cancelled order or failed checkout), and the customer's one
+     */
+    static async release(code: string, userId?: string): Promise<void> {
+        try {
+            const filter = { code: code.toUpperCase() };
+            await Coupon.updateOne({ ...filter, usageCount: { $gt: 0 } }, { $inc: { usageCount: -1 } });
+
+            if (userId) {
+                await Coupon.updateOne(
+                    { ...filter, redemptions: { $elemMatch: { user: userId, count: { $gt: 0 } } } },
+                    { $inc: { "redemptions.$.count": -1 } }
+                );
+            }
+        } catch (error) {
+            logger.error(`Release coupon ${code} error:`, error);
+        }
+    }
+
+    private static isEligible(coupon: ICoupon, line: CouponLine): boolean {
+        if (!coupon.isScoped) {
+            return true;
+        }
+
+        const matches = (ids: any[], value?: string) => !!value && ids.some((id) => id.toString() === value);
+
+        return (
+            matches(coupon.products, line.productId) ||
+            matches(coupon.categories, line.category) ||
+            matches(coupon.brands, line.brand)
+        );
+    }
+
+    private static calculateDiscount(
+        coupon: ICoupon,
+        lines: CouponLine[],
+        eligibleSubtotal: Money,
+        converter: CurrencyConverter
+    ): Money {
+        const currency = converter.currency;
+        let discount = Money.zero(currency);
+
+        switch (coupon.type) {
+            case DiscountType.PERCENTAGE:
+                discount = eligibleSubtotal.multiply(coupon.value / 100);
+                if (coupon.maxDiscount) {
+                    discount = discount.min(Money.of(converter.convert(coupon.maxDiscount), currency));
+                }
+                break;
+
+            case DiscountType.FIXED_AMOUNT:
+                discount = Money.of(converter.convert(coupon.value), currency);
+                break;
+
+            case DiscountType.BUY_X_GET_Y: {
+                // Every full group of (buy + get) units discounts its cheapest "get" units
+                const unitPrices = lines
+                    .flatMap((line) => Array(line.quantity).fill(line.price) as number[])
+                    .sort((a, b) => a - b);
+                const groupSize = coupon.buyQuantity! + coupon.getQuantity!;
+                const discountedUnits = Math.floor(unitPrices.length / groupSize) * coupon.getQuantity!;
+
+                discount = Money.sum(
+                    unitPrices.slice(0, discountedUnits).map((price) => Money.of(price, currency)),
+                    currency
+                ).multiply(coupon.getDiscountPercent / 100);
+                break;
+            }
+
+            case DiscountType.FREE_SHIPPING:
+                // Applied to the shipping cost, not the items
+                break;
+        }
+
+        return discount.min(eligibleSubtotal);
+    }
+}
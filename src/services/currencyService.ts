@@ -0,0 +1,262 @@
+import { ExchangeRate, IExchangeRate } from "../models/ExchangeRate";
+import type { IProductPrice, IProductVariant } from "../models/Product";
+import { config } from "../config/config";
+import { CACHE_PREFIXES, CACHE_TTL } from "../config/redis";
+import { AppError } from "../utils/AppError";
+import { getCurrencyDecimals } from "../utils/currency";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+import { CacheWrapper } from "../utils/performance";
+
+interface RateEntry {
+    rate: number;
+    roundingIncrement?: number;
+}
+
+/**
+ * Converts amounts in base currency minor units into minor units of one currency
+ */
+export interface CurrencyConverter {
+    currency: string;
+    rate: number; // Units of the currency per unit of the base currency
+    convert(amount: number): number; // Rounded to the nearest minor unit
+    convertPrice(amount: number): number; // Also rounded to the currency's rounding increment
+}
+
+/**
+ * A product's prices in one currency, in its minor units
+ */
+export interface LocalizedPrices {
+    currency: string;
+    price: number;
+    comparePrice?: number;
+    salePrice?: number;
+    finalPrice: number;
+}
+
+interface PricedProduct {
+    price: number;
+    comparePrice?: number;
+    salePrice?: number;
+    onSale?: boolean;
+    saleStartDate?: Date | string;
+    saleEndDate?: Date | string;
+    prices?: IProductPrice[];
+}
+
+const RATES_CACHE_KEY = "rates";
+
+export class CurrencyService {
+    private static cache = new CacheWrapper(CACHE_PREFIXES.CURRENCIES, CACHE_TTL.MEDIUM);
+
+    static getBaseCurrency(): string {
+        return config.currency.base;
+    }
+
+    /**
+     * Active exchange rates by currency, cached until an admin changes them
+     */
+    static async getRates(): Promise<Record<string, RateEntry>> {
+        const cached = await this.cache.get<Record<string, RateEntry>>(RATES_CACHE_KEY);
+        if (cached) {
+            return cached;
+        }
+
+        const rates = await ExchangeRate.find({ isActive: true }).lean();
+        const result: Record<string, RateEntry> = {};
+        for (const rate of rates) {
+            result[rate.currency] = { rate: rate.rate, roundingIncrement: rate.roundingIncrement };
+        }
+
+        await this.cache.set(RATES_CACHE_KEY, result);
+        return result;
+    }
+
+    /**
+     * The base currency and every currency with an active rate
+     */
+    static async getSupportedCurrencies(): Promise<
+        Array<{ currency: string; rate: number; decimals: number; roundingIncrement?: number }>
+    > {
+        const rates = await this.getRates();
+        const base = this.getBaseCurrency();
+
+        return [
+            { currency: base, rate: 1, decimals: getCurrencyDecimals(base) },
+            ...Object.entries(rates)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([currency, entry]) => ({
+                    currency,
+                    rate: entry.rate,
+                    decimals: getCurrencyDecimals(currency),
+                    roundingIncrement: entry.roundingIncrement
+                }))
+        ];
+    }
+
+    /**
+     * Converter for a currency; throws when the currency has no active rate
+     */
+    static async getConverter(currency: string): Promise<CurrencyConverter> {
+        const code = currency.trim().toUpperCase();
+
+        if (code === this.getBaseCurrency()) {
+            return {
+                currency: code,
+                rate: 1,
+                convert: (amount) => Money.of(amount, code).amount,
+                convertPrice: (amount) => Money.of(amount, code).amount
+            };
+        }
+
+        const entry = (await this.getRates())[code];
+        if (!entry) {
+            throw new AppError(`Currency ${code} is not supported`, 400);
+        }
+
+        const base = this.getBaseCurrency();
+        return {
+            currency: code,
+            rate: entry.rate,
+            convert: (amount) => Money.of(amount, base).convert(code, entry.rate).amount,
+            convertPrice: (amount) => Money.of(amount, base).convert(code, entry.rate, entry.roundingIncrement).amount
+        };
+    }
+
+    /**
+     * Convert an amount in minor units between two supported currencies (through the base currency)
+     */
+    static async convert(amount: number, to: string, from: string = config.currency.base): Promise<number> {
+        if (to.toUpperCase() === from.toUpperCase()) {
+            return Money.of(amount, to).amount;
+        }
+
+        const source = await this.getConverter(from);
+        const target = await this.getConverter(to);
+        return Money.of(amount, source.currency).convert(target.currency, target.rate / source.rate).amount;
+    }
+
+    /**
+     * A product's prices in the converter's currency. Prices set by hand for the currency win;
+     * anything else is converted from the base price. A variant with its own price is sold at that
+     * price converted, without the product's sale or currency overrides.
+     */
+    static getProductPrices(
+        product: PricedProduct,
+        converter: CurrencyConverter,
+        variant?: Pick<IProductVariant, "price">
+    ): LocalizedPrices {
+        if (variant?.price !== undefined && variant.price !== null) {
+            const price = converter.convertPrice(variant.price);
+            return { currency: converter.currency, price, finalPrice: price };
+        }
+
+        const override = product.prices?.find((price) => price.currency === converter.currency);
+
+        const pick = (field: "price" | "comparePrice" | "salePrice"): number | undefined => {
+            const manual = override?.[field];
+            if (manual !== undefined && manual !== null) {
+                return manual;
+            }
+
+            const base = product[field];
+            return base === undefined || base === null ? undefined : converter.convertPrice(base);
+        };
+
+        const price = pick("price")!;
+        const salePrice = pick("salePrice");
+
+        return {
+            currency: converter.currency,
+            price,
+            comparePrice: pick("comparePrice"),
+            salePrice,
+            finalPrice: this.isSaleActive(product) && salePrice ? salePrice : price
+        };
+    }
+
+    /**
+     * Price products (documents or lean objects) in a currency for a response
+     */
+    static async localizeProducts<T>(products: T[], currency?: string): Promise<T[]> {
+        const converter = await this.getConverter(currency || this.getBaseCurrency());
+
+        return products.map((product: any) => {
+            const data = typeof product.toObject === "function" ? product.toObject() : product;
+            const localized = { ...data, ...this.getProductPrices(data, converter) };
+            if (data.variants) {
+                localized.variants = data.variants.map((variant: IProductVariant) => ({
+                    ...variant,
+                    ...this.getProductPrices(data, converter, variant)
+                }));
+            }
+            return localized;
+        });
+    }
+
+    static async localizeProduct<T>(product: T, currency?: string): Promise<T> {
+        const [localized] = await this.localizeProducts([product], currency);
+        return localized;
+    }
+
+    /**
+     * All exchange rates, including inactive ones (admin)
+     */
+    static async listRates(): Promise<IExchangeRate[]> {
+        return ExchangeRate.find().sort({ currency: 1 });
+    }
+
+    /**
+     * Create or update the rate for a currency
+     */
+    static async setRate(
+        currency: string,
+        data: { rate: number; roundingIncrement?: number; isActive?: boolean },
+        adminId: string
+    ): Promise<IExchangeRate> {
+        try {
+            const code = currency.trim().toUpperCase();
+            const exchangeRate =
+                (await ExchangeRate.findOne({ currency: code })) || new ExchangeRate({ currency: code });
+
+            exchangeRate.set({ ...data, updatedBy: adminId });
+            await exchangeRate.save();
+            await this.cache.del(RATES_CACHE_KEY);
+
+            logger.info(`Exchange rate set: 1 ${this.getBaseCurrency()} = ${exchangeRate.rate} ${code} by: ${adminId}`);
+            return exchangeRate;
+        } catch (error) {
+            logger.error("Set exchange rate error:", error);
+            throw error;
+        }
+    }
+
+    static async deleteRate(currency: string): Promise<void> {
+        try {
+            const result = await ExchangeRate.deleteOne({ currency: currency.trim().toUpperCase() });
+            if (result.deletedCount === 0) {
+                throw new AppError("Exchange rate not found", 404);
+            }
+
+            await this.cache.del(RATES_CACHE_KEY);
+        } catch (error) {
+            logger.error("Delete exchange rate error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Same rule as the Product finalPrice virtual, which lean results do not carry
+     */
+    private static isSaleActive(product: PricedProduct): boolean {
+        if (!product.onSale || !product.salePrice || product.salePrice <= 0) {
+            return false;
+        }
+
+        const now = new Date();
+        return (
+            (!product.saleStartDate || now >= new Date(product.saleStartDate)) &&
+            (!product.saleEndDate || now <= new Date(product.saleEndDate))
+        );
+    }
+}
@@ -0,0 +1,376 @@
+import PDFDocument from "pdfkit";
+import { Order, IOrder, IShippingAddress } from "../models/Order";
+import { SupportedLanguages } from "../models/Translation";
+import { translationService } from "./translationService";
+import { config } from "../config/config";
+import { AppError } from "../utils/AppError";
+import { formatCurrency, formatDate } from "../utils/i18nHelpers";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+
+type PdfDocument = InstanceType<typeof PDFDocument>;
+
+/**
+ * English labels, used when a key has not been seeded (see scripts/seed-translations.ts)
+ */
+const DEFAULT_LABELS: Record<string, string> = {
+    "ui.document.invoice": "Invoice",
+    "ui.document.packing_slip": "Packing Slip",
+    "ui.document.order_number": "Order number",
+    "ui.document.order_date": "Order date",
+    "ui.document.tax_id": "Tax ID",
+    "ui.document.bill_to": "Bill to",
+    "ui.document.ship_to": "Ship to",
+    "ui.document.item": "Item",
+    "ui.document.sku": "SKU",
+    "ui.document.quantity": "Qty",
+    "ui.document.unit_price": "Unit price",
+    "ui.document.tax_rate": "Tax rate",
+    "ui.document.tax": "Tax",
+    "ui.document.amount": "Amount",
+    "ui.document.subtotal": "Subtotal",
+    "ui.document.discount": "Discount",
+    "ui.document.shipping": "Shipping",
+    "ui.document.tax_included": "included",
+    "ui.document.total": "Total",
+    "ui.document.refunded": "Refunded",
+    "ui.document.payment_method": "Payment method",
+    "ui.document.payment_status": "Payment status",
+    "ui.document.shipping_method": "Shipping method",
+    "ui.document.notes": "Notes",
+    "ui.document.packed": "Packed",
+    "ui.document.thank_you": "Thank you for your order!"
+};
+
+type Labels = (key: string) => string;
+
+export interface RenderedDocument {
+    filename: string;
+    content: Buffer;
+}
+
+const PAGE_MARGIN = 50;
+const FONT = "body";
+const BOLD_FONT = "body-bold";
+
+export class DocumentService {
+    /**
+     * Render the customer invoice. Pass userId to restrict it to the customer's own orders.
+     */
+    static async renderInvoice(
+        orderId: string,
+        language: SupportedLanguages,
+        userId?: string
+    ): Promise<RenderedDocument> {
+        try {
+            const order = await this.findOrder(orderId, userId);
+            const t = await this.getLabels(language);
+            const money = (amount: number) =>
+                formatCurrency(Money.of(amount, order.currency).toMajor(), language, order.currency);
+            const doc = this.createDocument();
+
+            this.writeHeader(doc, t("ui.document.invoice"), order, language, t);
+
+            doc.font(FONT).fontSize(9).text(config.documents.sellerName, PAGE_MARGIN, 60, { align: "right" });
+            if (config.documents.sellerAddress) {
+                doc.text(config.documents.sellerAddress, { align: "right" });
+            }
+            if (config.documents.sellerTaxId) {
+                doc.text(`${t("ui.document.tax_id")}: ${config.documents.sellerTaxId}`, { align: "right" });
+            }
+
+            const addressTop = 150;
+            this.writeAddress(
+                doc,
+                t("ui.document.bill_to"),
+                order.billingAddress || order.shippingAddress,
+                0,
+                addressTop
+            );
+            this.writeAddress(doc, t("ui.document.ship_to"), order.shippingAddress, 260, addressTop);
+
+            const columns = [
+                { label: t("ui.document.item"), width: 200 },
+                { label: t("ui.document.quantity"), width: 40, align: "right" as const },
+                { label: t("ui.document.unit_price"), width: 90, align: "right" as const },
+                { label: t("ui.document.tax_rate"), width: 60, align: "right" as const },
+                { label: t("ui.document.amount"), width: 105, align: "right" as const }
+            ];
+
+            let y = this.writeTable(
+                doc,
+                columns,
+                order.items.map((item) => [
+                    this.describeItem(item),
+                    String(item.quantity),
+                    money(item.price),
+                    item.taxRate !== undefined ? this.formatRate(item.taxRate) : "",
+                    money(item.price * item.quantity)
+                ]),
+                250
+            );
+
+            // Totals, right-aligned under the table
+            const totals: [string, string][] = [[t("ui.document.subtotal"), money(order.subtotal)]];
+            if (order.discount > 0) {
+                const label = order.discountCode
+                    ? `${t("ui.document.discount")} (${order.discountCode})`
+                    : t("ui.document.discount");
+                totals.push([label, `-${money(order.discount)}`]);
+            }
+            totals.push([t("ui.document.shipping"), money(order.shippingCost)]);
+
+            if (order.taxBreakdown?.length) {
+                for (const line of order.taxBreakdown) {
+                    const suffix = line.inclusive ? ` (${t("ui.document.tax_included")})` : "";
+                    totals.push([`${line.name} ${this.formatRate(line.rate)}${suffix}`, money(line.amount)]);
+                }
+            } else if (order.tax > 0) {
+                totals.push([`${t("ui.document.tax")} ${this.formatRate(order.taxRate)}`, money(order.tax)]);
+            }
+
+            y += 10;
+            for (const [label, value] of totals) {
+                y = this.writeTotalLine(doc, label, value, y, false);
+            }
+            y = this.writeTotalLine(doc, t("ui.document.total"), money(order.total), y + 4, true);
+
+            const refunded = (order.refunds || []).reduce((sum, refund) => sum + refund.amount, 0);
+            if (refunded > 0) {
+                y = this.writeTotalLine(doc, t("ui.document.refunded"), `-${money(refunded)}`, y, false);
+            }
+
+            doc.font(FONT)
+                .fontSize(9)
+                .text(
+                    `${t("ui.document.payment_method")}: ${order.payment.method}    ${t("ui.document.payment_status")}: ${order.payment.status}`,
+                    PAGE_MARGIN,
+                    y + 20
+                );
+
+            doc.moveDown(2).fontSize(10).text(t("ui.document.thank_you"), PAGE_MARGIN, undefined, { align: "center" });
+
+            return { filename: `invoice-${order.orderNumber}.pdf`, content: await this.toBuffer(doc) };
+        } catch (error) {
+            logger.error("Render invoice error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Render the warehouse packing slip: what to pick and where it goes, without prices
+     */
+    static async renderPackingSlip(orderId: string, language: SupportedLanguages): Promise<RenderedDocument> {
+        try {
+            const order = await this.findOrder(orderId);
+            const t = await this.getLabels(language);
+            const doc = this.createDocument();
+
+            this.writeHeader(doc, t("ui.document.packing_slip"), order, language, t);
+            this.writeAddress(doc, t("ui.document.ship_to"), order.shippingAddress, 0, 150);
+
+            if (order.shippingMethod) {
+                doc.font(FONT)
+                    .fontSize(9)
+                    .text(`${t("ui.document.shipping_method")}: ${order.shippingMethod}`, PAGE_MARGIN + 260, 165);
+            }
+
+            // Refunded units are not packed
+            const rows = order.items
+                .map((item) => ({ item, quantity: item.quantity - (item.refundedQuantity || 0) }))
+                .filter(({ quantity }) => quantity > 0)
+                .map(({ item, quantity }) => [this.describeItem(item), item.sku, String(quantity), "[   ]"]);
+
+            let y = this.writeTable(
+                doc,
+                [
+                    { label: t("ui.document.item"), width: 255 },
+                    { label: t("ui.document.sku"), width: 130 },
+                    { label: t("ui.document.quantity"), width: 50, align: "right" as const },
+                    { label: t("ui.document.packed"), width: 60, align: "center" as const }
+                ],
+                rows,
+                250
+            );
+
+            if (order.customerNotes) {
+                y += 20;
+                doc.font(BOLD_FONT).fontSize(10).text(t("ui.document.notes"), PAGE_MARGIN, y);
+                doc.font(FONT).fontSize(9).text(order.customerNotes, PAGE_MARGIN, undefined, { width: 495 });
+            }
+
+            return { filename: `packing-slip-${order.orderNumber}.pdf`, content: await this.toBuffer(doc) };
+        } catch (error) {
+            logger.error("Render packing slip error:", error);
+            throw error;
+        }
+    }
+
+    private static async findOrder(orderId: string, userId?: string): Promise<IOrder> {
+        const filter: Record<string, any> = { _id: orderId };
+        if (userId) {
+            filter.user = userId;
+        }
+
+        const order = await Order.findOne(filter);
+        if (!order) {
+            throw new AppError("Order not found", 404);
+        }
+
+        return order;
+    }
+
+    /**
+     * Translated labels; translationService returns the key itself when a translation is missing
+     */
+    private static async getLabels(language: SupportedLanguages): Promise<Labels> {
+        const keys = Object.keys(DEFAULT_LABELS);
+        const translations = await translationService.getTranslations(keys, language);
+
+        return (key: string) => {
+            const value = translations[key];
+            return value && value !== key ? value : DEFAULT_LABELS[key] || key;
+        };
+    }
+
+    private static createDocument(): PdfDocument {
+        const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+
+        const { fontPath, boldFontPath } = config.documents;
+        try {
+            if (!fontPath) {
+                throw new Error("PDF_FONT_PATH is not set");
+            }
+            doc.registerFont(FONT, fontPath);
+            doc.registerFont(BOLD_FONT, boldFontPath || fontPath);
+            // Fonts are only read when selected, so load both now to catch a bad path
+            doc.font(BOLD_FONT).font(FONT);
+        } catch (error) {
+            logger.warn(
+                `PDF font unavailable, using Helvetica (Vietnamese and Japanese text will not render): ${error}`
+            );
+            doc.registerFont(FONT, "Helvetica");
+            doc.registerFont(BOLD_FONT, "Helvetica-Bold");
+        }
+
+        return doc;
+    }
+
+    private static toBuffer(doc: PdfDocument): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+            doc.on("end", () => resolve(Buffer.concat(chunks)));
+            doc.on("error", reject);
+            doc.end();
+        });
+    }
+
+    private static writeHeader(
+        doc: PdfDocument,
+        title: string,
+        order: IOrder,
+        language: SupportedLanguages,
+        t: Labels
+    ): void {
+        doc.font(BOLD_FONT).fontSize(20).text(title, PAGE_MARGIN, 50);
+        doc.font(FONT)
+            .fontSize(10)
+            .text(`${t("ui.document.order_number")}: ${order.orderNumber}`, PAGE_MARGIN, 80)
+            .text(`${t("ui.document.order_date")}: ${formatDate(order.createdAt, language)}`);
+    }
+
+    private static writeAddress(
+        doc: PdfDocument,
+        heading: string,
+        address: IShippingAddress,
+        offset: number,
+        top: number
+    ): void {
+        const x = PAGE_MARGIN + offset;
+        const lines = [
+            `${address.firstName} ${address.lastName}`,
+            address.company,
+            address.street,
+            [address.city, address.state, address.zipCode].filter(Boolean).join(", "),
+            address.country,
+            address.phone
+        ].filter(Boolean) as string[];
+
+        doc.font(BOLD_FONT).fontSize(10).text(heading, x, top);
+        doc.font(FONT).fontSize(9);
+        for (const line of lines) {
+            doc.text(line, x, undefined, { width: 235 });
+        }
+    }
+
+    /**
+     * Draw a simple table and return the y position below it, starting new pages as needed
+     */
+    private static writeTable(
+        doc: PdfDocument,
+        columns: { label: string; width: number; align?: "left" | "right" | "center" }[],
+        rows: string[][],
+        top: number
+    ): number {
+        const bottom = doc.page.height - PAGE_MARGIN;
+        const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+        const writeRow = (cells: string[], y: number, bold: boolean): number => {
+            doc.font(bold ? BOLD_FONT : FONT).fontSize(9);
+            let x = PAGE_MARGIN;
+            let height = 0;
+            cells.forEach((cell, index) => {
+                const { width, align } = columns[index];
+                doc.text(cell, x, y, { width: width - 6, align: align || "left" });
+                height = Math.max(height, doc.y - y);
+                x += width;
+            });
+            return y + height + 6;
+        };
+
+        let y = writeRow(
+            columns.map((column) => column.label),
+            top,
+            true
+        );
+        doc.moveTo(PAGE_MARGIN, y - 3)
+            .lineTo(PAGE_MARGIN + tableWidth, y - 3)
+            .stroke();
+
+        for (const row of rows) {
+            if (y > bottom - 40) {
+                doc.addPage();
+                y = PAGE_MARGIN;
+            }
+            y = writeRow(row, y, false);
+        }
+
+        doc.moveTo(PAGE_MARGIN, y - 3)
+            .lineTo(PAGE_MARGIN + tableWidth, y - 3)
+            .stroke();
+
+        return y;
+    }
+
+    private static writeTotalLine(doc: PdfDocument, label: string, value: string, y: number, bold: boolean): number {
+        if (y > doc.page.height - PAGE_MARGIN - 20) {
+            doc.addPage();
+            y = PAGE_MARGIN;
+        }
+
+        doc.font(bold ? BOLD_FONT : FONT).fontSize(bold ? 11 : 9);
+        doc.text(label, PAGE_MARGIN + 200, y, { width: 190, align: "right" });
+        doc.text(value, PAGE_MARGIN + 390, y, { width: 105, align: "right" });
+        return y + (bold ? 18 : 14);
+    }
+
+    private static describeItem(item: IOrder["items"][number]): string {
+        const variant = item.variant?.map((option) => `${option.name}: ${option.value}`).join(", ");
+        return variant ? `${item.name} (${variant})` : item.name;
+    }
+
+    private static formatRate(rate: number): string {
+        return `${Math.round(rate * 10000) / 100}%`;
+    }
+}
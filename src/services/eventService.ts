@@ -212,7 +212,7 @@ class EventService extends EventEmitter {
      */
     async getProductAnalytics(productId: string): Promise<Record<string, number>> {
         try {
-            const actions = ['view', 'add_to_cart', 'remove_from_cart', 'purchase'];
+            const actions = ['view', 'add_to_cart', 'remove_from_cart', 'purchase', 'add_to_wishlist'];
             const analytics: Record<string, number> = {};
             
             for (const action of actions) {
@@ -241,6 +241,10 @@ class EventService extends EventEmitter {
             logger.debug(`Product added to cart: ${event.productId} by user: ${event.userId}`);
         });
 
+        this.on('product:add_to_wishlist', (event: ProductEvent) => {
+            logger.debug(`Product added to wishlist: ${event.productId} by user: ${event.userId} (in stock: ${event.metadata?.inStock})`);
+        });
+
         this.on('product:purchase', (event: ProductEvent) => {
             logger.info(`Product purchased: ${event.productId} by user: ${event.userId} for $${event.price}`);
         });
@@ -0,0 +1,66 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { config } from "../config/config";
+
+const TOKEN_AUDIENCE = "guest-session";
+
+/**
+ * A guest session: the id keys the guest cart, the token is what the client keeps
+ */
+export interface GuestSession {
+    id: string;
+    token: string;
+    expiresAt: Date;
+}
+
+export class GuestSessionService {
+    /**
+     * Start a session, or extend an existing one by signing a fresh token for its id
+     */
+    static issue(sessionId: string = crypto.randomUUID()): GuestSession {
+        const ttlSeconds = this.getTtlSeconds();
+        const token = jwt.sign({ sid: sessionId }, this.getSecret(), {
+            audience: TOKEN_AUDIENCE,
+            expiresIn: ttlSeconds
+        });
+
+        return { id: sessionId, token, expiresAt: new Date(Date.now() + ttlSeconds * 1000) };
+    }
+
+    /**
+     * The session a token belongs to, or null when it is forged, expired or not a guest token
+     */
+    static verify(token: string): Omit<GuestSession, "token"> | null {
+        try {
+            const payload = jwt.verify(token, this.getSecret(), { audience: TOKEN_AUDIENCE }) as jwt.JwtPayload;
+            if (typeof payload.sid !== "string" || !payload.exp) {
+                return null;
+            }
+
+            return { id: payload.sid, expiresAt: new Date(payload.exp * 1000) };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Sessions past half their lifetime are reissued so an active shopper's cart does not expire
+     */
+    static needsRenewal(expiresAt: Date): boolean {
+        return expiresAt.getTime() - Date.now() < (this.getTtlSeconds() * 1000) / 2;
+    }
+
+    static getTtlSeconds(): number {
+        return config.guestSession.ttlDays * 24 * 60 * 60;
+    }
+
+    /**
+     * A separate key from the user JWT secret, so a guest token can never pass as a login
+     */
+    private static getSecret(): string {
+        return (
+            config.guestSession.secret ||
+            crypto.createHmac("sha256", config.jwt.secret).update(TOKEN_AUDIENCE).digest("hex")
+        );
+    }
+}
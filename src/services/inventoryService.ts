@@ -0,0 +1,233 @@
+import mongoose from "mongoose";
+import { Product } from "../models/Product";
+import { Order, IOrder } from "../models/Order";
+import { ProductService } from "./productService";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+
+interface StockRequest {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+export interface StockReservation {
+    productId: string;
+    variantId?: string; // Units of a variant are also taken from its own quantity
+    quantity: number; // Units actually taken from Product.quantity
+}
+
+export class InventoryService {
+    /**
+     * Atomically reserve (decrement) stock for a set of items.
+     * Each decrement is a conditional update, so concurrent checkouts can never
+     * take more units than are available. If any item cannot be reserved, the
+     * reservations already made are rolled back before the error is thrown.
+     */
+    static async reserveStock(items: StockRequest[]): Promise<StockReservation[]> {
+        const reservations: StockReservation[] = [];
+
+        try {
+            for (const item of items) {
+                const reserved = await this.reserveItem(item);
+                reservations.push({ productId: item.productId, variantId: item.variantId, quantity: reserved });
+            }
+
+            return reservations;
+        } catch (error) {
+            await this.releaseStock(reservations);
+            logger.error("Reserve stock error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Return previously reserved units to stock
+     */
+    static async releaseStock(reservations: StockReservation[]): Promise<void> {
+        try {
+            for (const reservation of reservations) {
+                if (reservation.quantity <= 0) continue;
+
+                if (reservation.variantId) {
+                    await Product.updateOne(
+                        { _id: reservation.productId, "variants._id": reservation.variantId },
+                        { $inc: { quantity: reservation.quantity, "variants.$.quantity": reservation.quantity } }
+                    );
+                } else {
+                    await Product.updateOne(
+                        { _id: reservation.productId },
+                        { $inc: { quantity: reservation.quantity } }
+                    );
+                }
+                await ProductService.invalidateProductCache(reservation.productId);
+            }
+        } catch (error) {
+            logger.error("Release stock error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Release the stock held by an order (on cancellation or failure).
+     * Safe to call more than once: each item's reservedQuantity is cleared
+     * atomically before its units are returned.
+     */
+    static async releaseOrderStock(order: IOrder): Promise<void> {
+        try {
+            for (const item of order.items) {
+                if (!item.reservedQuantity) continue;
+
+                const reservedQuantity = item.reservedQuantity;
+                const claimed = await Order.updateOne(
+                    {
+                        _id: order._id,
+                        items: { $elemMatch: { _id: (item as any)._id, reservedQuantity } }
+                    },
+                    { $set: { "items.$.reservedQuantity": 0 } }
+                );
+                item.reservedQuantity = 0;
+
+                // Another request already released this item
+                if (claimed.modifiedCount === 0) continue;
+
+                await this.releaseStock([
+                    {
+                        productId: item.product.toString(),
+                        variantId: item.variantId?.toString(),
+                        quantity: reservedQuantity
+                    }
+                ]);
+            }
+
+            logger.info(`Stock released for order: ${order.orderNumber}`);
+        } catch (error) {
+            logger.error("Release order stock error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Reserve a single item, honouring trackQuantity and allowBackorder
+     */
+    private static async reserveItem(item: StockRequest): Promise<number> {
+        const product = await Product.findById(item.productId).select("name trackQuantity allowBackorder");
+        if (!product) {
+            throw new AppError("Product not found", 404);
+        }
+
+        // Untracked products never run out
+        if (!product.trackQuantity) {
+            return 0;
+        }
+
+        if (item.variantId) {
+            return this.reserveVariant(item, product.name, product.allowBackorder);
+        }
+
+        if (product.allowBackorder) {
+            // Take whatever is on hand; the remainder is backordered
+            const previous = await Product.findOneAndUpdate(
+                { _id: item.productId },
+                [{ $set: { quantity: { $max: [0, { $subtract: ["$quantity", item.quantity] }] } } }],
+                { new: false, projection: { quantity: 1 } }
+            );
+            await ProductService.invalidateProductCache(item.productId);
+            return Math.min(previous?.quantity || 0, item.quantity);
+        }
+
+        const updated = await Product.findOneAndUpdate(
+            { _id: item.productId, quantity: { $gte: item.quantity } },
+            { $inc: { quantity: -item.quantity } },
+            { new: true, projection: { quantity: 1 } }
+        );
+
+        if (!updated) {
+            throw new AppError(`Insufficient stock for product: ${product.name}`, 409);
+        }
+
+        await ProductService.invalidateProductCache(item.productId);
+        return item.quantity;
+    }
+
+    /**
+     * Reserve units of one variant; the product's quantity (the total of its variants) goes down with it
+     */
+    private static async reserveVariant(item: StockRequest, name: string, allowBackorder: boolean): Promise<number> {
+        const variantId = new mongoose.Types.ObjectId(item.variantId);
+
+        if (allowBackorder) {
+            const taken = {
+                $min: [
+                    item.quantity,
+                    {
+                        $max: [
+                            0,
+                            {
+                                $sum: {
+                                    $map: {
+                                        input: "$variants",
+                                        in: { $cond: [{ $eq: ["$$this._id", variantId] }, "$$this.quantity", 0] }
+                                    }
+                                }
+                            }
+                        ]
+                    }
+                ]
+            };
+            const previous = await Product.findOneAndUpdate(
+                { _id: item.productId, "variants._id": variantId },
+                [
+                    { $set: { taken } },
+                    {
+                        $set: {
+                            quantity: { $max: [0, { $subtract: ["$quantity", "$taken"] }] },
+                            variants: {
+                                $map: {
+                                    input: "$variants",
+                                    in: {
+                                        $cond: [
+                                            { $eq: ["$$this._id", variantId] },
+                                            {
+                                                $mergeObjects: [
+                                                    "$$this",
+                                                    { quantity: { $subtract: ["$$this.quantity", "$taken"] } }
+                                                ]
+                                            },
+                                            "$$this"
+                                        ]
+                                    }
+                                }
+                            }
+                        }
+                    },
+                    { $unset: "taken" }
+                ],
+                { new: false, projection: { variants: 1 } }
+            );
+            if (!previous) {
+                throw new AppError(`Variant of ${name} not found`, 404);
+            }
+
+            await ProductService.invalidateProductCache(item.productId);
+            const onHand = previous.variants.find((variant) => variant._id?.equals(variantId))?.quantity || 0;
+            return Math.min(Math.max(onHand, 0), item.quantity);
+        }
+
+        const updated = await Product.findOneAndUpdate(
+            {
+                _id: item.productId,
+                variants: { $elemMatch: { _id: variantId, quantity: { $gte: item.quantity } } }
+            },
+            { $inc: { quantity: -item.quantity, "variants.$.quantity": -item.quantity } },
+            { new: true, projection: { quantity: 1 } }
+        );
+
+        if (!updated) {
+            throw new AppError(`Insufficient stock for product: ${name}`, 409);
+        }
+
+        await ProductService.invalidateProductCache(item.productId);
+        return item.quantity;
+    }
+}
@@ -0,0 +1,186 @@
+import { PipelineStage } from "mongoose";
+import { Product } from "../models/Product";
+import { SearchSynonym } from "../models/SearchSynonym";
+import { SearchRedirect } from "../models/SearchRedirect";
+import { MerchandisingRule, IMerchandisingRule } from "../models/MerchandisingRule";
+import { normalizeSearchText } from "../utils/searchText";
+import { applyVirtuals } from "../utils/leanVirtuals";
+import { logger } from "../utils/logger";
+
+// How long synonyms, redirects and rules are kept before they are read again; admin changes
+// clear them at once
+const RULES_TTL = 60 * 1000;
+
+export type ActiveMerchandisingRule = Pick<
+    IMerchandisingRule,
+    "normalizedQuery" | "category" | "pinned" | "boosted" | "buried" | "startsAt" | "endsAt"
+>;
+
+interface MerchandisingData {
+    synonyms: string[][]; // Groups of normalized terms
+    redirects: Map<string, string>; // Normalized query to URL
+    rules: ActiveMerchandisingRule[];
+    loadedAt: number;
+}
+
+interface ArrangeOptions {
+    match: Record<string, any>;
+    stages?: PipelineStage[]; // Run before sorting, e.g. to add the relevance sorted on
+    sort: Record<string, 1 | -1>;
+    page: number;
+    limit: number;
+    project: Record<string, 0>; // Fields left out of the products
+}
+
+/**
+ * Admin-managed search synonyms, query redirects and the rules arranging the products of a query
+ * or category
+ */
+export class MerchandisingService {
+    private static data: MerchandisingData | null = null;
+
+    /**
+     * Active synonym groups, each a list of normalized terms meaning the same
+     */
+    static async getSynonyms(): Promise<string[][]> {
+        return (await this.load()).synonyms;
+    }
+
+    /**
+     * Where a search for the query should go instead of the results, if anywhere
+     */
+    static async getRedirect(query: string): Promise<string | undefined> {
+        return (await this.load()).redirects.get(normalizeSearchText(query));
+    }
+
+    /**
+     * The rule of the search query, else of the category, that is active now
+     */
+    static async findRule(target: { query?: string; category?: string }): Promise<ActiveMerchandisingRule | undefined> {
+        const now = new Date();
+        const rules = (await this.load()).rules.filter(
+            (rule) => (!rule.startsAt || rule.startsAt <= now) && (!rule.endsAt || rule.endsAt > now)
+        );
+
+        const query = target.query ? normalizeSearchText(target.query) : "";
+        return (
+            (query ? rules.find((rule) => rule.normalizedQuery === query) : undefined) ||
+            (target.category ? rules.find((rule) => rule.category?.toString() === target.category) : undefined)
+        );
+    }
+
+    /**
+     * One page of the products matching a listing, arranged by a rule: pinned products at their
+     * positions (those the listing would not show are skipped, and pins past the end move up to
+     * it), then boosted products, the rest and buried products, each in the listing's own order
+     */
+    static async arrange(
+        rule: ActiveMerchandisingRule,
+        options: ArrangeOptions
+    ): Promise<{ products: any[]; total: number }> {
+        try {
+            const { match, stages = [], sort, page, limit, project } = options;
+
+            const pins = [...rule.pinned].sort((a, b) => a.position - b.position);
+            const pinnedProducts =
+                pins.length > 0
+                    ? await Product.aggregate([
+                          { $match: { $and: [match, { _id: { $in: pins.map((pin) => pin.product) } }] } },
+                          ...stages,
+                          { $project: project }
+                      ])
+                    : [];
+            const found = new Map(pinnedProducts.map((product) => [product._id.toString(), product]));
+            const shown = pins.filter((pin) => found.has(pin.product.toString()));
+
+            // Combined rather than merged, so an id filter of the listing itself is kept
+            const rest = { $and: [match, { _id: { $nin: shown.map((pin) => pin.product) } }] };
+            const total = (await Product.countDocuments(rest)) + shown.length;
+            const slots = this.placePins(
+                shown.map((pin) => pin.position),
+                total
+            );
+
+            const start = (page - 1) * limit;
+            const end = Math.min(start + limit, total);
+            const pinsBefore = slots.filter((slot) => slot < start).length;
+            const pinsOnPage = slots.filter((slot) => slot >= start && slot < end).length;
+
+            const others =
+                end - start > pinsOnPage
+                    ? await Product.aggregate([
+                          { $match: rest },
+                          ...stages,
+                          { $addFields: { merchandisingTier: this.tierExpression(rule) } },
+                          { $sort: { merchandisingTier: -1, ...sort, _id: 1 } },
+                          { $skip: start - pinsBefore },
+                          { $limit: end - start - pinsOnPage },
+                          { $project: { ...project, merchandisingTier: 0 } }
+                      ])
+                    : [];
+
+            const products = [];
+            for (let index = start; index < end; index++) {
+                const pin = slots.indexOf(index);
+                products.push(pin >= 0 ? found.get(shown[pin].product.toString()) : others.shift());
+            }
+
+            // Same fields as the listing would have without the rule
+            return { products: applyVirtuals(Product.schema, products.filter(Boolean)), total };
+        } catch (error) {
+            logger.error("Arrange products error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Read synonyms, redirects and rules again on next use
+     */
+    static invalidate(): void {
+        this.data = null;
+    }
+
+    /**
+     * 0-based places of pins (at ascending positions) in a listing of total products: each at its
+     * position unless an earlier pin took it, and none past the end
+     */
+    private static placePins(positions: number[], total: number): number[] {
+        const slots: number[] = [];
+        positions.forEach((position, index) => {
+            slots.push(Math.max(position - 1, index > 0 ? slots[index - 1] + 1 : 0));
+        });
+        for (let index = slots.length - 1; index >= 0; index--) {
+            slots[index] = Math.min(slots[index], (index < slots.length - 1 ? slots[index + 1] : total) - 1);
+        }
+        return slots;
+    }
+
+    // Boosted products come first and buried ones last
+    private static tierExpression(rule: ActiveMerchandisingRule) {
+        return {
+            $cond: [{ $in: ["$_id", rule.boosted] }, 1, { $cond: [{ $in: ["$_id", rule.buried] }, -1, 0] }]
+        };
+    }
+
+    private static async load(): Promise<MerchandisingData> {
+        if (this.data && Date.now() - this.data.loadedAt < RULES_TTL) {
+            return this.data;
+        }
+
+        const [synonyms, redirects, rules] = await Promise.all([
+            SearchSynonym.find({ isActive: true }).select("normalizedTerms").lean(),
+            SearchRedirect.find({ isActive: true }).select("normalizedQuery url").lean(),
+            MerchandisingRule.find({ isActive: true })
+                .select("normalizedQuery category pinned boosted buried startsAt endsAt")
+                .lean<ActiveMerchandisingRule[]>()
+        ]);
+
+        this.data = {
+            synonyms: synonyms.map((synonym) => synonym.normalizedTerms),
+            redirects: new Map(redirects.map((redirect) => [redirect.normalizedQuery, redirect.url])),
+            rules,
+            loadedAt: Date.now()
+        };
+        return this.data;
+    }
+}
@@ -1,42 +1,25 @@
-interface OrderHistoryEntry {
-    id: string;
-    orderId: string;
-    oldStatus: string;
-    newStatus: string;
-    changedBy: string;
-    note?: string;
-    createdAt: string;
-}
-
-// In-memory storage for demo purposes
-// In real app, this would be a database table
-const orderHistory: OrderHistoryEntry[] = [];
+import { Order, IOrderTracking } from "../models/Order";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
 
+// Order history is persisted in Order.statusHistory, written by Order.updateStatus()
 export const orderHistoryService = {
-    // Add a new history entry
-    addEntry: (entry: Omit<OrderHistoryEntry, "id" | "createdAt">): OrderHistoryEntry => {
-        const newEntry: OrderHistoryEntry = {
-            ...entry,
-            id: `HIST_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            createdAt: new Date().toISOString()
-        };
-
-        orderHistory.push(newEntry);
-        return newEntry;
-    },
-
-    // Get history for a specific order
-    getOrderHistory: (orderId: string): OrderHistoryEntry[] => {
-        return orderHistory.filter((entry) => entry.orderId === orderId);
-    },
+    // Get history for a specific order, oldest first, with the acting user populated
+    getOrderHistory: async (orderId: string): Promise<IOrderTracking[]> => {
+        try {
+            const order = await Order.findById(orderId)
+                .select("orderNumber statusHistory")
+                .populate("statusHistory.updatedBy", "firstName lastName email role")
+                .lean();
 
-    // Get all history (for admin)
-    getAllHistory: (): OrderHistoryEntry[] => {
-        return [...orderHistory].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    },
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
 
-    // Clear history (for testing)
-    clearHistory: (): void => {
-        orderHistory.length = 0;
+            return order.statusHistory;
+        } catch (error) {
+            logger.error("Get order history error:", error);
+            throw error;
+        }
     }
 };
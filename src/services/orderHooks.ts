@@ -0,0 +1,72 @@
+import type { OrderStateMachine } from "./orderStateMachine";
+import { Product } from "../models/Product";
+import { Shipment } from "../models/Shipment";
+import { InventoryService } from "./inventoryService";
+import { CouponService } from "./couponService";
+import { PaymentService } from "./paymentService";
+import { ShipmentService } from "./shipmentService";
+import { eventService } from "./eventService";
+
+/**
+ * Order lifecycle hooks. Registered by the state machine itself, so they run whichever module
+ * changes an order's status (Order.updateStatus), not only when the services are loaded.
+ */
+export function registerOrderHooks(machine: OrderStateMachine): void {
+    // Cancelled orders give back their stock and coupon use
+    machine.on("cancelled", "after", async (order) => {
+        await InventoryService.releaseOrderStock(order);
+        if (order.discountCode) {
+            await CouponService.release(order.discountCode, order.user?.toString());
+        }
+        await eventService.emitOrderEvent({
+            orderId: order._id!.toString(),
+            action: "cancelled",
+            orderValue: order.total,
+            userId: order.user?.toString()
+        });
+    });
+
+    // Labels that were never picked up are voided when their order is cancelled
+    machine.on("cancelled", "after", async (order) => {
+        const shipments = await Shipment.find({ order: order._id, status: "label_created" });
+        for (const shipment of shipments) {
+            await ShipmentService.cancelShipment(shipment._id!.toString());
+        }
+    });
+
+    machine.on("shipped", "after", async (order) => {
+        await eventService.emitOrderEvent({
+            orderId: order._id!.toString(),
+            action: "shipped",
+            orderValue: order.total,
+            userId: order.user?.toString()
+        });
+    });
+
+    // Record when the order reached the customer
+    machine.on("delivered", "before", (order) => {
+        order.deliveredAt = new Date();
+    });
+
+    // Cash is collected by the courier, so the payment is complete once the order is delivered
+    machine.on("delivered", "before", async (order) => {
+        if (order.payment.method === "cash_on_delivery" && order.payment.status !== "completed") {
+            await PaymentService.capturePayment(order, { save: false });
+        }
+    });
+
+    machine.on("delivered", "after", async (order) => {
+        // Delivered units rank products in search
+        await Product.bulkWrite(
+            order.items.map((item) => ({
+                updateOne: { filter: { _id: item.product }, update: { $inc: { salesCount: item.quantity } } }
+            }))
+        );
+        await eventService.emitOrderEvent({
+            orderId: order._id!.toString(),
+            action: "delivered",
+            orderValue: order.total,
+            userId: order.user?.toString()
+        });
+    });
+}
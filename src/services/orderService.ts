@@ -0,0 +1,679 @@
+import mongoose from "mongoose";
+import { Order, IOrder, IOrderItem, IShippingAddress, IPaymentInfo } from "../models/Order";
+import { Product, IProduct } from "../models/Product";
+import { User } from "../models/User";
+import { CartService } from "./cartService";
+import { InventoryService, StockReservation } from "./inventoryService";
+import { eventService } from "./eventService";
+import { orderStateMachine } from "./orderStateMachine";
+import { PaymentService } from "./paymentService";
+import { CouponService, CouponEvaluation } from "./couponService";
+import { TaxService } from "./taxService";
+import { ShippingService } from "./shippingService";
+import { PaymentIntentOptions, PaymentIntentResult } from "./payments/paymentProvider";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+import { paginateQuery } from "../utils/pagination";
+import { escapeRegex } from "../utils/validation";
+
+interface CreateOrderData {
+    email?: string; // Required for guest checkout; signed-in customers default to their account email
+    shippingAddress: IShippingAddress;
+    billingAddress?: IShippingAddress;
+    paymentMethod: IPaymentInfo["method"];
+    shippingMethod?: string;
+    customerNotes?: string;
+}
+
+// Who is checking out: a signed-in user, or a guest with their session cart
+interface OrderCustomer {
+    userId?: string;
+    sessionId?: string;
+}
+
+interface RefundOrderData {
+    // Line items to refund; the whole remaining amount is refunded when omitted
+    items?: { itemId: string; quantity: number }[];
+    reason?: string;
+    restock?: boolean;
+}
+
+interface OrderFilters {
+    status?: string;
+    paymentStatus?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    search?: string;
+}
+
+interface OrderQuery {
+    page?: number;
+    limit?: number;
+    sort?: string;
+    order?: "asc" | "desc";
+}
+
+// Fields order lists can be sorted by, for customers and admins alike
+const ORDER_SORT_FIELDS = ["createdAt", "updatedAt", "total", "status", "orderNumber"];
+
+// A dateTo without a time, which includes the whole of that day
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Statuses in which the goods have left the warehouse
+const SHIPPED_STATUSES = ["shipped", "delivered", "returned"];
+
+export class OrderService {
+    /**
+     * Create an order from the caller's active cart (checkout) and open its payment
+     */
+    static async createOrder(
+        orderData: CreateOrderData,
+        userId: string,
+        paymentOptions: PaymentIntentOptions = {}
+    ): Promise<{ order: IOrder; payment: PaymentIntentResult }> {
+        return this.checkout({ userId }, orderData, paymentOptions);
+    }
+
+    /**
+     * Create an order from a guest session's cart; the guest is reached and looked up by email
+     */
+    static async createGuestOrder(
+        orderData: CreateOrderData & { email: string },
+        sessionId: string,
+        paymentOptions: PaymentIntentOptions = {}
+    ): Promise<{ order: IOrder; payment: PaymentIntentResult }> {
+        return this.checkout({ sessionId }, orderData, paymentOptions);
+    }
+
+    /**
+     * Checkout shared by signed-in customers and guests
+     */
+    private static async checkout(
+        customer: OrderCustomer,
+        orderData: CreateOrderData,
+        paymentOptions: PaymentIntentOptions
+    ): Promise<{ order: IOrder; payment: PaymentIntentResult }> {
+        const { userId, sessionId } = customer;
+
+        try {
+            const { cart, issues } = await CartService.validateCart(userId, sessionId);
+
+            if (cart.isEmpty) {
+                throw new AppError("Cart is empty", 400);
+            }
+
+            if (issues.length > 0) {
+                throw new AppError(
+                    `Cart has ${issues.length} issue(s) that must be resolved before checkout: ${issues
+                        .map((issue) => `${issue.productId} - ${issue.issue}`)
+                        .join(", ")}`,
+                    400
+                );
+            }
+
+            PaymentService.assertCurrencySupported(orderData.paymentMethod, cart.currency);
+
+            // Snapshot product details at the time of the order
+            const productIds = cart.items.map((item) => this.getProductId(item.product));
+            const products = await Product.find({ _id: { $in: productIds } });
+            const productMap = new Map<string, IProduct>(products.map((product) => [product._id!.toString(), product]));
+
+            const items: IOrderItem[] = cart.items.map((item) => {
+                const product = productMap.get(this.getProductId(item.product));
+                if (!product) {
+                    throw new AppError("Product no longer exists", 400);
+                }
+
+                const variant = product.findVariant(item.variantId?.toString());
+
+                return {
+                    product: product._id,
+                    name: product.name,
+                    sku: variant?.sku || product.sku,
+                    quantity: item.quantity,
+                    price: item.price,
+                    variantId: variant?._id,
+                    variant: variant?.options || item.variant,
+                    image: variant?.image || this.getMainImage(product)
+                } as IOrderItem;
+            });
+
+            // Re-check the coupon at checkout; it may have expired or run out since it was applied
+            let coupon: CouponEvaluation | undefined;
+            if (cart.couponCode) {
+                coupon = await CouponService.evaluateCart(cart.couponCode, cart, userId);
+            }
+            const discount = coupon?.discount || 0;
+
+            // Tax each line for the shipping destination; the breakdown is kept for invoices
+            const tax = await TaxService.calculate(
+                { country: orderData.shippingAddress.country, state: orderData.shippingAddress.state },
+                items.map((item) => {
+                    const product = productMap.get(item.product.toString())!;
+                    return {
+                        productId: item.product.toString(),
+                        category: product.category?.toString(),
+                        taxExempt: product.taxExempt,
+                        price: item.price,
+                        quantity: item.quantity
+                    };
+                }),
+                discount,
+                cart.currency
+            );
+            items.forEach((item, index) => {
+                item.taxRate = tax.lines[index].rate;
+                item.tax = tax.lines[index].tax;
+                item.taxInclusive = tax.lines[index].inclusive;
+            });
+
+            // Price the chosen shipping method (or the cheapest) for the destination
+            const shipping = await ShippingService.resolveMethod(
+                { country: orderData.shippingAddress.country, state: orderData.shippingAddress.state },
+                items.map((item) => {
+                    const product = productMap.get(item.product.toString())!;
+                    return {
+                        productId: item.product.toString(),
+                        price: item.price,
+                        quantity: item.quantity,
+                        weight: product.weight,
+                        dimensions: product.dimensions,
+                        requiresShipping: product.requiresShipping,
+                        shippingClass: product.shippingClass
+                    };
+                }),
+                orderData.shippingMethod,
+                {
+                    subtotal: items.reduce((sum, item) => sum + item.price * item.quantity, 0) - discount,
+                    freeShipping: coupon?.freeShipping,
+                    currency: cart.currency
+                }
+            );
+
+            // Signed-in customers are reached at their account email unless they give another
+            const email =
+                orderData.email || (userId ? (await User.findById(userId).select("email"))?.email : undefined);
+
+            const order = new Order({
+                user: userId,
+                email,
+                items,
+                currency: cart.currency,
+                discount,
+                discountCode: coupon?.coupon.code,
+                taxRate: tax.taxRate,
+                taxBreakdown: tax.breakdown,
+                shippingAddress: orderData.shippingAddress,
+                billingAddress: orderData.billingAddress || orderData.shippingAddress,
+                payment: {
+                    method: orderData.paymentMethod,
+                    status: "pending"
+                },
+                shippingMethod: shipping?.code ?? orderData.shippingMethod,
+                shippingCost: shipping?.cost || 0,
+                estimatedDelivery: shipping?.estimatedDays
+                    ? new Date(Date.now() + shipping.estimatedDays.max * 24 * 60 * 60 * 1000)
+                    : undefined,
+                customerNotes: orderData.customerNotes
+            });
+
+            // Take the units out of stock before the order exists; roll back if it cannot be saved
+            const reservations = await InventoryService.reserveStock(
+                items.map((item) => ({
+                    productId: item.product.toString(),
+                    variantId: item.variantId?.toString(),
+                    quantity: item.quantity
+                }))
+            );
+            order.items.forEach((item, index) => {
+                item.reservedQuantity = reservations[index].quantity;
+            });
+
+            let couponRedeemed = false;
+            try {
+                if (coupon) {
+                    await CouponService.redeem(coupon.coupon, userId);
+                    couponRedeemed = true;
+                }
+
+                order.calculateTotals();
+                await order.save();
+            } catch (error) {
+                await InventoryService.releaseStock(reservations);
+                if (couponRedeemed) {
+                    await CouponService.release(coupon!.coupon.code, userId);
+                }
+                throw error;
+            }
+
+            // The provider decides the initial payment status; a failed payment cancels the order
+            let payment: PaymentIntentResult;
+            try {
+                payment = await PaymentService.createIntent(order, paymentOptions);
+            } catch (error) {
+                order.payment.status = "failed";
+                await order.updateStatus("cancelled", "Payment could not be initiated");
+                throw error;
+            }
+
+            // Deactivate the cart so the next visit starts with a fresh one
+            cart.isActive = false;
+            await cart.save();
+
+            await eventService.emitOrderEvent({
+                orderId: order._id!.toString(),
+                action: "created",
+                orderValue: order.total,
+                userId
+            });
+
+            logger.info(
+                `Order created: ${order.orderNumber} by ${userId ? "user: " + userId : "guest: " + order.email}`
+            );
+            return { order, payment };
+        } catch (error) {
+            logger.error("Create order error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the caller's orders with filters and pagination
+     */
+    static async getUserOrders(
+        userId: string,
+        filters: OrderFilters = {},
+        query: OrderQuery = {}
+    ): Promise<{
+        orders: IOrder[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            pages: number;
+        };
+    }> {
+        try {
+            const { page = 1, limit = 10, order = "desc" } = query;
+            const sort = this.getSortField(query.sort);
+
+            const filterQuery = this.buildOrderFilterQuery(filters);
+            filterQuery.user = userId;
+
+            // Order lists change on every checkout, so they are not cached
+            const result = await paginateQuery(Order.find(filterQuery), {
+                page,
+                limit,
+                sort,
+                order,
+                maxLimit: 50,
+                cacheTTL: 0
+            });
+
+            return {
+                orders: result.data,
+                pagination: {
+                    page: result.pagination.page,
+                    limit: result.pagination.limit,
+                    total: result.pagination.total,
+                    pages: result.pagination.pages
+                }
+            };
+        } catch (error) {
+            logger.error("Get user orders error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Give an account the orders placed as a guest with its email
+     */
+    static async attachGuestOrders(userId: string, email: string): Promise<number> {
+        try {
+            const result = await Order.updateMany(
+                { email: email.toLowerCase(), user: null },
+                { $set: { user: userId } }
+            );
+
+            if (result.modifiedCount > 0) {
+                logger.info(`Attached ${result.modifiedCount} guest orders to user: ${userId}`);
+            }
+            return result.modifiedCount;
+        } catch (error) {
+            logger.error("Attach guest orders error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a single order belonging to the caller
+     */
+    static async getUserOrderById(orderId: string, userId: string): Promise<IOrder> {
+        try {
+            const order = await Order.findOne({ _id: orderId, user: userId }).populate(
+                "items.product",
+                "name slug images"
+            );
+
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            return order;
+        } catch (error) {
+            logger.error("Get user order error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Cancel an order belonging to the caller and return its stock
+     */
+    static async cancelUserOrder(orderId: string, userId: string, reason?: string): Promise<IOrder> {
+        try {
+            const order = await Order.findOne({ _id: orderId, user: userId });
+
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            if (!order.canCancel) {
+                throw new AppError(`Order cannot be cancelled once it is ${order.status}`, 400);
+            }
+
+            // Stock is released by the "cancelled" lifecycle hook
+            await order.updateStatus("cancelled", reason || "Cancelled by customer", userId);
+
+            logger.info(`Order cancelled: ${order.orderNumber} by user: ${userId}`);
+            return order;
+        } catch (error) {
+            logger.error("Cancel order error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get all orders for the admin dashboard with search, filters and sorting
+     */
+    static async getAllOrders(
+        filters: OrderFilters = {},
+        query: OrderQuery = {}
+    ): Promise<{
+        orders: IOrder[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            pages: number;
+        };
+    }> {
+        try {
+            const { page = 1, limit = 10, order = "desc" } = query;
+            const sort = this.getSortField(query.sort);
+
+            const filterQuery = this.buildOrderFilterQuery(filters);
+
+            if (filters.search) {
+                const pattern = new RegExp(escapeRegex(filters.search.trim()), "i");
+                const users = await User.find({
+                    $or: [{ email: pattern }, { firstName: pattern }, { lastName: pattern }]
+                })
+                    .select("_id")
+                    .limit(100)
+                    .lean();
+
+                filterQuery.$or = [
+                    { orderNumber: pattern },
+                    { email: pattern },
+                    { "shippingAddress.firstName": pattern },
+                    { "shippingAddress.lastName": pattern },
+                    { "shippingAddress.phone": pattern },
+                    { user: { $in: users.map((user) => user._id) } }
+                ];
+            }
+
+            const result = await paginateQuery(Order.find(filterQuery).populate("user", "firstName lastName email"), {
+                page,
+                limit,
+                sort,
+                order,
+                maxLimit: 100,
+                cacheTTL: 0
+            });
+
+            return {
+                orders: result.data,
+                pagination: {
+                    page: result.pagination.page,
+                    limit: result.pagination.limit,
+                    total: result.pagination.total,
+                    pages: result.pagination.pages
+                }
+            };
+        } catch (error) {
+            logger.error("Get all orders error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Update order status (admin) and record it in the status history
+     */
+    static async updateOrderStatus(
+        orderId: string,
+        status: string,
+        note: string | undefined,
+        adminId: string
+    ): Promise<IOrder> {
+        try {
+            const order = await Order.findById(orderId);
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            const previousStatus = order.status;
+            const nextStatus = orderStateMachine.normalize(status);
+            await order.updateStatus(nextStatus, note || `Order status updated to: ${nextStatus}`, adminId);
+
+            await eventService.emitOrderEvent({
+                orderId: order._id!.toString(),
+                action: "updated",
+                orderValue: order.total,
+                userId: adminId,
+                metadata: { previousStatus, status: nextStatus }
+            });
+
+            logger.info(`Order status updated: ${order.orderNumber} ${previousStatus} -> ${nextStatus} by: ${adminId}`);
+            return order;
+        } catch (error) {
+            logger.error("Update order status error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Refund an order in full or per line item (admin), optionally putting the units back in stock
+     */
+    static async refundOrder(orderId: string, data: RefundOrderData, adminId: string): Promise<IOrder> {
+        try {
+            const order = await Order.findById(orderId);
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            const refundItems = this.resolveRefundItems(order, data.items);
+            const refundable = PaymentService.getRefundableAmount(order);
+            const amount = data.items?.length
+                ? Math.min(
+                      refundable,
+                      refundItems.reduce((sum, refundItem) => sum + refundItem.amount, 0)
+                  )
+                : refundable;
+
+            const result = await PaymentService.refundPayment(order, amount, data.reason, { save: false });
+
+            const shipped = SHIPPED_STATUSES.includes(order.status);
+            const restock: StockReservation[] = [];
+
+            refundItems.forEach(({ item, quantity }) => {
+                item.refundedQuantity = (item.refundedQuantity || 0) + quantity;
+
+                if (data.restock) {
+                    const reserved = Math.min(quantity, item.reservedQuantity || 0);
+                    // Returned goods go back in full; unshipped units only as far as they were taken from stock
+                    restock.push({
+                        productId: item.product.toString(),
+                        variantId: item.variantId?.toString(),
+                        quantity: shipped ? quantity : reserved
+                    });
+                    // Keep a later cancellation from releasing the same units again
+                    item.reservedQuantity = (item.reservedQuantity || 0) - reserved;
+                }
+            });
+
+            order.refunds.push({
+                amount: result.amount,
+                items: refundItems.map(({ item, quantity, amount: itemAmount }) => ({
+                    item: item._id!,
+                    quantity,
+                    amount: itemAmount
+                })),
+                reason: data.reason,
+                restocked: !!data.restock,
+                refundId: result.refundId,
+                createdBy: new mongoose.Types.ObjectId(adminId),
+                createdAt: new Date()
+            });
+
+            const refunded = Money.of(result.amount, order.currency);
+            const note = `Refunded ${refunded}` + (data.reason ? `: ${data.reason}` : "");
+
+            // A fully refunded order is returned once shipped, otherwise it is cancelled
+            if (order.payment.status === "refunded" && shipped && order.status !== "returned") {
+                await order.updateStatus("returned", note, adminId);
+            } else if (
+                order.payment.status === "refunded" &&
+                orderStateMachine.canTransition(order.status, "cancelled")
+            ) {
+                await order.updateStatus("cancelled", note, adminId);
+            } else {
+                await order.save();
+            }
+
+            await InventoryService.releaseStock(restock.filter((reservation) => reservation.quantity > 0));
+
+            await eventService.emitOrderEvent({
+                orderId: order._id!.toString(),
+                action: "updated",
+                orderValue: order.total,
+                userId: adminId,
+                metadata: { refundAmount: result.amount, restocked: !!data.restock }
+            });
+
+            logger.info(`Order refunded: ${order.orderNumber} ${refunded} by: ${adminId}`);
+            return order;
+        } catch (error) {
+            logger.error("Refund order error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Resolve the line items and quantities covered by a refund, defaulting to everything not yet refunded
+     */
+    private static resolveRefundItems(
+        order: IOrder,
+        requested?: RefundOrderData["items"]
+    ): { item: IOrderItem; quantity: number; amount: number }[] {
+        const remaining = (item: IOrderItem) => item.quantity - (item.refundedQuantity || 0);
+        const money = (amount: number) => Money.of(amount, order.currency);
+        // Line refunds include the item's share of tax, less its share of the order discount
+        const discountRate = order.subtotal > 0 ? (order.discount || 0) / order.subtotal : 0;
+        const lineTax = (item: IOrderItem, quantity: number): Money => {
+            if (item.taxRate === undefined || item.taxRate === null) {
+                return money(item.price).multiply(quantity * (order.taxRate || 0));
+            }
+            // VAT-inclusive tax is already part of the price
+            return item.taxInclusive ? money(0) : money(item.tax || 0).multiply(quantity / item.quantity);
+        };
+        const lineAmount = (item: IOrderItem, quantity: number) =>
+            money(item.price)
+                .multiply(quantity * (1 - discountRate))
+                .add(lineTax(item, quantity)).amount;
+
+        if (!requested?.length) {
+            return order.items
+                .filter((item) => remaining(item) > 0)
+                .map((item) => ({ item, quantity: remaining(item), amount: lineAmount(item, remaining(item)) }));
+        }
+
+        return requested.map(({ itemId, quantity }) => {
+            const item = order.items.find((orderItem) => orderItem._id?.toString() === itemId);
+            if (!item) {
+                throw new AppError(`Order item not found: ${itemId}`, 400);
+            }
+
+            if (quantity > remaining(item)) {
+                throw new AppError(`Only ${remaining(item)} unit(s) of ${item.name} can still be refunded`, 400);
+            }
+
+            return { item, quantity, amount: lineAmount(item, quantity) };
+        });
+    }
+
+    /**
+     * Helper method to build order filter query
+     */
+    private static buildOrderFilterQuery(filters: OrderFilters): any {
+        const filterQuery: any = {};
+
+        if (filters.status) {
+            filterQuery.status = filters.status;
+        }
+
+        if (filters.paymentStatus) {
+            filterQuery["payment.status"] = filters.paymentStatus;
+        }
+
+        if (filters.dateFrom || filters.dateTo) {
+            filterQuery.createdAt = {};
+            if (filters.dateFrom) {
+                filterQuery.createdAt.$gte = new Date(filters.dateFrom);
+            }
+            if (filters.dateTo) {
+                const dateTo = new Date(filters.dateTo);
+                if (DATE_ONLY.test(filters.dateTo)) {
+                    dateTo.setUTCDate(dateTo.getUTCDate() + 1);
+                    filterQuery.createdAt.$lt = dateTo;
+                } else {
+                    filterQuery.createdAt.$lte = dateTo;
+                }
+            }
+        }
+
+        return filterQuery;
+    }
+
+    /**
+     * The requested sort field when lists may be sorted by it, else the creation date
+     */
+    private static getSortField(sort?: string): string {
+        return sort && ORDER_SORT_FIELDS.includes(sort) ? sort : "createdAt";
+    }
+
+    /**
+     * Resolve product ID from a cart item that may or may not be populated
+     */
+    private static getProductId(product: any): string {
+        return (product?._id || product).toString();
+    }
+
+    /**
+     * Pick the main product image, falling back to the first one
+     */
+    private static getMainImage(product: IProduct): string | undefined {
+        const mainImage = product.images?.find((image) => image.isMain) || product.images?.[0];
+        return mainImage?.url;
+    }
+}
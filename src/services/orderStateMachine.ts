@@ -0,0 +1,123 @@
+import type { IOrder } from "../models/Order";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+import { registerOrderHooks } from "./orderHooks";
+
+export type OrderStatusValue = IOrder["status"];
+
+/**
+ * "before" hooks run after the status has been applied but before the order is saved,
+ * so field changes they make are persisted in the same write.
+ * "after" hooks run once the order has been saved and are meant for side effects.
+ */
+export type OrderHookPhase = "before" | "after";
+
+export type OrderTransitionHook = (order: IOrder, from: OrderStatusValue) => void | Promise<void>;
+
+export const ORDER_STATUSES: OrderStatusValue[] = [
+    "pending",
+    "confirmed",
+    "processing",
+    "shipped",
+    "delivered",
+    "cancelled",
+    "returned"
+];
+
+/**
+ * Allowed order lifecycle transitions:
+ * pending -> confirmed -> processing -> shipped -> delivered,
+ * with cancellation up to processing and returns once shipped or delivered
+ */
+const ORDER_TRANSITIONS: Record<OrderStatusValue, OrderStatusValue[]> = {
+    pending: ["confirmed", "cancelled"],
+    confirmed: ["processing", "cancelled"],
+    processing: ["shipped", "cancelled"],
+    shipped: ["delivered", "returned"],
+    delivered: ["returned"],
+    cancelled: [],
+    returned: []
+};
+
+export class OrderStateMachine {
+    private hooks: Record<OrderHookPhase, Map<OrderStatusValue, OrderTransitionHook[]>> = {
+        before: new Map(),
+        after: new Map()
+    };
+
+    /**
+     * Normalise a status string (e.g. "SHIPPED") to its schema value
+     */
+    normalize(status: string): OrderStatusValue {
+        const normalized = (status || "").toString().trim().toLowerCase() as OrderStatusValue;
+
+        if (!ORDER_STATUSES.includes(normalized)) {
+            throw new AppError(
+                `Invalid order status: ${status}. Valid statuses are: ${ORDER_STATUSES.join(", ")}`,
+                400
+            );
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Statuses reachable from the given status
+     */
+    getAllowedTransitions(from: OrderStatusValue): OrderStatusValue[] {
+        return ORDER_TRANSITIONS[from] || [];
+    }
+
+    canTransition(from: OrderStatusValue, to: OrderStatusValue): boolean {
+        return this.getAllowedTransitions(from).includes(to);
+    }
+
+    /**
+     * Throw if the transition is not part of the lifecycle
+     */
+    assertTransition(from: OrderStatusValue, to: OrderStatusValue): void {
+        if (from === to) {
+            throw new AppError(`Order is already ${to}`, 400);
+        }
+
+        if (!this.canTransition(from, to)) {
+            const allowed = this.getAllowedTransitions(from);
+            throw new AppError(
+                `Cannot change order status from ${from} to ${to}. ` +
+                    (allowed.length > 0 ? `Allowed: ${allowed.join(", ")}` : `${from} is a final status`),
+                400
+            );
+        }
+    }
+
+    /**
+     * Register a hook that runs when an order enters the given status
+     */
+    on(status: OrderStatusValue, phase: OrderHookPhase, hook: OrderTransitionHook): void {
+        const hooks = this.hooks[phase].get(status) || [];
+        hooks.push(hook);
+        this.hooks[phase].set(status, hooks);
+    }
+
+    async runHooks(phase: OrderHookPhase, order: IOrder, from: OrderStatusValue): Promise<void> {
+        const hooks = this.hooks[phase].get(order.status) || [];
+
+        for (const hook of hooks) {
+            if (phase === "before") {
+                await hook(order, from);
+                continue;
+            }
+
+            // Side effects must not undo a transition that has already been saved
+            try {
+                await hook(order, from);
+            } catch (error) {
+                logger.error(`Order ${order.orderNumber} ${from} -> ${order.status} hook error:`, error);
+            }
+        }
+    }
+}
+
+export const orderStateMachine = new OrderStateMachine();
+
+registerOrderHooks(orderStateMachine);
@@ -0,0 +1,191 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Order, IOrder, IOrderTracking } from "../models/Order";
+import { Shipment, IShipmentEvent, ShipmentStatus } from "../models/Shipment";
+import { User } from "../models/User";
+import { AuthService } from "./authService";
+import { config } from "../config/config";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+
+const TOKEN_AUDIENCE = "order-tracking";
+
+/**
+ * What anyone holding an order's number and email (or its tracking link) may see
+ */
+export interface OrderTracking {
+    orderNumber: string;
+    status: IOrder["status"];
+    statusHistory: Array<Pick<IOrderTracking, "status" | "updatedAt" | "note">>;
+    items: Array<{
+        name: string;
+        sku: string;
+        quantity: number;
+        price: number;
+        variant?: { name: string; value: string }[];
+        image?: string;
+    }>;
+    total: number;
+    currency: string;
+    estimatedDelivery?: Date;
+    deliveredAt?: Date;
+    shipments: Array<{
+        carrier: string;
+        trackingNumber: string;
+        status: ShipmentStatus;
+        estimatedDelivery?: Date;
+        deliveredAt?: Date;
+        events: Array<Pick<IShipmentEvent, "status" | "description" | "location" | "occurredAt">>;
+    }>;
+    createdAt: Date;
+    // Guests can turn the order into an account while no account uses its email
+    canCreateAccount: boolean;
+}
+
+interface GuestAccountData {
+    password: string;
+    firstName?: string;
+    lastName?: string;
+    phone?: string;
+}
+
+export class OrderTrackingService {
+    /**
+     * A signed link token that opens the order's tracking page without signing in
+     */
+    static createToken(order: IOrder): string {
+        return jwt.sign({ oid: order._id!.toString() }, this.getSecret(), {
+            audience: TOKEN_AUDIENCE,
+            expiresIn: config.orderTracking.linkTtlDays * 24 * 60 * 60
+        });
+    }
+
+    /**
+     * Track an order by its number and the email it was placed with. Both must match, and a wrong
+     * pair gets the same answer as an unknown order.
+     */
+    static async lookup(orderNumber: string, email: string): Promise<OrderTracking> {
+        try {
+            const order = await Order.findOne({
+                orderNumber: orderNumber.trim().toUpperCase(),
+                email: email.trim().toLowerCase()
+            });
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            return await this.getTracking(order);
+        } catch (error) {
+            logger.error("Order lookup error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Track the order a signed link was issued for
+     */
+    static async lookupByToken(token: string): Promise<OrderTracking> {
+        try {
+            return await this.getTracking(await this.findByToken(token));
+        } catch (error) {
+            logger.error("Order lookup by link error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create an account for the guest who placed an order, using the order's email and
+     * shipping name. Registering attaches the guest's orders to the new account.
+     */
+    static async createAccount(token: string, data: GuestAccountData) {
+        try {
+            const order = await this.findByToken(token);
+            if (order.user) {
+                throw new AppError("This order already belongs to an account", 400);
+            }
+            if (!order.email) {
+                throw new AppError("This order has no email to create an account with", 400);
+            }
+
+            const result = await AuthService.register({
+                firstName: data.firstName || order.shippingAddress.firstName,
+                lastName: data.lastName || order.shippingAddress.lastName,
+                email: order.email,
+                password: data.password,
+                phone: data.phone || order.shippingAddress.phone
+            });
+
+            // The link proves this order is theirs, even before the email is verified
+            await Order.updateOne({ _id: order._id, user: null }, { $set: { user: result.user._id } });
+
+            logger.info(`Guest account created from order: ${order.orderNumber}`);
+            return result;
+        } catch (error) {
+            logger.error("Create account from order error:", error);
+            throw error;
+        }
+    }
+
+    private static async findByToken(token: string): Promise<IOrder> {
+        let orderId: string | undefined;
+        try {
+            const payload = jwt.verify(token, this.getSecret(), { audience: TOKEN_AUDIENCE }) as jwt.JwtPayload;
+            orderId = typeof payload.oid === "string" ? payload.oid : undefined;
+        } catch {
+            orderId = undefined;
+        }
+
+        const order = orderId ? await Order.findById(orderId) : null;
+        if (!order) {
+            throw new AppError("This tracking link is invalid or has expired", 404);
+        }
+        return order;
+    }
+
+    private static async getTracking(order: IOrder): Promise<OrderTracking> {
+        const [shipments, hasAccount] = await Promise.all([
+            Shipment.find({ order: order._id }).sort({ createdAt: 1 }),
+            order.user || !order.email ? Promise.resolve(true) : User.exists({ email: order.email }).then(Boolean)
+        ]);
+
+        return {
+            orderNumber: order.orderNumber,
+            status: order.status,
+            statusHistory: order.statusHistory.map(({ status, updatedAt, note }) => ({ status, updatedAt, note })),
+            items: order.items.map(({ name, sku, quantity, price, variant, image }) => ({
+                name,
+                sku,
+                quantity,
+                price,
+                variant,
+                image
+            })),
+            total: order.total,
+            currency: order.currency,
+            estimatedDelivery: order.estimatedDelivery,
+            deliveredAt: order.deliveredAt,
+            shipments: shipments.map((shipment) => ({
+                carrier: shipment.carrier,
+                trackingNumber: shipment.trackingNumber,
+                status: shipment.status,
+                estimatedDelivery: shipment.estimatedDelivery,
+                deliveredAt: shipment.deliveredAt,
+                events: shipment.events.map(({ status, description, location, occurredAt }) => ({
+                    status,
+                    description,
+                    location,
+                    occurredAt
+                }))
+            })),
+            createdAt: order.createdAt,
+            canCreateAccount: !hasAccount
+        };
+    }
+
+    /**
+     * Separate from the user JWT and guest session keys, so a tracking token opens nothing else
+     */
+    private static getSecret(): string {
+        return crypto.createHmac("sha256", config.jwt.secret).update(TOKEN_AUDIENCE).digest("hex");
+    }
+}
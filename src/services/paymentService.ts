@@ -0,0 +1,314 @@
+import { Order, IOrder, IPaymentInfo } from "../models/Order";
+import { PaymentEvent } from "../models/PaymentEvent";
+import { config } from "../config/config";
+import {
+    PaymentProvider,
+    PaymentIntentOptions,
+    PaymentIntentResult,
+    PaymentRefundResult,
+    PaymentCallbackPayload,
+    PaymentCallbackResult
+} from "./payments/paymentProvider";
+import { StripeProvider } from "./payments/stripeProvider";
+import { VnpayProvider } from "./payments/vnpayProvider";
+import { CashOnDeliveryProvider, BankTransferProvider } from "./payments/offlineProviders";
+import { FakePaymentProvider } from "./payments/fakeProvider";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+
+type PaymentMethod = IPaymentInfo["method"];
+
+export interface PaymentCallbackOutcome {
+    // True when the event had already been processed and nothing was changed
+    duplicate: boolean;
+    order: IOrder;
+    callback: PaymentCallbackResult;
+}
+
+export const fakePaymentProvider = new FakePaymentProvider();
+
+const providers = new Map<PaymentMethod, PaymentProvider>([
+    ["credit_card", new StripeProvider()],
+    ["vnpay", new VnpayProvider()],
+    ["cash_on_delivery", new CashOnDeliveryProvider()],
+    ["bank_transfer", new BankTransferProvider()]
+]);
+
+// Methods that go through an online gateway and are swapped for the fake provider in tests
+const ONLINE_METHODS: PaymentMethod[] = ["credit_card", "vnpay"];
+
+// Methods whose gateway only charges in some currencies (VNPay settles in dong only)
+const METHOD_CURRENCIES: Partial<Record<PaymentMethod, string[]>> = {
+    vnpay: ["VND"]
+};
+
+export class PaymentService {
+    /**
+     * Resolve the provider that handles a payment method
+     */
+    static getProvider(method: PaymentMethod): PaymentProvider {
+        if (config.payment.useFakeProvider && ONLINE_METHODS.includes(method)) {
+            return fakePaymentProvider;
+        }
+
+        const provider = providers.get(method);
+        if (!provider) {
+            throw new AppError(`Payment method ${method} is not supported`, 400);
+        }
+
+        return provider;
+    }
+
+    /**
+     * Resolve a provider by the gateway name stored on the order (payment.paymentGateway)
+     */
+    static getProviderByName(name: string): PaymentProvider | undefined {
+        if (name === fakePaymentProvider.name) {
+            return fakePaymentProvider;
+        }
+        return Array.from(providers.values()).find((provider) => provider.name === name);
+    }
+
+    /**
+     * Replace the adapter used for a payment method
+     */
+    static registerProvider(method: PaymentMethod, provider: PaymentProvider): void {
+        providers.set(method, provider);
+    }
+
+    /**
+     * Reject a payment method that cannot charge in the given currency
+     */
+    static assertCurrencySupported(method: PaymentMethod, currency: string): void {
+        const currencies = METHOD_CURRENCIES[method];
+        if (currencies && !currencies.includes(currency.toUpperCase())) {
+            throw new AppError(
+                `Payment method ${method} only accepts ${currencies.join(", ")}, not ${currency.toUpperCase()}`,
+                400
+            );
+        }
+    }
+
+    /**
+     * Open a payment with the order's provider and record the resulting payment status
+     */
+    static async createIntent(order: IOrder, options: PaymentIntentOptions = {}): Promise<PaymentIntentResult> {
+        this.assertCurrencySupported(order.payment.method, order.currency);
+
+        const provider = this.getProvider(order.payment.method);
+        const result = await provider.createIntent(order, options);
+
+        order.payment.status = result.status;
+        order.payment.paymentGateway = provider.name;
+        if (result.transactionId) {
+            order.payment.transactionId = result.transactionId;
+        }
+        await order.save();
+
+        logger.info(`Payment ${result.status} for order ${order.orderNumber} via ${provider.name}`);
+        return result;
+    }
+
+    /**
+     * Capture an authorised or offline payment and mark it as paid
+     */
+    static async capturePayment(order: IOrder, options: { save?: boolean } = {}): Promise<IOrder> {
+        if (order.payment.status === "completed") {
+            throw new AppError(`Payment for order ${order.orderNumber} is already completed`, 400);
+        }
+
+        if (order.payment.status === "failed" || order.payment.status === "refunded") {
+            throw new AppError(`Cannot capture a ${order.payment.status} payment`, 400);
+        }
+
+        const result = await this.getOrderProvider(order).capture(order);
+
+        order.payment.status = result.status;
+        if (result.transactionId) {
+            order.payment.transactionId = result.transactionId;
+        }
+        if (result.status === "completed") {
+            order.payment.paidAt = result.paidAt || new Date();
+        }
+
+        if (options.save !== false) {
+            await order.save();
+        }
+
+        logger.info(`Payment captured for order ${order.orderNumber}: ${result.status}`);
+        return order;
+    }
+
+    /**
+     * Refund part or all of a completed payment through the provider that took it
+     */
+    static async refundPayment(
+        order: IOrder,
+        amount: number,
+        reason?: string,
+        options: { save?: boolean } = {}
+    ): Promise<PaymentRefundResult> {
+        if (order.payment.status !== "completed") {
+            throw new AppError(`Cannot refund a payment that is ${order.payment.status}`, 400);
+        }
+
+        const refundable = this.getRefundableAmount(order);
+        if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+            throw new AppError(`Refund amount must be a whole number of minor units between 1 and ${refundable}`, 400);
+        }
+
+        const result = await this.getOrderProvider(order).refund(order, amount, reason);
+        if (result.status === "failed") {
+            throw new AppError(`Refund for order ${order.orderNumber} was declined by the payment provider`, 502);
+        }
+
+        order.payment.refundAmount = (order.payment.refundAmount || 0) + result.amount;
+        order.payment.refundedAt = new Date();
+        // Partial refunds keep the payment completed until everything has been returned
+        order.payment.status = this.getRefundableAmount(order) <= 0 ? "refunded" : "completed";
+
+        if (options.save !== false) {
+            await order.save();
+        }
+
+        logger.info(`Refunded ${Money.of(result.amount, order.currency)} for order ${order.orderNumber}`);
+        return result;
+    }
+
+    /**
+     * Amount of the payment that has not been refunded yet, in minor units
+     */
+    static getRefundableAmount(order: IOrder): number {
+        return Math.max(0, order.total - (order.payment.refundAmount || 0));
+    }
+
+    /**
+     * Verify and apply an inbound provider callback (webhook / IPN) exactly once per event
+     */
+    static async handleCallback(
+        providerName: string,
+        payload: PaymentCallbackPayload
+    ): Promise<PaymentCallbackOutcome> {
+        const provider = this.getProviderByName(providerName);
+        if (!provider) {
+            throw new AppError(`Unknown payment provider: ${providerName}`, 404);
+        }
+
+        const callback = await provider.verifyCallback(payload);
+        if (!callback.valid || !callback.eventId) {
+            throw new AppError(`Invalid payment callback: ${callback.reason || "missing event id"}`, 400);
+        }
+
+        // Only orders opened with this provider can be updated by its callbacks
+        const lookup = [
+            ...(callback.orderNumber ? [{ orderNumber: callback.orderNumber }] : []),
+            ...(callback.transactionId ? [{ "payment.transactionId": callback.transactionId }] : [])
+        ];
+        const order =
+            lookup.length > 0 ? await Order.findOne({ "payment.paymentGateway": provider.name, $or: lookup }) : null;
+
+        if (!order) {
+            throw new AppError("Order not found", 404);
+        }
+
+        if (callback.status === "completed" && callback.amount !== undefined && callback.amount !== order.total) {
+            throw new AppError(`Payment amount ${callback.amount} does not match order total ${order.total}`, 422);
+        }
+
+        // Claim the event first so concurrent or retried deliveries are applied once
+        try {
+            await PaymentEvent.create({
+                provider: provider.name,
+                eventId: callback.eventId,
+                order: order._id,
+                orderNumber: order.orderNumber,
+                status: callback.status,
+                transactionId: callback.transactionId,
+                amount: callback.amount
+            });
+        } catch (error: any) {
+            if (error.code === 11000) {
+                logger.info(`Duplicate ${provider.name} payment event ignored: ${callback.eventId}`);
+                return { duplicate: true, order, callback };
+            }
+            throw error;
+        }
+
+        try {
+            await this.applyCallback(order, callback);
+        } catch (error) {
+            // Release the claim so the provider's retry can be processed
+            await PaymentEvent.deleteOne({ provider: provider.name, eventId: callback.eventId });
+            throw error;
+        }
+
+        logger.info(`Payment event ${callback.eventId} applied to order ${order.orderNumber}: ${callback.status}`);
+        return { duplicate: false, order, callback };
+    }
+
+    /**
+     * Move the order's payment (and a pending order) to the state reported by the provider
+     */
+    private static async applyCallback(order: IOrder, callback: PaymentCallbackResult): Promise<void> {
+        const payment = order.payment;
+
+        switch (callback.status) {
+            case "completed":
+                if (payment.status === "completed" || payment.status === "refunded") {
+                    return;
+                }
+                payment.status = "completed";
+                payment.paidAt = new Date();
+                if (callback.transactionId) {
+                    payment.transactionId = callback.transactionId;
+                }
+                if (order.status === "pending") {
+                    await order.updateStatus("confirmed", "Payment received");
+                    return;
+                }
+                break;
+
+            case "failed":
+                if (payment.status === "completed" || payment.status === "refunded") {
+                    return;
+                }
+                payment.status = "failed";
+                // Stock held by an unpaid order goes back on sale
+                if (order.status === "pending") {
+                    await order.updateStatus("cancelled", "Payment failed");
+                    return;
+                }
+                break;
+
+            case "processing":
+                if (payment.status !== "pending") {
+                    return;
+                }
+                payment.status = "processing";
+                break;
+
+            case "refunded":
+                payment.refundAmount = Math.max(payment.refundAmount || 0, callback.amount || 0);
+                payment.refundedAt = new Date();
+                if (payment.refundAmount >= order.total) {
+                    payment.status = "refunded";
+                }
+                break;
+
+            default:
+                // Events that do not affect the payment
+                return;
+        }
+
+        await order.save();
+    }
+
+    /**
+     * Provider that opened the payment, falling back to the one for the payment method
+     */
+    private static getOrderProvider(order: IOrder): PaymentProvider {
+        const gateway = order.payment.paymentGateway;
+        return (gateway && this.getProviderByName(gateway)) || this.getProvider(order.payment.method);
+    }
+}
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import type { IOrder } from "../../models/Order";
+import { AppError } from "../../utils/AppError";
+import {
+    PaymentProvider,
+    PaymentIntentResult,
+    PaymentCaptureResult,
+    PaymentRefundResult,
+    PaymentCallbackPayload,
+    PaymentCallbackResult,
+    getHeader,
+    safeCompare
+} from "./paymentProvider";
+
+type FakeOperation = "createIntent" | "capture" | "refund";
+
+const FAKE_WEBHOOK_SECRET = "fake_payment_webhook_secret";
+
+/**
+ * In-memory gateway for tests and local development; never talks to the network.
+ * Callbacks are JSON bodies signed with an HMAC in the x-fake-signature header.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = "fake";
+
+    // Operations that should fail on their next call
+    readonly failures = new Set<FakeOperation>();
+    readonly refunds: PaymentRefundResult[] = [];
+
+    async createIntent(order: IOrder): Promise<PaymentIntentResult> {
+        this.throwIfFailing("createIntent");
+
+        return {
+            status: "processing",
+            transactionId: `fake_pi_${order.orderNumber}`,
+            clientSecret: `fake_secret_${crypto.randomBytes(8).toString("hex")}`
+        };
+    }
+
+    async capture(order: IOrder): Promise<PaymentCaptureResult> {
+        this.throwIfFailing("capture");
+
+        return {
+            status: "completed",
+            transactionId: order.payment.transactionId,
+            paidAt: new Date()
+        };
+    }
+
+    async refund(order: IOrder, amount: number): Promise<PaymentRefundResult> {
+        this.throwIfFailing("refund");
+
+        const refund: PaymentRefundResult = {
+            status: "refunded",
+            refundId: `fake_re_${crypto.randomBytes(6).toString("hex")}`,
+            amount
+        };
+        this.refunds.push(refund);
+        return refund;
+    }
+
+    async verifyCallback(payload: PaymentCallbackPayload): Promise<PaymentCallbackResult> {
+        const signature = getHeader(payload.headers, "x-fake-signature");
+        const rawBody = payload.rawBody !== undefined ? payload.rawBody.toString() : JSON.stringify(payload.body || {});
+
+        if (!signature || !safeCompare(signature, FakePaymentProvider.sign(rawBody))) {
+            return { valid: false, reason: "Invalid signature" };
+        }
+
+        const event = JSON.parse(rawBody);
+        return {
+            valid: true,
+            eventId: event.eventId,
+            orderNumber: event.orderNumber,
+            status: event.status,
+            transactionId: event.transactionId,
+            amount: event.amount
+        };
+    }
+
+    /**
+     * Sign a callback body the way the fake gateway would
+     */
+    static sign(rawBody: string): string {
+        return crypto.createHmac("sha256", FAKE_WEBHOOK_SECRET).update(rawBody, "utf8").digest("hex");
+    }
+
+    reset(): void {
+        this.failures.clear();
+        this.refunds.length = 0;
+    }
+
+    private throwIfFailing(operation: FakeOperation): void {
+        if (this.failures.delete(operation)) {
+            throw new AppError(`Fake payment ${operation} failed`, 502);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import type { IOrder } from "../../models/Order";
+import { config } from "../../config/config";
+import {
+    PaymentProvider,
+    PaymentIntentResult,
+    PaymentCaptureResult,
+    PaymentRefundResult,
+    PaymentCallbackResult
+} from "./paymentProvider";
+
+/**
+ * Cash collected by the courier; captured when the order is delivered
+ */
+export class CashOnDeliveryProvider implements PaymentProvider {
+    readonly name = "cash_on_delivery";
+
+    async createIntent(order: IOrder): Promise<PaymentIntentResult> {
+        return {
+            status: "pending",
+            instructions: { amountDue: order.total, currency: order.currency }
+        };
+    }
+
+    async capture(order: IOrder): Promise<PaymentCaptureResult> {
+        return {
+            status: "completed",
+            transactionId: order.payment.transactionId || `COD-${order.orderNumber}`,
+            paidAt: new Date()
+        };
+    }
+
+    // Cash refunds are handed back manually, only the record is kept
+    async refund(order: IOrder, amount: number): Promise<PaymentRefundResult> {
+        return { status: "refunded", amount };
+    }
+
+    async verifyCallback(): Promise<PaymentCallbackResult> {
+        return { valid: false, reason: "Cash on delivery has no callbacks" };
+    }
+}
+
+/**
+ * Manual bank transfer; an admin captures it once the money has arrived
+ */
+export class BankTransferProvider implements PaymentProvider {
+    readonly name = "bank_transfer";
+
+    async createIntent(order: IOrder): Promise<PaymentIntentResult> {
+        const { bankName, accountName, accountNumber } = config.payment.bankTransfer;
+
+        return {
+            status: "pending",
+            instructions: {
+                bankName,
+                accountName,
+                accountNumber,
+                amount: order.total,
+                currency: order.currency,
+                // Customers put the order number in the transfer note so it can be matched
+                reference: order.orderNumber
+            }
+        };
+    }
+
+    async capture(order: IOrder): Promise<PaymentCaptureResult> {
+        return {
+            status: "completed",
+            transactionId: order.payment.transactionId || `BT-${order.orderNumber}`,
+            paidAt: new Date()
+        };
+    }
+
+    async refund(order: IOrder, amount: number): Promise<PaymentRefundResult> {
+        return { status: "refunded", amount };
+    }
+
+    async verifyCallback(): Promise<PaymentCallbackResult> {
+        return { valid: false, reason: "Bank transfer has no callbacks" };
+    }
+}
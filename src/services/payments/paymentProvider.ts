@@ -0,0 +1,83 @@
+import crypto from "crypto";
+import type { IOrder, IPaymentInfo } from "../../models/Order";
+
+export type PaymentStatusValue = IPaymentInfo["status"];
+
+export interface PaymentIntentOptions {
+    ipAddress?: string;
+    returnUrl?: string;
+    locale?: string;
+}
+
+export interface PaymentIntentResult {
+    status: PaymentStatusValue;
+    transactionId?: string;
+    // Where the customer must be sent to pay (VNPay)
+    redirectUrl?: string;
+    // Client-side confirmation secret (Stripe)
+    clientSecret?: string;
+    // Offline payment instructions (bank transfer, cash on delivery)
+    instructions?: Record<string, any>;
+}
+
+export interface PaymentCaptureResult {
+    status: PaymentStatusValue;
+    transactionId?: string;
+    paidAt?: Date;
+}
+
+export interface PaymentRefundResult {
+    status: PaymentStatusValue;
+    refundId?: string;
+    amount: number; // Minor units of the order currency
+}
+
+/**
+ * Raw callback as received from the provider, before any verification
+ */
+export interface PaymentCallbackPayload {
+    headers: Record<string, string | string[] | undefined>;
+    query?: Record<string, any>;
+    body?: any;
+    // Exact request body bytes; required for providers that sign the body (Stripe)
+    rawBody?: Buffer | string;
+}
+
+export interface PaymentCallbackResult {
+    // False when the signature does not match or the payload cannot be parsed
+    valid: boolean;
+    eventId?: string;
+    orderNumber?: string;
+    status?: PaymentStatusValue;
+    transactionId?: string;
+    amount?: number; // Minor units of the order currency
+    reason?: string;
+}
+
+/**
+ * Contract implemented by every payment gateway adapter
+ */
+export interface PaymentProvider {
+    // Stored on the order as payment.paymentGateway
+    readonly name: string;
+
+    createIntent(order: IOrder, options?: PaymentIntentOptions): Promise<PaymentIntentResult>;
+    capture(order: IOrder): Promise<PaymentCaptureResult>;
+    // Amount in minor units of the order currency
+    refund(order: IOrder, amount: number, reason?: string): Promise<PaymentRefundResult>;
+    verifyCallback(payload: PaymentCallbackPayload): Promise<PaymentCallbackResult>;
+}
+
+export const getHeader = (headers: PaymentCallbackPayload["headers"], name: string): string | undefined => {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Constant-time comparison for signatures
+ */
+export const safeCompare = (a: string, b: string): boolean => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import axios from "axios";
+import type { IOrder } from "../../models/Order";
+import { config } from "../../config/config";
+import { AppError } from "../../utils/AppError";
+import {
+    PaymentProvider,
+    PaymentIntentResult,
+    PaymentCaptureResult,
+    PaymentRefundResult,
+    PaymentCallbackPayload,
+    PaymentCallbackResult,
+    PaymentStatusValue,
+    getHeader,
+    safeCompare
+} from "./paymentProvider";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+// Reject webhooks signed more than 5 minutes ago (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const STRIPE_EVENT_STATUS: Record<string, PaymentStatusValue> = {
+    "payment_intent.processing": "processing",
+    "payment_intent.succeeded": "completed",
+    "payment_intent.payment_failed": "failed",
+    "payment_intent.canceled": "failed",
+    "charge.refunded": "refunded"
+};
+
+/**
+ * Card payments through Stripe PaymentIntents (REST API)
+ */
+export class StripeProvider implements PaymentProvider {
+    readonly name = "stripe";
+
+    async createIntent(order: IOrder): Promise<PaymentIntentResult> {
+        // The customer confirms the card client-side with the client secret
+        const intent = await this.request("/payment_intents", {
+            // Stripe also takes amounts in minor units
+            amount: order.total,
+            currency: order.currency.toLowerCase(),
+            "automatic_payment_methods[enabled]": "true",
+            "metadata[orderNumber]": order.orderNumber,
+            "metadata[orderId]": order._id!.toString()
+        });
+
+        return {
+            status: "processing",
+            transactionId: intent.id,
+            clientSecret: intent.client_secret
+        };
+    }
+
+    /**
+     * Only intents created with manual capture are capturable; automatic intents are paid on confirmation
+     */
+    async capture(order: IOrder): Promise<PaymentCaptureResult> {
+        const transactionId = this.getTransactionId(order);
+        const intent = await this.request(`/payment_intents/${transactionId}/capture`, {});
+
+        return {
+            status: intent.status === "succeeded" ? "completed" : "processing",
+            transactionId: intent.id,
+            paidAt: intent.status === "succeeded" ? new Date() : undefined
+        };
+    }
+
+    async refund(order: IOrder, amount: number, reason?: string): Promise<PaymentRefundResult> {
+        const refund = await this.request("/refunds", {
+            payment_intent: this.getTransactionId(order),
+            amount,
+            ...(reason ? { "metadata[reason]": reason } : {})
+        });
+
+        return {
+            status: refund.status === "failed" ? "failed" : "refunded",
+            refundId: refund.id,
+            amount: refund.amount
+        };
+    }
+
+    /**
+     * Verify the Stripe-Signature header (t=<timestamp>,v1=<hmac>) against the raw body
+     */
+    async verifyCallback(payload: PaymentCallbackPayload): Promise<PaymentCallbackResult> {
+        const signatureHeader = getHeader(payload.headers, "stripe-signature");
+        const secret = config.payment.stripe.webhookSecret;
+
+        if (!signatureHeader || !secret || payload.rawBody === undefined) {
+            return { valid: false, reason: "Missing signature" };
+        }
+
+        const parts = signatureHeader.split(",").map((part) => part.split("="));
+        const timestamp = parts.find(([key]) => key === "t")?.[1];
+        const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value);
+
+        if (!timestamp || signatures.length === 0) {
+            return { valid: false, reason: "Malformed signature" };
+        }
+
+        if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+            return { valid: false, reason: "Signature timestamp outside tolerance" };
+        }
+
+        const rawBody = payload.rawBody.toString();
+        const expected = StripeProvider.sign(`${timestamp}.${rawBody}`, secret);
+
+        if (!signatures.some((signature) => safeCompare(signature, expected))) {
+            return { valid: false, reason: "Invalid signature" };
+        }
+
+        let event: any;
+        try {
+            event = JSON.parse(rawBody);
+        } catch {
+            return { valid: false, reason: "Invalid payload" };
+        }
+
+        const object = event.data?.object || {};
+
+        return {
+            valid: true,
+            eventId: event.id,
+            orderNumber: object.metadata?.orderNumber,
+            status: STRIPE_EVENT_STATUS[event.type],
+            transactionId: object.object === "charge" ? object.payment_intent : object.id,
+            amount: this.getEventAmount(event.type, object)
+        };
+    }
+
+    /**
+     * Amount paid for payment intent events, amount refunded so far for refund events
+     */
+    private getEventAmount(type: string, object: any): number | undefined {
+        const amount = type === "charge.refunded" ? object.amount_refunded : object.amount_received;
+        return typeof amount === "number" ? amount : undefined;
+    }
+
+    static sign(payload: string, secret: string): string {
+        return crypto.createHmac("sha256", secret).update(payload, "utf8").digest("hex");
+    }
+
+    private getTransactionId(order: IOrder): string {
+        if (!order.payment.transactionId) {
+            throw new AppError(`Order ${order.orderNumber} has no Stripe payment intent`, 400);
+        }
+        return order.payment.transactionId;
+    }
+
+    private async request(path: string, params: Record<string, any>): Promise<any> {
+        if (!config.payment.stripe.secretKey) {
+            throw new AppError("Stripe is not configured", 503);
+        }
+
+        try {
+            const response = await axios.post(`${STRIPE_API_URL}${path}`, new URLSearchParams(params).toString(), {
+                headers: {
+                    Authorization: `Bearer ${config.payment.stripe.secretKey}`,
+                    "Content-Type": "application/x-www-form-urlencoded"
+                },
+                timeout: 15000
+            });
+            return response.data;
+        } catch (error: any) {
+            const message = error.response?.data?.error?.message || error.message;
+            throw new AppError(`Stripe request failed: ${message}`, 502);
+        }
+    }
+}
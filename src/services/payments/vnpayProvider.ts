@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import axios from "axios";
+import type { IOrder } from "../../models/Order";
+import { config } from "../../config/config";
+import { AppError } from "../../utils/AppError";
+import { Money } from "../../utils/money";
+import {
+    PaymentProvider,
+    PaymentIntentOptions,
+    PaymentIntentResult,
+    PaymentCaptureResult,
+    PaymentRefundResult,
+    PaymentCallbackPayload,
+    PaymentCallbackResult,
+    safeCompare
+} from "./paymentProvider";
+
+const VNPAY_VERSION = "2.1.0";
+
+// VNPay expects the amount in dong multiplied by 100
+const toVnpayAmount = (amount: number, currency: string): string =>
+    Math.round(Money.of(amount, currency).toMajor() * 100).toString();
+
+// VNPay timestamps are Vietnam local time (GMT+7), formatted yyyyMMddHHmmss
+const formatVnpayDate = (date: Date): string =>
+    new Date(date.getTime() + 7 * 60 * 60 * 1000).toISOString().replace(/[-:T]/g, "").substring(0, 14);
+
+/**
+ * VNPay hosted payment page (redirect) with IPN/return URL callbacks
+ */
+export class VnpayProvider implements PaymentProvider {
+    readonly name = "vnpay";
+
+    async createIntent(order: IOrder, options: PaymentIntentOptions = {}): Promise<PaymentIntentResult> {
+        const { tmnCode, secretKey, url, returnUrl } = config.payment.vnpay;
+
+        if (!tmnCode || !secretKey) {
+            throw new AppError("VNPay is not configured", 503);
+        }
+
+        const params: Record<string, string> = {
+            vnp_Version: VNPAY_VERSION,
+            vnp_Command: "pay",
+            vnp_TmnCode: tmnCode,
+            vnp_Locale: options.locale === "en" ? "en" : "vn",
+            vnp_CurrCode: "VND",
+            vnp_TxnRef: order.orderNumber,
+            vnp_OrderInfo: `Thanh toan don hang ${order.orderNumber}`,
+            vnp_OrderType: "other",
+            vnp_Amount: toVnpayAmount(order.total, order.currency),
+            vnp_ReturnUrl: options.returnUrl || returnUrl,
+            vnp_IpAddr: options.ipAddress || "127.0.0.1",
+            vnp_CreateDate: formatVnpayDate(new Date())
+        };
+
+        const query = VnpayProvider.buildQuery(params);
+        const secureHash = VnpayProvider.sign(query, secretKey);
+
+        return {
+            status: "pending",
+            redirectUrl: `${url}?${query}&vnp_SecureHash=${secureHash}`
+        };
+    }
+
+    /**
+     * VNPay charges immediately, there is nothing left to capture
+     */
+    async capture(order: IOrder): Promise<PaymentCaptureResult> {
+        return {
+            status: order.payment.status,
+            transactionId: order.payment.transactionId,
+            paidAt: order.payment.paidAt
+        };
+    }
+
+    async refund(order: IOrder, amount: number, reason?: string): Promise<PaymentRefundResult> {
+        const { tmnCode, secretKey, apiUrl } = config.payment.vnpay;
+
+        if (!order.payment.transactionId) {
+            throw new AppError(`Order ${order.orderNumber} has no VNPay transaction`, 400);
+        }
+
+        const body: Record<string, string> = {
+            vnp_RequestId: crypto.randomBytes(8).toString("hex"),
+            vnp_Version: VNPAY_VERSION,
+            vnp_Command: "refund",
+            vnp_TmnCode: tmnCode,
+            // 02: full refund, 03: partial refund
+            vnp_TransactionType: amount >= order.total ? "02" : "03",
+            vnp_TxnRef: order.orderNumber,
+            vnp_Amount: toVnpayAmount(amount, order.currency),
+            vnp_TransactionNo: order.payment.transactionId,
+            vnp_TransactionDate: formatVnpayDate(order.payment.paidAt || order.createdAt),
+            vnp_CreateBy: "system",
+            vnp_CreateDate: formatVnpayDate(new Date()),
+            vnp_IpAddr: "127.0.0.1",
+            vnp_OrderInfo: reason || `Hoan tien don hang ${order.orderNumber}`
+        };
+
+        // The refund API signs a fixed, pipe-separated field sequence
+        const hashData = [
+            "vnp_RequestId",
+            "vnp_Version",
+            "vnp_Command",
+            "vnp_TmnCode",
+            "vnp_TransactionType",
+            "vnp_TxnRef",
+            "vnp_Amount",
+            "vnp_TransactionNo",
+            "vnp_TransactionDate",
+            "vnp_CreateBy",
+            "vnp_CreateDate",
+            "vnp_IpAddr",
+            "vnp_OrderInfo"
+        ]
+            .map((key) => body[key])
+            .join("|");
+
+        let data: any;
+        try {
+            const response = await axios.post(
+                apiUrl,
+                { ...body, vnp_SecureHash: VnpayProvider.sign(hashData, secretKey) },
+                { timeout: 15000 }
+            );
+            data = response.data;
+        } catch (error: any) {
+            throw new AppError(`VNPay refund request failed: ${error.message}`, 502);
+        }
+
+        if (data?.vnp_ResponseCode !== "00") {
+            throw new AppError(`VNPay refund was rejected (code ${data?.vnp_ResponseCode})`, 502);
+        }
+
+        return {
+            status: "refunded",
+            refundId: data.vnp_TransactionNo,
+            amount
+        };
+    }
+
+    /**
+     * Verify vnp_SecureHash on the IPN / return URL query string
+     */
+    async verifyCallback(payload: PaymentCallbackPayload): Promise<PaymentCallbackResult> {
+        const { vnp_SecureHash, vnp_SecureHashType, ...params } = (payload.query || {}) as Record<string, string>;
+        const secretKey = config.payment.vnpay.secretKey;
+
+        if (!vnp_SecureHash || !secretKey) {
+            return { valid: false, reason: "Missing signature" };
+        }
+
+        const expected = VnpayProvider.sign(VnpayProvider.buildQuery(params), secretKey);
+        if (!safeCompare(vnp_SecureHash.toLowerCase(), expected)) {
+            return { valid: false, reason: "Invalid signature" };
+        }
+
+        const paid = params.vnp_ResponseCode === "00" && params.vnp_TransactionStatus === "00";
+
+        return {
+            valid: true,
+            eventId: `${params.vnp_TxnRef}:${params.vnp_TransactionNo}:${params.vnp_ResponseCode}`,
+            orderNumber: params.vnp_TxnRef,
+            status: paid ? "completed" : "failed",
+            transactionId: params.vnp_TransactionNo,
+            amount: params.vnp_Amount ? Money.fromMajor(Number(params.vnp_Amount) / 100, "VND").amount : undefined
+        };
+    }
+
+    /**
+     * Sorted, form-encoded query string in the exact form VNPay signs
+     */
+    static buildQuery(params: Record<string, string>): string {
+        return Object.keys(params)
+            .filter((key) => params[key] !== undefined && params[key] !== "")
+            .sort()
+            .map((key) => `${key}=${encodeURIComponent(params[key]).replace(/%20/g, "+")}`)
+            .join("&");
+    }
+
+    static sign(data: string, secretKey: string): string {
+        return crypto.createHmac("sha512", secretKey).update(Buffer.from(data, "utf8")).digest("hex");
+    }
+}
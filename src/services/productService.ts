@@ -1,4 +1,6 @@
-import { Product, IProduct } from "../models/Product";
+import crypto from "crypto";
+import mongoose, { PipelineStage } from "mongoose";
+import { Product, IProduct, IProductOption, IProductVariant } from "../models/Product";
 import { Category } from "../models/Category";
 import { Brand } from "../models/Brand";
 import { AppError } from "../utils/AppError";
@@ -6,6 +8,9 @@ import { logger } from "../utils/logger";
 import { CacheWrapper, QueryAnalyzer } from "../utils/performance";
 import { CACHE_PREFIXES, CACHE_TTL } from "../config/redis";
 import { paginateQuery } from "../utils/pagination";
+import { transliterate } from "../utils/slug";
+import { SearchService } from "./searchService";
+import { MerchandisingService } from "./merchandisingService";
 
 interface CreateProductData {
     name: string;
@@ -36,10 +41,8 @@ interface CreateProductData {
         order: number;
     }>;
     hasVariants?: boolean;
-    variants?: Array<{
-        name: string;
-        options: string[];
-    }>;
+    options?: IProductOption[];
+    variants?: Array<Omit<IProductVariant, "_id">>;
     seo?: {
         title?: string;
         description?: string;
@@ -54,15 +57,31 @@ interface CreateProductData {
     saleEndDate?: Date;
     requiresShipping?: boolean;
     shippingClass?: string;
+    prices?: Array<{
+        currency: string;
+        price: number;
+        comparePrice?: number;
+        salePrice?: number;
+    }>;
 }
 
 interface UpdateProductData extends Partial<CreateProductData> {}
 
+interface UpdateVariantData {
+    sku?: string;
+    price?: number | null;
+    quantity?: number;
+    barcode?: string;
+    image?: string;
+    isActive?: boolean;
+}
+
 interface ProductFilters {
-    category?: string;
-    brand?: string;
+    category?: string | string[]; // Several ids match products in any of them
+    brand?: string | string[];
     minPrice?: number;
     maxPrice?: number;
+    minRating?: number;
     tags?: string[];
     status?: string;
     isVisible?: boolean;
@@ -79,6 +98,34 @@ interface ProductQuery {
     order?: "asc" | "desc";
 }
 
+interface FacetOption {
+    _id: string;
+    name: string;
+    slug: string;
+    count: number;
+}
+
+/**
+ * Counts for the storefront's filters. Each facet is counted with every filter except its own,
+ * so choosing a category still shows how many products the other categories have.
+ */
+export interface ProductFacets {
+    total: number;
+    categories: FacetOption[];
+    brands: FacetOption[];
+    price: Array<{ min: number; max: number; count: number }>; // Base currency minor units; max is exclusive but for the last bucket
+    ratings: Array<{ minRating: number; count: number }>;
+    inStock: number;
+    onSale: number;
+}
+
+const PRICE_BUCKETS = 5;
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+const IN_STOCK_QUERY = { $or: [{ trackQuantity: false }, { quantity: { $gt: 0 } }, { allowBackorder: true }] };
+// Left out of merchandised listings, as find leaves out fields that are not selected
+const HIDDEN_FIELDS: Record<string, 0> = { search: 0, salesCount: 0 };
+
 export class ProductService {
     private static cache = new CacheWrapper(CACHE_PREFIXES.PRODUCTS, CACHE_TTL.MEDIUM);
     private static categoryCache = new CacheWrapper(CACHE_PREFIXES.CATEGORIES, CACHE_TTL.LONG);
@@ -104,10 +151,10 @@ export class ProductService {
             }
 
             // Check if SKU already exists
-            const existingProduct = await Product.findOne({ sku: productData.sku });
-            if (existingProduct) {
-                throw new AppError("Product with this SKU already exists", 400);
-            }
+            await this.assertSkusAvailable([
+                productData.sku,
+                ...(productData.variants || []).map((variant) => variant.sku)
+            ]);
 
             // Create product
             const product = await Product.create({
@@ -124,6 +171,7 @@ export class ProductService {
             }
 
             await product.populate(["category", "brand", "createdBy"]);
+            SearchService.invalidateVocabulary();
 
             logger.info(`Product created: ${product.name} by user: ${userId}`);
             return product;
@@ -162,7 +210,27 @@ export class ProductService {
             }
 
             // Build optimized filter query
-            const filterQuery = this.buildProductFilterQuery(filters);
+            const filterQuery = await this.buildProductFilterQuery(filters);
+
+            // Merchandising rules arrange the default order only
+            const rule = query.sort ? undefined : await this.findMerchandisingRule(filters, filters.search);
+            if (rule) {
+                const pageSize = Math.min(100, Math.max(1, limit));
+                const { products, total } = await MerchandisingService.arrange(rule, {
+                    match: filterQuery,
+                    sort: { [sort]: order === "asc" ? 1 : -1 },
+                    page: Math.max(1, page),
+                    limit: pageSize,
+                    project: HIDDEN_FIELDS
+                });
+                const response = {
+                    products,
+                    pagination: { page: Math.max(1, page), limit: pageSize, total, pages: Math.ceil(total / pageSize) }
+                };
+
+                await this.cache.set(cacheKey, response, CACHE_TTL.SHORT);
+                return response;
+            }
 
             // Create base query
             const baseQuery = Product.find(filterQuery);
@@ -199,6 +267,112 @@ export class ProductService {
         }
     }
 
+    /**
+     * Get the facet counts of the products matching the filters (with caching)
+     */
+    static async getProductFacets(filters: ProductFilters = {}): Promise<ProductFacets> {
+        try {
+            const cacheKey = this.generateCacheKey("facets", filters, {});
+            const cached = await this.cache.get<ProductFacets>(cacheKey);
+            if (cached) {
+                logger.debug(`Cache hit for product facets: ${cacheKey}`);
+                return cached;
+            }
+
+            // Filters that are not facets (and the search) apply to every facet
+            const { category, brand, minPrice, maxPrice, minRating, inStock, onSale, ...shared } = filters;
+            const faceted: ProductFilters = { category, brand, minPrice, maxPrice, minRating, inStock, onSale };
+            const matchExcept = async (...own: Array<keyof ProductFilters>) => {
+                const others = { ...faceted };
+                own.forEach((key) => delete others[key]);
+                return { $match: await this.buildProductFilterQuery(others) };
+            };
+            const countBy = (field: string): PipelineStage.FacetPipelineStage[] => [
+                { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+                { $sort: { count: -1, _id: 1 } }
+            ];
+
+            const [result] = await Product.aggregate([
+                { $match: await this.buildProductFilterQuery(shared) },
+                {
+                    $facet: {
+                        total: [await matchExcept(), { $count: "count" }],
+                        categories: [await matchExcept("category"), ...countBy("category")],
+                        brands: [await matchExcept("brand"), { $match: { brand: { $ne: null } } }, ...countBy("brand")],
+                        price: [
+                            await matchExcept("minPrice", "maxPrice"),
+                            { $bucketAuto: { groupBy: "$price", buckets: PRICE_BUCKETS } }
+                        ],
+                        ratings: [
+                            await matchExcept("minRating"),
+                            {
+                                $group: {
+                                    _id: null,
+                                    ...Object.fromEntries(
+                                        RATING_THRESHOLDS.map((rating) => [
+                                            `min${rating}`,
+                                            { $sum: { $cond: [{ $gte: ["$averageRating", rating] }, 1, 0] } }
+                                        ])
+                                    )
+                                }
+                            }
+                        ],
+                        inStock: [await matchExcept("inStock"), { $match: IN_STOCK_QUERY }, { $count: "count" }],
+                        onSale: [await matchExcept("onSale"), { $match: { onSale: true } }, { $count: "count" }]
+                    }
+                }
+            ]);
+
+            const [categories, brands] = await Promise.all([
+                Category.find({ _id: { $in: result.categories.map((option: any) => option._id) } })
+                    .select("name slug")
+                    .lean(),
+                Brand.find({ _id: { $in: result.brands.map((option: any) => option._id) } })
+                    .select("name slug")
+                    .lean()
+            ]);
+
+            // Options whose category or brand was deleted are left out
+            const withNames = (counts: any[], documents: any[]): FacetOption[] =>
+                counts.flatMap((option) => {
+                    const document = documents.find((item) => item._id.toString() === option._id.toString());
+                    return document
+                        ? [
+                              {
+                                  _id: option._id.toString(),
+                                  name: document.name,
+                                  slug: document.slug,
+                                  count: option.count
+                              }
+                          ]
+                        : [];
+                });
+
+            const facets: ProductFacets = {
+                total: result.total[0]?.count || 0,
+                categories: withNames(result.categories, categories),
+                brands: withNames(result.brands, brands),
+                price: result.price.map((bucket: any) => ({
+                    min: bucket._id.min,
+                    max: bucket._id.max,
+                    count: bucket.count
+                })),
+                ratings: RATING_THRESHOLDS.map((rating) => ({
+                    minRating: rating,
+                    count: result.ratings[0]?.[`min${rating}`] || 0
+                })),
+                inStock: result.inStock[0]?.count || 0,
+                onSale: result.onSale[0]?.count || 0
+            };
+
+            await this.cache.set(cacheKey, facets, CACHE_TTL.SHORT);
+            return facets;
+        } catch (error) {
+            logger.error("Get product facets error:", error);
+            throw error;
+        }
+    }
+
     /**
      * Get product by ID (with caching)
      */
@@ -231,17 +405,19 @@ export class ProductService {
     }
 
     /**
-     * Get product by slug (with caching)
+     * Get product by slug (with caching). An old slug of a renamed product finds the product too;
+     * its `slug` is then the current one to redirect to.
      */
     static async getProductBySlug(slug: string): Promise<IProduct> {
         try {
+            slug = slug.toLowerCase();
             const cacheKey = `product:slug:${slug}`;
             const cached = await this.cache.get<IProduct>(cacheKey);
             if (cached) {
                 return cached;
             }
 
-            const product = await Product.findOne({ slug })
+            const product = await Product.findOne({ $or: [{ slug }, { slugHistory: slug }] })
                 .populate("category", "name slug description")
                 .populate("brand", "name slug logo website")
                 .populate("createdBy", "firstName lastName")
@@ -251,7 +427,10 @@ export class ProductService {
                 throw new AppError("Product not found", 404);
             }
 
-            await this.cache.set(cacheKey, product, CACHE_TTL.MEDIUM);
+            // Only current slugs are cached, so a redirect never outlives another rename
+            if (product.slug === slug) {
+                await this.cache.set(cacheKey, product, CACHE_TTL.MEDIUM);
+            }
             return product as IProduct;
         } catch (error) {
             logger.error("Get product by slug error:", error);
@@ -285,13 +464,25 @@ export class ProductService {
                 }
             }
 
+            if (updateData.sku || updateData.variants) {
+                await this.assertSkusAvailable(
+                    [updateData.sku, ...(updateData.variants || []).map((variant) => variant.sku)],
+                    productId
+                );
+            }
+
             // Update product
+            const previousSlug = product.slug;
             Object.assign(product, updateData);
             product.updatedBy = userId as any;
             await product.save();
 
             // Invalidate cache
             await this.invalidateProductCache(productId);
+            SearchService.invalidateVocabulary();
+            if (previousSlug) {
+                await this.cache.del(`product:slug:${previousSlug}`);
+            }
 
             await product.populate(["category", "brand", "createdBy"]);
             return product;
@@ -315,6 +506,9 @@ export class ProductService {
 
             // Invalidate cache
             await this.invalidateProductCache(productId);
+            if (product.slug) {
+                await this.cache.del(`product:slug:${product.slug}`);
+            }
 
             logger.info(`Product deleted: ${product.name}`);
         } catch (error) {
@@ -326,15 +520,15 @@ export class ProductService {
     /**
      * Helper method to build optimized filter query
      */
-    private static buildProductFilterQuery(filters: ProductFilters): any {
+    private static async buildProductFilterQuery(filters: ProductFilters): Promise<any> {
         const filterQuery: any = {};
 
         if (filters.category) {
-            filterQuery.category = filters.category;
+            filterQuery.category = this.matchIds(filters.category, "category");
         }
 
         if (filters.brand) {
-            filterQuery.brand = filters.brand;
+            filterQuery.brand = this.matchIds(filters.brand, "brand");
         }
 
         if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
@@ -347,6 +541,10 @@ export class ProductService {
             }
         }
 
+        if (filters.minRating !== undefined) {
+            filterQuery.averageRating = { $gte: filters.minRating };
+        }
+
         if (filters.tags && filters.tags.length > 0) {
             filterQuery.tags = { $in: filters.tags };
         }
@@ -369,7 +567,7 @@ export class ProductService {
 
         if (filters.inStock !== undefined) {
             if (filters.inStock) {
-                filterQuery.$or = [{ trackQuantity: false }, { quantity: { $gt: 0 } }, { allowBackorder: true }];
+                Object.assign(filterQuery, IN_STOCK_QUERY);
             } else {
                 filterQuery.trackQuantity = true;
                 filterQuery.quantity = { $lte: 0 };
@@ -378,20 +576,45 @@ export class ProductService {
         }
 
         if (filters.search) {
-            filterQuery.$text = { $search: filters.search };
+            Object.assign(filterQuery, await SearchService.getMatchQuery(filters.search));
         }
 
         return filterQuery;
     }
 
     /**
-     * Generate cache key for products
+     * The merchandising rule of the search query, else of the category when the listing is of one
+     */
+    private static async findMerchandisingRule(filters: ProductFilters, searchTerm?: string) {
+        const categories = filters.category ? [filters.category].flat() : [];
+        return MerchandisingService.findRule({
+            query: searchTerm,
+            category: categories.length === 1 ? categories[0] : undefined
+        });
+    }
+
+    /**
+     * Ids cast for aggregations too (which, unlike find, do not cast strings)
+     */
+    private static matchIds(ids: string | string[], field: string): any {
+        const list = (Array.isArray(ids) ? ids : [ids]).filter(Boolean);
+        if (list.some((id) => !mongoose.isValidObjectId(id))) {
+            throw new AppError(`Invalid ${field} id`, 400);
+        }
+
+        const objectIds = list.map((id) => new mongoose.Types.ObjectId(id));
+        return objectIds.length === 1 ? objectIds[0] : { $in: objectIds };
+    }
+
+    /**
+     * Generate cache key for products. Hashed rather than truncated, so filters that only differ
+     * towards the end do not share an entry.
      */
     private static generateCacheKey(prefix: string, filters: any, query: any): string {
         const keyParts = [prefix, JSON.stringify(filters), JSON.stringify(query)];
 
         const keyString = keyParts.join("|");
-        return Buffer.from(keyString).toString("base64").slice(0, 50);
+        return `${prefix}:${crypto.createHash("sha1").update(keyString).digest("hex")}`;
     }
 
     /**
@@ -441,7 +664,7 @@ export class ProductService {
     }
 
     /**
-     * Search products (with caching)
+     * Search products, most relevant first unless another sort is given (with caching)
      */
     static async searchProducts(
         searchTerm: string,
@@ -456,14 +679,123 @@ export class ProductService {
             pages: number;
         };
     }> {
-        return this.getProducts({ ...filters, search: searchTerm }, query);
+        try {
+            const cacheKey = this.generateCacheKey("search", { ...filters, search: searchTerm }, query);
+            const cached = await this.cache.get<any>(cacheKey);
+            if (cached) {
+                logger.debug(`Cache hit for product search: ${cacheKey}`);
+                return cached;
+            }
+
+            const { search, ...otherFilters } = filters;
+            const result = await SearchService.search(searchTerm, await this.buildProductFilterQuery(otherFilters), {
+                ...query,
+                rule: await this.findMerchandisingRule(otherFilters, searchTerm)
+            });
+
+            await this.cache.set(cacheKey, result, CACHE_TTL.SHORT);
+            return result;
+        } catch (error) {
+            logger.error("Search products error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a variant for every combination of the product's option values (after replacing the
+     * options when given). Existing variants keep their SKU, price and stock; variants whose
+     * combination is no longer offered are removed.
+     */
+    static async generateVariants(
+        productId: string,
+        options: IProductOption[] | undefined,
+        userId: string
+    ): Promise<IProduct> {
+        try {
+            for (;;) {
+                const product = await this.buildVariants(productId, options, userId);
+
+                try {
+                    await product.save();
+                } catch (error) {
+                    // A variant changed or stock was reserved after the product was read; read it again
+                    if (
+                        error instanceof mongoose.Error.DocumentNotFoundError ||
+                        error instanceof mongoose.Error.VersionError
+                    ) {
+                        continue;
+                    }
+                    throw error;
+                }
+
+                await this.invalidateProductCache(productId);
+                SearchService.invalidateVocabulary();
+
+                logger.info(`Generated ${product.variants.length} variants for product: ${product.name}`);
+                return product;
+            }
+        } catch (error) {
+            logger.error("Generate variants error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Update one variant's SKU, price override, stock, barcode, image or availability
+     */
+    static async updateVariant(
+        productId: string,
+        variantId: string,
+        updateData: UpdateVariantData,
+        userId: string
+    ): Promise<IProduct> {
+        try {
+            const product = await Product.findById(productId);
+            if (!product) {
+                throw new AppError("Product not found", 404);
+            }
+
+            const variant = product.findVariant(variantId);
+            if (!variant) {
+                throw new AppError("Variant not found", 404);
+            }
+
+            const sku = updateData.sku?.trim().toUpperCase();
+            if (sku && sku !== variant.sku) {
+                // The unique index only covers SKUs of different products
+                if (sku === product.sku || product.variants.some((other) => other.sku === sku)) {
+                    throw new AppError("Variant SKUs must be unique", 400);
+                }
+                await this.assertSkusAvailable([sku], productId);
+            }
+
+            const updated = await this.writeVariant(productId, variantId, updateData, userId);
+
+            await this.invalidateProductCache(productId);
+            return updated;
+        } catch (error) {
+            logger.error("Update variant error:", error);
+            throw error;
+        }
     }
 
     /**
      * Update product stock (with cache invalidation)
      */
-    static async updateStock(productId: string, quantity: number): Promise<IProduct> {
+    static async updateStock(productId: string, quantity: number, variantId?: string): Promise<IProduct> {
         try {
+            if (variantId) {
+                const product = await this.writeVariant(productId, variantId, { quantity });
+
+                await this.invalidateProductCache(productId);
+                return product;
+            }
+
+            // A variant product's stock is the total of its variants
+            if (await Product.exists({ _id: productId, "variants.0": { $exists: true } })) {
+                throw new AppError("Set the stock of this product's variants instead", 400);
+            }
+
             const product = await Product.findByIdAndUpdate(
                 productId,
                 { quantity },
@@ -483,4 +815,147 @@ export class ProductService {
             throw error;
         }
     }
+
+    /**
+     * Load a product with one variant per combination of its option values (after replacing the
+     * options when given), ready to save. The save only applies while the product keeps its version
+     * and every variant still holds the stock read here, so variant updates and reservations made in
+     * the meantime are not overwritten.
+     */
+    private static async buildVariants(
+        productId: string,
+        options: IProductOption[] | undefined,
+        userId: string
+    ): Promise<IProduct> {
+        const product = await Product.findById(productId);
+        if (!product) {
+            throw new AppError("Product not found", 404);
+        }
+
+        if (product.variants.length > 0) {
+            product.$where = {
+                $and: product.variants.map((variant) => ({
+                    variants: { $elemMatch: { _id: variant._id, quantity: variant.quantity } }
+                }))
+            };
+        }
+
+        if (options) {
+            product.options = options;
+        }
+
+        const created: IProductVariant[] = [];
+        const variants = this.buildOptionMatrix(product.options).map((combination) => {
+            const variant = product.findVariant(undefined, combination);
+            if (variant) {
+                return variant;
+            }
+
+            const sku = [product.sku, ...combination.map((option) => this.toSkuPart(option.value))].join("-");
+            created.push({ options: combination, sku, quantity: 0, isActive: true });
+            return created[created.length - 1];
+        });
+
+        await this.assertSkusAvailable(
+            created.map((variant) => variant.sku),
+            productId
+        );
+
+        product.set("variants", variants);
+        product.updatedBy = userId as any;
+        return product;
+    }
+
+    /**
+     * Write fields of one variant (a null price removes the override) and move the product's stock,
+     * the total of its variants, by the change in the variant's stock. The write only applies while
+     * the variant still holds the stock it was read with; after a concurrent reservation it is retried.
+     */
+    private static async writeVariant(
+        productId: string,
+        variantId: string,
+        fields: UpdateVariantData,
+        userId?: string
+    ): Promise<IProduct> {
+        for (;;) {
+            const current = await Product.findOne({ _id: productId, "variants._id": variantId }).select(
+                "variants._id variants.quantity"
+            );
+            const variant = current?.findVariant(variantId);
+            if (!variant) {
+                throw new AppError("Product variant not found", 404);
+            }
+
+            const $set: Record<string, unknown> = userId ? { updatedBy: userId } : {};
+            const $unset: Record<string, ""> = {};
+            for (const [field, value] of Object.entries(fields)) {
+                if (value === null) {
+                    $unset[`variants.$.${field}`] = "";
+                } else if (value !== undefined) {
+                    $set[`variants.$.${field}`] = value;
+                }
+            }
+
+            const updated = await Product.findOneAndUpdate(
+                { _id: productId, variants: { $elemMatch: { _id: variantId, quantity: variant.quantity } } },
+                {
+                    $set,
+                    $unset,
+                    // The new version makes a regeneration that read the old variants retry
+                    $inc: { quantity: (fields.quantity ?? variant.quantity) - variant.quantity, __v: 1 }
+                },
+                { new: true, runValidators: true }
+            );
+            if (updated) {
+                return updated;
+            }
+        }
+    }
+
+    /**
+     * Fail when any of the SKUs is already used by another product or one of its variants
+     */
+    private static async assertSkusAvailable(
+        skus: Array<string | undefined>,
+        excludeProductId?: string
+    ): Promise<void> {
+        const candidates = skus.filter((sku): sku is string => !!sku).map((sku) => sku.trim().toUpperCase());
+        if (candidates.length === 0) {
+            return;
+        }
+
+        const existing = await Product.findOne({
+            ...(excludeProductId ? { _id: { $ne: excludeProductId } } : {}),
+            $or: [{ sku: { $in: candidates } }, { "variants.sku": { $in: candidates } }]
+        }).select("sku variants.sku");
+
+        if (existing) {
+            const taken = [existing.sku, ...existing.variants.map((variant) => variant.sku)];
+            throw new AppError(`SKU ${candidates.find((sku) => taken.includes(sku))} is already in use`, 400);
+        }
+    }
+
+    /**
+     * Every combination of option values, in option order
+     */
+    private static buildOptionMatrix(options: IProductOption[]): IProductVariant["options"][] {
+        const axes = options.filter((option) => option.values.length > 0);
+
+        return axes.reduce<IProductVariant["options"][]>(
+            (combinations, option) =>
+                combinations.flatMap((combination) =>
+                    option.values.map((value) => [...combination, { name: option.name, value }])
+                ),
+            axes.length > 0 ? [[]] : []
+        );
+    }
+
+    /**
+     * "Xanh dương" -> "XANHDUONG", for SKUs made from option values
+     */
+    private static toSkuPart(value: string): string {
+        return transliterate(value)
+            .toUpperCase()
+            .replace(/[^A-Z0-9]+/g, "");
+    }
 }
@@ -0,0 +1,326 @@
+import mongoose from "mongoose";
+import { ReturnRequest, IReturnRequest, IReturnItem, ReturnStatus } from "../models/ReturnRequest";
+import { Order } from "../models/Order";
+import { Product } from "../models/Product";
+import { OrderService } from "./orderService";
+import { config } from "../config/config";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+import { paginateQuery } from "../utils/pagination";
+
+interface CreateReturnData {
+    orderId: string;
+    items: { itemId: string; quantity: number; reason?: string }[];
+    reason: string;
+    photos?: string[];
+}
+
+interface ReturnFilters {
+    status?: string;
+}
+
+interface ReturnQuery {
+    page?: number;
+    limit?: number;
+    sort?: string;
+    order?: "asc" | "desc";
+}
+
+interface ReturnListResult {
+    returns: IReturnRequest[];
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        pages: number;
+    };
+}
+
+/**
+ * Return lifecycle: requested -> approved -> received (refunded), or requested -> rejected
+ */
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+    requested: ["approved", "rejected"],
+    approved: ["received"],
+    rejected: [],
+    received: []
+};
+
+// Requests that still hold on to their items
+const OPEN_RETURN_STATUSES: ReturnStatus[] = ["requested", "approved"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ReturnService {
+    /**
+     * Open a return request for items of a delivered order (customer)
+     */
+    static async createReturn(data: CreateReturnData, userId: string): Promise<IReturnRequest> {
+        try {
+            const order = await Order.findOne({ _id: data.orderId, user: userId });
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            if (order.status !== "delivered" || !order.deliveredAt) {
+                throw new AppError("Only delivered orders can be returned", 400);
+            }
+
+            const windows = await this.getReturnWindows(order.items.map((item) => item.product.toString()));
+
+            // Units already claimed by other open requests for this order
+            const openReturns = await ReturnRequest.find({ order: order._id, status: { $in: OPEN_RETURN_STATUSES } });
+            const claimed = new Map<string, number>();
+            openReturns.forEach((openReturn) =>
+                openReturn.items.forEach((returnItem) => {
+                    const key = returnItem.item.toString();
+                    claimed.set(key, (claimed.get(key) || 0) + returnItem.quantity);
+                })
+            );
+
+            const items: IReturnItem[] = data.items.map(({ itemId, quantity, reason }) => {
+                const item = order.items.find((orderItem) => orderItem._id?.toString() === itemId);
+                if (!item) {
+                    throw new AppError(`Order item not found: ${itemId}`, 400);
+                }
+
+                const windowDays = windows.get(item.product.toString()) ?? config.returns.defaultWindowDays;
+                if (order.deliveredAt!.getTime() + windowDays * DAY_MS <= Date.now()) {
+                    throw new AppError(`The ${windowDays}-day return window for ${item.name} has closed`, 400);
+                }
+
+                const available = item.quantity - (item.refundedQuantity || 0) - (claimed.get(itemId) || 0);
+                if (quantity > available) {
+                    throw new AppError(`Only ${available} unit(s) of ${item.name} can be returned`, 400);
+                }
+
+                return { item: item._id!, product: item.product, name: item.name, quantity, reason } as IReturnItem;
+            });
+
+            const returnRequest = await ReturnRequest.create({
+                order: order._id,
+                user: userId,
+                items,
+                reason: data.reason,
+                photos: data.photos || [],
+                history: [{ status: "requested", updatedAt: new Date(), note: data.reason, updatedBy: userId }]
+            });
+
+            logger.info(`Return requested: ${returnRequest.returnNumber} for order: ${order.orderNumber}`);
+            return returnRequest;
+        } catch (error) {
+            logger.error("Create return error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the caller's return requests
+     */
+    static async getUserReturns(userId: string, query: ReturnQuery = {}): Promise<ReturnListResult> {
+        try {
+            return await this.listReturns({ user: userId }, query, false);
+        } catch (error) {
+            logger.error("Get user returns error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a single return request belonging to the caller
+     */
+    static async getUserReturnById(returnId: string, userId: string): Promise<IReturnRequest> {
+        try {
+            const returnRequest = await ReturnRequest.findOne({ _id: returnId, user: userId }).populate(
+                "order",
+                "orderNumber status deliveredAt"
+            );
+
+            if (!returnRequest) {
+                throw new AppError("Return request not found", 404);
+            }
+
+            return returnRequest;
+        } catch (error) {
+            logger.error("Get user return error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get all return requests (admin)
+     */
+    static async getAllReturns(filters: ReturnFilters = {}, query: ReturnQuery = {}): Promise<ReturnListResult> {
+        try {
+            return await this.listReturns(filters.status ? { status: filters.status } : {}, query, true);
+        } catch (error) {
+            logger.error("Get all returns error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Approve a return request (admin); the customer can then send the items back
+     */
+    static async approveReturn(returnId: string, adminId: string, note?: string): Promise<IReturnRequest> {
+        try {
+            const returnRequest = await this.findReturn(returnId);
+            this.transition(returnRequest, "approved", note || "Return approved", adminId);
+            await returnRequest.save();
+
+            logger.info(`Return approved: ${returnRequest.returnNumber} by: ${adminId}`);
+            return returnRequest;
+        } catch (error) {
+            logger.error("Approve return error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Reject a return request (admin)
+     */
+    static async rejectReturn(returnId: string, adminId: string, note?: string): Promise<IReturnRequest> {
+        try {
+            const returnRequest = await this.findReturn(returnId);
+            this.transition(returnRequest, "rejected", note || "Return rejected", adminId);
+            await returnRequest.save();
+
+            logger.info(`Return rejected: ${returnRequest.returnNumber} by: ${adminId}`);
+            return returnRequest;
+        } catch (error) {
+            logger.error("Reject return error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Mark the returned items as received (admin), refunding them and optionally restocking
+     */
+    static async receiveReturn(
+        returnId: string,
+        adminId: string,
+        options: { restock?: boolean; note?: string } = {}
+    ): Promise<IReturnRequest> {
+        try {
+            const current = await this.findReturn(returnId);
+            this.assertTransition(current.status, "received");
+
+            // Claim the request atomically so it can only be refunded once
+            const returnRequest = await ReturnRequest.findOneAndUpdate(
+                { _id: returnId, status: "approved" },
+                { $set: { status: "received" } },
+                { new: true }
+            );
+            if (!returnRequest) {
+                throw new AppError("Return request has already been processed", 409);
+            }
+
+            const restock = options.restock ?? returnRequest.restock;
+
+            let order;
+            try {
+                order = await OrderService.refundOrder(
+                    returnRequest.order.toString(),
+                    {
+                        items: returnRequest.items.map((item) => ({
+                            itemId: item.item.toString(),
+                            quantity: item.quantity
+                        })),
+                        reason: `Return ${returnRequest.returnNumber}: ${returnRequest.reason}`,
+                        restock
+                    },
+                    adminId
+                );
+            } catch (error) {
+                await ReturnRequest.updateOne({ _id: returnId }, { $set: { status: "approved" } });
+                throw error;
+            }
+
+            returnRequest.restock = restock;
+            returnRequest.refundAmount = order.refunds[order.refunds.length - 1].amount;
+            returnRequest.receivedAt = new Date();
+            returnRequest.history.push({
+                status: "received",
+                updatedAt: new Date(),
+                note: options.note || `Items received, refunded ${returnRequest.refundAmount} ${order.currency}`,
+                updatedBy: new mongoose.Types.ObjectId(adminId)
+            });
+            await returnRequest.save();
+
+            logger.info(`Return received: ${returnRequest.returnNumber} by: ${adminId}`);
+            return returnRequest;
+        } catch (error) {
+            logger.error("Receive return error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Return window per product: the product's own, then its category's, then the store default
+     */
+    private static async getReturnWindows(productIds: string[]): Promise<Map<string, number>> {
+        const products = await Product.find({ _id: { $in: productIds } })
+            .select("returnWindowDays category")
+            .populate("category", "returnWindowDays")
+            .lean();
+
+        return new Map(
+            products.map((product: any) => [
+                product._id.toString(),
+                product.returnWindowDays ?? product.category?.returnWindowDays ?? config.returns.defaultWindowDays
+            ])
+        );
+    }
+
+    private static async findReturn(returnId: string): Promise<IReturnRequest> {
+        const returnRequest = await ReturnRequest.findById(returnId);
+        if (!returnRequest) {
+            throw new AppError("Return request not found", 404);
+        }
+        return returnRequest;
+    }
+
+    private static assertTransition(from: ReturnStatus, to: ReturnStatus): void {
+        if (!RETURN_TRANSITIONS[from].includes(to)) {
+            throw new AppError(`Cannot change return status from ${from} to ${to}`, 400);
+        }
+    }
+
+    private static transition(returnRequest: IReturnRequest, status: ReturnStatus, note: string, userId: string): void {
+        this.assertTransition(returnRequest.status, status);
+
+        returnRequest.status = status;
+        returnRequest.history.push({
+            status,
+            updatedAt: new Date(),
+            note,
+            updatedBy: new mongoose.Types.ObjectId(userId)
+        });
+    }
+
+    private static async listReturns(
+        filterQuery: Record<string, any>,
+        query: ReturnQuery,
+        populateUser: boolean
+    ): Promise<ReturnListResult> {
+        const { page = 1, limit = 10, order = "desc" } = query;
+        const sort = query.sort === "updatedAt" ? "updatedAt" : "createdAt";
+
+        let findQuery = ReturnRequest.find(filterQuery).populate("order", "orderNumber status");
+        if (populateUser) {
+            findQuery = findQuery.populate("user", "firstName lastName email");
+        }
+
+        const result = await paginateQuery(findQuery, { page, limit, sort, order, maxLimit: 100, cacheTTL: 0 });
+
+        return {
+            returns: result.data,
+            pagination: {
+                page: result.pagination.page,
+                limit: result.pagination.limit,
+                total: result.pagination.total,
+                pages: result.pagination.pages
+            }
+        };
+    }
+}
@@ -0,0 +1,304 @@
+import mongoose from "mongoose";
+import { SearchLog } from "../models/SearchLog";
+import { Product } from "../models/Product";
+import { normalizeSearchText } from "../utils/searchText";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+
+// Reports cover the last 30 days unless a range is given
+const DEFAULT_RANGE_DAYS = 30;
+// Clicks kept per search; the ones past that add nothing to the reports
+const MAX_CLICKS = 100;
+
+interface SearchLogData {
+    query: string;
+    filters?: Record<string, any>;
+    resultCount: number;
+    language: string;
+}
+
+export interface SearchReportRange {
+    dateFrom?: Date;
+    dateTo?: Date;
+    limit?: number;
+}
+
+export interface SearchQueryReport {
+    query: string; // The latest spelling shoppers used
+    normalizedQuery: string;
+    searches: number;
+    zeroResultSearches: number;
+    averageResults: number;
+    clicks: number;
+    clickThroughRate: number; // % of searches with a click
+    conversionRate: number; // % of searches followed by an add to cart
+    lastSearchedAt: Date;
+}
+
+export interface ZeroResultQueryReport {
+    query: string;
+    normalizedQuery: string;
+    searches: number;
+    filteredSearches: number; // Searches that were narrowed by filters, so may not be a catalogue gap
+    languages: string[];
+    lastSearchedAt: Date;
+}
+
+interface SearchTotals {
+    searches: number;
+    zeroResultSearches: number;
+    searchesWithClicks: number;
+    searchesWithCartAdds: number;
+    zeroResultRate: number;
+    clickThroughRate: number;
+    conversionRate: number;
+}
+
+export interface SearchConversionReport extends SearchTotals {
+    dateFrom: Date;
+    dateTo: Date;
+    daily: Array<SearchTotals & { date: string }>;
+}
+
+const percentage = (count: number, total: number): number =>
+    total > 0 ? Math.round((count / total) * 10000) / 100 : 0;
+
+export class SearchAnalyticsService {
+    /**
+     * Log a search; returns its id, which clients send back with clicks and cart adds.
+     * Analytics must not break searching, so failures are logged and undefined is returned.
+     */
+    static async logSearch(data: SearchLogData): Promise<string | undefined> {
+        try {
+            const normalizedQuery = normalizeSearchText(data.query);
+            if (!normalizedQuery) {
+                return undefined;
+            }
+
+            const filters = Object.fromEntries(
+                Object.entries(data.filters || {}).filter(([, value]) => value !== undefined)
+            );
+
+            const log = await SearchLog.create({
+                query: data.query.trim().substring(0, 200),
+                normalizedQuery,
+                filters: Object.keys(filters).length > 0 ? filters : undefined,
+                resultCount: data.resultCount,
+                language: data.language
+            });
+
+            return log.id;
+        } catch (error) {
+            logger.error("Log search error:", error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Record a click on a search result
+     */
+    static async recordClick(searchId: string, productId: string, position?: number): Promise<void> {
+        try {
+            if (!(await Product.exists({ _id: productId }))) {
+                throw new AppError("Product not found", 404);
+            }
+
+            const result = await SearchLog.updateOne(
+                { _id: searchId },
+                {
+                    $push: {
+                        clicks: { $each: [{ product: productId, position, clickedAt: new Date() }], $slice: MAX_CLICKS }
+                    }
+                }
+            );
+
+            if (result.matchedCount === 0) {
+                throw new AppError("Search not found", 404);
+            }
+        } catch (error) {
+            logger.error("Record search click error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Attribute an add to cart to the search it came from. The item is already in the cart, so
+     * an unknown search is ignored rather than reported.
+     */
+    static async recordCartAdd(searchId: string, productId: string): Promise<void> {
+        try {
+            if (!mongoose.isValidObjectId(searchId) || !mongoose.isValidObjectId(productId)) {
+                return;
+            }
+
+            // Once per product, however many units or times it is added
+            await SearchLog.updateOne(
+                { _id: searchId, "cartAdds.product": { $ne: productId } },
+                { $push: { cartAdds: { product: productId, addedAt: new Date() } } }
+            );
+        } catch (error) {
+            logger.error("Record search cart add error:", error);
+        }
+    }
+
+    /**
+     * Most searched queries with how often they found nothing, were clicked and led to the cart
+     */
+    static async getTopQueries(range: SearchReportRange = {}): Promise<SearchQueryReport[]> {
+        try {
+            const reports = await SearchLog.aggregate([
+                { $match: this.matchRange(range) },
+                { $sort: { createdAt: -1 } },
+                {
+                    $group: {
+                        _id: "$normalizedQuery",
+                        query: { $first: "$query" },
+                        searches: { $sum: 1 },
+                        zeroResultSearches: { $sum: { $cond: [{ $eq: ["$resultCount", 0] }, 1, 0] } },
+                        averageResults: { $avg: "$resultCount" },
+                        clicks: { $sum: { $size: "$clicks" } },
+                        searchesWithClicks: { $sum: { $cond: [{ $gt: [{ $size: "$clicks" }, 0] }, 1, 0] } },
+                        searchesWithCartAdds: { $sum: { $cond: [{ $gt: [{ $size: "$cartAdds" }, 0] }, 1, 0] } },
+                        lastSearchedAt: { $first: "$createdAt" }
+                    }
+                },
+                { $sort: { searches: -1, _id: 1 } },
+                { $limit: this.getLimit(range) }
+            ]);
+
+            return reports.map((report) => ({
+                query: report.query,
+                normalizedQuery: report._id,
+                searches: report.searches,
+                zeroResultSearches: report.zeroResultSearches,
+                averageResults: Math.round(report.averageResults * 10) / 10,
+                clicks: report.clicks,
+                clickThroughRate: percentage(report.searchesWithClicks, report.searches),
+                conversionRate: percentage(report.searchesWithCartAdds, report.searches),
+                lastSearchedAt: report.lastSearchedAt
+            }));
+        } catch (error) {
+            logger.error("Get top search queries error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Queries that found nothing: candidates for synonyms or missing products
+     */
+    static async getZeroResultQueries(range: SearchReportRange = {}): Promise<ZeroResultQueryReport[]> {
+        try {
+            const reports = await SearchLog.aggregate([
+                { $match: { ...this.matchRange(range), resultCount: 0 } },
+                { $sort: { createdAt: -1 } },
+                {
+                    $group: {
+                        _id: "$normalizedQuery",
+                        query: { $first: "$query" },
+                        searches: { $sum: 1 },
+                        filteredSearches: { $sum: { $cond: [{ $ifNull: ["$filters", false] }, 1, 0] } },
+                        languages: { $addToSet: "$language" },
+                        lastSearchedAt: { $first: "$createdAt" }
+                    }
+                },
+                { $sort: { searches: -1, _id: 1 } },
+                { $limit: this.getLimit(range) }
+            ]);
+
+            return reports.map((report) => ({
+                query: report.query,
+                normalizedQuery: report._id,
+                searches: report.searches,
+                filteredSearches: report.filteredSearches,
+                languages: report.languages.sort(),
+                lastSearchedAt: report.lastSearchedAt
+            }));
+        } catch (error) {
+            logger.error("Get zero result search queries error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Share of searches that found nothing, were clicked and led to an add to cart, overall and
+     * per day (UTC)
+     */
+    static async getConversion(range: SearchReportRange = {}): Promise<SearchConversionReport> {
+        try {
+            const { dateFrom, dateTo } = this.getRange(range);
+            const days = await SearchLog.aggregate([
+                { $match: this.matchRange(range) },
+                {
+                    $group: {
+                        _id: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } },
+                        searches: { $sum: 1 },
+                        zeroResultSearches: { $sum: { $cond: [{ $eq: ["$resultCount", 0] }, 1, 0] } },
+                        searchesWithClicks: { $sum: { $cond: [{ $gt: [{ $size: "$clicks" }, 0] }, 1, 0] } },
+                        searchesWithCartAdds: { $sum: { $cond: [{ $gt: [{ $size: "$cartAdds" }, 0] }, 1, 0] } }
+                    }
+                },
+                { $sort: { _id: 1 } }
+            ]);
+
+            const sum = (field: string) => days.reduce((total, day) => total + day[field], 0);
+            return {
+                dateFrom,
+                dateTo,
+                ...this.toTotals(
+                    sum("searches"),
+                    sum("zeroResultSearches"),
+                    sum("searchesWithClicks"),
+                    sum("searchesWithCartAdds")
+                ),
+                daily: days.map((day) => ({
+                    date: day._id,
+                    ...this.toTotals(
+                        day.searches,
+                        day.zeroResultSearches,
+                        day.searchesWithClicks,
+                        day.searchesWithCartAdds
+                    )
+                }))
+            };
+        } catch (error) {
+            logger.error("Get search conversion error:", error);
+            throw error;
+        }
+    }
+
+    private static toTotals(
+        searches: number,
+        zeroResultSearches: number,
+        searchesWithClicks: number,
+        searchesWithCartAdds: number
+    ): SearchTotals {
+        return {
+            searches,
+            zeroResultSearches,
+            searchesWithClicks,
+            searchesWithCartAdds,
+            zeroResultRate: percentage(zeroResultSearches, searches),
+            clickThroughRate: percentage(searchesWithClicks, searches),
+            conversionRate: percentage(searchesWithCartAdds, searches)
+        };
+    }
+
+    private static getRange(range: SearchReportRange): { dateFrom: Date; dateTo: Date } {
+        const dateTo = range.dateTo || new Date();
+        const dateFrom = range.dateFrom || new Date(dateTo.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+        if (dateFrom > dateTo) {
+            throw new AppError("dateFrom must be before dateTo", 400);
+        }
+        return { dateFrom, dateTo };
+    }
+
+    private static matchRange(range: SearchReportRange): Record<string, any> {
+        const { dateFrom, dateTo } = this.getRange(range);
+        return { createdAt: { $gte: dateFrom, $lte: dateTo } };
+    }
+
+    private static getLimit(range: SearchReportRange): number {
+        return Math.min(100, Math.max(1, range.limit || 20));
+    }
+}
@@ -0,0 +1,312 @@
+import { PipelineStage } from "mongoose";
+import { Product, IProduct } from "../models/Product";
+import { editDistance, normalizeSearchText } from "../utils/searchText";
+import { applyVirtuals } from "../utils/leanVirtuals";
+import { MerchandisingService, ActiveMerchandisingRule } from "./merchandisingService";
+import { logger } from "../utils/logger";
+
+// How long the list of indexed words is kept before it is read again
+const VOCABULARY_TTL = 5 * 60 * 1000;
+// Most similar or completing words a query word is expanded to
+const MAX_EXPANSIONS = 20;
+
+// Relevance: matched words and the whole query in the name...
+const EXACT_WORD_SCORE = 2;
+const CLOSE_WORD_SCORE = 1; // A misspelling, a synonym or, for suggestions, a completion
+const NAME_PHRASE_SCORE = 3;
+// ...then small boosts that break ties between equally relevant products
+const FEATURED_BOOST = 1;
+const RATING_BOOST = 0.2; // Per star
+const SALES_BOOST = 0.5; // Per tenfold units sold
+
+interface WordMatch {
+    word: string;
+    terms: string[]; // The word itself and the indexed words taken to mean it
+}
+
+// A query word, or a phrase having synonyms: matched when every word of one alternative is.
+// The first alternative is what was typed.
+interface QueryClause {
+    alternatives: WordMatch[][];
+}
+
+interface SearchOptions {
+    page?: number;
+    limit?: number;
+    sort?: string; // Relevance unless another field is given
+    order?: "asc" | "desc";
+    rule?: ActiveMerchandisingRule; // Arranges the results (in relevance order only)
+}
+
+// What a query without any searchable word (e.g. only punctuation) matches
+const MATCH_NOTHING = { _id: { $in: [] } };
+
+// Left out of results
+const HIDDEN_FIELDS: Record<string, 0> = { search: 0, salesCount: 0, relevance: 0 };
+
+export interface ProductSuggestion {
+    _id: string;
+    name: string;
+    slug: string;
+    image?: string;
+}
+
+/**
+ * Product search without an external search server. Products keep the accent-free words of their
+ * searchable text (see getProductSearchFields); a query matches products having every one of its
+ * words, or a word a small number of typos away from it, or a synonym of it.
+ */
+export class SearchService {
+    private static vocabulary: { terms: string[]; loadedAt: number } | null = null;
+
+    /**
+     * Filter matching the products that contain every word of the query (allowing typos and
+     * synonyms)
+     */
+    static async getMatchQuery(query: string): Promise<Record<string, any>> {
+        const clauses = await this.expand(query, false);
+        return this.buildMatch(clauses);
+    }
+
+    /**
+     * Search products within a filter, ranked by relevance boosted by featured status, rating and
+     * sales
+     */
+    static async search(
+        query: string,
+        filterQuery: Record<string, any>,
+        options: SearchOptions = {}
+    ): Promise<{
+        products: IProduct[];
+        pagination: { page: number; limit: number; total: number; pages: number };
+    }> {
+        try {
+            const page = Math.max(1, options.page || 1);
+            const limit = Math.min(100, Math.max(1, options.limit || 20));
+            const clauses = await this.expand(query, false);
+            if (clauses.length === 0) {
+                return { products: [], pagination: { page, limit, total: 0, pages: 0 } };
+            }
+
+            const byRelevance = !options.sort || options.sort === "relevance";
+
+            const sort: Record<string, 1 | -1> = byRelevance
+                ? { relevance: -1 }
+                : { [options.sort!]: options.order === "asc" ? 1 : -1, relevance: -1 };
+            const match = { ...filterQuery, ...this.buildMatch(clauses) };
+            const relevance = this.relevanceStage(clauses, query);
+
+            if (options.rule && byRelevance) {
+                const { products, total } = await MerchandisingService.arrange(options.rule, {
+                    match,
+                    stages: [relevance],
+                    sort,
+                    page,
+                    limit,
+                    project: HIDDEN_FIELDS
+                });
+                return { products, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+            }
+
+            const [result] = await Product.aggregate([
+                { $match: match },
+                relevance,
+                {
+                    $facet: {
+                        products: [
+                            { $sort: { ...sort, _id: 1 } },
+                            { $skip: (page - 1) * limit },
+                            { $limit: limit },
+                            { $project: HIDDEN_FIELDS }
+                        ],
+                        total: [{ $count: "count" }]
+                    }
+                }
+            ]);
+
+            const total = result.total[0]?.count || 0;
+            return {
+                products: applyVirtuals(Product.schema, result.products),
+                pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+            };
+        } catch (error) {
+            logger.error("Search products error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Autocomplete: active products matching what has been typed so far, the last word being
+     * possibly unfinished
+     */
+    static async suggest(query: string, limit = 8): Promise<ProductSuggestion[]> {
+        try {
+            const clauses = await this.expand(query, true);
+            if (clauses.length === 0) {
+                return [];
+            }
+
+            const products = await Product.aggregate([
+                { $match: { status: "active", isVisible: true, ...this.buildMatch(clauses) } },
+                this.relevanceStage(clauses, query),
+                { $sort: { relevance: -1, _id: 1 } },
+                { $limit: Math.min(20, Math.max(1, limit)) },
+                { $project: { name: 1, slug: 1, images: 1 } }
+            ]);
+
+            return products.map((product) => ({
+                _id: product._id.toString(),
+                name: product.name,
+                slug: product.slug,
+                image: (product.images?.find((image: any) => image.isMain) || product.images?.[0])?.url
+            }));
+        } catch (error) {
+            logger.error("Suggest products error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Read the indexed words again on the next search, so new products' words can be matched
+     * with typos and completed
+     */
+    static invalidateVocabulary(): void {
+        this.vocabulary = null;
+    }
+
+    /**
+     * The clauses of a query: its words, with each phrase that has synonyms taken together. Every
+     * word stands for itself, the indexed words within its typo allowance and, for the unfinished
+     * last word of a suggestion, the words it starts.
+     */
+    private static async expand(query: string, completeLastWord: boolean): Promise<QueryClause[]> {
+        const words = [...new Set(normalizeSearchText(query).split(" ").filter(Boolean))];
+        if (words.length === 0) {
+            return [];
+        }
+
+        const [vocabulary, synonyms] = await Promise.all([this.getVocabulary(), MerchandisingService.getSynonyms()]);
+        const expandWord = (word: string, complete: boolean): WordMatch => {
+            const maxEdits = this.getMaxEdits(word);
+            const close = vocabulary
+                .map((term) => ({ term, distance: editDistance(word, term, maxEdits) }))
+                .filter(({ term, distance }) => term !== word && distance <= maxEdits)
+                .sort((a, b) => a.distance - b.distance)
+                .map(({ term }) => term);
+
+            const completions = complete
+                ? vocabulary
+                      .filter((term) => term !== word && term.startsWith(word))
+                      .sort((a, b) => a.length - b.length)
+                : [];
+
+            return { word, terms: [word, ...new Set([...completions, ...close])].slice(0, MAX_EXPANSIONS + 1) };
+        };
+
+        const clauses: QueryClause[] = [];
+        for (let start = 0; start < words.length; ) {
+            const { length, others } = this.findSynonyms(words, start, synonyms);
+            const typed = words
+                .slice(start, start + length)
+                .map((word, index) => expandWord(word, completeLastWord && start + index === words.length - 1));
+
+            clauses.push({
+                alternatives: [typed, ...others.map((other) => other.split(" ").map((word) => expandWord(word, false)))]
+            });
+            start += length;
+        }
+        return clauses;
+    }
+
+    // The longest phrase starting at the given word that has synonyms, and its synonyms
+    private static findSynonyms(
+        words: string[],
+        start: number,
+        synonyms: string[][]
+    ): { length: number; others: string[] } {
+        for (let end = words.length; end > start; end--) {
+            const phrase = words.slice(start, end).join(" ");
+            const group = synonyms.find((terms) => terms.includes(phrase));
+            if (group) {
+                return { length: end - start, others: group.filter((term) => term !== phrase) };
+            }
+        }
+        return { length: 1, others: [] };
+    }
+
+    // Short words must match exactly; longer ones may have one or two typos
+    private static getMaxEdits(word: string): number {
+        if (word.length <= 3) return 0;
+        if (word.length <= 6) return 1;
+        return 2;
+    }
+
+    private static buildMatch(clauses: QueryClause[]): Record<string, any> {
+        if (clauses.length === 0) {
+            return MATCH_NOTHING;
+        }
+
+        const matchWords = (words: WordMatch[]) => words.map(({ terms }) => ({ "search.keywords": { $in: terms } }));
+        return {
+            $and: clauses.flatMap(({ alternatives }): Record<string, any>[] =>
+                alternatives.length === 1
+                    ? matchWords(alternatives[0])
+                    : [{ $or: alternatives.map((words) => ({ $and: matchWords(words) })) }]
+            )
+        };
+    }
+
+    private static relevanceStage(clauses: QueryClause[], query: string): PipelineStage.AddFields {
+        const keywords = { $ifNull: ["$search.keywords", []] };
+        const phrase = normalizeSearchText(query);
+
+        return {
+            $addFields: {
+                relevance: {
+                    $add: [
+                        // Per typed word: more when the words typed are found than a misspelling or synonym
+                        ...clauses.map(({ alternatives: [typed, ...others] }) => ({
+                            $cond: [
+                                { $and: typed.map(({ word }) => ({ $in: [word, keywords] })) },
+                                EXACT_WORD_SCORE * typed.length,
+                                {
+                                    $cond: [
+                                        {
+                                            $or: [typed, ...others].map((words) => ({
+                                                $and: words.map(({ terms }) => ({
+                                                    $gt: [{ $size: { $setIntersection: [keywords, terms] } }, 0]
+                                                }))
+                                            }))
+                                        },
+                                        CLOSE_WORD_SCORE * typed.length,
+                                        0
+                                    ]
+                                }
+                            ]
+                        })),
+                        {
+                            $cond: [
+                                { $gte: [{ $indexOfCP: [{ $ifNull: ["$search.name", ""] }, phrase] }, 0] },
+                                NAME_PHRASE_SCORE,
+                                0
+                            ]
+                        },
+                        { $cond: ["$isFeatured", FEATURED_BOOST, 0] },
+                        { $multiply: [{ $ifNull: ["$averageRating", 0] }, RATING_BOOST] },
+                        { $multiply: [{ $log10: { $add: [{ $ifNull: ["$salesCount", 0] }, 1] } }, SALES_BOOST] }
+                    ]
+                }
+            }
+        };
+    }
+
+    private static async getVocabulary(): Promise<string[]> {
+        if (this.vocabulary && Date.now() - this.vocabulary.loadedAt < VOCABULARY_TTL) {
+            return this.vocabulary.terms;
+        }
+
+        const terms: string[] = await Product.distinct("search.keywords");
+        this.vocabulary = { terms, loadedAt: Date.now() };
+        return terms;
+    }
+}
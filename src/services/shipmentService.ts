@@ -0,0 +1,396 @@
+import { Order, IOrder, IOrderItem } from "../models/Order";
+import { Shipment, IShipment, IShipmentItem, ShipmentStatus } from "../models/Shipment";
+import { Product } from "../models/Product";
+import { config } from "../config/config";
+import {
+    CarrierAdapter,
+    CarrierTrackingEvent,
+    CarrierWebhookPayload,
+    ShipmentParcelItem
+} from "./carriers/carrierAdapter";
+import { GhnCarrier } from "./carriers/ghnCarrier";
+import { GhtkCarrier } from "./carriers/ghtkCarrier";
+import { FakeCarrier } from "./carriers/fakeCarrier";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+
+export interface CreateShipmentData {
+    carrier: string;
+    // Defaults to every unit not shipped or refunded yet
+    items?: { itemId: string; quantity: number }[];
+    note?: string;
+}
+
+export interface ShipmentWebhookOutcome {
+    // True when the event had already been recorded and nothing was changed
+    duplicate: boolean;
+    shipment: IShipment;
+}
+
+export const fakeCarrier = new FakeCarrier();
+
+const carriers = new Map<string, CarrierAdapter>([
+    ["ghn", new GhnCarrier()],
+    ["ghtk", new GhtkCarrier()]
+]);
+
+// The fake carrier accepts webhooks signed with a well-known secret, so it only exists in test/dev
+if (config.carriers.useFakeCarrier) {
+    carriers.set(fakeCarrier.name, fakeCarrier);
+}
+
+// Orders that can still be (partly) handed to a carrier
+const SHIPPABLE_ORDER_STATUSES: IOrder["status"][] = ["confirmed", "processing", "shipped"];
+
+// The parcel has left the warehouse
+const WITH_CARRIER_STATUSES: ShipmentStatus[] = [
+    "picked_up",
+    "in_transit",
+    "out_for_delivery",
+    "failed_attempt",
+    "delivered"
+];
+
+// Labels that have not been cancelled count towards the shipped quantities
+const ACTIVE_SHIPMENT = { status: { $ne: "cancelled" } };
+
+export class ShipmentService {
+    /**
+     * Resolve a carrier adapter by name
+     */
+    static getCarrier(name: string): CarrierAdapter {
+        const carrier = carriers.get(name.toLowerCase());
+        if (!carrier) {
+            throw new AppError(`Carrier ${name} is not supported`, 404);
+        }
+        return carrier;
+    }
+
+    /**
+     * Add or replace a carrier adapter
+     */
+    static registerCarrier(carrier: CarrierAdapter): void {
+        carriers.set(carrier.name, carrier);
+    }
+
+    /**
+     * Create a carrier label for some or all of an order's units (admin). An order can
+     * be split across several shipments; a confirmed order moves to processing.
+     */
+    static async createShipment(orderId: string, data: CreateShipmentData, adminId: string): Promise<IShipment> {
+        try {
+            const order = await Order.findById(orderId);
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+                throw new AppError(`Cannot ship an order that is ${order.status}`, 400);
+            }
+
+            const carrier = this.getCarrier(data.carrier);
+            const lines = this.resolveShipmentItems(order, data.items);
+
+            const products = await Product.find({ _id: { $in: lines.map(({ item }) => item.product) } })
+                .select("weight")
+                .lean();
+            const weights = new Map(products.map((product: any) => [product._id.toString(), product.weight]));
+
+            const parcelItems: ShipmentParcelItem[] = lines.map(({ item, quantity }) => ({
+                name: item.name,
+                sku: item.sku,
+                quantity,
+                weight: weights.get(item.product.toString()) || 0,
+                price: item.price
+            }));
+
+            // The first parcel of an unpaid cash-on-delivery order collects the whole amount
+            const codCollected = await Shipment.exists({ order: order._id, codAmount: { $gt: 0 }, ...ACTIVE_SHIPMENT });
+            const codAmount =
+                order.payment.method === "cash_on_delivery" && order.payment.status !== "completed" && !codCollected
+                    ? Math.max(0, order.total - (order.payment.refundAmount || 0))
+                    : 0;
+
+            const label = await carrier.createLabel({ order, items: parcelItems, codAmount, note: data.note });
+
+            let shipment: IShipment;
+            try {
+                shipment = await Shipment.create({
+                    order: order._id,
+                    carrier: carrier.name,
+                    trackingNumber: label.trackingNumber,
+                    labelUrl: label.labelUrl,
+                    items: lines.map(({ item, quantity }) => ({
+                        item: item._id,
+                        product: item.product,
+                        name: item.name,
+                        quantity
+                    })),
+                    fee: label.fee,
+                    codAmount,
+                    estimatedDelivery: label.estimatedDelivery,
+                    createdBy: adminId
+                });
+            } catch (error) {
+                // Void the label so the carrier does not come for a parcel we have no record of
+                await carrier.cancel(label.trackingNumber).catch(() => undefined);
+                throw error;
+            }
+
+            lines.forEach(({ item, quantity }) => {
+                item.shippedQuantity = (item.shippedQuantity || 0) + quantity;
+            });
+            if (!order.trackingNumber) {
+                order.trackingNumber = label.trackingNumber;
+            }
+            if (
+                label.estimatedDelivery &&
+                (!order.estimatedDelivery || label.estimatedDelivery > order.estimatedDelivery)
+            ) {
+                order.estimatedDelivery = label.estimatedDelivery;
+            }
+
+            if (order.status === "confirmed") {
+                await order.updateStatus(
+                    "processing",
+                    `Shipment ${label.trackingNumber} created with ${carrier.name}`,
+                    adminId
+                );
+            } else {
+                await order.save();
+            }
+
+            logger.info(`Shipment ${label.trackingNumber} (${carrier.name}) created for order: ${order.orderNumber}`);
+            return shipment;
+        } catch (error) {
+            logger.error("Create shipment error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get an order's shipments; pass the caller's id to restrict to their own orders
+     */
+    static async getOrderShipments(orderId: string, userId?: string): Promise<IShipment[]> {
+        try {
+            const order = await Order.findOne(userId ? { _id: orderId, user: userId } : { _id: orderId }).select("_id");
+            if (!order) {
+                throw new AppError("Order not found", 404);
+            }
+
+            return await Shipment.find({ order: order._id }).sort({ createdAt: 1 });
+        } catch (error) {
+            logger.error("Get order shipments error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Pull the latest tracking events from the carrier (admin, or for carriers without webhooks)
+     */
+    static async refreshTracking(shipmentId: string): Promise<IShipment> {
+        try {
+            const shipment = await this.findShipment(shipmentId);
+            const events = await this.getCarrier(shipment.carrier).getTracking(shipment.trackingNumber);
+
+            const recorded = new Set(shipment.events.map((event) => event.eventId).filter(Boolean));
+            const newEvents = events
+                .filter((event) => !event.eventId || !recorded.has(event.eventId))
+                .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+            if (newEvents.length === 0) {
+                return shipment;
+            }
+
+            newEvents.forEach((event) => this.applyEvent(shipment, event));
+            await shipment.save();
+            await this.syncOrder(shipment);
+
+            return shipment;
+        } catch (error) {
+            logger.error("Refresh tracking error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Void a label that has not been picked up yet; its units can be shipped again
+     */
+    static async cancelShipment(shipmentId: string, adminId?: string): Promise<IShipment> {
+        try {
+            const shipment = await this.findShipment(shipmentId);
+
+            if (shipment.status !== "label_created") {
+                throw new AppError(`Cannot cancel a shipment that is ${shipment.status}`, 400);
+            }
+
+            await this.getCarrier(shipment.carrier).cancel(shipment.trackingNumber);
+
+            this.applyEvent(shipment, { status: "cancelled", description: "Label cancelled", occurredAt: new Date() });
+            await shipment.save();
+            await this.syncOrder(shipment);
+
+            logger.info(`Shipment ${shipment.trackingNumber} cancelled${adminId ? ` by: ${adminId}` : ""}`);
+            return shipment;
+        } catch (error) {
+            logger.error("Cancel shipment error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Verify and apply a carrier status webhook exactly once per event
+     */
+    static async handleWebhook(carrierName: string, payload: CarrierWebhookPayload): Promise<ShipmentWebhookOutcome> {
+        const carrier = this.getCarrier(carrierName);
+
+        const result = await carrier.parseWebhook(payload);
+        if (!result.valid || !result.trackingNumber || !result.event) {
+            throw new AppError(`Invalid carrier webhook: ${result.reason || "missing tracking number"}`, 400);
+        }
+
+        const event = result.event;
+        const filter: Record<string, any> = { carrier: carrier.name, trackingNumber: result.trackingNumber };
+
+        // Record the event atomically so retried deliveries are applied once
+        const shipment = await Shipment.findOneAndUpdate(
+            event.eventId ? { ...filter, "events.eventId": { $ne: event.eventId } } : filter,
+            { $push: { events: event } },
+            { new: true, runValidators: true }
+        );
+
+        if (!shipment) {
+            const existing = await Shipment.findOne(filter);
+            if (!existing) {
+                throw new AppError("Shipment not found", 404);
+            }
+            logger.info(`Duplicate ${carrier.name} event ignored: ${event.eventId}`);
+            return { duplicate: true, shipment: existing };
+        }
+
+        this.applyEvent(shipment, event, false);
+        await shipment.save();
+        await this.syncOrder(shipment);
+
+        logger.info(`Shipment ${shipment.trackingNumber} (${carrier.name}) is now ${shipment.status}`);
+        return { duplicate: false, shipment };
+    }
+
+    /**
+     * Record a tracking event and move the shipment to its status. Cancelled and returned
+     * shipments are final, and a delivered parcel can only come back as returned.
+     */
+    private static applyEvent(shipment: IShipment, event: CarrierTrackingEvent, record: boolean = true): void {
+        if (record) {
+            shipment.events.push(event);
+        }
+
+        if (shipment.status === "cancelled" || shipment.status === "returned") {
+            return;
+        }
+        if (shipment.status === "delivered" && event.status !== "returned") {
+            return;
+        }
+
+        shipment.status = event.status;
+
+        if (WITH_CARRIER_STATUSES.includes(event.status) && !shipment.pickedUpAt) {
+            shipment.pickedUpAt = event.occurredAt;
+        }
+        if (event.status === "delivered") {
+            shipment.deliveredAt = event.occurredAt;
+        }
+    }
+
+    /**
+     * Bring the order in line with its shipments: shipped once any parcel is with the
+     * carrier, delivered once every unit still owed to the customer has been delivered.
+     * Cancelled shipments hand their units back for reshipping.
+     */
+    private static async syncOrder(shipment: IShipment): Promise<void> {
+        const order = await Order.findById(shipment.order);
+        if (!order) {
+            return;
+        }
+
+        const shipments = await Shipment.find({ order: order._id });
+        const unitsIn = (statuses: ShipmentStatus[] | null, item: IOrderItem) =>
+            shipments
+                .filter((candidate) =>
+                    statuses ? statuses.includes(candidate.status) : candidate.status !== "cancelled"
+                )
+                .flatMap((candidate) => candidate.items)
+                .filter((shipmentItem: IShipmentItem) => shipmentItem.item.toString() === item._id?.toString())
+                .reduce((sum, shipmentItem) => sum + shipmentItem.quantity, 0);
+
+        let changed = false;
+        order.items.forEach((item) => {
+            const shipped = unitsIn(null, item);
+            if (shipped !== (item.shippedQuantity || 0)) {
+                item.shippedQuantity = shipped;
+                changed = true;
+            }
+        });
+
+        const withCarrier = shipments.some((candidate) => WITH_CARRIER_STATUSES.includes(candidate.status));
+        if (withCarrier && ["confirmed", "processing"].includes(order.status)) {
+            if (order.status === "confirmed") {
+                await order.updateStatus("processing", "Shipment picked up by carrier");
+            }
+            await order.updateStatus("shipped", `Picked up by ${shipment.carrier} (${shipment.trackingNumber})`);
+            changed = false;
+        }
+
+        const allDelivered = order.items.every(
+            (item) => unitsIn(["delivered"], item) >= item.quantity - (item.refundedQuantity || 0)
+        );
+        if (order.status === "shipped" && allDelivered) {
+            await order.updateStatus("delivered", `Delivered by ${shipment.carrier}`);
+            changed = false;
+        }
+
+        if (changed) {
+            await order.save();
+        }
+    }
+
+    /**
+     * Resolve the units to ship, defaulting to everything not shipped or refunded yet
+     */
+    private static resolveShipmentItems(
+        order: IOrder,
+        requested?: CreateShipmentData["items"]
+    ): { item: IOrderItem; quantity: number }[] {
+        const remaining = (item: IOrderItem) =>
+            item.quantity - (item.shippedQuantity || 0) - (item.refundedQuantity || 0);
+
+        const lines = requested?.length
+            ? requested.map(({ itemId, quantity }) => {
+                  const item = order.items.find((orderItem) => orderItem._id?.toString() === itemId);
+                  if (!item) {
+                      throw new AppError(`Order item not found: ${itemId}`, 400);
+                  }
+
+                  if (quantity > remaining(item)) {
+                      throw new AppError(`Only ${remaining(item)} unit(s) of ${item.name} are left to ship`, 400);
+                  }
+
+                  return { item, quantity };
+              })
+            : order.items.filter((item) => remaining(item) > 0).map((item) => ({ item, quantity: remaining(item) }));
+
+        if (lines.length === 0) {
+            throw new AppError("Every item of this order has already been shipped", 400);
+        }
+
+        return lines;
+    }
+
+    private static async findShipment(shipmentId: string): Promise<IShipment> {
+        const shipment = await Shipment.findById(shipmentId);
+        if (!shipment) {
+            throw new AppError("Shipment not found", 404);
+        }
+        return shipment;
+    }
+}
@@ -0,0 +1,260 @@
+import { ShippingZone, IShippingZone, IShippingMethod, ShippingRateType } from "../models/ShippingZone";
+import { Product } from "../models/Product";
+import type { ICart } from "../models/Cart";
+import { CurrencyService, CurrencyConverter } from "./currencyService";
+import { config } from "../config/config";
+import { AppError } from "../utils/AppError";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+
+export interface ShippingAddress {
+    country: string;
+    state?: string;
+}
+
+/**
+ * A line to ship (cart item or order item) with its product's shipping details
+ */
+export interface ShippingLine {
+    productId: string;
+    price: number;
+    quantity: number;
+    weight?: number; // kg per unit
+    dimensions?: {
+        length: number;
+        width: number;
+        height: number;
+        unit: "cm" | "in";
+    };
+    requiresShipping: boolean;
+    shippingClass?: string;
+}
+
+export interface ShippingQuote {
+    code: string;
+    name: string;
+    description?: string;
+    type: ShippingRateType;
+    zone: string;
+    cost: number;
+    estimatedDays?: {
+        min: number;
+        max: number;
+    };
+}
+
+export interface ShippingQuoteOptions {
+    subtotal?: number; // Defaults to the lines' value; pass the discounted subtotal when a coupon applies
+    freeShipping?: boolean; // Free-shipping coupon
+    currency?: string; // Currency of the lines and quotes; zone rates are set in the base currency
+}
+
+const CM_PER_INCH = 2.54;
+
+export class ShippingService {
+    /**
+     * Quote every method of the destination's zone that can carry the lines, cheapest first
+     */
+    static async quote(
+        address: ShippingAddress,
+        lines: ShippingLine[],
+        options: ShippingQuoteOptions = {}
+    ): Promise<ShippingQuote[]> {
+        try {
+            const shippable = lines.filter((line) => line.requiresShipping);
+            if (shippable.length === 0) {
+                return [];
+            }
+
+            const zone = await this.findZone(address);
+            if (!zone) {
+                return [];
+            }
+
+            const converter = await CurrencyService.getConverter(options.currency || config.currency.base);
+            const subtotal = options.subtotal ?? lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+            const actualWeight = shippable.reduce((sum, line) => sum + (line.weight || 0) * line.quantity, 0);
+
+            return zone.methods
+                .filter((method) => this.isAvailable(method, shippable, subtotal, actualWeight, converter))
+                .map((method) => ({
+                    code: method.code,
+                    name: method.name,
+                    description: method.description,
+                    type: method.type,
+                    zone: zone.name,
+                    cost: options.freeShipping
+                        ? 0
+                        : converter.convert(this.priceMethod(method, shippable, actualWeight)),
+                    estimatedDays:
+                        method.estimatedDays?.max !== undefined
+                            ? { min: method.estimatedDays.min, max: method.estimatedDays.max }
+                            : undefined
+                }))
+                .sort((a, b) => a.cost - b.cost);
+        } catch (error) {
+            logger.error("Quote shipping error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Quote a cart, resolving each item's weight, dimensions and shipping class
+     */
+    static async quoteCart(
+        cart: ICart,
+        address: ShippingAddress,
+        options: ShippingQuoteOptions = {}
+    ): Promise<ShippingQuote[]> {
+        const productIds = cart.items.map((item: any) => (item.product?._id || item.product).toString());
+        const products = await Product.find({ _id: { $in: productIds } })
+            .select("weight dimensions requiresShipping shippingClass")
+            .lean();
+        const productMap = new Map(products.map((product: any) => [product._id.toString(), product]));
+
+        const lines: ShippingLine[] = cart.items.map((item, index) => {
+            const product: any = productMap.get(productIds[index]);
+            return {
+                productId: productIds[index],
+                price: item.price,
+                quantity: item.quantity,
+                weight: product?.weight,
+                dimensions: product?.dimensions,
+                requiresShipping: product?.requiresShipping ?? true,
+                shippingClass: product?.shippingClass
+            };
+        });
+
+        return this.quote(address, lines, { currency: cart.currency, ...options });
+    }
+
+    /**
+     * Price the method chosen at checkout. Without a choice the cheapest method is used.
+     * Returns null when nothing needs shipping, or when no zones are configured at all
+     * (shipping is then free, as it was before zones existed).
+     */
+    static async resolveMethod(
+        address: ShippingAddress,
+        lines: ShippingLine[],
+        code?: string,
+        options: ShippingQuoteOptions = {}
+    ): Promise<ShippingQuote | null> {
+        if (!lines.some((line) => line.requiresShipping)) {
+            return null;
+        }
+
+        const quotes = await this.quote(address, lines, options);
+        if (quotes.length === 0) {
+            if (!(await ShippingZone.exists({ isActive: true }))) {
+                return null;
+            }
+            throw new AppError("We do not ship this order to the given address", 400);
+        }
+
+        if (!code) {
+            return quotes[0];
+        }
+
+        const quote = quotes.find((candidate) => candidate.code === code.toLowerCase());
+        if (!quote) {
+            throw new AppError(`Shipping method ${code} is not available for this order`, 400);
+        }
+
+        return quote;
+    }
+
+    /**
+     * The zone covering the address: a state match beats a country-wide zone, which beats a
+     * rest-of-world zone (no countries). Priority breaks ties.
+     */
+    private static async findZone(address: ShippingAddress): Promise<IShippingZone | null> {
+        const country = address.country.trim().toUpperCase();
+        const state = address.state?.trim().toLowerCase();
+
+        const zones = await ShippingZone.find({
+            isActive: true,
+            $or: [{ countries: country }, { countries: { $size: 0 } }]
+        });
+
+        const specificity = (zone: IShippingZone) =>
+            (zone.countries.length > 0 ? 1 : 0) + (zone.states.length > 0 ? 2 : 0);
+
+        return (
+            zones
+                .filter(
+                    (zone) =>
+                        zone.states.length === 0 || zone.states.some((zoneState) => zoneState.toLowerCase() === state)
+                )
+                .sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority)[0] || null
+        );
+    }
+
+    private static isAvailable(
+        method: IShippingMethod,
+        lines: ShippingLine[],
+        subtotal: number,
+        weight: number,
+        converter: CurrencyConverter
+    ): boolean {
+        if (!method.isActive) {
+            return false;
+        }
+
+        if (method.type === "free_over_threshold" && subtotal < converter.convert(method.threshold || 0)) {
+            return false;
+        }
+
+        if (method.maxWeight !== undefined && method.maxWeight !== null && weight > method.maxWeight) {
+            return false;
+        }
+
+        // Restricted methods only carry the classes they list (e.g. "bulky", "fragile")
+        if (method.shippingClasses.length > 0) {
+            return lines.every((line) => !!line.shippingClass && method.shippingClasses.includes(line.shippingClass));
+        }
+
+        return true;
+    }
+
+    /**
+     * Cost in base currency minor units, rounded once after applying the per-kg rate
+     */
+    private static priceMethod(method: IShippingMethod, lines: ShippingLine[], actualWeight: number): number {
+        const base = config.currency.base;
+        const weightPrice = (weight: number) =>
+            Money.of(method.baseRate, base).add(Money.of(method.ratePerKg, base).multiply(weight)).amount;
+
+        switch (method.type) {
+            case "flat":
+                return method.baseRate;
+
+            case "weight":
+                return weightPrice(actualWeight);
+
+            case "volumetric": {
+                // Carriers bill the larger of the actual and the dimensional weight
+                const volumetricWeight = lines.reduce(
+                    (sum, line) => sum + (this.getVolume(line) / method.volumetricDivisor) * line.quantity,
+                    0
+                );
+                return weightPrice(Math.max(actualWeight, volumetricWeight));
+            }
+
+            case "free_over_threshold":
+                return 0;
+        }
+    }
+
+    /**
+     * Volume of one unit in cm³
+     */
+    private static getVolume(line: ShippingLine): number {
+        if (!line.dimensions) {
+            return 0;
+        }
+
+        const { length, width, height, unit } = line.dimensions;
+        const factor = unit === "in" ? CM_PER_INCH ** 3 : 1;
+        return (length || 0) * (width || 0) * (height || 0) * factor;
+    }
+}
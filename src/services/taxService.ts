@@ -0,0 +1,160 @@
+import { TaxRule, ITaxRule } from "../models/TaxRule";
+import { Product } from "../models/Product";
+import type { ICart } from "../models/Cart";
+import type { IOrderTaxLine } from "../models/Order";
+import { config } from "../config/config";
+import { logger } from "../utils/logger";
+import { Money } from "../utils/money";
+
+export interface TaxAddress {
+    country: string;
+    state?: string;
+}
+
+/**
+ * A priced line to tax (cart item or order item)
+ */
+export interface TaxableLine {
+    productId: string;
+    category?: string;
+    taxExempt?: boolean;
+    price: number; // Minor units
+    quantity: number;
+}
+
+export interface LineTax {
+    productId: string;
+    rate: number;
+    tax: number;
+    inclusive: boolean;
+    ruleName?: string;
+}
+
+export interface TaxCalculation {
+    lines: LineTax[];
+    tax: number; // All tax, VAT-inclusive and exclusive
+    addedTax: number; // Tax charged on top of the prices (VAT-exclusive lines)
+    taxRate: number; // Effective rate on the tax-free amount
+    breakdown: IOrderTaxLine[];
+}
+
+export class TaxService {
+    /**
+     * Tax each line with the most specific rule for the destination. The order discount is
+     * spread over the lines by value, so tax is charged on what the customer actually pays.
+     * Amounts are integer minor units; each line's tax is rounded once.
+     */
+    static async calculate(
+        address: TaxAddress,
+        lines: TaxableLine[],
+        discount: number = 0,
+        currency: string = config.currency.base
+    ): Promise<TaxCalculation> {
+        try {
+            const rules = await this.findRules(address);
+            const grossLines = lines.map((line) => Money.of(line.price, currency).multiply(line.quantity));
+            const discountShares = Money.of(discount, currency).allocate(grossLines.map((gross) => gross.amount));
+
+            const breakdown = new Map<string, { rule: ITaxRule; taxable: Money; tax: Money }>();
+            let netTotal = Money.zero(currency);
+
+            const lineTaxes: LineTax[] = lines.map((line, index) => {
+                const base = grossLines[index].subtract(discountShares[index]);
+                const rule = line.taxExempt ? undefined : this.resolveRule(rules, line.category);
+
+                if (!rule || rule.rate === 0) {
+                    netTotal = netTotal.add(base);
+                    return { productId: line.productId, rate: 0, tax: 0, inclusive: false };
+                }
+
+                // VAT-inclusive prices already contain the tax; carve it out instead of adding it
+                const tax = base.multiply(rule.priceIncludesTax ? rule.rate / (1 + rule.rate) : rule.rate);
+                const taxable = rule.priceIncludesTax ? base.subtract(tax) : base;
+                netTotal = netTotal.add(taxable);
+
+                const key = `${rule.name}:${rule.rate}:${rule.priceIncludesTax}`;
+                const entry = breakdown.get(key) || { rule, taxable: Money.zero(currency), tax: Money.zero(currency) };
+                entry.taxable = entry.taxable.add(taxable);
+                entry.tax = entry.tax.add(tax);
+                breakdown.set(key, entry);
+
+                return {
+                    productId: line.productId,
+                    rate: rule.rate,
+                    tax: tax.amount,
+                    inclusive: rule.priceIncludesTax,
+                    ruleName: rule.name
+                };
+            });
+
+            const tax = lineTaxes.reduce((sum, line) => sum + line.tax, 0);
+            const addedTax = lineTaxes.filter((line) => !line.inclusive).reduce((sum, line) => sum + line.tax, 0);
+
+            return {
+                lines: lineTaxes,
+                tax,
+                addedTax,
+                taxRate: netTotal.amount > 0 ? Math.min(Math.round((tax / netTotal.amount) * 10000) / 10000, 1) : 0,
+                breakdown: Array.from(breakdown.values()).map(
+                    (entry): IOrderTaxLine => ({
+                        name: entry.rule.name,
+                        rate: entry.rule.rate,
+                        inclusive: entry.rule.priceIncludesTax,
+                        taxableAmount: entry.taxable.amount,
+                        amount: entry.tax.amount
+                    })
+                )
+            };
+        } catch (error) {
+            logger.error("Calculate tax error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Tax a cart, resolving each item's category and exemption. Without an address the
+     * store's default country is used so the cart can show an estimate.
+     */
+    static async calculateCart(cart: ICart, address?: TaxAddress, discount: number = 0): Promise<TaxCalculation> {
+        const productIds = cart.items.map((item: any) => (item.product?._id || item.product).toString());
+        const products = await Product.find({ _id: { $in: productIds } })
+            .select("category taxExempt")
+            .lean();
+        const productMap = new Map(products.map((product: any) => [product._id.toString(), product]));
+
+        const lines: TaxableLine[] = cart.items.map((item, index) => {
+            const product: any = productMap.get(productIds[index]);
+            return {
+                productId: productIds[index],
+                category: product?.category?.toString(),
+                taxExempt: product?.taxExempt,
+                price: item.price,
+                quantity: item.quantity
+            };
+        });
+
+        return this.calculate(address || { country: config.tax.defaultCountry }, lines, discount, cart.currency);
+    }
+
+    /**
+     * Active rules for the country that cover the whole country or the given state
+     */
+    private static async findRules(address: TaxAddress): Promise<ITaxRule[]> {
+        const rules = await TaxRule.find({ country: address.country.trim().toUpperCase(), isActive: true });
+        const state = address.state?.trim().toLowerCase();
+
+        return rules.filter((rule) => !rule.state || rule.state.toLowerCase() === state);
+    }
+
+    /**
+     * Pick the most specific rule: a category match beats a state match, which beats a
+     * country-wide rule. Priority breaks ties.
+     */
+    private static resolveRule(rules: ITaxRule[], category?: string): ITaxRule | undefined {
+        const specificity = (rule: ITaxRule) => (rule.category ? 2 : 0) + (rule.state ? 1 : 0);
+
+        return rules
+            .filter((rule) => !rule.category || rule.category.toString() === category)
+            .sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority)[0];
+    }
+}
@@ -0,0 +1,394 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { Wishlist, IWishlist, IWishlistItem } from "../models/Wishlist";
+import { Product, IProduct, IProductVariant } from "../models/Product";
+import { ICart } from "../models/Cart";
+import { CartService } from "./cartService";
+import { eventService } from "./eventService";
+import { AppError } from "../utils/AppError";
+import { escapeRegex } from "../utils/validation";
+import { logger } from "../utils/logger";
+
+const DEFAULT_WISHLIST_NAME = "My wishlist";
+
+// Enough of each product to show the entry and whether it can be bought
+const PRODUCT_FIELDS =
+    "name price salePrice saleStartDate saleEndDate images sku status isVisible quantity trackQuantity allowBackorder hasVariants variants";
+
+interface WishlistData {
+    name: string;
+    isDefault?: boolean;
+}
+
+interface AddWishlistItemData {
+    productId: string;
+    variantId?: string;
+    // Option values, for clients that pick the variant by options instead of its id
+    variant?: Array<{
+        name: string;
+        value: string;
+    }>;
+    note?: string;
+}
+
+/**
+ * What anyone with a wishlist's share link may see
+ */
+export interface SharedWishlist {
+    name: string;
+    owner: string;
+    items: IWishlistItem[];
+    updatedAt: Date;
+}
+
+export class WishlistService {
+    /**
+     * Get the user's wishlists, default first
+     */
+    static async getWishlists(userId: string): Promise<IWishlist[]> {
+        try {
+            return await Wishlist.find({ user: userId })
+                .sort({ isDefault: -1, createdAt: 1 })
+                .populate("items.product", PRODUCT_FIELDS);
+        } catch (error) {
+            logger.error("Get wishlists error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get one of the user's wishlists
+     */
+    static async getWishlist(wishlistId: string, userId: string): Promise<IWishlist> {
+        try {
+            const wishlist = await this.findOwned(wishlistId, userId);
+            await wishlist.populate("items.product", PRODUCT_FIELDS);
+            return wishlist;
+        } catch (error) {
+            logger.error("Get wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a named wishlist. The user's first list becomes their default.
+     */
+    static async createWishlist(data: WishlistData, userId: string): Promise<IWishlist> {
+        try {
+            await this.assertNameAvailable(userId, data.name);
+
+            const hasDefault = await Wishlist.exists({ user: userId, isDefault: true });
+            if (data.isDefault && hasDefault) {
+                await Wishlist.updateMany({ user: userId, isDefault: true }, { $set: { isDefault: false } });
+            }
+
+            const wishlist = await Wishlist.create({
+                user: userId,
+                name: data.name,
+                isDefault: data.isDefault || !hasDefault
+            });
+
+            logger.info(`Wishlist created: ${wishlist._id} for user: ${userId}`);
+            return wishlist;
+        } catch (error) {
+            logger.error("Create wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Rename a wishlist or make it the default
+     */
+    static async updateWishlist(wishlistId: string, data: Partial<WishlistData>, userId: string): Promise<IWishlist> {
+        try {
+            const wishlist = await this.findOwned(wishlistId, userId);
+
+            if (data.name !== undefined && data.name !== wishlist.name) {
+                await this.assertNameAvailable(userId, data.name, wishlistId);
+                wishlist.name = data.name;
+            }
+
+            // The default can only be moved to another list, never removed
+            if (data.isDefault && !wishlist.isDefault) {
+                await Wishlist.updateMany({ user: userId, isDefault: true }, { $set: { isDefault: false } });
+                wishlist.isDefault = true;
+            }
+
+            await wishlist.save();
+            await wishlist.populate("items.product", PRODUCT_FIELDS);
+            return wishlist;
+        } catch (error) {
+            logger.error("Update wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a wishlist. Deleting the default makes the oldest remaining list the default.
+     */
+    static async deleteWishlist(wishlistId: string, userId: string): Promise<void> {
+        try {
+            const wishlist = await this.findOwned(wishlistId, userId);
+            await wishlist.deleteOne();
+
+            if (wishlist.isDefault) {
+                await Wishlist.findOneAndUpdate(
+                    { user: userId },
+                    { $set: { isDefault: true } },
+                    { sort: { createdAt: 1 } }
+                );
+            }
+
+            logger.info(`Wishlist deleted: ${wishlistId} for user: ${userId}`);
+        } catch (error) {
+            logger.error("Delete wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Save a product (or one of its variants) to a wishlist, or to the default list when none is
+     * given. Out-of-stock products can be saved; the event records the stock so merchandising can
+     * see demand for them.
+     */
+    static async addItem(data: AddWishlistItemData, userId: string, wishlistId?: string): Promise<IWishlist> {
+        try {
+            const product = await Product.findById(data.productId);
+            if (!product || product.status !== "active" || !product.isVisible) {
+                throw new AppError("Product not found", 404);
+            }
+
+            const variant = this.resolveVariant(product, data.variantId, data.variant);
+            const wishlist = wishlistId
+                ? await this.findOwned(wishlistId, userId)
+                : await this.getOrCreateDefault(userId);
+
+            const variantId = variant?._id?.toString();
+            const existing = wishlist.findItem(data.productId, variantId);
+            if (existing) {
+                // Saving again only updates the note
+                if (data.note !== undefined) {
+                    existing.note = data.note;
+                }
+            } else {
+                wishlist.items.push({
+                    product: product._id as mongoose.Types.ObjectId,
+                    variantId: variant?._id,
+                    variant: variant?.options,
+                    note: data.note,
+                    addedAt: new Date()
+                });
+            }
+            await wishlist.save();
+
+            if (!existing) {
+                await eventService.emitProductEvent({
+                    productId: data.productId,
+                    action: "add_to_wishlist",
+                    userId,
+                    metadata: {
+                        wishlistId: wishlist._id!.toString(),
+                        variantId,
+                        inStock: this.isInStock(product, variant)
+                    }
+                });
+            }
+
+            await wishlist.populate("items.product", PRODUCT_FIELDS);
+            logger.info(`Item added to wishlist: ${data.productId} for user: ${userId}`);
+            return wishlist;
+        } catch (error) {
+            logger.error("Add to wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove an entry from a wishlist
+     */
+    static async removeItem(wishlistId: string, itemId: string, userId: string): Promise<IWishlist> {
+        try {
+            const wishlist = await this.findOwned(wishlistId, userId);
+            this.findItemById(wishlist, itemId);
+
+            wishlist.items = wishlist.items.filter((item) => item._id?.toString() !== itemId);
+            await wishlist.save();
+
+            await wishlist.populate("items.product", PRODUCT_FIELDS);
+            return wishlist;
+        } catch (error) {
+            logger.error("Remove from wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Add a wishlist entry to the user's cart and take it off the list. The cart's own checks
+     * apply, so a product with variants needs one chosen before it can be moved.
+     */
+    static async moveToCart(
+        wishlistId: string,
+        itemId: string,
+        userId: string,
+        quantity = 1,
+        currency?: string
+    ): Promise<{ wishlist: IWishlist; cart: ICart }> {
+        try {
+            const wishlist = await this.findOwned(wishlistId, userId);
+            const item = this.findItemById(wishlist, itemId);
+            const productId = item.product.toString();
+            const variantId = item.variantId?.toString();
+
+            const cart = await CartService.addToCart({ productId, quantity, variantId }, userId, undefined, currency);
+
+            wishlist.items = wishlist.items.filter((entry) => entry._id?.toString() !== itemId);
+            await wishlist.save();
+
+            await eventService.emitProductEvent({
+                productId,
+                action: "add_to_cart",
+                quantity,
+                userId,
+                metadata: { variantId, wishlistId }
+            });
+
+            await wishlist.populate("items.product", PRODUCT_FIELDS);
+            logger.info(`Wishlist item moved to cart: ${productId} x${quantity} for user: ${userId}`);
+            return { wishlist, cart };
+        } catch (error) {
+            logger.error("Move wishlist item to cart error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Make a wishlist public and issue its share token. Sharing an already shared list keeps
+     * the existing link.
+     */
+    static async share(wishlistId: string, userId: string): Promise<IWishlist> {
+        try {
+            const wishlist = await this.findOwned(wishlistId, userId);
+            if (!wishlist.isPublic || !wishlist.shareToken) {
+                wishlist.isPublic = true;
+                wishlist.shareToken = crypto.randomBytes(24).toString("base64url");
+                await wishlist.save();
+            }
+            return wishlist;
+        } catch (error) {
+            logger.error("Share wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Make a wishlist private again. Its old link stops working, even if it is shared again later.
+     */
+    static async unshare(wishlistId: string, userId: string): Promise<IWishlist> {
+        try {
+            const wishlist = await this.findOwned(wishlistId, userId);
+            wishlist.isPublic = false;
+            wishlist.shareToken = undefined;
+            await wishlist.save();
+            return wishlist;
+        } catch (error) {
+            logger.error("Unshare wishlist error:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a public wishlist by its share token, without the owner's account details
+     */
+    static async getSharedWishlist(token: string): Promise<SharedWishlist> {
+        try {
+            const wishlist = await Wishlist.findOne({ shareToken: token, isPublic: true })
+                .populate("user", "firstName")
+                .populate("items.product", PRODUCT_FIELDS);
+            if (!wishlist) {
+                throw new AppError("Wishlist not found", 404);
+            }
+
+            return {
+                name: wishlist.name,
+                owner: (wishlist.user as any)?.firstName || "",
+                // Products deleted since they were saved are left out
+                items: wishlist.items.filter((item) => item.product),
+                updatedAt: wishlist.updatedAt
+            };
+        } catch (error) {
+            logger.error("Get shared wishlist error:", error);
+            throw error;
+        }
+    }
+
+    private static async findOwned(wishlistId: string, userId: string): Promise<IWishlist> {
+        const wishlist = await Wishlist.findOne({ _id: wishlistId, user: userId });
+        if (!wishlist) {
+            throw new AppError("Wishlist not found", 404);
+        }
+        return wishlist;
+    }
+
+    private static async getOrCreateDefault(userId: string): Promise<IWishlist> {
+        const wishlist = await Wishlist.findOne({ user: userId, isDefault: true });
+        if (wishlist) {
+            return wishlist;
+        }
+
+        // A user whose default was never set (or raced with another add) gets one now
+        try {
+            return await Wishlist.create({ user: userId, name: DEFAULT_WISHLIST_NAME, isDefault: true });
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                return (await Wishlist.findOne({ user: userId, isDefault: true }))!;
+            }
+            throw error;
+        }
+    }
+
+    private static findItemById(wishlist: IWishlist, itemId: string): IWishlistItem {
+        const item = wishlist.items.find((entry) => entry._id?.toString() === itemId);
+        if (!item) {
+            throw new AppError("Item not found in wishlist", 404);
+        }
+        return item;
+    }
+
+    private static async assertNameAvailable(userId: string, name: string, excludeId?: string): Promise<void> {
+        const existing = await Wishlist.findOne({
+            user: userId,
+            name: new RegExp(`^${escapeRegex(name.trim())}$`, "i"),
+            ...(excludeId && { _id: { $ne: excludeId } })
+        });
+        if (existing) {
+            throw new AppError(`You already have a wishlist named "${name.trim()}"`, 400);
+        }
+    }
+
+    /**
+     * The variant being saved. Unlike the cart, a product with variants may be saved before one
+     * is chosen.
+     */
+    private static resolveVariant(
+        product: IProduct,
+        variantId?: string,
+        options?: AddWishlistItemData["variant"]
+    ): IProductVariant | undefined {
+        if (!variantId && !options?.length) {
+            return undefined;
+        }
+
+        const variant = product.findVariant(variantId, options);
+        if (!variant) {
+            throw new AppError("Variant not found", 404);
+        }
+        return variant;
+    }
+
+    private static isInStock(product: IProduct, variant?: IProductVariant): boolean {
+        if (!product.trackQuantity || product.allowBackorder) {
+            return true;
+        }
+        return variant ? variant.isActive && variant.quantity > 0 : product.quantity > 0;
+    }
+}
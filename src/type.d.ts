@@ -0,0 +1,7 @@
+// Fields the middleware adds to every request
+declare namespace Express {
+    interface Request {
+        guestSessionId?: string;
+        currency?: string;
+    }
+}
@@ -283,7 +283,7 @@ export interface BaseEvent {
 
 export interface ProductEvent extends BaseEvent {
     productId: string;
-    action: "view" | "add_to_cart" | "remove_from_cart" | "purchase";
+    action: "view" | "add_to_cart" | "remove_from_cart" | "purchase" | "add_to_wishlist";
     quantity?: number;
     price?: number;
 }
@@ -0,0 +1,26 @@
+/**
+ * Currency minor units (ISO 4217). Amounts are stored as integers in these units.
+ */
+
+const decimalsCache = new Map<string, number>();
+
+/**
+ * Number of decimals a currency is priced in, e.g. 0 for VND and JPY, 2 for USD
+ */
+export const getCurrencyDecimals = (currency: string): number => {
+    const code = currency.toUpperCase();
+    let decimals = decimalsCache.get(code);
+
+    if (decimals === undefined) {
+        try {
+            decimals =
+                new Intl.NumberFormat("en", { style: "currency", currency: code }).resolvedOptions()
+                    .maximumFractionDigits ?? 2;
+        } catch (error) {
+            decimals = 2;
+        }
+        decimalsCache.set(code, decimals);
+    }
+
+    return decimals;
+};
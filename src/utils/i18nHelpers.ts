@@ -160,9 +160,9 @@ export function formatNumber(number: number, language: SupportedLanguages): stri
 }
 
 /**
- * Format currency according to language locale
+ * Format currency according to language locale (in the language's own currency unless one is given)
  */
-export function formatCurrency(amount: number, language: SupportedLanguages): string {
+export function formatCurrency(amount: number, language: SupportedLanguages, currencyCode?: string): string {
     const currencyMap: Record<SupportedLanguages, { locale: string; currency: string }> = {
         [SupportedLanguages.ENGLISH]: { locale: 'en-US', currency: 'USD' },
         [SupportedLanguages.VIETNAMESE]: { locale: 'vi-VN', currency: 'VND' },
@@ -172,7 +172,7 @@ export function formatCurrency(amount: number, language: SupportedLanguages): st
     const { locale, currency } = currencyMap[language];
     return new Intl.NumberFormat(locale, {
         style: 'currency',
-        currency: currency
+        currency: currencyCode || currency
     }).format(amount);
 }
 
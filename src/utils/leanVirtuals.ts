@@ -0,0 +1,18 @@
+import { Schema } from "mongoose";
+
+/**
+ * Add a schema's virtuals to plain objects that did not come through a query, such as aggregation
+ * results, so they have the same fields as `.lean({ virtuals: true })` results. Populate virtuals
+ * (which need a query) are left out.
+ */
+export const applyVirtuals = <T extends Record<string, any>>(schema: Schema, docs: T[]): T[] => {
+    const virtuals = Object.entries(schema.virtuals).filter(([, virtual]: [string, any]) => !virtual.options?.ref);
+
+    return docs.map((doc) => {
+        const result: Record<string, any> = { ...doc };
+        for (const [path, virtual] of virtuals) {
+            result[path] = (virtual as any).applyGetters(undefined, doc);
+        }
+        return result as T;
+    });
+};
@@ -0,0 +1,156 @@
+import { getCurrencyDecimals } from "./currency";
+
+/**
+ * Round half away from zero, so refunds and charges round the same way
+ */
+export const roundHalfAwayFromZero = (value: number): number => Math.sign(value) * Math.round(Math.abs(value));
+
+/**
+ * Mongoose validator for fields holding an amount in integer minor units
+ */
+export const minorUnitsValidator = {
+    validator: (value: number) => value === undefined || value === null || Number.isSafeInteger(value),
+    message: "{PATH} must be an integer amount in minor units"
+};
+
+/**
+ * An amount of money in integer minor units (cents for USD, whole dong for VND) with its
+ * currency. Money is immutable; arithmetic stays in integers so totals never drift, and only
+ * multiplying by a rate or converting rounds, once per operation.
+ */
+export class Money {
+    private constructor(
+        readonly amount: number,
+        readonly currency: string
+    ) {}
+
+    static of(amount: number, currency: string): Money {
+        if (!Number.isSafeInteger(amount)) {
+            throw new Error(`Money amounts must be integer minor units, got ${amount}`);
+        }
+        return new Money(amount, currency.toUpperCase());
+    }
+
+    static zero(currency: string): Money {
+        return Money.of(0, currency);
+    }
+
+    /**
+     * From an amount in major units (e.g. 19.99 USD); used for migrating legacy values and gateway payloads
+     */
+    static fromMajor(value: number, currency: string): Money {
+        // toPrecision drops float noise such as 1.005 * 100 = 100.49999999999999
+        const minor = Number((value * 10 ** getCurrencyDecimals(currency)).toPrecision(15));
+        return Money.of(roundHalfAwayFromZero(minor), currency);
+    }
+
+    static sum(values: Money[], currency: string): Money {
+        return values.reduce((total, value) => total.add(value), Money.zero(currency));
+    }
+
+    toMajor(): number {
+        return this.amount / 10 ** getCurrencyDecimals(this.currency);
+    }
+
+    add(other: Money): Money {
+        this.assertSameCurrency(other);
+        return Money.of(this.amount + other.amount, this.currency);
+    }
+
+    subtract(other: Money): Money {
+        this.assertSameCurrency(other);
+        return Money.of(this.amount - other.amount, this.currency);
+    }
+
+    /**
+     * Multiply by a quantity or a rate, rounding to the nearest minor unit
+     */
+    multiply(factor: number): Money {
+        return Money.of(roundHalfAwayFromZero(this.amount * factor), this.currency);
+    }
+
+    /**
+     * Split into parts proportional to the weights. The parts always add up to this amount:
+     * the minor units lost to rounding go to the parts with the largest remainders.
+     */
+    allocate(weights: number[]): Money[] {
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+        if (totalWeight <= 0) {
+            return weights.map(() => Money.zero(this.currency));
+        }
+
+        const exact = weights.map((weight) => (this.amount * weight) / totalWeight);
+        const parts = exact.map((value) => Math.trunc(value));
+        let remainder = this.amount - parts.reduce((sum, part) => sum + part, 0);
+
+        const step = Math.sign(remainder);
+        const order = exact
+            .map((value, index) => ({ index, fraction: Math.abs(value - parts[index]) }))
+            .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+        for (let i = 0; remainder !== 0; i = (i + 1) % order.length) {
+            parts[order[i].index] += step;
+            remainder -= step;
+        }
+
+        return parts.map((part) => Money.of(part, this.currency));
+    }
+
+    /**
+     * Convert with an exchange rate (units of the target currency per unit of this one),
+     * optionally rounding to a multiple of roundingIncrement minor units
+     */
+    convert(currency: string, rate: number, roundingIncrement?: number): Money {
+        const scale = 10 ** (getCurrencyDecimals(currency) - getCurrencyDecimals(this.currency));
+        let amount = roundHalfAwayFromZero(Number((this.amount * rate * scale).toPrecision(15)));
+
+        if (roundingIncrement && roundingIncrement > 0) {
+            amount = roundHalfAwayFromZero(amount / roundingIncrement) * roundingIncrement;
+        }
+
+        return Money.of(amount, currency);
+    }
+
+    min(other: Money): Money {
+        this.assertSameCurrency(other);
+        return this.amount <= other.amount ? this : other;
+    }
+
+    max(other: Money): Money {
+        this.assertSameCurrency(other);
+        return this.amount >= other.amount ? this : other;
+    }
+
+    isZero(): boolean {
+        return this.amount === 0;
+    }
+
+    isNegative(): boolean {
+        return this.amount < 0;
+    }
+
+    equals(other: Money): boolean {
+        return this.currency === other.currency && this.amount === other.amount;
+    }
+
+    /**
+     * Format for display, e.g. "$19.99" or "250.000 ₫"
+     */
+    format(locale: string = "en-US"): string {
+        return new Intl.NumberFormat(locale, { style: "currency", currency: this.currency }).format(this.toMajor());
+    }
+
+    toString(): string {
+        return `${this.toMajor().toFixed(getCurrencyDecimals(this.currency))} ${this.currency}`;
+    }
+
+    toJSON(): { amount: number; currency: string } {
+        return { amount: this.amount, currency: this.currency };
+    }
+
+    private assertSameCurrency(other: Money): void {
+        if (other.currency !== this.currency) {
+            throw new Error(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+        }
+    }
+}
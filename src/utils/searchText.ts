@@ -0,0 +1,74 @@
+import { transliterate } from "./slug";
+
+/**
+ * Lowercase, accent-free text with punctuation turned into single spaces, so "Áo thun (nam)"
+ * and "ao thun nam" compare equal. Letters of other scripts are kept, with their combining signs
+ * (e.g. Thai vowels) and recomposed (stripping accents decomposes e.g. Japanese voiced kana).
+ */
+export const normalizeSearchText = (text: string): string =>
+    transliterate(text)
+        .normalize("NFC")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+        .trim();
+
+export const tokenize = (text: string): string[] => normalizeSearchText(text).split(" ").filter(Boolean);
+
+/**
+ * The distinct normalised words of the given texts
+ */
+export const getSearchKeywords = (...texts: Array<string | undefined>): string[] => [
+    ...new Set(texts.flatMap((text) => (text ? tokenize(text) : [])))
+];
+
+/**
+ * Levenshtein distance between two words, giving up (and returning max + 1) as soon as it must
+ * exceed max
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) {
+        return max + 1;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) {
+            return max + 1;
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+};
+
+interface SearchableProduct {
+    name: string;
+    shortDescription?: string;
+    description?: string;
+    sku?: string;
+    tags?: string[];
+    options?: Array<{ values: string[] }>;
+}
+
+/**
+ * What product search matches against: the normalised name (for phrase matches) and the words
+ * of the name, descriptions, SKU, tags and option values
+ */
+export const getProductSearchFields = (product: SearchableProduct) => ({
+    name: normalizeSearchText(product.name || ""),
+    keywords: getSearchKeywords(
+        product.name,
+        product.shortDescription,
+        product.description,
+        product.sku,
+        ...(product.tags || []),
+        ...(product.options || []).flatMap((option) => option.values)
+    )
+});
@@ -0,0 +1,67 @@
+import { Model, Schema } from "mongoose";
+
+const MAX_SLUG_LENGTH = 100;
+
+/**
+ * Strip diacritics, including the Vietnamese đ that Unicode does not decompose
+ * ("Áo dài Đỏ" -> "Ao dai Do")
+ */
+export const transliterate = (text: string): string =>
+    text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/đ/g, "d")
+        .replace(/Đ/g, "D");
+
+/**
+ * URL slug of a name: transliterated, lowercase, words joined by hyphens
+ */
+export const slugify = (text: string): string =>
+    transliterate(text)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .slice(0, MAX_SLUG_LENGTH)
+        .replace(/^-+|-+$/g, "");
+
+/**
+ * Mongoose plugin for documents addressed by a slug generated from their name. The slug is
+ * made unique by appending -2, -3...; renaming generates a new one and keeps the old ones in
+ * `slugHistory`, so old links can be redirected. A slug, current or old, belongs to one
+ * document only. Documents created before they had slugs get one the next time they are saved.
+ */
+export const slugHistoryPlugin = (schema: Schema) => {
+    schema.add({
+        slugHistory: {
+            type: [String],
+            default: []
+        }
+    });
+    schema.index({ slugHistory: 1 });
+
+    schema.pre("validate", async function () {
+        const doc = this as any;
+        const slugChanged = doc.isModified("slug") && doc.slug;
+        if (!doc.isNew && doc.slug && !slugChanged && !doc.isModified("name")) {
+            return;
+        }
+
+        const model = doc.constructor as Model<any>;
+        const previous: string | undefined = doc.isNew
+            ? undefined
+            : (await model.findById(doc._id).select("slug").lean<{ slug?: string }>())?.slug;
+
+        const base = slugify(slugChanged ? doc.slug : doc.name || "") || doc._id.toString();
+        let slug = base;
+        let suffix = 1;
+        while (await model.exists({ _id: { $ne: doc._id }, $or: [{ slug }, { slugHistory: slug }] })) {
+            slug = `${base}-${++suffix}`;
+        }
+
+        doc.slug = slug;
+        const history: string[] = (doc.slugHistory || []).filter((old: string) => old !== slug);
+        if (previous && previous !== slug && !history.includes(previous)) {
+            history.push(previous);
+        }
+        doc.slugHistory = history;
+    });
+};
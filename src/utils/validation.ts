@@ -164,6 +164,15 @@ export const sanitizeString = (str: string): string => {
         .trim();
 };
 
+/**
+ * Escape regular expression special characters so user input can be matched literally
+ * @param str - The string to escape
+ * @returns string - The escaped string
+ */
+export const escapeRegex = (str: string): string => {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+};
+
 /**
  * Normalize a string for search (remove accents, convert to lowercase)
  * @param str - The string to normalize
@@ -0,0 +1,18 @@
+import mongoose from "mongoose";
+import { Product } from "../src/models/Product";
+
+/**
+ * An active product with a unique SKU and 10 units in stock; any field can be overridden
+ */
+export const createProduct = (overrides: Record<string, any> = {}) =>
+    Product.create({
+        name: "Test T-Shirt",
+        description: "A comfortable cotton t-shirt",
+        price: 100,
+        sku: `SKU-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        quantity: 10,
+        category: new mongoose.Types.ObjectId(),
+        createdBy: new mongoose.Types.ObjectId(),
+        status: "active",
+        ...overrides
+    });
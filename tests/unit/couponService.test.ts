@@ -0,0 +1,115 @@
+import mongoose from "mongoose";
+import { CouponService, CouponLine } from "../../src/services/couponService";
+import { CartService } from "../../src/services/cartService";
+import { OrderService } from "../../src/services/orderService";
+import { Coupon } from "../../src/models/Coupon";
+import { DiscountType } from "../../src/types";
+import { createProduct } from "../factories";
+
+describe("CouponService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+    const categoryId = new mongoose.Types.ObjectId().toString();
+
+    const lines: CouponLine[] = [
+        { productId: new mongoose.Types.ObjectId().toString(), category: categoryId, price: 100, quantity: 2 },
+        { productId: new mongoose.Types.ObjectId().toString(), price: 50, quantity: 1 }
+    ];
+
+    it("should cap percentage discounts at maxDiscount", async () => {
+        await Coupon.create({ code: "save20", type: DiscountType.PERCENTAGE, value: 20, maxDiscount: 40 });
+
+        const result = await CouponService.evaluate("SAVE20", lines);
+
+        expect(result.eligibleSubtotal).toBe(250);
+        expect(result.discount).toBe(40);
+    });
+
+    it("should only discount items in the coupon's scope", async () => {
+        await Coupon.create({ code: "CAT10", type: DiscountType.PERCENTAGE, value: 10, categories: [categoryId] });
+
+        const result = await CouponService.evaluate("CAT10", lines);
+
+        expect(result.eligibleSubtotal).toBe(200);
+        expect(result.discount).toBe(20);
+    });
+
+    it("should reject carts below the minimum subtotal", async () => {
+        await Coupon.create({ code: "BIGSPEND", type: DiscountType.FIXED_AMOUNT, value: 30, minSubtotal: 500 });
+
+        await expect(CouponService.evaluate("BIGSPEND", lines)).rejects.toThrow("minimum subtotal of 500");
+    });
+
+    it("should reject expired coupons", async () => {
+        await Coupon.create({
+            code: "OLD",
+            type: DiscountType.FIXED_AMOUNT,
+            value: 10,
+            expiresAt: new Date(Date.now() - 1000)
+        });
+
+        await expect(CouponService.evaluate("OLD", lines)).rejects.toThrow("expired");
+    });
+
+    it("should not redeem a coupon past its usage limit", async () => {
+        const coupon = await Coupon.create({ code: "ONCE", type: DiscountType.FIXED_AMOUNT, value: 10, usageLimit: 1 });
+
+        await CouponService.redeem(coupon);
+
+        await expect(CouponService.redeem(coupon)).rejects.toThrow("usage limit");
+        await expect(CouponService.evaluate("ONCE", lines)).rejects.toThrow("usage limit");
+    });
+
+    it("should never redeem a coupon past a customer's limit under concurrent checkouts", async () => {
+        const coupon = await Coupon.create({
+            code: "WELCOME",
+            type: DiscountType.FIXED_AMOUNT,
+            value: 10,
+            perUserLimit: 1
+        });
+
+        const results = await Promise.allSettled(Array.from({ length: 5 }, () => CouponService.redeem(coupon, userId)));
+
+        expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+        expect((await Coupon.findById(coupon._id))?.usageCount).toBe(1);
+        await expect(CouponService.evaluate("WELCOME", lines, userId)).rejects.toThrow("already used");
+
+        // Other customers have their own allowance, and a released redemption can be used again
+        await CouponService.redeem(coupon, new mongoose.Types.ObjectId().toString());
+        await CouponService.release("welcome", userId);
+        await expect(CouponService.evaluate("WELCOME", lines, userId)).resolves.toMatchObject({ discount: 10 });
+        await expect(CouponService.redeem(coupon)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it("should apply the cart's coupon to the order total at checkout", async () => {
+        const product = await createProduct({ quantity: 5 });
+        await Coupon.create({ code: "TAKE25", type: DiscountType.FIXED_AMOUNT, value: 25 });
+
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+        await CartService.applyCoupon("take25", userId);
+
+        const summary = await CartService.getCartSummary(userId);
+        expect(summary.summary.discount).toBe(25);
+        expect(summary.summary.total).toBe(175);
+
+        const { order } = await OrderService.createOrder(
+            {
+                shippingAddress: {
+                    firstName: "John",
+                    lastName: "Doe",
+                    street: "1 Le Loi",
+                    city: "Ho Chi Minh",
+                    state: "HCM",
+                    zipCode: "700000",
+                    country: "VN"
+                },
+                paymentMethod: "cash_on_delivery"
+            },
+            userId
+        );
+
+        expect(order.discount).toBe(25);
+        expect(order.discountCode).toBe("TAKE25");
+        expect(order.total).toBe(order.subtotal + order.tax + order.shippingCost - 25);
+        expect((await Coupon.findOne({ code: "TAKE25" }))?.usageCount).toBe(1);
+    });
+});
@@ -0,0 +1,75 @@
+import mongoose from "mongoose";
+import { CurrencyService } from "../../src/services/currencyService";
+import { CartService } from "../../src/services/cartService";
+import { CouponService } from "../../src/services/couponService";
+import { ExchangeRate } from "../../src/models/ExchangeRate";
+import { Coupon } from "../../src/models/Coupon";
+import { DiscountType } from "../../src/types";
+import { createProduct } from "../factories";
+
+describe("CurrencyService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    const createShirt = (overrides: Record<string, any> = {}) => createProduct({ price: 250000, ...overrides });
+
+    beforeEach(async () => {
+        // 1 VND = 0.00004 USD = 0.006 JPY
+        await ExchangeRate.create([
+            { currency: "USD", rate: 0.00004 },
+            { currency: "JPY", rate: 0.006, roundingIncrement: 10 }
+        ]);
+    });
+
+    it("should convert minor units between currencies with different decimals", async () => {
+        expect(await CurrencyService.convert(250000, "USD")).toBe(1000);
+        expect(await CurrencyService.convert(999, "VND", "USD")).toBe(249750);
+        expect(await CurrencyService.convert(1000, "JPY", "USD")).toBe(1500);
+    });
+
+    it("should convert prices and prefer prices set for the currency", async () => {
+        const product = await createShirt({
+            onSale: true,
+            salePrice: 200000,
+            prices: [{ currency: "USD", price: 999 }]
+        });
+
+        const usd = CurrencyService.getProductPrices(product, await CurrencyService.getConverter("usd"));
+        expect(usd).toMatchObject({ currency: "USD", price: 999, salePrice: 800, finalPrice: 800 });
+
+        const jpy = CurrencyService.getProductPrices(product, await CurrencyService.getConverter("JPY"));
+        expect(jpy).toMatchObject({ currency: "JPY", price: 1500, salePrice: 1200, finalPrice: 1200 });
+
+        await expect(CurrencyService.getConverter("EUR")).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it("should reprice the cart when it switches currency", async () => {
+        const product = await createShirt({ prices: [{ currency: "USD", price: 999 }] });
+
+        const cart = await CartService.addToCart(
+            { productId: product._id!.toString(), quantity: 2 },
+            userId,
+            undefined,
+            "USD"
+        );
+        expect(cart.currency).toBe("USD");
+        expect(cart.items[0].price).toBe(999);
+        expect(cart.totalPrice).toBe(1998);
+
+        const switched = await CartService.getCart(userId, undefined, "VND");
+        expect(switched.currency).toBe("VND");
+        expect(switched.items[0].price).toBe(250000);
+        expect(switched.totalPrice).toBe(500000);
+    });
+
+    it("should convert fixed coupon amounts from the base currency", async () => {
+        await Coupon.create({ code: "TAKE50K", type: DiscountType.FIXED_AMOUNT, value: 50000, minSubtotal: 100000 });
+        const lines = [{ productId: new mongoose.Types.ObjectId().toString(), price: 1000, quantity: 1 }];
+
+        const result = await CouponService.evaluate("TAKE50K", lines, undefined, "USD");
+        expect(result.discount).toBe(200);
+
+        await expect(
+            CouponService.evaluate("TAKE50K", [{ ...lines[0], price: 300 }], undefined, "USD")
+        ).rejects.toThrow("minimum subtotal of 4.00 USD");
+    });
+});
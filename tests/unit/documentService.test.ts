@@ -0,0 +1,69 @@
+import mongoose from "mongoose";
+import { DocumentService } from "../../src/services/documentService";
+import { OrderService } from "../../src/services/orderService";
+import { CartService } from "../../src/services/cartService";
+import { TaxRule } from "../../src/models/TaxRule";
+import { SupportedLanguages } from "../../src/models/Translation";
+import { createProduct } from "../factories";
+
+describe("DocumentService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    const placeOrder = async () => {
+        await TaxRule.create({ name: "VAT 10%", country: "VN", rate: 0.1, priceIncludesTax: true });
+        const product = await createProduct({ price: 250000, quantity: 5 });
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+        const { order } = await OrderService.createOrder(
+            {
+                shippingAddress: {
+                    firstName: "John",
+                    lastName: "Doe",
+                    street: "1 Le Loi",
+                    city: "Ho Chi Minh",
+                    state: "HCM",
+                    zipCode: "700000",
+                    country: "VN"
+                },
+                paymentMethod: "cash_on_delivery",
+                customerNotes: "Leave at the front desk"
+            },
+            userId
+        );
+
+        return order;
+    };
+
+    it("should render the invoice as a PDF named after the order number", async () => {
+        const order = await placeOrder();
+
+        const invoice = await DocumentService.renderInvoice(
+            order._id!.toString(),
+            SupportedLanguages.VIETNAMESE,
+            userId
+        );
+
+        expect(invoice.filename).toBe(`invoice-${order.orderNumber}.pdf`);
+        expect(invoice.content.subarray(0, 4).toString()).toBe("%PDF");
+    });
+
+    it("should not render another customer's invoice", async () => {
+        const order = await placeOrder();
+
+        await expect(
+            DocumentService.renderInvoice(
+                order._id!.toString(),
+                SupportedLanguages.ENGLISH,
+                new mongoose.Types.ObjectId().toString()
+            )
+        ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it("should render the packing slip", async () => {
+        const order = await placeOrder();
+
+        const packingSlip = await DocumentService.renderPackingSlip(order._id!.toString(), SupportedLanguages.JAPANESE);
+
+        expect(packingSlip.filename).toBe(`packing-slip-${order.orderNumber}.pdf`);
+        expect(packingSlip.content.subarray(0, 4).toString()).toBe("%PDF");
+    });
+});
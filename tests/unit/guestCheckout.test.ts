@@ -0,0 +1,72 @@
+import { OrderService } from "../../src/services/orderService";
+import { OrderTrackingService } from "../../src/services/orderTrackingService";
+import { CartService } from "../../src/services/cartService";
+import { GuestSessionService } from "../../src/services/guestSessionService";
+import { Order } from "../../src/models/Order";
+import { createProduct } from "../factories";
+
+describe("Guest checkout", () => {
+    const shippingAddress = {
+        firstName: "Lan",
+        lastName: "Nguyen",
+        street: "1 Le Loi",
+        city: "Ho Chi Minh",
+        state: "HCM",
+        zipCode: "700000",
+        country: "VN"
+    };
+
+    const placeGuestOrder = async (email: string) => {
+        const product = await createProduct();
+        const { id: sessionId } = GuestSessionService.issue();
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, undefined, sessionId);
+
+        const { order } = await OrderService.createGuestOrder(
+            { email, shippingAddress, paymentMethod: "cash_on_delivery" },
+            sessionId
+        );
+        return order;
+    };
+
+    it("should create an order from a guest cart without a user", async () => {
+        const order = await placeGuestOrder("Lan@Example.com");
+
+        expect(order.user).toBeUndefined();
+        expect(order.email).toBe("lan@example.com");
+        expect(order.total).toBe(200);
+    });
+
+    it("should only show an order to someone with its number and email, or its link", async () => {
+        const order = await placeGuestOrder("lan@example.com");
+
+        const tracking = await OrderTrackingService.lookup(order.orderNumber.toLowerCase(), "LAN@example.com");
+        expect(tracking).toMatchObject({ orderNumber: order.orderNumber, status: "pending", canCreateAccount: true });
+        expect(tracking.statusHistory).toHaveLength(1);
+        expect(tracking).not.toHaveProperty("shippingAddress");
+
+        await expect(OrderTrackingService.lookup(order.orderNumber, "someone@example.com")).rejects.toThrow(
+            "Order not found"
+        );
+
+        const token = OrderTrackingService.createToken(order);
+        expect((await OrderTrackingService.lookupByToken(token)).orderNumber).toBe(order.orderNumber);
+        await expect(OrderTrackingService.lookupByToken(`${token}x`)).rejects.toThrow("invalid or has expired");
+    });
+
+    it("should turn the guest into an account that owns their past orders", async () => {
+        const earlier = await placeGuestOrder("returning@example.com");
+        const order = await placeGuestOrder("returning@example.com");
+
+        const { user } = await OrderTrackingService.createAccount(OrderTrackingService.createToken(order), {
+            password: "Password123"
+        });
+
+        expect(user).toMatchObject({ email: "returning@example.com", firstName: "Lan", lastName: "Nguyen" });
+        const owned = await Order.find({ user: user._id });
+        expect(owned.map((item) => item.orderNumber).sort()).toEqual([earlier.orderNumber, order.orderNumber].sort());
+
+        await expect(
+            OrderTrackingService.createAccount(OrderTrackingService.createToken(order), { password: "Password123" })
+        ).rejects.toThrow("already belongs to an account");
+    });
+});
@@ -0,0 +1,89 @@
+import mongoose from "mongoose";
+import jwt from "jsonwebtoken";
+import { Request, Response } from "express";
+import { GuestSessionService } from "../../src/services/guestSessionService";
+import { CartService } from "../../src/services/cartService";
+import { guestSession, GUEST_SESSION_HEADER } from "../../src/middleware/guestSession";
+import { Cart } from "../../src/models/Cart";
+import { config } from "../../src/config/config";
+import { createProduct } from "../factories";
+
+describe("Guest sessions", () => {
+    const createRequest = (headers: Record<string, string> = {}, user?: any) =>
+        ({
+            headers,
+            user,
+            get: (name: string) => headers[name.toLowerCase()]
+        }) as unknown as Request;
+
+    const createResponse = () =>
+        ({
+            cookie: jest.fn(),
+            clearCookie: jest.fn(),
+            setHeader: jest.fn()
+        }) as unknown as Response & { cookie: jest.Mock; clearCookie: jest.Mock; setHeader: jest.Mock };
+
+    const run = async (req: Request, res: Response) => {
+        const next = jest.fn();
+        await guestSession(req, res, next);
+        expect(next).toHaveBeenCalledWith();
+    };
+
+    it("should only accept tokens it signed and that have not expired", () => {
+        const session = GuestSessionService.issue();
+        expect(GuestSessionService.verify(session.token)).toMatchObject({ id: session.id });
+
+        const [header, payload, signature] = session.token.split(".");
+        const forged = Buffer.from(JSON.stringify({ sid: "someone-else", aud: "guest-session" })).toString("base64url");
+        expect(GuestSessionService.verify(`${header}.${forged}.${signature}`)).toBeNull();
+        expect(GuestSessionService.verify(`${header}.${payload}.x${signature}`)).toBeNull();
+        expect(GuestSessionService.verify("raw-session-id")).toBeNull();
+
+        // A user access token is not a guest session
+        expect(GuestSessionService.verify(jwt.sign({ id: "user" }, config.jwt.secret))).toBeNull();
+
+        const ttlDays = config.guestSession.ttlDays;
+        config.guestSession.ttlDays = -1;
+        try {
+            expect(GuestSessionService.verify(GuestSessionService.issue().token)).toBeNull();
+        } finally {
+            config.guestSession.ttlDays = ttlDays;
+        }
+    });
+
+    it("should issue a session to new guests and keep a valid one", async () => {
+        const res = createResponse();
+        const req = createRequest();
+        await run(req, res);
+
+        expect(req.guestSessionId).toBeDefined();
+        const token = res.setHeader.mock.calls[0][1];
+        expect(res.cookie).toHaveBeenCalledWith(config.guestSession.cookieName, token, expect.any(Object));
+
+        const returning = createRequest({ cookie: `theme=dark; ${config.guestSession.cookieName}=${token}` });
+        const unchanged = createResponse();
+        await run(returning, unchanged);
+        expect(returning.guestSessionId).toBe(req.guestSessionId);
+        expect(unchanged.cookie).not.toHaveBeenCalled();
+
+        // A made-up id is never used as the cart key
+        const guessed = createRequest({ [GUEST_SESSION_HEADER.toLowerCase()]: req.guestSessionId! });
+        await run(guessed, createResponse());
+        expect(guessed.guestSessionId).not.toBe(req.guestSessionId);
+    });
+
+    it("should merge the guest cart when the shopper signs in", async () => {
+        const product = await createProduct({ quantity: 5 });
+        const session = GuestSessionService.issue();
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, undefined, session.id);
+
+        const userId = new mongoose.Types.ObjectId().toString();
+        const res = createResponse();
+        await run(createRequest({ [GUEST_SESSION_HEADER.toLowerCase()]: session.token }, { id: userId }), res);
+
+        const userCart = await Cart.findOne({ user: userId, isActive: true });
+        expect(userCart?.totalItems).toBe(2);
+        expect(await Cart.exists({ sessionId: session.id, isActive: true })).toBeNull();
+        expect(res.clearCookie).toHaveBeenCalledWith(config.guestSession.cookieName, { path: "/" });
+    });
+});
@@ -0,0 +1,74 @@
+import { InventoryService } from "../../src/services/inventoryService";
+import { Product } from "../../src/models/Product";
+import { createProduct } from "../factories";
+
+describe("InventoryService", () => {
+    describe("reserveStock", () => {
+        it("should never oversell the last unit under concurrent checkouts", async () => {
+            const product = await createProduct({ quantity: 1 });
+            const productId = product._id!.toString();
+
+            const results = await Promise.allSettled([
+                InventoryService.reserveStock([{ productId, quantity: 1 }]),
+                InventoryService.reserveStock([{ productId, quantity: 1 }]),
+                InventoryService.reserveStock([{ productId, quantity: 1 }])
+            ]);
+
+            expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+
+            const updated = await Product.findById(productId);
+            expect(updated?.quantity).toBe(0);
+        });
+
+        it("should roll back earlier items when a later item is out of stock", async () => {
+            const inStock = await createProduct({ quantity: 5 });
+            const soldOut = await createProduct({ quantity: 0 });
+
+            await expect(
+                InventoryService.reserveStock([
+                    { productId: inStock._id!.toString(), quantity: 2 },
+                    { productId: soldOut._id!.toString(), quantity: 1 }
+                ])
+            ).rejects.toThrow("Insufficient stock");
+
+            const restored = await Product.findById(inStock._id);
+            expect(restored?.quantity).toBe(5);
+        });
+
+        it("should not touch stock for untracked products", async () => {
+            const product = await createProduct({ trackQuantity: false, quantity: 0 });
+
+            const [reservation] = await InventoryService.reserveStock([
+                { productId: product._id!.toString(), quantity: 3 }
+            ]);
+
+            expect(reservation.quantity).toBe(0);
+        });
+
+        it("should only take on-hand units for backorderable products", async () => {
+            const product = await createProduct({ allowBackorder: true, quantity: 2 });
+
+            const [reservation] = await InventoryService.reserveStock([
+                { productId: product._id!.toString(), quantity: 5 }
+            ]);
+
+            expect(reservation.quantity).toBe(2);
+            const updated = await Product.findById(product._id);
+            expect(updated?.quantity).toBe(0);
+        });
+    });
+
+    describe("releaseStock", () => {
+        it("should return reserved units to stock", async () => {
+            const product = await createProduct({ quantity: 3 });
+            const reservations = await InventoryService.reserveStock([
+                { productId: product._id!.toString(), quantity: 2 }
+            ]);
+
+            await InventoryService.releaseStock(reservations);
+
+            const updated = await Product.findById(product._id);
+            expect(updated?.quantity).toBe(3);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import mongoose from "mongoose";
+import { MerchandisingService } from "../../src/services/merchandisingService";
+import { SearchService } from "../../src/services/searchService";
+import { ProductService } from "../../src/services/productService";
+import { SearchSynonym } from "../../src/models/SearchSynonym";
+import { SearchRedirect } from "../../src/models/SearchRedirect";
+import { MerchandisingRule } from "../../src/models/MerchandisingRule";
+import { createProduct } from "../factories";
+
+describe("Merchandising", () => {
+    // A made-up word per test, so products and rules of other tests never match
+    const randomWord = () =>
+        Array.from({ length: 8 }, () => String.fromCharCode(97 + Math.floor(Math.random() * 26))).join("");
+
+    const ids = (products: any[]) => products.map((product) => product._id.toString());
+
+    beforeEach(() => {
+        MerchandisingService.invalidate();
+        SearchService.invalidateVocabulary();
+    });
+
+    it("should find products by a synonym of the query, including multi-word ones", async () => {
+        const word = randomWord();
+        const phone = await createProduct({ name: `Galaxy smartphone ${word}` });
+        await SearchSynonym.create({ terms: [`Điện thoại ${word}`, `smartphone ${word}`] });
+
+        const { products } = await ProductService.searchProducts(`dien thoai ${word}`);
+        expect(ids(products)).toEqual([phone._id!.toString()]);
+
+        await expect(SearchSynonym.create({ terms: ["Điện thoại", "dien thoai"] })).rejects.toThrow(
+            "At least two different terms are required"
+        );
+    });
+
+    it("should redirect queries regardless of case and accents", async () => {
+        const word = randomWord();
+        await SearchRedirect.create({ query: `Đổi trả ${word}`, url: "/pages/returns" });
+
+        expect(await MerchandisingService.getRedirect(`DOI TRA ${word}`)).toBe("/pages/returns");
+        expect(await MerchandisingService.getRedirect(`doi ${word}`)).toBeUndefined();
+    });
+
+    it("should pin, boost and bury the products of a category listing in its default order", async () => {
+        const category = new mongoose.Types.ObjectId();
+        const buried = await createProduct({ name: "Buried product", category });
+        const pinned = await createProduct({ name: "Pinned product", category });
+        const boosted = await createProduct({ name: "Boosted product", category });
+        await MerchandisingRule.create({
+            name: "Category campaign",
+            category,
+            pinned: [{ product: pinned._id, position: 1 }],
+            boosted: [boosted._id],
+            buried: [buried._id]
+        });
+
+        const listing = await ProductService.getProducts({ category: category.toString() });
+        expect(ids(listing.products)).toEqual(ids([pinned, boosted, buried]));
+        expect(listing.pagination.total).toBe(3);
+
+        const secondPage = await ProductService.getProducts({ category: category.toString() }, { page: 2, limit: 1 });
+        expect(ids(secondPage.products)).toEqual(ids([boosted]));
+
+        // Pins are not added to a search without words, which finds nothing
+        const wordless = await ProductService.getProducts({ category: category.toString(), search: "!?" });
+        expect(wordless.products).toHaveLength(0);
+
+        // An explicit sort is left alone
+        const byName = await ProductService.getProducts(
+            { category: category.toString() },
+            { sort: "name", order: "asc" }
+        );
+        expect(ids(byName.products)).toEqual(ids([boosted, buried, pinned]));
+
+        // Arranged or not, products have the same fields, virtuals included
+        const fields = (product: any) => Object.keys(product).sort();
+        expect(fields(listing.products[0])).toEqual(fields(byName.products[0]));
+        expect(listing.products[0]).toMatchObject({ id: pinned._id!.toString(), finalPrice: 100, isInStock: true });
+    });
+
+    it("should apply the rule of a search query, skipping pins the search does not find", async () => {
+        const word = randomWord();
+        const best = await createProduct({ name: `${word} jacket`, isFeatured: true, averageRating: 5 });
+        const pinned = await createProduct({ name: "Rain coat", description: `Matches ${word}` });
+        const unrelated = await createProduct({ name: "Unrelated product" });
+        await MerchandisingRule.create({
+            name: "Query campaign",
+            query: word.toUpperCase(),
+            pinned: [
+                { product: pinned._id, position: 1 },
+                { product: unrelated._id, position: 2 }
+            ]
+        });
+
+        // The pinned product comes before the better match; the unrelated one is not added
+        const { products } = await ProductService.searchProducts(word);
+        expect(ids(products)).toEqual(ids([pinned, best]));
+        expect(products[0]).not.toHaveProperty("relevance");
+
+        await expect(
+            MerchandisingRule.create({ name: "Both", query: word, category: new mongoose.Types.ObjectId() })
+        ).rejects.toThrow("A rule applies to either a search query or a category");
+    });
+});
@@ -0,0 +1,42 @@
+import { Money } from "../../src/utils/money";
+
+describe("Money", () => {
+    it("should only hold whole minor units", () => {
+        expect(Money.of(1999, "usd")).toMatchObject({ amount: 1999, currency: "USD" });
+        expect(() => Money.of(19.99, "USD")).toThrow("integer minor units");
+        expect(() => Money.of(100, "USD").add(Money.of(100, "VND"))).toThrow("Cannot combine USD and VND");
+    });
+
+    it("should convert from major units without float drift", () => {
+        expect(Money.fromMajor(19.99, "USD").amount).toBe(1999);
+        expect(Money.fromMajor(1.005, "USD").amount).toBe(101);
+        expect(Money.fromMajor(-1.005, "USD").amount).toBe(-101);
+        expect(Money.fromMajor(250000, "VND").amount).toBe(250000);
+        expect(Money.fromMajor(12.345, "KWD").amount).toBe(12345);
+        expect(Money.of(1999, "USD").toMajor()).toBe(19.99);
+    });
+
+    it("should round products once and keep sums exact", () => {
+        const price = Money.of(1999, "USD");
+
+        expect(price.multiply(3).amount).toBe(5997);
+        expect(price.multiply(0.0725).amount).toBe(145);
+        expect(Money.sum([price, price, Money.of(2, "USD")], "USD").amount).toBe(4000);
+        expect(price.subtract(Money.of(2000, "USD")).isNegative()).toBe(true);
+    });
+
+    it("should allocate without losing or creating minor units", () => {
+        const parts = Money.of(100, "USD").allocate([1, 1, 1]);
+        expect(parts.map((part) => part.amount)).toEqual([34, 33, 33]);
+
+        const discount = Money.of(1001, "VND").allocate([20000, 5000, 3000]);
+        expect(discount.reduce((sum, part) => sum + part.amount, 0)).toBe(1001);
+        expect(Money.of(-5, "USD").allocate([1, 1]).map((part) => part.amount)).toEqual([-3, -2]);
+    });
+
+    it("should convert between currencies with different decimals", () => {
+        expect(Money.of(250000, "VND").convert("USD", 0.00004).amount).toBe(1000);
+        expect(Money.of(1999, "USD").convert("VND", 25000).amount).toBe(499750);
+        expect(Money.of(123456, "VND").convert("JPY", 0.006, 10).amount).toBe(740);
+    });
+});
@@ -0,0 +1,323 @@
+import mongoose from "mongoose";
+import { OrderService } from "../../src/services/orderService";
+import { CartService } from "../../src/services/cartService";
+import { orderHistoryService } from "../../src/services/orderHistoryService";
+import { Product } from "../../src/models/Product";
+import { Cart } from "../../src/models/Cart";
+import { User } from "../../src/models/User";
+import { createProduct } from "../factories";
+
+describe("OrderService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    const shippingAddress = {
+        firstName: "John",
+        lastName: "Doe",
+        street: "1 Le Loi",
+        city: "Ho Chi Minh",
+        state: "HCM",
+        zipCode: "700000",
+        country: "VN"
+    };
+
+    describe("createOrder", () => {
+        it("should create an order from the active cart and deactivate it", async () => {
+            const product = await createProduct({
+                images: [{ url: "https://example.com/shirt.jpg", isMain: true, order: 0 }]
+            });
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+
+            const { order } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+
+            expect(order.orderNumber).toMatch(/^ORD-/);
+            expect(order.items).toHaveLength(1);
+            expect(order.items[0].name).toBe("Test T-Shirt");
+            expect(order.items[0].sku).toBe(product.sku);
+            expect(order.items[0].image).toBe("https://example.com/shirt.jpg");
+            expect(order.subtotal).toBe(200);
+            expect(order.total).toBe(200);
+            expect(order.payment.status).toBe("pending");
+            expect(order.statusHistory).toHaveLength(1);
+
+            const activeCart = await Cart.findOne({ user: userId, isActive: true });
+            expect(activeCart).toBeNull();
+        });
+
+        it("should reject an empty cart", async () => {
+            await expect(
+                OrderService.createOrder({ shippingAddress, paymentMethod: "cash_on_delivery" }, userId)
+            ).rejects.toThrow("Cart is empty");
+        });
+
+        it("should reject checkout when the cart has issues", async () => {
+            const product = await createProduct();
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 1 }, userId);
+            await Product.findByIdAndUpdate(product._id, { price: 150 });
+
+            await expect(
+                OrderService.createOrder({ shippingAddress, paymentMethod: "cash_on_delivery" }, userId)
+            ).rejects.toThrow("Price has changed");
+        });
+    });
+
+    describe("getUserOrders", () => {
+        it("should only return the caller's orders, filtered by status", async () => {
+            const product = await createProduct();
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 1 }, userId);
+            await OrderService.createOrder({ shippingAddress, paymentMethod: "cash_on_delivery" }, userId);
+
+            const otherUser = new mongoose.Types.ObjectId().toString();
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 1 }, otherUser);
+            await OrderService.createOrder({ shippingAddress, paymentMethod: "cash_on_delivery" }, otherUser);
+
+            const result = await OrderService.getUserOrders(userId);
+            expect(result.orders).toHaveLength(1);
+            expect(result.pagination.total).toBe(1);
+
+            const cancelled = await OrderService.getUserOrders(userId, { status: "cancelled" });
+            expect(cancelled.orders).toHaveLength(0);
+        });
+
+        it("should include the whole of a date-only dateTo and sort by the allowed fields only", async () => {
+            const larger = await createProduct();
+            await CartService.addToCart({ productId: larger._id!.toString(), quantity: 3 }, userId);
+            const { order: first } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+            const smaller = await createProduct();
+            await CartService.addToCart({ productId: smaller._id!.toString(), quantity: 1 }, userId);
+            const { order: second } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+
+            const day = (order: typeof first) => order.createdAt.toISOString().substring(0, 10);
+            const sameDays = await OrderService.getUserOrders(userId, { dateFrom: day(first), dateTo: day(second) });
+            expect(sameDays.orders).toHaveLength(2);
+
+            const byTotal = await OrderService.getUserOrders(userId, {}, { sort: "total", order: "desc" });
+            expect(byTotal.orders.map((order) => order.orderNumber)).toEqual([first.orderNumber, second.orderNumber]);
+
+            // subtotal is not in the whitelist, so the newest order still comes first
+            const bySubtotal = await OrderService.getUserOrders(userId, {}, { sort: "subtotal", order: "desc" });
+            expect(bySubtotal.orders.map((order) => order.orderNumber)).toEqual([
+                second.orderNumber,
+                first.orderNumber
+            ]);
+        });
+    });
+
+    describe("getAllOrders", () => {
+        const placeOrder = async (customerId: string, quantity: number) => {
+            const product = await createProduct();
+            await CartService.addToCart({ productId: product._id!.toString(), quantity }, customerId);
+            const { order } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                customerId
+            );
+            return order;
+        };
+
+        const numbers = (result: { orders: any[] }) => result.orders.map((order) => order.orderNumber);
+
+        it("should filter by status, payment status and date", async () => {
+            const confirmed = await placeOrder(userId, 1);
+            const pending = await placeOrder(userId, 1);
+            await OrderService.updateOrderStatus(confirmed._id!.toString(), "confirmed", undefined, userId);
+
+            expect(numbers(await OrderService.getAllOrders({ status: "confirmed" }))).toEqual([confirmed.orderNumber]);
+            expect(numbers(await OrderService.getAllOrders({ status: "pending" }))).toEqual([pending.orderNumber]);
+            expect((await OrderService.getAllOrders({ paymentStatus: "completed" })).orders).toHaveLength(0);
+
+            const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+            const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+            expect((await OrderService.getAllOrders({ dateFrom: yesterday, dateTo: tomorrow })).orders).toHaveLength(2);
+            expect((await OrderService.getAllOrders({ dateTo: yesterday })).orders).toHaveLength(0);
+        });
+
+        it("should search by order number, shipping details and the customer's account", async () => {
+            const customer = await User.create({
+                firstName: "Minh",
+                lastName: "Tran",
+                email: global.testUtils.generateRandomEmail(),
+                password: "SecurePassword123!"
+            });
+            const ofCustomer = await placeOrder(customer._id!.toString(), 1);
+            const ofGuest = await placeOrder(userId, 1);
+
+            // Both are shipped to John Doe; only the account of the first is Minh's
+            expect(numbers(await OrderService.getAllOrders({ search: "minh" }))).toEqual([ofCustomer.orderNumber]);
+            expect(numbers(await OrderService.getAllOrders({ search: customer.email }))).toEqual([
+                ofCustomer.orderNumber
+            ]);
+            expect(numbers(await OrderService.getAllOrders({ search: ofGuest.orderNumber }))).toEqual([
+                ofGuest.orderNumber
+            ]);
+            expect((await OrderService.getAllOrders({ search: "doe" })).orders).toHaveLength(2);
+            expect((await OrderService.getAllOrders({ search: "(.*" })).orders).toHaveLength(0);
+        });
+
+        it("should sort by the allowed fields only, else by creation date", async () => {
+            const larger = await placeOrder(userId, 3);
+            const smaller = await placeOrder(userId, 1);
+
+            expect(numbers(await OrderService.getAllOrders())).toEqual([smaller.orderNumber, larger.orderNumber]);
+            expect(numbers(await OrderService.getAllOrders({}, { sort: "total", order: "desc" }))).toEqual([
+                larger.orderNumber,
+                smaller.orderNumber
+            ]);
+            // subtotal is not in the whitelist, so the newest order still comes first
+            expect(numbers(await OrderService.getAllOrders({}, { sort: "subtotal", order: "desc" }))).toEqual([
+                smaller.orderNumber,
+                larger.orderNumber
+            ]);
+        });
+    });
+
+    describe("updateOrderStatus", () => {
+        it("should record each change in the status history, returned with the admin who made it", async () => {
+            const admin = await User.create({
+                firstName: "Admin",
+                lastName: "User",
+                email: global.testUtils.generateRandomEmail(),
+                password: "AdminPassword123!",
+                role: "admin"
+            });
+            const adminId = admin._id!.toString();
+            const product = await createProduct();
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 1 }, userId);
+            const { order } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+
+            await OrderService.updateOrderStatus(order._id!.toString(), "confirmed", "Stock checked", adminId);
+            const updated = await OrderService.updateOrderStatus(
+                order._id!.toString(),
+                "processing",
+                undefined,
+                adminId
+            );
+
+            expect(updated.status).toBe("processing");
+            expect(updated.statusHistory.map((entry) => entry.status)).toEqual(["pending", "confirmed", "processing"]);
+            expect(updated.statusHistory[1]).toMatchObject({ note: "Stock checked" });
+            expect(updated.statusHistory[2]).toMatchObject({ note: "Order status updated to: processing" });
+
+            const history = await orderHistoryService.getOrderHistory(order._id!.toString());
+            expect(history).toHaveLength(3);
+            expect(history[2].updatedBy).toMatchObject({ firstName: "Admin", email: admin.email });
+            expect(history[2].updatedBy).not.toHaveProperty("password");
+
+            await expect(
+                OrderService.updateOrderStatus(order._id!.toString(), "pending", undefined, adminId)
+            ).rejects.toMatchObject({ statusCode: 400 });
+        });
+    });
+
+    describe("cancelUserOrder", () => {
+        it("should cancel a pending order and release its stock", async () => {
+            const product = await createProduct({ quantity: 5 });
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+            const { order } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+
+            expect((await Product.findById(product._id))?.quantity).toBe(3);
+
+            const cancelled = await OrderService.cancelUserOrder(order._id!.toString(), userId, "Changed my mind");
+
+            expect(cancelled.status).toBe("cancelled");
+            expect(cancelled.statusHistory[cancelled.statusHistory.length - 1].note).toBe("Changed my mind");
+            expect((await Product.findById(product._id))?.quantity).toBe(5);
+        });
+
+        it("should not cancel another user's order", async () => {
+            const product = await createProduct();
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 1 }, userId);
+            const { order } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+
+            const otherUser = new mongoose.Types.ObjectId().toString();
+            await expect(OrderService.cancelUserOrder(order._id!.toString(), otherUser)).rejects.toThrow(
+                "Order not found"
+            );
+        });
+    });
+
+    describe("refundOrder", () => {
+        const adminId = new mongoose.Types.ObjectId().toString();
+
+        const placeDeliveredOrder = async (quantity: number) => {
+            const product = await createProduct({ quantity: 5 });
+            await CartService.addToCart({ productId: product._id!.toString(), quantity }, userId);
+            const { order } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+
+            for (const status of ["confirmed", "processing", "shipped", "delivered"]) {
+                await order.updateStatus(status, undefined, adminId);
+            }
+
+            return { product, order };
+        };
+
+        it("should refund a single line item and restock it", async () => {
+            const { product, order } = await placeDeliveredOrder(2);
+
+            const refunded = await OrderService.refundOrder(
+                order._id!.toString(),
+                { items: [{ itemId: order.items[0]._id!.toString(), quantity: 1 }], reason: "Damaged", restock: true },
+                adminId
+            );
+
+            expect(refunded.status).toBe("delivered");
+            expect(refunded.payment.status).toBe("completed");
+            expect(refunded.payment.refundAmount).toBe(100);
+            expect(refunded.items[0].refundedQuantity).toBe(1);
+            expect(refunded.refunds).toHaveLength(1);
+            expect(refunded.refunds[0].restocked).toBe(true);
+            expect((await Product.findById(product._id))?.quantity).toBe(4);
+        });
+
+        it("should mark a fully refunded delivered order as returned", async () => {
+            const { product, order } = await placeDeliveredOrder(2);
+
+            const refunded = await OrderService.refundOrder(order._id!.toString(), {}, adminId);
+
+            expect(refunded.status).toBe("returned");
+            expect(refunded.payment.status).toBe("refunded");
+            expect(refunded.payment.refundAmount).toBe(200);
+            expect((await Product.findById(product._id))?.quantity).toBe(3);
+
+            await expect(
+                OrderService.refundOrder(
+                    order._id!.toString(),
+                    { items: [{ itemId: order.items[0]._id!.toString(), quantity: 1 }] },
+                    adminId
+                )
+            ).rejects.toThrow("can still be refunded");
+        });
+
+        it("should not refund an unpaid order", async () => {
+            const product = await createProduct();
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 1 }, userId);
+            const { order } = await OrderService.createOrder(
+                { shippingAddress, paymentMethod: "cash_on_delivery" },
+                userId
+            );
+
+            await expect(OrderService.refundOrder(order._id!.toString(), {}, adminId)).rejects.toThrow(
+                "Cannot refund a payment that is pending"
+            );
+        });
+    });
+});
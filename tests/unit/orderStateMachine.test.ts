@@ -0,0 +1,76 @@
+import mongoose from "mongoose";
+import { orderStateMachine } from "../../src/services/orderStateMachine";
+import { Order } from "../../src/models/Order";
+import { Product } from "../../src/models/Product";
+import { AppError } from "../../src/utils/AppError";
+import { createProduct } from "../factories";
+
+describe("orderStateMachine", () => {
+    describe("normalize", () => {
+        it("should normalise uppercase statuses from the admin dashboard", () => {
+            expect(orderStateMachine.normalize("SHIPPED")).toBe("shipped");
+            expect(orderStateMachine.normalize(" Pending ")).toBe("pending");
+        });
+
+        it("should reject unknown statuses", () => {
+            expect(() => orderStateMachine.normalize("teleported")).toThrow(AppError);
+        });
+    });
+
+    describe("assertTransition", () => {
+        it("should allow the forward lifecycle", () => {
+            expect(() => orderStateMachine.assertTransition("pending", "confirmed")).not.toThrow();
+            expect(() => orderStateMachine.assertTransition("confirmed", "processing")).not.toThrow();
+            expect(() => orderStateMachine.assertTransition("processing", "shipped")).not.toThrow();
+            expect(() => orderStateMachine.assertTransition("shipped", "delivered")).not.toThrow();
+            expect(() => orderStateMachine.assertTransition("delivered", "returned")).not.toThrow();
+        });
+
+        it("should allow cancellation before shipping only", () => {
+            expect(() => orderStateMachine.assertTransition("pending", "cancelled")).not.toThrow();
+            expect(() => orderStateMachine.assertTransition("processing", "cancelled")).not.toThrow();
+            expect(() => orderStateMachine.assertTransition("shipped", "cancelled")).toThrow(
+                "Cannot change order status from shipped to cancelled"
+            );
+        });
+
+        it("should reject illegal jumps", () => {
+            expect(() => orderStateMachine.assertTransition("delivered", "pending")).toThrow(AppError);
+            expect(() => orderStateMachine.assertTransition("pending", "delivered")).toThrow(AppError);
+            expect(() => orderStateMachine.assertTransition("cancelled", "confirmed")).toThrow("final status");
+        });
+
+        it("should reject no-op transitions", () => {
+            expect(() => orderStateMachine.assertTransition("pending", "pending")).toThrow("Order is already pending");
+        });
+    });
+
+    describe("hooks", () => {
+        // No service is imported here: the hooks come with the state machine the Order model uses
+        it("should run the lifecycle hooks for orders updated through the model alone", async () => {
+            const product = await createProduct();
+            const order = await Order.create({
+                user: new mongoose.Types.ObjectId(),
+                items: [{ product: product._id, name: product.name, sku: product.sku, quantity: 2, price: 100 }],
+                shippingAddress: {
+                    firstName: "John",
+                    lastName: "Doe",
+                    street: "1 Le Loi",
+                    city: "Ho Chi Minh",
+                    state: "HCM",
+                    zipCode: "700000",
+                    country: "VN"
+                },
+                payment: { method: "cash_on_delivery", status: "pending" }
+            });
+
+            for (const status of ["confirmed", "processing", "shipped", "delivered"]) {
+                await order.updateStatus(status);
+            }
+
+            expect(order.deliveredAt).toBeInstanceOf(Date);
+            expect(order.payment.status).toBe("completed");
+            expect((await Product.findById(product._id))?.salesCount).toBe(2);
+        });
+    });
+});
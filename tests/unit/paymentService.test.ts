@@ -0,0 +1,235 @@
+import mongoose from "mongoose";
+import { OrderService } from "../../src/services/orderService";
+import { CartService } from "../../src/services/cartService";
+import { PaymentService, fakePaymentProvider } from "../../src/services/paymentService";
+import { StripeProvider } from "../../src/services/payments/stripeProvider";
+import { VnpayProvider } from "../../src/services/payments/vnpayProvider";
+import { FakePaymentProvider } from "../../src/services/payments/fakeProvider";
+import { Product } from "../../src/models/Product";
+import { Cart } from "../../src/models/Cart";
+import { Order } from "../../src/models/Order";
+import { ExchangeRate } from "../../src/models/ExchangeRate";
+import { config } from "../../src/config/config";
+import { createProduct } from "../factories";
+
+describe("PaymentService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+    const adminId = new mongoose.Types.ObjectId().toString();
+
+    const shippingAddress = {
+        firstName: "John",
+        lastName: "Doe",
+        street: "1 Le Loi",
+        city: "Ho Chi Minh",
+        state: "HCM",
+        zipCode: "700000",
+        country: "VN"
+    };
+
+    const placeOrder = async (paymentMethod: "credit_card" | "vnpay" | "cash_on_delivery" | "bank_transfer") => {
+        const product = await createProduct({ quantity: 5 });
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+
+        return { product, placement: OrderService.createOrder({ shippingAddress, paymentMethod }, userId) };
+    };
+
+    // Deliver a callback signed the way the fake gateway signs it
+    const deliver = (event: Record<string, any>, signature?: string) => {
+        const rawBody = JSON.stringify(event);
+        return PaymentService.handleCallback("fake", {
+            headers: { "x-fake-signature": signature || FakePaymentProvider.sign(rawBody) },
+            rawBody
+        });
+    };
+
+    beforeEach(() => fakePaymentProvider.reset());
+
+    describe("order placement", () => {
+        it("should open card payments with the provider and record the transaction", async () => {
+            const { placement } = await placeOrder("credit_card");
+            const { order, payment } = await placement;
+
+            expect(payment.clientSecret).toBeDefined();
+            expect(order.payment.status).toBe("processing");
+            expect(order.payment.paymentGateway).toBe("fake");
+            expect(order.payment.transactionId).toBe(`fake_pi_${order.orderNumber}`);
+        });
+
+        it("should return bank transfer instructions and leave the payment pending", async () => {
+            const { placement } = await placeOrder("bank_transfer");
+            const { order, payment } = await placement;
+
+            expect(order.payment.status).toBe("pending");
+            expect(payment.instructions?.reference).toBe(order.orderNumber);
+        });
+
+        it("should cancel the order, release stock and keep the cart when the payment cannot be opened", async () => {
+            fakePaymentProvider.failures.add("createIntent");
+            const { product, placement } = await placeOrder("credit_card");
+
+            await expect(placement).rejects.toThrow("Fake payment createIntent failed");
+
+            expect((await Product.findById(product._id))?.quantity).toBe(5);
+            expect(await Cart.findOne({ user: userId, isActive: true })).not.toBeNull();
+        });
+
+        it("should refuse VNPay for an order in another currency than dong", async () => {
+            await ExchangeRate.create({ currency: "USD", rate: 0.00004 });
+            const product = await createProduct({ price: 250000, quantity: 5 });
+            await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId, undefined, "USD");
+
+            await expect(OrderService.createOrder({ shippingAddress, paymentMethod: "vnpay" }, userId)).rejects.toThrow(
+                "Payment method vnpay only accepts VND, not USD"
+            );
+            expect(await Order.countDocuments({ user: userId, currency: "USD" })).toBe(0);
+            expect((await Product.findById(product._id))?.quantity).toBe(5);
+
+            // Nor is a payment opened for such an order
+            const order = new Order({ currency: "USD", payment: { method: "vnpay", status: "pending" } });
+            await expect(PaymentService.createIntent(order)).rejects.toMatchObject({ statusCode: 400 });
+        });
+    });
+
+    describe("capturePayment", () => {
+        it("should capture cash on delivery when the order is delivered", async () => {
+            const { placement } = await placeOrder("cash_on_delivery");
+            const { order } = await placement;
+
+            for (const status of ["confirmed", "processing", "shipped", "delivered"]) {
+                await order.updateStatus(status, undefined, adminId);
+            }
+
+            expect(order.payment.status).toBe("completed");
+            expect(order.payment.paidAt).toBeInstanceOf(Date);
+        });
+    });
+
+    describe("refundPayment", () => {
+        it("should keep partial refunds completed and mark full refunds as refunded", async () => {
+            const { placement } = await placeOrder("credit_card");
+            const { order } = await placement;
+            await PaymentService.capturePayment(order);
+
+            await PaymentService.refundPayment(order, 50, "Damaged item");
+            expect(order.payment.status).toBe("completed");
+            expect(order.payment.refundAmount).toBe(50);
+
+            await PaymentService.refundPayment(order, 150);
+            expect(order.payment.status).toBe("refunded");
+            expect(fakePaymentProvider.refunds).toHaveLength(2);
+
+            await expect(PaymentService.refundPayment(order, 1)).rejects.toThrow(
+                "Cannot refund a payment that is refunded"
+            );
+        });
+    });
+
+    describe("handleCallback", () => {
+        it("should mark the payment paid and confirm the order", async () => {
+            const { placement } = await placeOrder("credit_card");
+            const { order } = await placement;
+
+            const { duplicate, order: updated } = await deliver({
+                eventId: "evt_paid_1",
+                orderNumber: order.orderNumber,
+                status: "completed",
+                transactionId: "txn_123",
+                amount: order.total
+            });
+
+            expect(duplicate).toBe(false);
+            expect(updated.status).toBe("confirmed");
+            expect(updated.payment.status).toBe("completed");
+            expect(updated.payment.transactionId).toBe("txn_123");
+            expect(updated.payment.paidAt).toBeInstanceOf(Date);
+        });
+
+        it("should ignore a redelivered event", async () => {
+            const { placement } = await placeOrder("credit_card");
+            const { order } = await placement;
+            const event = { eventId: "evt_paid_2", orderNumber: order.orderNumber, status: "completed" };
+
+            await deliver(event);
+            const retry = await deliver(event);
+
+            expect(retry.duplicate).toBe(true);
+            expect(retry.order.statusHistory.filter((entry) => entry.status === "confirmed")).toHaveLength(1);
+        });
+
+        it("should cancel the order and release stock when the payment fails", async () => {
+            const { product, placement } = await placeOrder("credit_card");
+            const { order } = await placement;
+
+            const { order: updated } = await deliver({
+                eventId: "evt_failed_1",
+                orderNumber: order.orderNumber,
+                status: "failed"
+            });
+
+            expect(updated.status).toBe("cancelled");
+            expect(updated.payment.status).toBe("failed");
+            expect((await Product.findById(product._id))?.quantity).toBe(5);
+        });
+
+        it("should reject unsigned callbacks and mismatched amounts", async () => {
+            const { placement } = await placeOrder("credit_card");
+            const { order } = await placement;
+            const event = { eventId: "evt_bad", orderNumber: order.orderNumber, status: "completed", amount: 1 };
+
+            await expect(deliver(event, "forged")).rejects.toThrow("Invalid payment callback");
+            await expect(deliver(event)).rejects.toThrow("does not match order total");
+        });
+    });
+
+    describe("callback verification", () => {
+        it("should accept a correctly signed Stripe webhook and reject a tampered one", async () => {
+            config.payment.stripe.webhookSecret = "whsec_test";
+            const provider = new StripeProvider();
+            const rawBody = JSON.stringify({
+                id: "evt_1",
+                type: "payment_intent.succeeded",
+                data: {
+                    object: { id: "pi_1", amount_received: 2000, currency: "usd", metadata: { orderNumber: "ORD-1" } }
+                }
+            });
+            const timestamp = Math.floor(Date.now() / 1000);
+            const signature = StripeProvider.sign(`${timestamp}.${rawBody}`, "whsec_test");
+
+            const result = await provider.verifyCallback({
+                headers: { "stripe-signature": `t=${timestamp},v1=${signature}` },
+                rawBody
+            });
+            expect(result).toMatchObject({ valid: true, eventId: "evt_1", status: "completed", amount: 2000 });
+
+            const tampered = await provider.verifyCallback({
+                headers: { "stripe-signature": `t=${timestamp},v1=${signature}` },
+                rawBody: rawBody.replace("2000", "1")
+            });
+            expect(tampered.valid).toBe(false);
+        });
+
+        it("should verify the VNPay secure hash", async () => {
+            config.payment.vnpay.secretKey = "vnpay_test_secret";
+            const params = {
+                vnp_Amount: "20000000",
+                vnp_ResponseCode: "00",
+                vnp_TransactionNo: "14000001",
+                vnp_TransactionStatus: "00",
+                vnp_TxnRef: "ORD-1"
+            };
+            const vnp_SecureHash = VnpayProvider.sign(VnpayProvider.buildQuery(params), "vnpay_test_secret");
+
+            const result = await new VnpayProvider().verifyCallback({
+                headers: {},
+                query: { ...params, vnp_SecureHash }
+            });
+            expect(result).toMatchObject({ valid: true, orderNumber: "ORD-1", status: "completed", amount: 200000 });
+
+            const forged = await new VnpayProvider().verifyCallback({
+                headers: {},
+                query: { ...params, vnp_Amount: "100", vnp_SecureHash }
+            });
+            expect(forged.valid).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import { ProductService } from "../../src/services/productService";
+import { Product } from "../../src/models/Product";
+import { Category } from "../../src/models/Category";
+import { Brand } from "../../src/models/Brand";
+import { createProduct } from "../factories";
+
+describe("Product facets", () => {
+    const setUp = async () => {
+        const suffix = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
+        const [shirts, shoes] = await Promise.all([
+            Category.create({ name: `Shirts ${suffix}` }),
+            Category.create({ name: `Shoes ${suffix}` })
+        ]);
+        const brand = await Brand.create({ name: `Brand ${suffix}` });
+        const tag = `facet-${suffix}`;
+
+        const create = (data: Record<string, any>) => createProduct({ tags: [tag], ...data });
+
+        await create({ category: shirts._id, brand: brand._id, price: 100, quantity: 5, averageRating: 4.5 });
+        await create({ category: shirts._id, price: 300, quantity: 0, averageRating: 3 });
+        await create({ category: shoes._id, brand: brand._id, price: 500, quantity: 2, onSale: true, salePrice: 400 });
+
+        return { shirts, shoes, brand, tag };
+    };
+
+    it("should count every facet over the products matching the other filters", async () => {
+        const { shirts, shoes, brand, tag } = await setUp();
+
+        const facets = await ProductService.getProductFacets({ tags: [tag] });
+
+        expect(facets.total).toBe(3);
+        expect(facets.categories).toEqual([
+            { _id: shirts._id!.toString(), name: shirts.name, slug: shirts.slug, count: 2 },
+            { _id: shoes._id!.toString(), name: shoes.name, slug: shoes.slug, count: 1 }
+        ]);
+        expect(facets.brands).toEqual([{ _id: brand._id!.toString(), name: brand.name, slug: brand.slug, count: 2 }]);
+        expect(facets.price.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(3);
+        expect(facets.ratings).toEqual([
+            { minRating: 4, count: 1 },
+            { minRating: 3, count: 2 },
+            { minRating: 2, count: 2 },
+            { minRating: 1, count: 2 }
+        ]);
+        expect(facets.inStock).toBe(2);
+        expect(facets.onSale).toBe(1);
+    });
+
+    it("should leave out a facet's own filter so several options can be chosen", async () => {
+        const { shirts, shoes, tag } = await setUp();
+
+        const facets = await ProductService.getProductFacets({
+            tags: [tag],
+            category: shirts._id!.toString(),
+            inStock: true
+        });
+
+        expect(facets.total).toBe(1);
+        // Other categories keep their counts (of in-stock products)
+        expect(facets.categories.map((option) => [option._id, option.count]).sort()).toEqual(
+            [
+                [shirts._id!.toString(), 1],
+                [shoes._id!.toString(), 1]
+            ].sort()
+        );
+        // The in-stock count ignores the in-stock filter but not the category
+        expect(facets.inStock).toBe(1);
+        expect(facets.onSale).toBe(0);
+
+        const both = await ProductService.getProducts({
+            tags: [tag],
+            category: [shirts._id!.toString(), shoes._id!.toString()],
+            inStock: true
+        });
+        expect(both.pagination.total).toBe(2);
+    });
+});
@@ -0,0 +1,148 @@
+import mongoose from "mongoose";
+import { ProductService } from "../../src/services/productService";
+import { CartService } from "../../src/services/cartService";
+import { InventoryService } from "../../src/services/inventoryService";
+import { Product } from "../../src/models/Product";
+import { createProduct } from "../factories";
+
+describe("Product variants", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    const createShirt = async () => {
+        const product = await createProduct({ price: 2000, quantity: 0 });
+
+        return ProductService.generateVariants(
+            product._id!.toString(),
+            [
+                { name: "Color", values: ["Red", "Xanh dương"] },
+                { name: "Size", values: ["M", "L"] }
+            ],
+            userId
+        );
+    };
+
+    const variantOf = (product: any, color: string, size: string) =>
+        product.findVariant(undefined, [
+            { name: "Color", value: color },
+            { name: "Size", value: size }
+        ]);
+
+    it("should generate one variant per combination and keep existing ones on regeneration", async () => {
+        const product = await createShirt();
+
+        expect(product.hasVariants).toBe(true);
+        expect(product.variants).toHaveLength(4);
+        expect(variantOf(product, "Xanh dương", "L").sku).toBe(`${product.sku}-XANHDUONG-L`);
+
+        const redM = variantOf(product, "Red", "M");
+        await ProductService.updateStock(product._id!.toString(), 5, redM._id.toString());
+
+        const regenerated = await ProductService.generateVariants(
+            product._id!.toString(),
+            [
+                { name: "Color", values: ["Red"] },
+                { name: "Size", values: ["M", "L", "XL"] }
+            ],
+            userId
+        );
+
+        expect(regenerated.variants).toHaveLength(3);
+        expect(variantOf(regenerated, "Red", "M")._id.toString()).toBe(redM._id.toString());
+        expect(variantOf(regenerated, "Red", "M").quantity).toBe(5);
+        expect(regenerated.quantity).toBe(5);
+    });
+
+    it("should keep a separate cart line for each variant", async () => {
+        const product = await createShirt();
+        const productId = product._id!.toString();
+        const redM = variantOf(product, "Red", "M");
+        const blueL = variantOf(product, "Xanh dương", "L");
+
+        await ProductService.updateVariant(productId, redM._id.toString(), { quantity: 10 }, userId);
+        await ProductService.updateVariant(productId, blueL._id.toString(), { quantity: 10, price: 2500 }, userId);
+
+        const sessionId = `session-${Date.now()}`;
+        await expect(CartService.addToCart({ productId, quantity: 1 }, undefined, sessionId)).rejects.toThrow(
+            "Choose a variant"
+        );
+
+        await CartService.addToCart({ productId, quantity: 1, variantId: redM._id.toString() }, undefined, sessionId);
+        let cart = await CartService.addToCart(
+            {
+                productId,
+                quantity: 2,
+                variant: [
+                    { name: "Size", value: "L" },
+                    { name: "Color", value: "Xanh dương" }
+                ]
+            },
+            undefined,
+            sessionId
+        );
+
+        expect(cart.items).toHaveLength(2);
+        expect(cart.totalPrice).toBe(2000 + 2 * 2500);
+
+        cart = await CartService.updateCartItem(
+            { productId, variantId: blueL._id.toString(), quantity: 3 },
+            undefined,
+            sessionId
+        );
+        expect(cart.items.map((item) => item.quantity)).toEqual([1, 3]);
+
+        cart = await CartService.removeFromCart(productId, undefined, sessionId, redM._id.toString());
+        expect(cart.items).toHaveLength(1);
+        expect(cart.items[0].variantId?.toString()).toBe(blueL._id.toString());
+    });
+
+    it("should reserve and release the stock of the variant", async () => {
+        const product = await createShirt();
+        const productId = product._id!.toString();
+        const redM = variantOf(product, "Red", "M")._id.toString();
+        const redL = variantOf(product, "Red", "L")._id.toString();
+        await ProductService.updateStock(productId, 1, redM);
+        await ProductService.updateStock(productId, 4, redL);
+
+        const results = await Promise.allSettled([
+            InventoryService.reserveStock([{ productId, variantId: redM, quantity: 1 }]),
+            InventoryService.reserveStock([{ productId, variantId: redM, quantity: 1 }])
+        ]);
+        expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+
+        // Stock of another variant does not cover this one
+        await expect(InventoryService.reserveStock([{ productId, variantId: redM, quantity: 1 }])).rejects.toThrow(
+            "Insufficient stock"
+        );
+
+        const reservations = await InventoryService.reserveStock([{ productId, variantId: redL, quantity: 3 }]);
+        let updated = await Product.findById(productId);
+        expect(updated?.findVariant(redL)?.quantity).toBe(1);
+        expect(updated?.quantity).toBe(1);
+
+        await InventoryService.releaseStock(reservations);
+        updated = await Product.findById(productId);
+        expect(updated?.findVariant(redL)?.quantity).toBe(4);
+        expect(updated?.quantity).toBe(4);
+    });
+
+    it("should keep reservations taken while variants are updated", async () => {
+        const product = await createShirt();
+        const productId = product._id!.toString();
+        const redM = variantOf(product, "Red", "M")._id.toString();
+        const redL = variantOf(product, "Red", "L")._id.toString();
+        await ProductService.updateStock(productId, 5, redL);
+
+        await Promise.all([
+            InventoryService.reserveStock([{ productId, variantId: redL, quantity: 2 }]),
+            ProductService.updateStock(productId, 8, redM),
+            ProductService.updateVariant(productId, redL, { price: 2500 }, userId),
+            ProductService.generateVariants(productId, undefined, userId)
+        ]);
+
+        const updated = await Product.findById(productId);
+        expect(updated?.findVariant(redL)?.quantity).toBe(3);
+        expect(updated?.findVariant(redL)?.price).toBe(2500);
+        expect(updated?.findVariant(redM)?.quantity).toBe(8);
+        expect(updated?.quantity).toBe(11);
+    });
+});
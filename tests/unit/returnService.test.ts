@@ -0,0 +1,98 @@
+import mongoose from "mongoose";
+import { ReturnService } from "../../src/services/returnService";
+import { OrderService } from "../../src/services/orderService";
+import { CartService } from "../../src/services/cartService";
+import { Product } from "../../src/models/Product";
+import { Order } from "../../src/models/Order";
+import { createProduct } from "../factories";
+
+describe("ReturnService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+    const adminId = new mongoose.Types.ObjectId().toString();
+
+    const shippingAddress = {
+        firstName: "John",
+        lastName: "Doe",
+        street: "1 Le Loi",
+        city: "Ho Chi Minh",
+        state: "HCM",
+        zipCode: "700000",
+        country: "VN"
+    };
+
+    const placeDeliveredOrder = async (productOverrides: Record<string, any> = {}) => {
+        const product = await createProduct({ quantity: 5, ...productOverrides });
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+        const { order } = await OrderService.createOrder(
+            { shippingAddress, paymentMethod: "cash_on_delivery" },
+            userId
+        );
+
+        for (const status of ["confirmed", "processing", "shipped", "delivered"]) {
+            await order.updateStatus(status, undefined, adminId);
+        }
+
+        return { product, order, itemId: order.items[0]._id!.toString() };
+    };
+
+    it("should refund and restock the items once an approved return is received", async () => {
+        const { product, order, itemId } = await placeDeliveredOrder();
+
+        const returnRequest = await ReturnService.createReturn(
+            {
+                orderId: order._id!.toString(),
+                items: [{ itemId, quantity: 1 }],
+                reason: "Wrong size",
+                photos: ["https://example.com/photo.jpg"]
+            },
+            userId
+        );
+        expect(returnRequest.status).toBe("requested");
+        expect(returnRequest.returnNumber).toMatch(/^RMA-/);
+
+        await ReturnService.approveReturn(returnRequest._id!.toString(), adminId);
+        const received = await ReturnService.receiveReturn(returnRequest._id!.toString(), adminId);
+
+        expect(received.status).toBe("received");
+        expect(received.refundAmount).toBe(100);
+        expect(received.history.map((entry) => entry.status)).toEqual(["requested", "approved", "received"]);
+
+        const updatedOrder = await Order.findById(order._id);
+        expect(updatedOrder?.items[0].refundedQuantity).toBe(1);
+        expect(updatedOrder?.payment.refundAmount).toBe(100);
+        expect((await Product.findById(product._id))?.quantity).toBe(4);
+    });
+
+    it("should not let open requests claim more units than were ordered", async () => {
+        const { order, itemId } = await placeDeliveredOrder();
+        const data = { orderId: order._id!.toString(), items: [{ itemId, quantity: 2 }], reason: "Defective" };
+
+        await ReturnService.createReturn(data, userId);
+        await expect(ReturnService.createReturn(data, userId)).rejects.toThrow("Only 0 unit(s)");
+    });
+
+    it("should honour a product's own return window", async () => {
+        const { order, itemId } = await placeDeliveredOrder({ returnWindowDays: 0 });
+
+        await expect(
+            ReturnService.createReturn(
+                { orderId: order._id!.toString(), items: [{ itemId, quantity: 1 }], reason: "Changed my mind" },
+                userId
+            )
+        ).rejects.toThrow("return window");
+    });
+
+    it("should not receive a rejected return", async () => {
+        const { order, itemId } = await placeDeliveredOrder();
+        const returnRequest = await ReturnService.createReturn(
+            { orderId: order._id!.toString(), items: [{ itemId, quantity: 1 }], reason: "Changed my mind" },
+            userId
+        );
+
+        await ReturnService.rejectReturn(returnRequest._id!.toString(), adminId, "Item was worn");
+
+        await expect(ReturnService.receiveReturn(returnRequest._id!.toString(), adminId)).rejects.toThrow(
+            "Cannot change return status from rejected to received"
+        );
+    });
+});
@@ -0,0 +1,85 @@
+import mongoose from "mongoose";
+import { SearchAnalyticsService } from "../../src/services/searchAnalyticsService";
+import { SearchLog } from "../../src/models/SearchLog";
+import { createProduct } from "../factories";
+
+describe("SearchAnalyticsService", () => {
+    // Made-up queries per test, so logs of other tests never group with them
+    const uniqueQuery = (text: string) => `${text} ${Math.random().toString(36).substring(2, 10)}`;
+    const since = () => new Date(Date.now() - 1000);
+
+    it("should log searches grouped by their accent-free query", async () => {
+        const dateFrom = since();
+        const query = uniqueQuery("Áo Thun");
+        const product = await createProduct();
+
+        const first = await SearchAnalyticsService.logSearch({
+            query,
+            filters: { minPrice: 100, brand: undefined },
+            resultCount: 4,
+            language: "vi"
+        });
+        await SearchAnalyticsService.logSearch({ query: query.toLowerCase(), resultCount: 2, language: "en" });
+        await SearchAnalyticsService.recordClick(first!, product._id!.toString(), 1);
+        await SearchAnalyticsService.recordCartAdd(first!, product._id!.toString());
+        // Adding the same product again counts once
+        await SearchAnalyticsService.recordCartAdd(first!, product._id!.toString());
+
+        const log = await SearchLog.findById(first);
+        expect(log!.filters).toEqual({ minPrice: 100 });
+        expect(log!.cartAdds).toHaveLength(1);
+
+        const [report] = (await SearchAnalyticsService.getTopQueries({ dateFrom, limit: 100 })).filter(
+            (row) => row.normalizedQuery === log!.normalizedQuery
+        );
+        expect(log!.normalizedQuery).toMatch(/^ao thun /);
+        expect(report).toMatchObject({
+            searches: 2,
+            zeroResultSearches: 0,
+            averageResults: 3,
+            clicks: 1,
+            clickThroughRate: 50,
+            conversionRate: 50
+        });
+    });
+
+    it("should report zero-result queries and conversion over the date range", async () => {
+        const dateFrom = since();
+        const missing = uniqueQuery("unicorn saddle");
+
+        await SearchAnalyticsService.logSearch({ query: missing, resultCount: 0, language: "en" });
+        await SearchAnalyticsService.logSearch({
+            query: missing,
+            filters: { inStock: true },
+            resultCount: 0,
+            language: "vi"
+        });
+
+        const zeroResults = await SearchAnalyticsService.getZeroResultQueries({ dateFrom, limit: 100 });
+        expect(zeroResults.find((row) => row.query === missing)).toMatchObject({
+            searches: 2,
+            filteredSearches: 1,
+            languages: ["en", "vi"]
+        });
+
+        const conversion = await SearchAnalyticsService.getConversion({ dateFrom });
+        expect(conversion.searches).toBeGreaterThanOrEqual(2);
+        expect(conversion.zeroResultSearches).toBeGreaterThanOrEqual(2);
+        expect(conversion.daily.reduce((sum, day) => sum + day.searches, 0)).toBe(conversion.searches);
+
+        await expect(
+            SearchAnalyticsService.getConversion({ dateFrom, dateTo: new Date(dateFrom.getTime() - 1000) })
+        ).rejects.toThrow("dateFrom must be before dateTo");
+    });
+
+    it("should reject clicks on unknown searches and skip empty queries", async () => {
+        const product = await createProduct();
+
+        await expect(
+            SearchAnalyticsService.recordClick(new mongoose.Types.ObjectId().toString(), product._id!.toString())
+        ).rejects.toThrow("Search not found");
+        expect(
+            await SearchAnalyticsService.logSearch({ query: " !? ", resultCount: 0, language: "en" })
+        ).toBeUndefined();
+    });
+});
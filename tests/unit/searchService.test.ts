@@ -0,0 +1,81 @@
+import { SearchService } from "../../src/services/searchService";
+import { ProductService } from "../../src/services/productService";
+import { createProduct } from "../factories";
+
+describe("SearchService", () => {
+    // A made-up word per test, so products of other tests never match
+    const randomWord = () =>
+        Array.from({ length: 8 }, () => String.fromCharCode(97 + Math.floor(Math.random() * 26))).join("");
+
+    beforeEach(() => {
+        SearchService.invalidateVocabulary();
+    });
+
+    it("should match Vietnamese names without accents and with small typos", async () => {
+        const word = randomWord();
+        const product = await createProduct({ name: `Áo thun cổ tròn ${word}` });
+
+        const withoutAccents = await ProductService.searchProducts(`ao thun co tron ${word}`);
+        expect(withoutAccents.products.map((item) => item._id!.toString())).toEqual([product._id!.toString()]);
+
+        // One letter missing
+        const misspelt = `${word.slice(0, 3)}${word.slice(4)}`;
+        const withTypos = await ProductService.searchProducts(`áo thun ${misspelt}`);
+        expect(withTypos.products.map((item) => item._id!.toString())).toEqual([product._id!.toString()]);
+
+        // Too far from any indexed word
+        const unrelated = await ProductService.searchProducts(`ao thun ${word.split("").reverse().join("")}x`);
+        expect(unrelated.products).toHaveLength(0);
+
+        // The search fields stay out of responses, which have the product virtuals like listings
+        expect(withoutAccents.products[0]).not.toHaveProperty("search");
+        expect(withoutAccents.products[0]).toMatchObject({
+            id: product._id!.toString(),
+            finalPrice: 100,
+            isInStock: true,
+            stockStatus: "in_stock"
+        });
+    });
+
+    it("should match words of other scripts and nothing for a query without words", async () => {
+        const word = randomWord();
+        const product = await createProduct({ name: `シャツ ${word}` });
+
+        const japanese = await ProductService.searchProducts(`シャツ ${word}`);
+        expect(japanese.products.map((item) => item._id!.toString())).toEqual([product._id!.toString()]);
+
+        const punctuation = await ProductService.searchProducts("!?");
+        expect(punctuation.products).toHaveLength(0);
+        expect(punctuation.pagination.total).toBe(0);
+
+        const listing = await ProductService.getProducts({ search: "!?" });
+        expect(listing.products).toHaveLength(0);
+    });
+
+    it("should rank name matches first, then featured, well rated and best selling products", async () => {
+        const word = randomWord();
+        const inDescription = await createProduct({ name: "Plain shirt", description: `Goes well with ${word}` });
+        const plain = await createProduct({ name: `${word} jacket` });
+        const featured = await createProduct({ name: `${word} coat`, isFeatured: true });
+        const bestSeller = await createProduct({ name: `${word} parka`, averageRating: 4.5, salesCount: 1000 });
+
+        const { products } = await ProductService.searchProducts(word);
+
+        expect(products.map((item) => item._id!.toString())).toEqual(
+            [bestSeller, featured, plain, inDescription].map((item) => item._id!.toString())
+        );
+    });
+
+    it("should suggest active products for an unfinished query", async () => {
+        const word = randomWord();
+        const product = await createProduct({ name: `Giày thể thao ${word}` });
+        await createProduct({ name: `Giày thể thao ${word} draft`, status: "draft" });
+
+        const suggestions = await SearchService.suggest(`giay the ${word} `.trim().slice(0, -2));
+
+        expect(suggestions).toEqual([
+            expect.objectContaining({ _id: product._id!.toString(), name: product.name, slug: product.slug })
+        ]);
+        expect(await SearchService.suggest("   ")).toEqual([]);
+    });
+});
@@ -0,0 +1,103 @@
+import mongoose from "mongoose";
+import { OrderService } from "../../src/services/orderService";
+import { CartService } from "../../src/services/cartService";
+import { ShipmentService, fakeCarrier } from "../../src/services/shipmentService";
+import { FakeCarrier } from "../../src/services/carriers/fakeCarrier";
+import { Order } from "../../src/models/Order";
+import { createProduct } from "../factories";
+
+describe("ShipmentService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+    const adminId = new mongoose.Types.ObjectId().toString();
+
+    const placeConfirmedOrder = async () => {
+        const product = await createProduct({ quantity: 5, weight: 0.3 });
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 3 }, userId);
+        const { order } = await OrderService.createOrder(
+            {
+                shippingAddress: {
+                    firstName: "John",
+                    lastName: "Doe",
+                    street: "1 Le Loi",
+                    city: "Ho Chi Minh",
+                    state: "HCM",
+                    zipCode: "700000",
+                    country: "VN"
+                },
+                paymentMethod: "cash_on_delivery"
+            },
+            userId
+        );
+        await order.updateStatus("confirmed", undefined, adminId);
+
+        return { order, itemId: order.items[0]._id!.toString() };
+    };
+
+    // Deliver a webhook signed the way the fake carrier signs it
+    const deliver = (event: Record<string, any>) => {
+        const rawBody = JSON.stringify(event);
+        return ShipmentService.handleWebhook("fake", {
+            headers: { "x-fake-signature": FakeCarrier.sign(rawBody) },
+            rawBody
+        });
+    };
+
+    beforeEach(() => fakeCarrier.reset());
+
+    it("should split an order across shipments and deliver it once every parcel arrives", async () => {
+        const { order, itemId } = await placeConfirmedOrder();
+
+        const first = await ShipmentService.createShipment(
+            order._id!.toString(),
+            { carrier: "fake", items: [{ itemId, quantity: 2 }] },
+            adminId
+        );
+        const second = await ShipmentService.createShipment(order._id!.toString(), { carrier: "fake" }, adminId);
+
+        expect(second.items[0].quantity).toBe(1);
+        // Only the first parcel collects the cash on delivery
+        expect(first.codAmount).toBe(order.total);
+        expect(second.codAmount).toBe(0);
+        expect((await Order.findById(order._id))?.status).toBe("processing");
+
+        await deliver({ trackingNumber: first.trackingNumber, status: "picked_up", eventId: "e1" });
+        expect((await Order.findById(order._id))?.status).toBe("shipped");
+
+        await deliver({ trackingNumber: first.trackingNumber, status: "delivered", eventId: "e2" });
+        expect((await Order.findById(order._id))?.status).toBe("shipped");
+
+        await deliver({ trackingNumber: second.trackingNumber, status: "delivered", eventId: "e3" });
+        const delivered = await Order.findById(order._id);
+        expect(delivered?.status).toBe("delivered");
+        expect(delivered?.payment.status).toBe("completed");
+    });
+
+    it("should ignore repeated webhooks and reject bad signatures", async () => {
+        const { order } = await placeConfirmedOrder();
+        const shipment = await ShipmentService.createShipment(order._id!.toString(), { carrier: "fake" }, adminId);
+        const event = { trackingNumber: shipment.trackingNumber, status: "in_transit", eventId: "e1" };
+
+        expect((await deliver(event)).duplicate).toBe(false);
+        const { duplicate, shipment: updated } = await deliver(event);
+        expect(duplicate).toBe(true);
+        expect(updated.events.filter((entry) => entry.eventId === "e1")).toHaveLength(1);
+
+        await expect(
+            ShipmentService.handleWebhook("fake", { headers: { "x-fake-signature": "bad" }, body: event })
+        ).rejects.toThrow("Invalid carrier webhook");
+    });
+
+    it("should hand the units of a cancelled label back for reshipping", async () => {
+        const { order, itemId } = await placeConfirmedOrder();
+        const shipment = await ShipmentService.createShipment(order._id!.toString(), { carrier: "fake" }, adminId);
+
+        await expect(
+            ShipmentService.createShipment(order._id!.toString(), { carrier: "fake" }, adminId)
+        ).rejects.toThrow("already been shipped");
+
+        await ShipmentService.cancelShipment(shipment._id!.toString(), adminId);
+
+        const updated = await Order.findById(order._id);
+        expect(updated?.items.find((item) => item._id?.toString() === itemId)?.shippedQuantity).toBe(0);
+    });
+});
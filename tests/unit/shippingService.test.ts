@@ -0,0 +1,101 @@
+import mongoose from "mongoose";
+import { ShippingService, ShippingLine } from "../../src/services/shippingService";
+import { CartService } from "../../src/services/cartService";
+import { OrderService } from "../../src/services/orderService";
+import { ShippingZone } from "../../src/models/ShippingZone";
+import { createProduct } from "../factories";
+
+describe("ShippingService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    const createVietnamZone = () =>
+        ShippingZone.create({
+            name: "Vietnam",
+            countries: ["VN"],
+            methods: [
+                { code: "standard", name: "Standard", type: "flat", baseRate: 30, estimatedDays: { min: 2, max: 4 } },
+                { code: "express", name: "Express", type: "weight", baseRate: 20, ratePerKg: 10 },
+                { code: "bulky", name: "Bulky freight", type: "volumetric", baseRate: 10, ratePerKg: 5 },
+                { code: "free", name: "Free shipping", type: "free_over_threshold", threshold: 500 }
+            ]
+        });
+
+    const lines: ShippingLine[] = [
+        {
+            productId: new mongoose.Types.ObjectId().toString(),
+            price: 100,
+            quantity: 2,
+            weight: 1.5,
+            dimensions: { length: 50, width: 40, height: 30, unit: "cm" },
+            requiresShipping: true
+        }
+    ];
+
+    it("should quote flat, weight and volumetric rates cheapest first", async () => {
+        await createVietnamZone();
+
+        const quotes = await ShippingService.quote({ country: "vn" }, lines);
+
+        // 3kg actual; 2 x 60000cm³ / 5000 = 24kg dimensional
+        expect(quotes.map((quote) => [quote.code, quote.cost])).toEqual([
+            ["standard", 30],
+            ["express", 50],
+            ["bulky", 130]
+        ]);
+    });
+
+    it("should offer free shipping over the threshold and for free-shipping coupons", async () => {
+        await createVietnamZone();
+
+        const overThreshold = await ShippingService.quote({ country: "VN" }, lines, { subtotal: 600 });
+        expect(overThreshold[0]).toMatchObject({ code: "free", cost: 0 });
+
+        const withCoupon = await ShippingService.quote({ country: "VN" }, lines, { freeShipping: true });
+        expect(withCoupon.every((quote) => quote.cost === 0)).toBe(true);
+    });
+
+    it("should prefer a state zone and reject unreachable addresses", async () => {
+        await createVietnamZone();
+        await ShippingZone.create({
+            name: "Ho Chi Minh City",
+            countries: ["VN"],
+            states: ["HCM"],
+            methods: [{ code: "same-day", name: "Same day", type: "flat", baseRate: 15 }]
+        });
+
+        const quotes = await ShippingService.quote({ country: "VN", state: "hcm" }, lines);
+        expect(quotes.map((quote) => quote.code)).toEqual(["same-day"]);
+
+        await expect(ShippingService.resolveMethod({ country: "US" }, lines)).rejects.toThrow("do not ship");
+    });
+
+    it("should price the chosen method into the order", async () => {
+        await createVietnamZone();
+        const product = await createProduct({ quantity: 5, weight: 0.5 });
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+
+        const options = await CartService.getShippingOptions({ country: "VN" }, userId);
+        expect(options.map((option) => option.code)).toEqual(["bulky", "standard", "express"]);
+
+        const { order } = await OrderService.createOrder(
+            {
+                shippingAddress: {
+                    firstName: "John",
+                    lastName: "Doe",
+                    street: "1 Le Loi",
+                    city: "Ho Chi Minh",
+                    state: "HCM",
+                    zipCode: "700000",
+                    country: "VN"
+                },
+                paymentMethod: "cash_on_delivery",
+                shippingMethod: "express"
+            },
+            userId
+        );
+
+        expect(order.shippingMethod).toBe("express");
+        expect(order.shippingCost).toBe(30);
+        expect(order.total).toBe(230);
+    });
+});
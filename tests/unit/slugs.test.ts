@@ -0,0 +1,55 @@
+import mongoose from "mongoose";
+import { slugify } from "../../src/utils/slug";
+import { ProductService } from "../../src/services/productService";
+import { Category } from "../../src/models/Category";
+import { createProduct } from "../factories";
+
+describe("Slugs", () => {
+    it("should transliterate Vietnamese names", () => {
+        expect(slugify("Áo dài Đỏ thắm")).toBe("ao-dai-do-tham");
+        expect(slugify("  Nón lá -- Huế! ")).toBe("non-la-hue");
+        expect(slugify("Bánh mì & Phở 100%")).toBe("banh-mi-pho-100");
+    });
+
+    it("should generate a unique slug for products with the same name", async () => {
+        const name = `Áo thun ${Date.now()}`;
+        const first = await createProduct({ name });
+        const second = await createProduct({ name });
+
+        expect(second.slug).toBe(`${first.slug}-2`);
+    });
+
+    it("should keep the old slug on rename and find the product by it", async () => {
+        const userId = new mongoose.Types.ObjectId().toString();
+        const product = await createProduct({ name: `Giày đá bóng ${Date.now()}` });
+        const oldSlug = product.slug;
+
+        const renamed = await ProductService.updateProduct(
+            product._id!.toString(),
+            { name: `Giày thể thao ${Date.now()}` },
+            userId
+        );
+        expect(renamed.slug).not.toBe(oldSlug);
+        expect(renamed.slugHistory).toEqual([oldSlug]);
+
+        const found = await ProductService.getProductBySlug(oldSlug);
+        expect(found.slug).toBe(renamed.slug);
+
+        // Another product cannot take over the old slug, so the redirect keeps working
+        const name = product.name;
+        const other = await createProduct({ name });
+        expect(other.slug).toBe(`${oldSlug}-2`);
+    });
+
+    it("should keep redirect history for categories", async () => {
+        const category = await Category.create({ name: `Đồ gia dụng ${Date.now()}` });
+        const oldSlug = category.slug;
+
+        category.name = `Nhà bếp ${Date.now()}`;
+        await category.save();
+
+        expect(category.slug).toMatch(/^nha-bep-/);
+        expect(category.slugHistory).toEqual([oldSlug]);
+        expect((await Category.findOne({ slugHistory: oldSlug }))?._id?.toString()).toBe(category._id!.toString());
+    });
+});
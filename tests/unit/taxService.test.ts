@@ -0,0 +1,78 @@
+import mongoose from "mongoose";
+import { TaxService, TaxableLine } from "../../src/services/taxService";
+import { CartService } from "../../src/services/cartService";
+import { OrderService } from "../../src/services/orderService";
+import { TaxRule } from "../../src/models/TaxRule";
+import { createProduct } from "../factories";
+
+describe("TaxService", () => {
+    const userId = new mongoose.Types.ObjectId().toString();
+    const bookCategory = new mongoose.Types.ObjectId().toString();
+
+    const lines: TaxableLine[] = [
+        { productId: new mongoose.Types.ObjectId().toString(), price: 10000, quantity: 2 },
+        { productId: new mongoose.Types.ObjectId().toString(), category: bookCategory, price: 5000, quantity: 1 },
+        { productId: new mongoose.Types.ObjectId().toString(), taxExempt: true, price: 3000, quantity: 1 }
+    ];
+
+    it("should add VAT-exclusive tax using the most specific rule", async () => {
+        await TaxRule.create([
+            { name: "US federal", country: "US", rate: 0.05 },
+            { name: "CA sales tax", country: "US", state: "CA", rate: 0.0725 },
+            { name: "Books", country: "US", category: bookCategory, rate: 0 }
+        ]);
+
+        const result = await TaxService.calculate({ country: "us", state: "CA" }, lines, 0, "USD");
+
+        expect(result.lines.map((line) => line.rate)).toEqual([0.0725, 0, 0]);
+        expect(result.tax).toBe(1450);
+        expect(result.addedTax).toBe(1450);
+        expect(result.breakdown).toEqual([
+            { name: "CA sales tax", rate: 0.0725, inclusive: false, taxableAmount: 20000, amount: 1450 }
+        ]);
+    });
+
+    it("should carve VAT out of inclusive prices after the discount", async () => {
+        await TaxRule.create({ name: "VAT 10%", country: "VN", rate: 0.1, priceIncludesTax: true });
+
+        const result = await TaxService.calculate({ country: "VN" }, [lines[0]], 2000, "USD");
+
+        // $180.00 paid, of which 180 / 1.1 is the net price
+        expect(result.tax).toBe(1636);
+        expect(result.addedTax).toBe(0);
+        expect(result.breakdown[0]).toMatchObject({ inclusive: true, taxableAmount: 16364, amount: 1636 });
+    });
+
+    it("should persist per-line tax and the breakdown on the order", async () => {
+        await TaxRule.create({ name: "VAT 10%", country: "VN", rate: 0.1 });
+        const product = await createProduct({ quantity: 5 });
+
+        await CartService.addToCart({ productId: product._id!.toString(), quantity: 2 }, userId);
+        const { summary } = await CartService.getCartSummary(userId);
+        expect(summary.tax).toBe(20);
+        expect(summary.total).toBe(220);
+
+        const { order } = await OrderService.createOrder(
+            {
+                shippingAddress: {
+                    firstName: "John",
+                    lastName: "Doe",
+                    street: "1 Le Loi",
+                    city: "Ho Chi Minh",
+                    state: "HCM",
+                    zipCode: "700000",
+                    country: "VN"
+                },
+                paymentMethod: "cash_on_delivery"
+            },
+            userId
+        );
+
+        expect(order.items[0].tax).toBe(20);
+        expect(order.items[0].taxRate).toBe(0.1);
+        expect(order.tax).toBe(20);
+        expect(order.taxRate).toBe(0.1);
+        expect(order.taxBreakdown).toHaveLength(1);
+        expect(order.total).toBe(220 + order.shippingCost);
+    });
+});
@@ -0,0 +1,120 @@
+import mongoose from "mongoose";
+import { WishlistService } from "../../src/services/wishlistService";
+import { ProductService } from "../../src/services/productService";
+import { eventService } from "../../src/services/eventService";
+import { Wishlist } from "../../src/models/Wishlist";
+import { createProduct } from "../factories";
+
+describe("WishlistService", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should keep several named lists with one default", async () => {
+        const userId = new mongoose.Types.ObjectId().toString();
+
+        const first = await WishlistService.createWishlist({ name: "Birthday" }, userId);
+        const second = await WishlistService.createWishlist({ name: "Tết" }, userId);
+        expect(first.isDefault).toBe(true);
+        expect(second.isDefault).toBe(false);
+
+        await expect(WishlistService.createWishlist({ name: "birthday" }, userId)).rejects.toThrow(
+            "already have a wishlist named"
+        );
+
+        await WishlistService.updateWishlist(second._id!.toString(), { isDefault: true }, userId);
+        let lists = await WishlistService.getWishlists(userId);
+        expect(lists.map((list) => [list.name, list.isDefault])).toEqual([
+            ["Tết", true],
+            ["Birthday", false]
+        ]);
+
+        await WishlistService.deleteWishlist(second._id!.toString(), userId);
+        lists = await WishlistService.getWishlists(userId);
+        expect(lists.map((list) => [list.name, list.isDefault])).toEqual([["Birthday", true]]);
+
+        // Another user's list is not found
+        await expect(
+            WishlistService.getWishlist(first._id!.toString(), new mongoose.Types.ObjectId().toString())
+        ).rejects.toThrow("Wishlist not found");
+    });
+
+    it("should save variants as separate entries and report demand for out-of-stock items", async () => {
+        const userId = new mongoose.Types.ObjectId().toString();
+        const emit = jest.spyOn(eventService, "emitProductEvent").mockResolvedValue();
+        const product = await createProduct({ quantity: 0 });
+        const shirt = await ProductService.generateVariants(
+            product._id!.toString(),
+            [{ name: "Size", values: ["M", "L"] }],
+            userId
+        );
+        const productId = shirt._id!.toString();
+        const sizeM = shirt.findVariant(undefined, [{ name: "Size", value: "M" }])!;
+
+        await WishlistService.addItem({ productId }, userId);
+        await WishlistService.addItem({ productId, variantId: sizeM._id!.toString() }, userId);
+        const wishlist = await WishlistService.addItem(
+            { productId, variant: [{ name: "size", value: "m" }], note: "For Minh" },
+            userId
+        );
+
+        expect(wishlist.isDefault).toBe(true);
+        expect(wishlist.items).toHaveLength(2);
+        expect(wishlist.findItem(productId, sizeM._id!.toString())?.note).toBe("For Minh");
+
+        // Saving the same entry again is not new demand
+        expect(emit).toHaveBeenCalledTimes(2);
+        expect(emit).toHaveBeenLastCalledWith(
+            expect.objectContaining({
+                productId,
+                action: "add_to_wishlist",
+                metadata: expect.objectContaining({ variantId: sizeM._id!.toString(), inStock: false })
+            })
+        );
+    });
+
+    it("should move an item to the cart and take it off the list", async () => {
+        const userId = new mongoose.Types.ObjectId().toString();
+        jest.spyOn(eventService, "emitProductEvent").mockResolvedValue();
+        const inStock = await createProduct({ quantity: 5 });
+        const soldOut = await createProduct({ quantity: 0 });
+
+        await WishlistService.addItem({ productId: soldOut._id!.toString() }, userId);
+        const wishlist = await WishlistService.addItem({ productId: inStock._id!.toString() }, userId);
+        const [soldOutItem, inStockItem] = wishlist.items;
+
+        const { wishlist: updated, cart } = await WishlistService.moveToCart(
+            wishlist._id!.toString(),
+            inStockItem._id!.toString(),
+            userId,
+            2
+        );
+        expect(cart.totalItems).toBe(2);
+        expect(updated.items).toHaveLength(1);
+
+        // An item the cart refuses stays on the list
+        await expect(
+            WishlistService.moveToCart(wishlist._id!.toString(), soldOutItem._id!.toString(), userId)
+        ).rejects.toThrow("available in stock");
+        expect((await Wishlist.findById(wishlist._id))?.items).toHaveLength(1);
+    });
+
+    it("should show a shared list by its link until it is unshared", async () => {
+        const userId = new mongoose.Types.ObjectId().toString();
+        jest.spyOn(eventService, "emitProductEvent").mockResolvedValue();
+        const product = await createProduct({ quantity: 5 });
+        const wishlist = await WishlistService.addItem({ productId: product._id!.toString() }, userId);
+
+        const { shareToken } = await WishlistService.share(wishlist._id!.toString(), userId);
+        expect(shareToken).toBeDefined();
+        expect((await WishlistService.share(wishlist._id!.toString(), userId)).shareToken).toBe(shareToken);
+
+        const shared = await WishlistService.getSharedWishlist(shareToken!);
+        expect(shared).toMatchObject({ name: "My wishlist" });
+        expect(shared.items).toHaveLength(1);
+        expect(shared).not.toHaveProperty("user");
+
+        await WishlistService.unshare(wishlist._id!.toString(), userId);
+        await expect(WishlistService.getSharedWishlist(shareToken!)).rejects.toThrow("Wishlist not found");
+    });
+});